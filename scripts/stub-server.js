@@ -0,0 +1,137 @@
+/**
+ * Local Inventory Stub Server
+ *
+ * Serves the sample inventory fixtures from `src/data` as a JSON:API service so
+ * the HTTP inventory provider can be exercised without the real backend. Also
+ * serves the storage API of the REST storage adapter, keeping state in memory.
+ *
+ * Usage:
+ *   npm run stub-server                  # listens on http://localhost:4000
+ *   PORT=5000 PAGE_SIZE=10 npm run stub-server
+ *
+ * Then start the app against it:
+ *   REACT_APP_INVENTORY_API_URL=http://localhost:4000/inventory npm start
+ *   REACT_APP_STORAGE_API_URL=http://localhost:4000/storage npm start
+ *
+ * Endpoints:
+ *   GET /inventory/<resource>?page[number]=N   JSON:API collection with links.next
+ *   GET /inventory/<resource>?fail=500         Responds with a JSON:API error
+ *   GET|PUT|DELETE /storage/<key>              A saved value (404 when not saved)
+ *   GET /storage/                              { "keys": [...] }
+ *   Any /storage request with ?fail=500        Responds with that status
+ */
+
+const http = require('http');
+const path = require('path');
+const fs = require('fs');
+
+const PORT = Number(process.env.PORT || 4000);
+const PAGE_SIZE = Number(process.env.PAGE_SIZE || 25);
+const DATA_DIR = path.join(__dirname, '..', 'src', 'data');
+
+// Endpoint path -> fixture file
+const RESOURCES = {
+  's3-buckets': 's3Inventory.json',
+  'ec2-instances': 'ec2Inventory.json',
+  'rds-clusters': 'rdsInventory.json',
+  'vpcs': 'vpcInventory.json',
+  'ecs-clusters': 'ecsInventory.json',
+};
+
+// Storage key -> saved JSON text, lost when the server stops
+const storage = new Map();
+
+const send = (res, status, body, contentType = 'application/vnd.api+json') => {
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+  });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const handleStorage = (req, res, url) => {
+  const sendJson = (status, body) => send(res, status, body, 'application/json');
+  const failStatus = url.searchParams.get('fail');
+  if (failStatus) {
+    sendJson(Number(failStatus), { error: 'Stubbed failure' });
+    return;
+  }
+
+  const key = decodeURIComponent(url.pathname.replace(/^\/storage\/?/, ''));
+  if (!key) {
+    sendJson(req.method === 'GET' ? 200 : 405, { keys: Array.from(storage.keys()) });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    if (storage.has(key)) {
+      send(res, 200, storage.get(key), 'application/json');
+    } else {
+      sendJson(404, { error: `Nothing saved under ${key}` });
+    }
+  } else if (req.method === 'PUT') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        JSON.parse(body);
+      } catch {
+        sendJson(400, { error: 'Expected a JSON body' });
+        return;
+      }
+      storage.set(key, body);
+      sendJson(200, {});
+    });
+  } else if (req.method === 'DELETE') {
+    storage.delete(key);
+    sendJson(200, {});
+  } else {
+    sendJson(405, { error: `Method ${req.method} not allowed` });
+  }
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204, {});
+    return;
+  }
+
+  if (/^\/storage(\/|$)/.test(url.pathname)) {
+    handleStorage(req, res, url);
+    return;
+  }
+
+  const match = /^\/inventory\/([\w-]+)\/?$/.exec(url.pathname);
+  const file = match && RESOURCES[match[1]];
+  if (!file) {
+    send(res, 404, { errors: [{ status: '404', title: 'Not Found', detail: `No resource at ${url.pathname}` }] });
+    return;
+  }
+
+  const failStatus = url.searchParams.get('fail');
+  if (failStatus) {
+    send(res, Number(failStatus), { errors: [{ status: failStatus, title: 'Stubbed failure' }] });
+    return;
+  }
+
+  const { data } = JSON.parse(fs.readFileSync(path.join(DATA_DIR, file), 'utf8'));
+  const page = Math.max(1, Number(url.searchParams.get('page[number]') || 1));
+  const start = (page - 1) * PAGE_SIZE;
+  const hasNext = start + PAGE_SIZE < data.length;
+  const next = new URL(url.toString());
+  next.searchParams.set('page[number]', String(page + 1));
+
+  send(res, 200, {
+    data: data.slice(start, start + PAGE_SIZE),
+    links: { next: hasNext ? `${next.pathname}${next.search}` : null },
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Inventory stub server listening on http://localhost:${PORT}/inventory`);
+  console.log(`Storage stub listening on http://localhost:${PORT}/storage`);
+});
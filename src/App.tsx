@@ -7,7 +7,7 @@
  * Key Technical Concepts:
  * - React Router: Enables client-side routing with <Router>, <Routes>, and <Route> components
  * - Material-UI: A React UI framework that implements Google's Material Design
- * - Context API: Used via ThemeProvider and CustomPagesProvider for state management
+ * - Context API: Used via ThemeProvider, InventoryDataProvider and CustomPagesProvider for state management
  * - Flexbox Layout: Utilized through MUI's Box component for responsive design
  */
 
@@ -16,6 +16,8 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Box, CssBaseline } from '@mui/material';
 import Header from './components/Layout/Header';
 import Sidebar from './components/Layout/Sidebar';
+import UndoSnackbar from './components/Layout/UndoSnackbar';
+import StorageErrorSnackbar from './components/Layout/StorageErrorSnackbar';
 import EntryPage from './pages/EntryPage';
 import AppInfoPage from './pages/AppInfoPage';
 import PlatformInfoPage from './pages/PlatformInfoPage';
@@ -26,23 +28,31 @@ import S3Page from './pages/aws/S3Page';
 import VPCPage from './pages/aws/VPCPage';
 import ECSPage from './pages/aws/ECSPage';
 import CustomPage from './pages/CustomPage';
+import SharedPage from './pages/SharedPage';
 import { ThemeProvider } from './theme/ThemeContext';
 import { CustomPagesProvider } from './context/CustomPagesContext';
+import { InventoryDataProvider } from './context/InventoryContext';
+import { StorageProvider } from './context/StorageContext';
+import { SHARED_PAGE_PATH } from './utils/shareLink';
 
 /**
  * App Component
  * 
  * The main application component that sets up:
  * 1. Theme context for consistent styling
- * 2. Custom pages context for dynamic page management
- * 3. Router configuration for navigation
- * 4. Basic layout structure with header, sidebar, and main content area
+ * 2. Inventory data context for loading AWS resources
+ * 3. Storage context for saving pages, layouts and filters
+ * 4. Custom pages context for dynamic page management
+ * 5. Router configuration for navigation
+ * 6. Basic layout structure with header, sidebar, and main content area
  * 
  * Layout Structure:
  * - Uses MUI's Box component with flexbox for responsive layout
  * - CssBaseline: MUI's normalized CSS baseline
  * - Header: Fixed position app bar
  * - Sidebar: Navigation drawer
+ * - UndoSnackbar: Undo for deleted pages and widgets
+ * - StorageErrorSnackbar: Failed loads and saves, with a retry
  * - Main content: Flexible growing area for route content
  * 
  * @returns {JSX.Element} The rendered application
@@ -50,46 +60,53 @@ import { CustomPagesProvider } from './context/CustomPagesContext';
 function App() {
   return (
     <ThemeProvider>
-      <CustomPagesProvider>
-        <Router>
-          <Box sx={{ display: 'flex' }}>
-            <CssBaseline />
-            <Header />
-            <Sidebar />
-            {/* Main content area
-                sx props explanation:
-                - flexGrow: 1 -> allows the element to grow and fill available space
-                - p: 3 -> applies padding of 24px (3 * 8px theme spacing)
-                - marginTop: '64px' -> compensates for fixed header height */}
-            <Box
-              component="main"
-              sx={{
-                flexGrow: 1,
-                p: 3,
-                width: '100%',
-                marginTop: '64px',
-              }}
-            >
-              {/* Route Configuration:
-                  - Each Route maps a URL path to a specific component
-                  - Nested routes under /aws-inventory/ demonstrate hierarchical routing
-                  - Dynamic route (/custom/:id) shows parameter-based routing */}
-              <Routes>
-                <Route path="/" element={<EntryPage />} />
-                <Route path="/app-info" element={<AppInfoPage />} />
-                <Route path="/platform-info" element={<PlatformInfoPage />} />
-                <Route path="/aws-inventory" element={<AwsInventoryPage />} />
-                <Route path="/aws-inventory/ec2" element={<EC2Page />} />
-                <Route path="/aws-inventory/rds" element={<RDSPage />} />
-                <Route path="/aws-inventory/s3" element={<S3Page />} />
-                <Route path="/aws-inventory/vpc" element={<VPCPage />} />
-                <Route path="/aws-inventory/ecs" element={<ECSPage />} />
-                <Route path="/custom/:id" element={<CustomPage />} />
-              </Routes>
-            </Box>
-          </Box>
-        </Router>
-      </CustomPagesProvider>
+      <InventoryDataProvider>
+        <StorageProvider>
+          <CustomPagesProvider>
+            <Router>
+              <Box sx={{ display: 'flex' }}>
+                <CssBaseline />
+                <Header />
+                <Sidebar />
+                <UndoSnackbar />
+                <StorageErrorSnackbar />
+                {/* Main content area
+                    sx props explanation:
+                    - flexGrow: 1 -> allows the element to grow and fill available space
+                    - p: 3 -> applies padding of 24px (3 * 8px theme spacing)
+                    - marginTop: '64px' -> compensates for fixed header height */}
+                <Box
+                  component="main"
+                  sx={{
+                    flexGrow: 1,
+                    p: 3,
+                    width: '100%',
+                    marginTop: '64px',
+                  }}
+                >
+                  {/* Route Configuration:
+                      - Each Route maps a URL path to a specific component
+                      - Nested routes under /aws-inventory/ demonstrate hierarchical routing
+                      - Dynamic route (/custom/:id) shows parameter-based routing */}
+                  <Routes>
+                    <Route path="/" element={<EntryPage />} />
+                    <Route path="/app-info" element={<AppInfoPage />} />
+                    <Route path="/platform-info" element={<PlatformInfoPage />} />
+                    <Route path="/aws-inventory" element={<AwsInventoryPage />} />
+                    <Route path="/aws-inventory/ec2" element={<EC2Page />} />
+                    <Route path="/aws-inventory/rds" element={<RDSPage />} />
+                    <Route path="/aws-inventory/s3" element={<S3Page />} />
+                    <Route path="/aws-inventory/vpc" element={<VPCPage />} />
+                    <Route path="/aws-inventory/ecs" element={<ECSPage />} />
+                    <Route path="/custom/:id" element={<CustomPage />} />
+                    <Route path={SHARED_PAGE_PATH} element={<SharedPage />} />
+                  </Routes>
+                </Box>
+              </Box>
+            </Router>
+          </CustomPagesProvider>
+        </StorageProvider>
+      </InventoryDataProvider>
     </ThemeProvider>
   );
 }
@@ -3,7 +3,7 @@
  * 
  * A Material-UI based application header that implements:
  * 1. Fixed positioning at the top of the application
- * 2. Theme switching functionality
+ * 2. Theme switching functionality, including an Auto mode following the system's light/dark setting
  * 3. Responsive layout using MUI's Flexbox utilities
  * 
  * Technical Concepts Demonstrated:
@@ -21,10 +21,18 @@ import {
   IconButton,
   Menu,
   MenuItem,
-  Box
+  Box,
+  Divider,
+  ListSubheader
 } from '@mui/material';
 import { Palette as PaletteIcon } from '@mui/icons-material';
-import { useTheme } from '../../theme/ThemeContext';
+import { THEME_LABELS, THEME_SCHEMES, ThemeMode, useTheme } from '../../theme/ThemeContext';
+import { ColorScheme } from '../../utils/themePreference';
+
+/**
+ * The themes, in menu order
+ */
+const themeModes = Object.keys(THEME_LABELS) as ThemeMode[];
 
 /**
  * Header Component
@@ -37,7 +45,7 @@ import { useTheme } from '../../theme/ThemeContext';
  */
 const Header: React.FC = () => {
   // Access theme context for dynamic theme switching
-  const { currentTheme, setTheme } = useTheme();
+  const { preference, setTheme, setAutoTheme } = useTheme();
   
   // State for managing the theme selection menu
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
@@ -59,9 +67,9 @@ const Header: React.FC = () => {
 
   /**
    * Handles theme selection and updates the global theme
-   * @param theme - The selected theme identifier
+   * @param theme - The selected theme identifier, or 'auto' to follow the system setting
    */
-  const handleThemeChange = (theme: 'broadridge' | 'dark' | 'ocean' | 'forest' | 'nyc' | 'hibeanie' | 'india') => {
+  const handleThemeChange = (theme: ThemeMode | 'auto') => {
     setTheme(theme);
     handleClose();
   };
@@ -107,49 +115,42 @@ const Header: React.FC = () => {
               horizontal: 'right',
             }}
           >
-            {/* Theme Options - Each MenuItem represents a different theme */}
-            <MenuItem 
-              onClick={() => handleThemeChange('broadridge')}
-              selected={currentTheme === 'broadridge'}
-            >
-              Broadridge
-            </MenuItem>
-            <MenuItem 
-              onClick={() => handleThemeChange('dark')}
-              selected={currentTheme === 'dark'}
-            >
-              Dark
-            </MenuItem>
-            <MenuItem 
-              onClick={() => handleThemeChange('ocean')}
-              selected={currentTheme === 'ocean'}
-            >
-              Ocean
-            </MenuItem>
-            <MenuItem 
-              onClick={() => handleThemeChange('forest')}
-              selected={currentTheme === 'forest'}
-            >
-              Forest
-            </MenuItem>
-            <MenuItem 
-              onClick={() => handleThemeChange('nyc')}
-              selected={currentTheme === 'nyc'}
-            >
-              New York City
-            </MenuItem>
-            <MenuItem 
-              onClick={() => handleThemeChange('hibeanie')}
-              selected={currentTheme === 'hibeanie'}
-            >
-              Hi Beanie
-            </MenuItem>
-            <MenuItem 
-              onClick={() => handleThemeChange('india')}
-              selected={currentTheme === 'india'}
+            {/* Theme Options - Auto, then one MenuItem per theme */}
+            <MenuItem
+              onClick={() => handleThemeChange('auto')}
+              selected={preference.mode === 'auto'}
             >
-              India
+              Auto (follow system)
             </MenuItem>
+            {themeModes.map(theme => (
+              <MenuItem
+                key={theme}
+                onClick={() => handleThemeChange(theme)}
+                selected={preference.mode === theme}
+              >
+                {THEME_LABELS[theme]}
+              </MenuItem>
+            ))}
+
+            {/* In Auto mode, the themes shown for a light and a dark system setting */}
+            {preference.mode === 'auto' && (['light', 'dark'] as ColorScheme[]).map(scheme => [
+              <Divider key={`${scheme}-divider`} />,
+              <ListSubheader key={`${scheme}-header`}>
+                Auto: {scheme === 'light' ? 'Light' : 'Dark'} System Setting
+              </ListSubheader>,
+              ...themeModes
+                .filter(theme => THEME_SCHEMES[theme] === scheme)
+                .map(theme => (
+                  <MenuItem
+                    key={`${scheme}-${theme}`}
+                    onClick={() => setAutoTheme(scheme, theme)}
+                    selected={preference[scheme] === theme}
+                    sx={{ pl: 4 }}
+                  >
+                    {THEME_LABELS[theme]}
+                  </MenuItem>
+                )),
+            ])}
           </Menu>
         </Box>
       </Toolbar>
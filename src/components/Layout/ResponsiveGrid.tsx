@@ -0,0 +1,102 @@
+/**
+ * Responsive Grid Component
+ *
+ * The draggable, resizable widget grid shared by all dashboard pages. It
+ * measures its container and picks a breakpoint (and column count) from
+ * the available width, so the dashboard fits a laptop screen without
+ * scrolling sideways and uses the full width of a wall monitor.
+ *
+ * Technical Concepts:
+ * 1. React Grid Layout's Responsive grid with a layout per breakpoint
+ * 2. Container measurement with ResizeObserver (useElementSize)
+ * 3. Layouts completed for every breakpoint before rendering (utils/responsiveLayout)
+ */
+
+import React, { useMemo, useRef } from 'react';
+import { Box } from '@mui/material';
+import { ItemCallback, Layout, Layouts, Responsive } from 'react-grid-layout';
+import useElementSize from '../../hooks/useElementSize';
+import {
+  BREAKPOINTS,
+  completeLayouts,
+  GRID_COLS,
+  GRID_ROW_HEIGHT,
+  ResponsiveLayouts,
+  toResponsiveLayouts,
+} from '../../utils/responsiveLayout';
+import 'react-grid-layout/css/styles.css';
+import 'react-resizable/css/styles.css';
+
+// Shared empty default layout, so the completed layouts stay memoized
+const NO_ITEMS: Layout[] = [];
+
+/**
+ * ResponsiveGridProps Interface
+ * @property {ResponsiveLayouts} layouts - Saved layouts per breakpoint
+ * @property {Layout[]} [defaultLayout] - Positions of items missing from the saved layouts, at the widest breakpoint
+ * @property {Function} [onLayoutsChange] - Called with the layouts of all breakpoints when they change, and
+ *   whether the user changed them by dragging or resizing (rather than the grid, e.g. by compacting)
+ * @property {boolean} [readOnly=false] - Whether items stay in place (no dragging or resizing)
+ * @property {React.ReactNode} children - Grid items, keyed by layout item id
+ */
+interface ResponsiveGridProps {
+  layouts: ResponsiveLayouts;
+  defaultLayout?: Layout[];
+  onLayoutsChange?: (layouts: ResponsiveLayouts, edited: boolean) => void;
+  readOnly?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * ResponsiveGrid Component
+ *
+ * @component
+ * @param {ResponsiveGridProps} props - Component props
+ */
+const ResponsiveGrid: React.FC<ResponsiveGridProps> = ({
+  layouts,
+  defaultLayout = NO_ITEMS,
+  onLayoutsChange,
+  readOnly = false,
+  children,
+}) => {
+  const { ref, width } = useElementSize<HTMLDivElement>();
+  const complete = useMemo(() => completeLayouts(layouts, defaultLayout), [layouts, defaultLayout]);
+
+  // Set when a drag or resize moves an item; the grid reports the resulting layout right after
+  const userEdit = useRef(false);
+  const markEdited: ItemCallback = (_layout, before, after) => {
+    userEdit.current = before.x !== after.x || before.y !== after.y || before.w !== after.w || before.h !== after.h;
+  };
+
+  const handleLayoutChange = (_current: Layout[], all: Layouts) => {
+    const edited = userEdit.current;
+    userEdit.current = false;
+    onLayoutsChange?.(toResponsiveLayouts(all), edited);
+  };
+
+  return (
+    <Box ref={ref} sx={{ width: '100%' }}>
+      {/* The grid is only laid out once the container's width is known */}
+      {width > 0 && (
+        <Responsive
+          className="layout"
+          width={width}
+          layouts={complete}
+          breakpoints={BREAKPOINTS}
+          cols={GRID_COLS}
+          rowHeight={GRID_ROW_HEIGHT}
+          isDraggable={!readOnly}
+          isResizable={!readOnly}
+          onDragStop={markEdited}
+          onResizeStop={markEdited}
+          onLayoutChange={handleLayoutChange}
+        >
+          {children}
+        </Responsive>
+      )}
+    </Box>
+  );
+};
+
+export default ResponsiveGrid;
@@ -4,7 +4,7 @@
  * A Material-UI based sidebar that implements:
  * 1. Permanent drawer navigation
  * 2. Hierarchical menu structure with collapsible sections
- * 3. Dynamic custom pages management
+ * 3. Dynamic custom pages management, including new pages from templates
  * 4. React Router integration for navigation
  * 
  * Technical Concepts Demonstrated:
@@ -37,8 +37,6 @@ import {
   Tooltip,
   Tabs,
   Tab,
-  Snackbar,
-  Alert,
 } from '@mui/material';
 import {
   Home,
@@ -57,10 +55,15 @@ import {
   Delete as DeleteIcon,
   Refresh as RefreshIcon,
   Share as ShareIcon,
+  Backup as BackupIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useCustomPages } from '../../context/CustomPagesContext';
-import { parse } from 'yaml';
+import TemplateGallery from '../PageTemplates/TemplateGallery';
+import PageConfigInput from '../PageConfig/PageConfigInput';
+import WorkspaceDialog from '../Workspace/WorkspaceDialog';
+import usePageConfigImport from '../../hooks/usePageConfigImport';
+import { PageTemplate } from '../../utils/pageTemplates';
 
 // Width of the drawer in pixels - MUI recommended width for permanent drawers
 const drawerWidth = 240;
@@ -86,15 +89,17 @@ const Sidebar: React.FC = () => {
   // State for managing the "Add New Page" dialog
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newPageTitle, setNewPageTitle] = useState('');
-  const [importJson, setImportJson] = useState('');
+  const configImport = usePageConfigImport();
   const [showImportTab, setShowImportTab] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<PageTemplate | null>(null);
   
   // Custom pages context for managing dynamic pages
-  const { pages, addPage, removePage, resetAllPages, importPage } = useCustomPages();
+  const { pages, loadStatus, addPage, addPageFromTemplate, removePage, resetAllPages } = useCustomPages();
   
-  // State for reset confirmation dialog
+  // State for reset and page deletion confirmation dialogs
   const [showResetConfirm, setShowResetConfirm] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [pageToDelete, setPageToDelete] = useState<{ id: string; title: string } | null>(null);
+  const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
 
   /**
    * Toggles the AWS resources section expansion state
@@ -110,15 +115,43 @@ const Sidebar: React.FC = () => {
     setCustomPagesOpen(!customPagesOpen);
   };
 
+  /**
+   * Closes the "Add New Page" dialog and clears its inputs
+   */
+  const closeAddDialog = () => {
+    setIsDialogOpen(false);
+    setShowImportTab(false);
+    configImport.clear();
+    setNewPageTitle('');
+    setSelectedTemplate(null);
+  };
+
+  /**
+   * Chooses the template of the new page
+   * The template's name becomes the page title unless a title was typed.
+   * @param {PageTemplate | null} template - The template, or null for a blank page
+   */
+  const handleSelectTemplate = (template: PageTemplate | null) => {
+    if (!newPageTitle.trim() || newPageTitle === selectedTemplate?.name) {
+      setNewPageTitle(template?.name ?? '');
+    }
+    setSelectedTemplate(template);
+  };
+
   /**
    * Handles the creation of a new custom page
-   * Validates and adds the page to the context
+   * Validates and adds the page to the context; pages created from a
+   * template are opened right away
    */
   const handleAddPage = () => {
     if (newPageTitle.trim()) {
-      addPage(newPageTitle);
-      setIsDialogOpen(false);
-      setNewPageTitle('');
+      if (selectedTemplate) {
+        const pageId = addPageFromTemplate(newPageTitle.trim(), selectedTemplate);
+        navigate(`/custom/${pageId}`);
+      } else {
+        addPage(newPageTitle);
+      }
+      closeAddDialog();
     }
   };
 
@@ -132,20 +165,25 @@ const Sidebar: React.FC = () => {
     navigate('/');
   };
 
+  /**
+   * Deletes the page awaiting confirmation
+   */
+  const handleDeletePage = () => {
+    if (pageToDelete) {
+      removePage(pageToDelete.id);
+    }
+    setPageToDelete(null);
+  };
+
   /**
    * Handles creating a new page from YAML configuration
+   * Problems found in the configuration are listed in the dialog.
    */
   const handleImportPage = () => {
-    try {
-      const config = parse(importJson);
-      importPage(config);
-      setIsDialogOpen(false);
-      setImportJson('');
-      setShowImportTab(false);
-      setError(null);
-    } catch (error) {
-      console.error('Invalid YAML configuration:', error);
-      setError(error instanceof Error ? error.message : 'Invalid YAML configuration');
+    const pageId = configImport.importText();
+    if (pageId) {
+      closeAddDialog();
+      navigate(`/custom/${pageId}`);
     }
   };
 
@@ -321,7 +359,7 @@ const Sidebar: React.FC = () => {
                     size="small"
                     onClick={(e) => {
                       e.stopPropagation();
-                      removePage(page.id);
+                      setPageToDelete({ id: page.id, title: page.title });
                     }}
                   >
                     <DeleteIcon fontSize="small" />
@@ -332,6 +370,7 @@ const Sidebar: React.FC = () => {
               <ListItemButton
                 sx={{ pl: 4 }}
                 onClick={() => setIsDialogOpen(true)}
+                disabled={loadStatus !== 'ready'}
               >
                 <ListItemIcon>
                   <AddIcon />
@@ -344,6 +383,17 @@ const Sidebar: React.FC = () => {
       </Box>
 
       <Box sx={{ position: 'fixed', bottom: 0, width: drawerWidth, p: 2, borderTop: 1, borderColor: 'divider' }}>
+        <Tooltip title="Export or import all custom pages and settings">
+          <Button
+            fullWidth
+            variant="outlined"
+            startIcon={<BackupIcon />}
+            onClick={() => setIsWorkspaceOpen(true)}
+            sx={{ mb: 1 }}
+          >
+            Workspace Backup
+          </Button>
+        </Tooltip>
         <Tooltip title="Reset all custom pages and modifications">
           <Button
             fullWidth
@@ -359,11 +409,7 @@ const Sidebar: React.FC = () => {
 
       <Dialog
         open={isDialogOpen}
-        onClose={() => {
-          setIsDialogOpen(false);
-          setShowImportTab(false);
-          setImportJson('');
-        }}
+        onClose={closeAddDialog}
         maxWidth="sm"
         fullWidth
       >
@@ -385,89 +431,77 @@ const Sidebar: React.FC = () => {
               <Typography variant="body2" sx={{ mb: 2 }}>
                 Paste the page configuration YAML below:
               </Typography>
+              <PageConfigInput
+                value={configImport.text}
+                onChange={configImport.changeText}
+                issues={configImport.issues}
+              />
+            </>
+          ) : (
+            <>
               <TextField
-                multiline
+                autoFocus
+                margin="dense"
+                label="Page Title"
                 fullWidth
-                rows={15}
-                value={importJson}
-                onChange={(e) => setImportJson(e.target.value)}
-                placeholder="Paste configuration YAML here..."
-                error={importJson !== '' && !isValidYaml(importJson)}
-                helperText={importJson !== '' && !isValidYaml(importJson) ? 'Invalid YAML format' : ''}
-                sx={{
-                  '& .MuiInputBase-input': {
-                    fontFamily: 'monospace',
-                    fontSize: '0.875rem',
-                  }
-                }}
+                value={newPageTitle}
+                onChange={(e) => setNewPageTitle(e.target.value)}
               />
+              <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+                Start from
+              </Typography>
+              <TemplateGallery selected={selectedTemplate} onSelect={handleSelectTemplate} />
             </>
-          ) : (
-            <TextField
-              autoFocus
-              margin="dense"
-              label="Page Title"
-              fullWidth
-              value={newPageTitle}
-              onChange={(e) => setNewPageTitle(e.target.value)}
-            />
           )}
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => {
-            setIsDialogOpen(false);
-            setShowImportTab(false);
-            setImportJson('');
-          }}>
+          <Button onClick={closeAddDialog}>
             Cancel
           </Button>
           <Button
             onClick={showImportTab ? handleImportPage : handleAddPage}
             variant="contained"
             color="primary"
-            disabled={showImportTab ? !isValidYaml(importJson) : !newPageTitle.trim()}
+            disabled={showImportTab ? !configImport.text.trim() : !newPageTitle.trim()}
           >
             {showImportTab ? 'Import' : 'Add'}
           </Button>
         </DialogActions>
       </Dialog>
 
+      {isWorkspaceOpen && <WorkspaceDialog onClose={() => setIsWorkspaceOpen(false)} />}
+
       <Dialog open={showResetConfirm} onClose={() => setShowResetConfirm(false)}>
         <DialogTitle>Confirm Reset</DialogTitle>
         <DialogContent>
           Are you sure you want to reset all custom pages? This action cannot be undone.
+          Export a workspace backup first to be able to restore them.
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setShowResetConfirm(false)}>Cancel</Button>
+          <Button onClick={() => { setShowResetConfirm(false); setIsWorkspaceOpen(true); }}>
+            Back Up First
+          </Button>
           <Button onClick={handleReset} color="error" variant="contained">
             Reset
           </Button>
         </DialogActions>
       </Dialog>
 
-      {/* Error Snackbar */}
-      <Snackbar
-        open={!!error}
-        autoHideDuration={6000}
-        onClose={() => setError(null)}
-        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
-      >
-        <Alert onClose={() => setError(null)} severity="error" sx={{ width: '100%' }}>
-          {error}
-        </Alert>
-      </Snackbar>
+      <Dialog open={pageToDelete !== null} onClose={() => setPageToDelete(null)}>
+        <DialogTitle>Delete Page</DialogTitle>
+        <DialogContent>
+          Delete the page "{pageToDelete?.title}" and its widgets? You can undo this with the Undo button shown after deleting.
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPageToDelete(null)}>Cancel</Button>
+          <Button onClick={handleDeletePage} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Drawer>
   );
 };
 
-// Helper function to validate YAML
-const isValidYaml = (str: string): boolean => {
-  try {
-    parse(str);
-    return true;
-  } catch (e) {
-    return false;
-  }
-};
-
-export default Sidebar; 
\ No newline at end of file
+export default Sidebar;
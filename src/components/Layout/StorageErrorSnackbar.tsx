@@ -0,0 +1,46 @@
+/**
+ * Storage Error Snackbar Component
+ *
+ * Tells the user when their changes could not be saved, or their custom
+ * pages could not be loaded, with the storage's error message. Failed saves
+ * can be retried; the changes stay queued until they are saved.
+ */
+
+import React from 'react';
+import { Alert, Button, Snackbar } from '@mui/material';
+import { useStorage } from '../../context/StorageContext';
+import { useCustomPages } from '../../context/CustomPagesContext';
+
+/**
+ * StorageErrorSnackbar Component
+ *
+ * @component
+ */
+const StorageErrorSnackbar: React.FC = () => {
+  const { adapter, saveState, retrySave } = useStorage();
+  const { loadError } = useCustomPages();
+
+  const message = loadError
+    ? `Custom pages could not be loaded from ${adapter.name}, so changes are not saved: ${loadError.message}`
+    : saveState.error
+      ? `Changes could not be saved to ${adapter.name}: ${saveState.error.message}`
+      : null;
+
+  return (
+    <Snackbar open={message !== null} anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}>
+      <Alert
+        severity="error"
+        variant="filled"
+        action={!loadError && (
+          <Button color="inherit" size="small" onClick={retrySave}>
+            Retry
+          </Button>
+        )}
+      >
+        {message}
+      </Alert>
+    </Snackbar>
+  );
+};
+
+export default StorageErrorSnackbar;
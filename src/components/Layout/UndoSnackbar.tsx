@@ -0,0 +1,60 @@
+/**
+ * Undo Snackbar Component
+ *
+ * Offers to undo destructive edits of custom pages, such as deleting a page
+ * or a widget. The undo/redo keyboard shortcuts are bound by CustomPage.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Snackbar } from '@mui/material';
+import { useCustomPages } from '../../context/CustomPagesContext';
+
+/**
+ * UndoSnackbar Component
+ *
+ * @component
+ */
+const UndoSnackbar: React.FC = () => {
+  const { lastEdit, undo } = useCustomPages();
+  const [shown, setShown] = useState<{ id: number; label: string } | null>(null);
+  const [lastShownId, setLastShownId] = useState(0);
+
+  // Show each destructive edit once; undone and redone edits keep their id
+  useEffect(() => {
+    if (lastEdit?.destructive && lastEdit.id > lastShownId) {
+      setShown({ id: lastEdit.id, label: lastEdit.label });
+      setLastShownId(lastEdit.id);
+    }
+  }, [lastEdit, lastShownId]);
+
+  // Undoing from here only makes sense while the edit is still the latest one
+  const canUndo = shown !== null && lastEdit?.id === shown.id;
+
+  return (
+    <Snackbar
+      open={canUndo}
+      autoHideDuration={8000}
+      onClose={(_event, reason) => {
+        if (reason !== 'clickaway') {
+          setShown(null);
+        }
+      }}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      message={shown?.label}
+      action={
+        <Button
+          color="inherit"
+          size="small"
+          onClick={() => {
+            undo();
+            setShown(null);
+          }}
+        >
+          Undo
+        </Button>
+      }
+    />
+  );
+};
+
+export default UndoSnackbar;
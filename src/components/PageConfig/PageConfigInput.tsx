@@ -0,0 +1,78 @@
+/**
+ * Page Config Input Component
+ *
+ * The text area for pasting a page configuration (YAML), with the problems
+ * found when importing it listed underneath by field path. Used by every
+ * place pages are imported, together with usePageConfigImport.
+ */
+
+import React from 'react';
+import { Alert, Box, TextField, Typography } from '@mui/material';
+import { PageConfigIssue } from '../../utils/pageConfig';
+
+/**
+ * Issues listed before the rest are summarized
+ */
+const MAX_LISTED_ISSUES = 10;
+
+/**
+ * PageConfigInputProps Interface
+ * @property {string} value - The YAML text
+ * @property {Function} onChange - Called with the edited text
+ * @property {PageConfigIssue[]} issues - Problems found in the text
+ */
+interface PageConfigInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  issues: PageConfigIssue[];
+}
+
+/**
+ * PageConfigInput Component
+ *
+ * @component
+ * @param {PageConfigInputProps} props - Component props
+ */
+const PageConfigInput: React.FC<PageConfigInputProps> = ({ value, onChange, issues }) => (
+  <>
+    <TextField
+      multiline
+      fullWidth
+      rows={15}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Paste configuration YAML here..."
+      error={issues.length > 0}
+      sx={{
+        '& .MuiInputBase-input': {
+          fontFamily: 'monospace',
+          fontSize: '0.875rem',
+        }
+      }}
+    />
+    {issues.length > 0 && (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        <Typography variant="body2" sx={{ mb: 0.5 }}>
+          The configuration cannot be imported:
+        </Typography>
+        <Box component="ul" sx={{ m: 0, pl: 2 }}>
+          {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+            <li key={index}>
+              <Typography variant="body2">
+                {issue.path && <Box component="code" sx={{ fontFamily: 'monospace', mr: 1 }}>{issue.path}</Box>}
+                {issue.message}
+              </Typography>
+            </li>
+          ))}
+        </Box>
+        {issues.length > MAX_LISTED_ISSUES && (
+          <Typography variant="body2" sx={{ mt: 0.5 }}>
+            and {issues.length - MAX_LISTED_ISSUES} more problems
+          </Typography>
+        )}
+      </Alert>
+    )}
+  </>
+);
+
+export default PageConfigInput;
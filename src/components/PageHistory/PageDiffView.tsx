@@ -0,0 +1,72 @@
+/**
+ * Page Diff View Component
+ *
+ * Lists the differences between two versions of a custom page: a renamed
+ * page, added and removed widgets, and per widget what changed (title,
+ * settings, position or size at each breakpoint).
+ */
+
+import React from 'react';
+import { Box, Chip, Stack, Typography } from '@mui/material';
+import { getWidgetDefinition } from '../../widgets';
+import { isDiffEmpty, PageDiff } from '../../utils/pageVersions';
+import { Widget } from '../../types/dashboard';
+
+/**
+ * One widget in the diff: its title, type and a colored change marker
+ */
+const WidgetLine: React.FC<{
+  widget: Widget;
+  marker: string;
+  color: 'success' | 'error' | 'info';
+  children?: React.ReactNode;
+}> = ({ widget, marker, color, children }) => (
+  <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1 }}>
+    <Chip size="small" color={color} label={marker} sx={{ minWidth: 72 }} />
+    <Box>
+      <Typography variant="body2">
+        {widget.title}{' '}
+        <Typography component="span" variant="caption" color="text.secondary">
+          {getWidgetDefinition(widget.type)?.displayName ?? widget.type}
+        </Typography>
+      </Typography>
+      {children}
+    </Box>
+  </Box>
+);
+
+/**
+ * PageDiffView Component
+ *
+ * @component
+ * @param {Object} props - Component props
+ * @param {PageDiff} props.diff - The differences to show
+ */
+const PageDiffView: React.FC<{ diff: PageDiff }> = ({ diff }) => {
+  if (isDiffEmpty(diff)) {
+    return <Typography variant="body2" color="text.secondary">No differences.</Typography>;
+  }
+
+  return (
+    <Stack spacing={1}>
+      {diff.title && (
+        <Typography variant="body2">
+          Page renamed from "{diff.title.from}" to "{diff.title.to}"
+        </Typography>
+      )}
+      {diff.added.map(widget => (
+        <WidgetLine key={widget.id} widget={widget} marker="Added" color="success" />
+      ))}
+      {diff.removed.map(widget => (
+        <WidgetLine key={widget.id} widget={widget} marker="Removed" color="error" />
+      ))}
+      {diff.changed.map(({ widget, changes }) => (
+        <WidgetLine key={widget.id} widget={widget} marker="Changed" color="info">
+          <Typography variant="caption" color="text.secondary">{changes.join(' · ')}</Typography>
+        </WidgetLine>
+      ))}
+    </Stack>
+  );
+};
+
+export default PageDiffView;
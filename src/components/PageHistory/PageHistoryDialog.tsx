@@ -0,0 +1,202 @@
+/**
+ * Page History Dialog Component
+ *
+ * The version history of a custom page: lists saved and automatic versions,
+ * compares any version with the current page or another version, and
+ * restores a version. Versions can also be saved by hand under a name.
+ *
+ * The component stays mounted while its page is open, even with the dialog
+ * closed, so that automatic versions are recorded as the page is edited.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Snackbar,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CustomPage, useCustomPages } from '../../context/CustomPagesContext';
+import usePageVersions from '../../hooks/usePageVersions';
+import { diffPages, PageContent, toPageContent } from '../../utils/pageVersions';
+import PageDiffView from './PageDiffView';
+
+/**
+ * Value of the comparison target meaning the page as it is now
+ */
+const CURRENT = 'current';
+
+/**
+ * PageHistoryDialogProps Interface
+ * @property {CustomPage} page - The page
+ * @property {boolean} open - Whether the dialog is shown
+ * @property {Function} onClose - Closes the dialog
+ */
+interface PageHistoryDialogProps {
+  page: CustomPage;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * PageHistoryDialog Component
+ *
+ * @component
+ * @param {PageHistoryDialogProps} props - Component props
+ */
+const PageHistoryDialog: React.FC<PageHistoryDialogProps> = ({ page, open, onClose }) => {
+  const { restorePageVersion } = useCustomPages();
+  const {
+    versions,
+    saveVersion,
+    recordRestore,
+    deleteVersion,
+    storageError,
+    dismissStorageError,
+  } = usePageVersions(page.id, page);
+  const [versionName, setVersionName] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState(CURRENT);
+
+  const newestFirst = useMemo(() => [...versions].reverse(), [versions]);
+  const selected = versions.find(version => version.id === selectedId) ?? newestFirst[0];
+  const compareTo = versions.find(version => version.id === compareId);
+  const compareContent: PageContent = compareTo?.content ?? toPageContent(page);
+
+  const handleSave = () => {
+    if (versionName.trim()) {
+      saveVersion(versionName.trim());
+      setVersionName('');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selected) return;
+    recordRestore(selected);
+    restorePageVersion(page.id, selected);
+    onClose();
+  };
+
+  const formatTime = (time: number) => new Date(time).toLocaleString();
+
+  return (
+    <>
+      <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+        <DialogTitle>Version History</DialogTitle>
+        <DialogContent>
+          {storageError && (
+            <Alert severity="warning" onClose={dismissStorageError} sx={{ mb: 2 }}>
+              {storageError}. Delete versions you no longer need to make room.
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', pt: 1, mb: 2 }}>
+            <TextField
+              size="small"
+              fullWidth
+              label="Version name"
+              placeholder="e.g. Before the Q3 review"
+              value={versionName}
+              onChange={(e) => setVersionName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            />
+            <Button variant="contained" onClick={handleSave} disabled={!versionName.trim()} sx={{ whiteSpace: 'nowrap' }}>
+              Save Version
+            </Button>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2, minHeight: 320 }}>
+            <List dense sx={{ width: 280, flexShrink: 0, maxHeight: 420, overflow: 'auto', borderRight: 1, borderColor: 'divider' }}>
+              {newestFirst.map(version => (
+                <ListItemButton
+                  key={version.id}
+                  selected={version.id === selected?.id}
+                  onClick={() => setSelectedId(version.id)}
+                >
+                  <ListItemText
+                    primary={version.name}
+                    secondary={
+                      <>
+                        {formatTime(version.createdAt)}
+                        {!version.automatic && <Chip component="span" size="small" label="Saved" sx={{ ml: 1, height: 18 }} />}
+                      </>
+                    }
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              {selected ? (
+                <Stack spacing={2}>
+                  <Box>
+                    <Typography variant="subtitle1">{selected.name}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {selected.automatic ? 'Saved automatically' : 'Saved'} on {formatTime(selected.createdAt)}
+                      {' · '}{selected.content.widgets.length} widgets
+                    </Typography>
+                  </Box>
+                  <TextField
+                    select
+                    size="small"
+                    label="Compare with"
+                    value={compareTo ? compareId : CURRENT}
+                    onChange={(e) => setCompareId(e.target.value)}
+                  >
+                    <MenuItem value={CURRENT}>Current page</MenuItem>
+                    {newestFirst.filter(version => version.id !== selected.id).map(version => (
+                      <MenuItem key={version.id} value={version.id}>
+                        {version.name} ({formatTime(version.createdAt)})
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <Typography variant="body2" color="text.secondary">
+                    Changes from this version to {compareTo ? `"${compareTo.name}"` : 'the current page'}:
+                  </Typography>
+                  <PageDiffView diff={diffPages(selected.content, compareContent)} />
+                </Stack>
+              ) : (
+                <Typography color="text.secondary">No versions yet.</Typography>
+              )}
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          {selected && (
+            <Button color="error" onClick={() => deleteVersion(selected.id)} sx={{ mr: 'auto' }}>
+              Delete Version
+            </Button>
+          )}
+          <Button onClick={onClose}>Close</Button>
+          <Button variant="contained" onClick={handleRestore} disabled={!selected}>
+            Restore This Version
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Versions are mostly saved with the dialog closed, so a full storage is reported here too */}
+      <Snackbar
+        open={Boolean(storageError) && !open}
+        onClose={(_event, reason) => {
+          if (reason !== 'clickaway') dismissStorageError();
+        }}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        <Alert severity="warning" onClose={dismissStorageError}>
+          {storageError}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default PageHistoryDialog;
@@ -0,0 +1,77 @@
+/**
+ * Save Template Dialog Component
+ *
+ * Saves a custom page as a template, offered in the "Add New Page" dialog.
+ * The template keeps a copy of the page's widgets, their settings and the
+ * layout; later edits to the page don't change it.
+ */
+
+import React, { useState } from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle, TextField } from '@mui/material';
+import { CustomPage } from '../../context/CustomPagesContext';
+import usePageTemplates from '../../hooks/usePageTemplates';
+
+/**
+ * SaveTemplateDialogProps Interface
+ * @property {CustomPage} page - The page to save
+ * @property {Function} onClose - Closes the dialog, after saving or not
+ */
+interface SaveTemplateDialogProps {
+  page: CustomPage;
+  onClose: () => void;
+}
+
+/**
+ * SaveTemplateDialog Component
+ * Mount it only while shown: the name starts out as the page title.
+ *
+ * @component
+ * @param {SaveTemplateDialogProps} props - Component props
+ */
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ page, onClose }) => {
+  const { saveTemplate, status } = usePageTemplates();
+  const [name, setName] = useState(page.title);
+  const [description, setDescription] = useState('');
+
+  // Saving before the saved templates are read would replace them
+  const handleSave = () => {
+    if (name.trim() && status === 'ready') {
+      saveTemplate(page, name.trim(), description.trim());
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Save as Template</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          margin="dense"
+          label="Template Name"
+          fullWidth
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <TextField
+          margin="dense"
+          label="Description"
+          placeholder="What pages created from this template show"
+          fullWidth
+          multiline
+          minRows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!name.trim() || status !== 'ready'}>
+          Save Template
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,101 @@
+/**
+ * Template Gallery Component
+ *
+ * The choice of starting point when adding a custom page: a blank page, a
+ * built-in template or a template saved from a page. Saved templates can be
+ * deleted from here.
+ */
+
+import React from 'react';
+import { Box, Card, CardActionArea, CardContent, Chip, IconButton, Tooltip, Typography } from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import usePageTemplates from '../../hooks/usePageTemplates';
+import { PageTemplate } from '../../utils/pageTemplates';
+
+/**
+ * One card of the gallery
+ */
+const TemplateCard: React.FC<{
+  name: string;
+  description: string;
+  saved?: boolean;
+  selected: boolean;
+  onSelect: () => void;
+  children?: React.ReactNode;
+}> = ({ name, description, saved, selected, onSelect, children }) => (
+  <Card variant="outlined" sx={{ position: 'relative', borderColor: selected ? 'primary.main' : undefined, borderWidth: selected ? 2 : 1 }}>
+    <CardActionArea onClick={onSelect} sx={{ height: '100%' }}>
+      <CardContent sx={{ pr: 5 }}>
+        <Typography variant="subtitle2">
+          {name}
+          {saved && <Chip component="span" size="small" label="Saved" sx={{ ml: 1, height: 18 }} />}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">{description}</Typography>
+      </CardContent>
+    </CardActionArea>
+    {children}
+  </Card>
+);
+
+/**
+ * TemplateGalleryProps Interface
+ * @property {PageTemplate | null} selected - The chosen template, or null for a blank page
+ * @property {Function} onSelect - Called with the chosen template, or null for a blank page
+ */
+interface TemplateGalleryProps {
+  selected: PageTemplate | null;
+  onSelect: (template: PageTemplate | null) => void;
+}
+
+/**
+ * TemplateGallery Component
+ *
+ * @component
+ * @param {TemplateGalleryProps} props - Component props
+ */
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ selected, onSelect }) => {
+  const { templates, deleteTemplate } = usePageTemplates();
+
+  const handleDelete = (template: PageTemplate) => {
+    deleteTemplate(template.id);
+    if (selected?.id === template.id) {
+      onSelect(null);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 1.5 }}>
+      <TemplateCard
+        name="Blank page"
+        description="Start from an empty grid and add widgets yourself."
+        selected={selected === null}
+        onSelect={() => onSelect(null)}
+      />
+      {templates.map(template => (
+        <TemplateCard
+          key={template.id}
+          name={template.name}
+          description={template.description || `${template.content.widgets.length} widgets`}
+          saved={!template.builtin}
+          selected={selected?.id === template.id}
+          onSelect={() => onSelect(template)}
+        >
+          {!template.builtin && (
+            <Tooltip title="Delete template">
+              <IconButton
+                size="small"
+                aria-label="Delete template"
+                onClick={() => handleDelete(template)}
+                sx={{ position: 'absolute', top: 4, right: 4 }}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+        </TemplateCard>
+      ))}
+    </Box>
+  );
+};
+
+export default TemplateGallery;
@@ -0,0 +1,129 @@
+/**
+ * CIDR Overlaps Table Component
+ *
+ * Lists every pair of VPCs whose CIDR blocks overlap, across all accounts and
+ * regions. Overlapping VPCs cannot be peered or routed to each other for the
+ * shared range, so pairs that are already peered are called out first.
+ *
+ * Technical Concepts:
+ * 1. Material-UI Table for a compact, read-only list
+ * 2. CIDR overlap analysis shared with the VPC table
+ * 3. Data loaded through the inventory provider layer (useInventory)
+ */
+
+import React, { useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { VPC } from '../../types/inventory';
+import { useInventory } from '../../context/InventoryContext';
+import { findVpcCidrOverlaps, getVpcName } from './VPCTable';
+
+/**
+ * Checks whether two VPCs have a peering connection between them
+ * @param {VPC} a - First VPC
+ * @param {VPC} b - Second VPC
+ * @returns {boolean} True if they are peered, in any status
+ */
+const arePeered = (a: VPC, b: VPC): boolean =>
+  a.attributes.PeeringConnections.some(peering => peering.PeerVpcId === b.attributes.VpcId);
+
+/**
+ * Formats a VPC for the overlap list
+ * @param {VPC} vpc - The VPC
+ * @returns {string} e.g. "prod-core (vpc-0abc...)"
+ */
+const describeVpc = (vpc: VPC): string => {
+  const name = getVpcName(vpc);
+  return name ? `${name} (${vpc.attributes.VpcId})` : vpc.attributes.VpcId;
+};
+
+/**
+ * CidrOverlapsTable Component
+ *
+ * Displays overlapping VPC CIDR blocks with both VPCs' accounts and regions.
+ *
+ * @component
+ */
+const CidrOverlapsTable: React.FC = () => {
+  const { data: vpcs, loading, error, refresh } = useInventory('vpcs');
+
+  const overlaps = useMemo(
+    () => findVpcCidrOverlaps(vpcs)
+      .map(overlap => ({ ...overlap, peered: arePeered(overlap.first.owner, overlap.second.owner) }))
+      .sort((a, b) => Number(b.peered) - Number(a.peered)),
+    [vpcs]
+  );
+
+  if (error) {
+    return (
+      <Alert
+        severity="error"
+        action={<Button color="inherit" size="small" onClick={() => refresh()}>Retry</Button>}
+      >
+        Could not load VPCs: {error.message}
+      </Alert>
+    );
+  }
+
+  if (loading && vpcs.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (overlaps.length === 0) {
+    return <Alert severity="success">No overlapping CIDR blocks across {vpcs.length} VPCs.</Alert>;
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Overlap</TableCell>
+            <TableCell>VPC</TableCell>
+            <TableCell>Account / Region</TableCell>
+            <TableCell>CIDR</TableCell>
+            <TableCell>VPC</TableCell>
+            <TableCell>Account / Region</TableCell>
+            <TableCell>CIDR</TableCell>
+            <TableCell>Peering</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {overlaps.map(({ first, second, overlap, peered }) => (
+            <TableRow key={`${first.owner.id}-${first.cidr}-${second.owner.id}-${second.cidr}`}>
+              <TableCell sx={{ fontWeight: 'bold' }}>{overlap}</TableCell>
+              <TableCell>{describeVpc(first.owner)}</TableCell>
+              <TableCell>{first.owner.relationships.Account.data.name} / {first.owner.attributes.Region}</TableCell>
+              <TableCell>{first.cidr}</TableCell>
+              <TableCell>{describeVpc(second.owner)}</TableCell>
+              <TableCell>{second.owner.relationships.Account.data.name} / {second.owner.attributes.Region}</TableCell>
+              <TableCell>{second.cidr}</TableCell>
+              <TableCell>
+                {peered
+                  ? <Chip label="Peered" size="small" color="error" />
+                  : <Chip label="Not peered" size="small" variant="outlined" />}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default CidrOverlapsTable;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import EC2InstancesTable, { ec2FilterFields } from './EC2InstancesTable';
+import { InventoryDataProvider } from '../../context/InventoryContext';
+import { StorageProvider } from '../../context/StorageContext';
+import { createMockInventoryProvider } from '../../data/providers/MockInventoryProvider';
+import { StorageAdapter } from '../../data/storage/StorageAdapter';
+import { EC2Instance, EC2InstanceState } from '../../types/inventory';
+import { describeCondition, FilterCondition, FilterElement } from '../../utils/filterExpression';
+
+const instance = (id: string, name: string, type: string, state: EC2InstanceState): EC2Instance => ({
+  type: 'Instances',
+  id,
+  attributes: {
+    InstanceId: `i-${id}`,
+    InstanceType: type,
+    State: state,
+    AvailabilityZone: 'us-east-1a',
+    Region: 'us-east-1',
+    PrivateIpAddress: '10.0.0.1',
+    PublicIpAddress: null,
+    LaunchTime: '2025-01-05T19:45:00Z',
+    Platform: 'Linux/UNIX',
+    Tags: [{ Key: 'Name', Value: name }, { Key: 'Team', Value: 'data' }],
+  },
+  relationships: { Account: { data: { id: '123456789012', type: 'Accounts', name: 'Production' } } },
+});
+
+const INSTANCES = [
+  instance('web1', 'web-01', 'm5.large', 'running'),
+  instance('web2', 'web-02', 't3.micro', 'running'),
+  instance('batch', 'batch-01', 'm5.large', 'stopped'),
+];
+
+const condition = (id: string, filter: FilterCondition): FilterElement => ({
+  id,
+  type: 'filter',
+  value: describeCondition(filter),
+  filter,
+});
+
+/**
+ * Renders the table with the given instances and a filter saved for its widget
+ */
+const renderTable = (filter: FilterElement[] = []) => {
+  const saved = new Map<string, unknown>(filter.length > 0 ? [['ec2-instances-filters-w1', filter]] : []);
+  const adapter: StorageAdapter = {
+    name: 'Memory',
+    load: async key => saved.get(key) ?? null,
+    save: async (key, value) => { saved.set(key, value); },
+    remove: async key => { saved.delete(key); },
+    keys: async () => Array.from(saved.keys()),
+  };
+  return render(
+    <StorageProvider adapter={adapter}>
+      <InventoryDataProvider provider={createMockInventoryProvider({ ec2Instances: INSTANCES })}>
+        <EC2InstancesTable widgetId="w1" />
+      </InventoryDataProvider>
+    </StorageProvider>
+  );
+};
+
+/**
+ * Instance IDs in the rows the grid shows
+ */
+const shownInstanceIds = () => screen.queryAllByRole('link').map(link => link.textContent);
+
+describe('EC2 filter fields', () => {
+  const field = (name: string) => ec2FilterFields.find(candidate => candidate.field === name)!;
+
+  test('read instance attributes, the Name tag and the account', () => {
+    const [web] = INSTANCES;
+    expect(field('name').getValue(web)).toBe('web-01');
+    expect(field('instanceType').getValue(web)).toBe('m5.large');
+    expect(field('state').getValue(web)).toBe('running');
+    expect(field('account').getValue(web)).toBe('Production');
+    expect(field('publicIp').getValue(web)).toBe('');
+    expect(field('tags').getValue(web)).toBe('Name=web-01, Team=data');
+  });
+});
+
+describe('EC2InstancesTable', () => {
+  test('renders a row per instance', async () => {
+    renderTable();
+    await waitFor(() => expect(shownInstanceIds()).toEqual(['i-batch', 'i-web1', 'i-web2']));
+
+    // jsdom has no layout, so the grid only renders its first columns
+    const row = screen.getAllByRole('row').find(candidate => within(candidate).queryByText('i-web1')) as HTMLElement;
+    expect(within(row).getByText('web-01')).toBeInTheDocument();
+    expect(within(row).getByText('m5.large')).toBeInTheDocument();
+    expect(screen.getByText('i-web1')).toHaveAttribute(
+      'href',
+      'https://us-east-1.console.aws.amazon.com/ec2/home?region=us-east-1#InstanceDetails:instanceId=i-web1'
+    );
+  });
+
+  test('filters by state', async () => {
+    renderTable([condition('c1', { field: 'state', operator: 'equals', value: 'running' })]);
+    await waitFor(() => expect(shownInstanceIds()).toEqual(['i-web1', 'i-web2']));
+  });
+
+  test('filters by type and state combined', async () => {
+    renderTable([
+      condition('c1', { field: 'instanceType', operator: 'equals', value: 'm5.large' }),
+      { id: 'and', type: 'operator', value: 'AND' },
+      condition('c2', { field: 'state', operator: 'notEquals', value: 'stopped' }),
+    ]);
+    await waitFor(() => expect(shownInstanceIds()).toEqual(['i-web1']));
+  });
+});
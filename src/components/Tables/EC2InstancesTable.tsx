@@ -0,0 +1,210 @@
+/**
+ * AWS EC2 Instances Table Component
+ *
+ * This component implements a data grid for displaying AWS EC2 instances.
+ * It shares the filter builder, persistence and loading behaviour of the
+ * other inventory tables through InventoryDataGrid.
+ *
+ * Technical Concepts:
+ * 1. Column and filter field definitions for the shared InventoryDataGrid
+ * 2. Persistent, per-widget filter state
+ * 3. Instance state visualization with colored chips
+ * 4. Data loaded through the inventory provider layer (useInventory)
+ */
+
+import React from 'react';
+import {
+  GridColDef,
+  GridValueGetterParams,
+  GridRenderCellParams,
+} from '@mui/x-data-grid';
+import { Chip, Link } from '@mui/material';
+import { EC2Instance, EC2InstanceState, ResourceTag } from '../../types/inventory';
+import { useInventory } from '../../context/InventoryContext';
+import { FilterField } from '../../utils/filterExpression';
+import InventoryDataGrid from './InventoryDataGrid';
+
+/**
+ * Chip colors for each instance state
+ */
+export const STATE_COLORS: Record<EC2InstanceState, 'success' | 'warning' | 'default' | 'error'> = {
+  pending: 'warning',
+  running: 'success',
+  stopping: 'warning',
+  stopped: 'default',
+  'shutting-down': 'warning',
+  terminated: 'error',
+};
+
+/**
+ * Returns the value of a tag, or an empty string when the tag is not set
+ * @param {ResourceTag[]} tags - The instance tags
+ * @param {string} key - Tag key to look up
+ * @returns {string} The tag value
+ */
+const getTagValue = (tags: ResourceTag[], key: string): string =>
+  tags.find(tag => tag.Key === key)?.Value ?? '';
+
+/**
+ * Formats tags as "Key=Value" pairs, which is also the text the tag filter matches
+ * @param {ResourceTag[]} tags - The instance tags
+ * @returns {string} Comma-separated tag pairs
+ */
+const formatTags = (tags: ResourceTag[]): string =>
+  tags.map(tag => `${tag.Key}=${tag.Value}`).join(', ');
+
+/**
+ * Column definitions for the EC2 instances data grid
+ */
+const columns: GridColDef[] = [
+  {
+    field: 'instanceId',
+    headerName: 'Instance ID',
+    width: 190,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.InstanceId,
+    renderCell: (params: GridRenderCellParams) => {
+      const { InstanceId, Region } = (params.row as EC2Instance).attributes;
+      const consoleUrl = `https://${Region}.console.aws.amazon.com/ec2/home?region=${Region}#InstanceDetails:instanceId=${InstanceId}`;
+      return (
+        <Link
+          href={consoleUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          sx={{
+            textDecoration: 'none',
+            '&:hover': {
+              textDecoration: 'underline',
+            }
+          }}
+        >
+          {InstanceId}
+        </Link>
+      );
+    },
+  },
+  {
+    field: 'name',
+    headerName: 'Name',
+    width: 180,
+    valueGetter: (params: GridValueGetterParams) => getTagValue((params.row as EC2Instance).attributes.Tags, 'Name'),
+  },
+  {
+    field: 'instanceType',
+    headerName: 'Type',
+    width: 120,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.InstanceType,
+  },
+  {
+    field: 'state',
+    headerName: 'State',
+    width: 120,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.State,
+    renderCell: (params: GridRenderCellParams) => {
+      const state = (params.row as EC2Instance).attributes.State;
+      return <Chip label={state} size="small" color={STATE_COLORS[state] ?? 'default'} variant="outlined" />;
+    },
+  },
+  {
+    field: 'availabilityZone',
+    headerName: 'Availability Zone',
+    width: 150,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.AvailabilityZone,
+  },
+  {
+    field: 'account',
+    headerName: 'Account',
+    width: 150,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).relationships.Account.data.name,
+  },
+  {
+    field: 'privateIp',
+    headerName: 'Private IP',
+    width: 140,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.PrivateIpAddress ?? '-',
+  },
+  {
+    field: 'publicIp',
+    headerName: 'Public IP',
+    width: 140,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.PublicIpAddress ?? '-',
+  },
+  {
+    field: 'launchTime',
+    headerName: 'Launch Time',
+    width: 180,
+    // ISO timestamps sort chronologically as strings
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.LaunchTime,
+    valueFormatter: (params) => new Date(params.value as string).toLocaleString(),
+  },
+  {
+    field: 'platform',
+    headerName: 'Platform',
+    width: 120,
+    valueGetter: (params: GridValueGetterParams) => (params.row as EC2Instance).attributes.Platform,
+  },
+  {
+    field: 'tags',
+    headerName: 'Tags',
+    width: 300,
+    sortable: false,
+    valueGetter: (params: GridValueGetterParams) => formatTags((params.row as EC2Instance).attributes.Tags),
+  },
+];
+
+/**
+ * Filterable field metadata for EC2 instances
+ * Launch time filters on the ISO timestamp, so e.g. "startsWith 2024-03" matches a month.
+ */
+export const ec2FilterFields: FilterField<EC2Instance>[] = [
+  { field: 'instanceId', label: 'Instance ID', type: 'string', getValue: row => row.attributes.InstanceId },
+  { field: 'name', label: 'Name', type: 'string', getValue: row => getTagValue(row.attributes.Tags, 'Name') },
+  { field: 'instanceType', label: 'Type', type: 'string', getValue: row => row.attributes.InstanceType },
+  { field: 'state', label: 'State', type: 'string', getValue: row => row.attributes.State },
+  { field: 'availabilityZone', label: 'Availability Zone', type: 'string', getValue: row => row.attributes.AvailabilityZone },
+  { field: 'account', label: 'Account', type: 'string', getValue: row => row.relationships.Account.data.name },
+  { field: 'privateIp', label: 'Private IP', type: 'string', getValue: row => row.attributes.PrivateIpAddress ?? '' },
+  { field: 'publicIp', label: 'Public IP', type: 'string', getValue: row => row.attributes.PublicIpAddress ?? '' },
+  { field: 'launchTime', label: 'Launch Time', type: 'string', getValue: row => row.attributes.LaunchTime },
+  { field: 'platform', label: 'Platform', type: 'string', getValue: row => row.attributes.Platform },
+  { field: 'tags', label: 'Tags', type: 'string', getValue: row => formatTags(row.attributes.Tags) },
+];
+
+interface EC2InstancesTableProps {
+  widgetId: string;
+}
+
+/**
+ * EC2InstancesTable Component
+ *
+ * Displays AWS EC2 instances in a data grid with the custom filter builder.
+ *
+ * Features:
+ * - Sortable and filterable columns
+ * - Custom filter builder with drag-and-drop support
+ * - Persistent filter state per widget
+ * - AWS EC2 console integration
+ * - Color-coded instance state
+ *
+ * @component
+ * @param {EC2InstancesTableProps} props - Component props
+ */
+const EC2InstancesTable: React.FC<EC2InstancesTableProps> = ({ widgetId }) => {
+  const { data: instances, loading, error, refresh } = useInventory('ec2Instances');
+
+  return (
+    <InventoryDataGrid
+      rows={instances}
+      columns={columns}
+      filterFields={ec2FilterFields}
+      getRowId={(row) => row.id}
+      filterStorageKey={`ec2-instances-filters-${widgetId}`}
+      resourceLabel="EC2 instances"
+      defaultSortField="instanceId"
+      loading={loading}
+      error={error}
+      onRefresh={refresh}
+    />
+  );
+};
+
+export default EC2InstancesTable;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import ECSInventory, { clusterFilterFields, isUnderDesired } from './ECSInventory';
+import { InventoryDataProvider } from '../../context/InventoryContext';
+import { StorageProvider } from '../../context/StorageContext';
+import { createMockInventoryProvider } from '../../data/providers/MockInventoryProvider';
+import { StorageAdapter } from '../../data/storage/StorageAdapter';
+import { ECSCluster, ECSService } from '../../types/inventory';
+
+const service = (name: string, desired: number, running: number): ECSService => ({
+  ServiceName: name,
+  ServiceArn: `arn:aws:ecs:us-east-1:123456789012:service/${name}`,
+  LaunchType: 'FARGATE',
+  DesiredCount: desired,
+  RunningCount: running,
+  PendingCount: desired - running,
+  TaskDefinition: `${name}:3`,
+  DeploymentStatus: 'COMPLETED',
+  Tasks: [],
+});
+
+const cluster = (id: string, services: ECSService[]): ECSCluster => ({
+  type: 'Clusters',
+  id,
+  attributes: {
+    ClusterName: id,
+    ClusterArn: `arn:aws:ecs:us-east-1:123456789012:cluster/${id}`,
+    Region: 'us-east-1',
+    Status: 'ACTIVE',
+    Services: services,
+  },
+  relationships: { Account: { data: { id: '123456789012', type: 'Accounts', name: 'Production' } } },
+});
+
+const CLUSTERS = [
+  cluster('payments', [service('api', 3, 3), service('worker', 4, 2)]),
+  cluster('search', [service('indexer', 2, 2)]),
+];
+
+/**
+ * Renders the inventory at the given URL, with nothing saved in storage
+ */
+const renderInventory = (url: string) => {
+  const adapter: StorageAdapter = {
+    name: 'Memory',
+    load: async () => null,
+    save: async () => {},
+    remove: async () => {},
+    keys: async () => [],
+  };
+  return render(
+    <MemoryRouter initialEntries={[url]}>
+      <StorageProvider adapter={adapter}>
+        <InventoryDataProvider provider={createMockInventoryProvider({ ecsClusters: CLUSTERS })}>
+          <ECSInventory widgetId="w1" />
+        </InventoryDataProvider>
+      </StorageProvider>
+    </MemoryRouter>
+  );
+};
+
+/**
+ * The grid row showing the given text
+ */
+const rowWith = (text: string) =>
+  screen.getAllByRole('row').find(row => within(row).queryByText(text)) as HTMLElement;
+
+describe('ECS under-desired check', () => {
+  test('flags services running fewer tasks than desired', () => {
+    expect(isUnderDesired(service('worker', 4, 2))).toBe(true);
+    expect(isUnderDesired(service('api', 3, 3))).toBe(false);
+    // Running more than desired, e.g. during a deployment, is not a shortfall
+    expect(isUnderDesired(service('api', 3, 4))).toBe(false);
+  });
+
+  test('counts the services under desired per cluster', () => {
+    const underDesired = clusterFilterFields.find(field => field.field === 'underDesired')!;
+    expect(CLUSTERS.map(item => underDesired.getValue(item))).toEqual([1, 0]);
+  });
+});
+
+describe('ECSInventory', () => {
+  test('highlights clusters and services under their desired count', async () => {
+    const { unmount } = renderInventory('/ecs');
+    expect(await screen.findByText('payments')).toBeInTheDocument();
+    expect(rowWith('payments')).toHaveClass('inventory-row-flagged');
+    expect(rowWith('search')).not.toHaveClass('inventory-row-flagged');
+    unmount();
+
+    renderInventory('/ecs?cluster=payments');
+    expect(await screen.findByText('worker')).toBeInTheDocument();
+    expect(rowWith('worker')).toHaveClass('inventory-row-flagged');
+    expect(rowWith('api')).not.toHaveClass('inventory-row-flagged');
+  });
+
+  test('shows the cluster list for a link to a cluster that no longer exists', async () => {
+    renderInventory('/ecs?cluster=retired&service=api');
+    expect(await screen.findByText('payments')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('The cluster you followed no longer exists');
+    expect(screen.getByText('search')).toBeInTheDocument();
+  });
+
+  test("shows the cluster's services for a link to a service that no longer exists", async () => {
+    renderInventory('/ecs?cluster=payments&service=retired');
+    expect(await screen.findByText('worker')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('The service you followed no longer exists');
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * AWS ECS Inventory Component
+ *
+ * This component implements a drill-down view of the ECS hierarchy:
+ * clusters → services → tasks. Clicking a cluster shows its services, clicking
+ * a service shows its tasks, and breadcrumbs lead back up.
+ *
+ * Technical Concepts:
+ * 1. Three InventoryDataGrid levels sharing the custom filter builder
+ * 2. Drill-down state kept in the URL query string, so views can be linked
+ * 3. Breadcrumb navigation between levels
+ * 4. Services running fewer tasks than desired are highlighted
+ */
+
+import React, { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  GridColDef,
+  GridValueGetterParams,
+  GridRenderCellParams,
+} from '@mui/x-data-grid';
+import { Alert, Box, Breadcrumbs, Chip, Link, Typography } from '@mui/material';
+import { ECSCluster, ECSService, ECSTask } from '../../types/inventory';
+import { useInventory } from '../../context/InventoryContext';
+import { FilterField } from '../../utils/filterExpression';
+import InventoryDataGrid from './InventoryDataGrid';
+
+/**
+ * Query string parameters holding the drill-down position
+ */
+const CLUSTER_PARAM = 'cluster';
+const SERVICE_PARAM = 'service';
+
+/**
+ * Checks whether a service is running fewer tasks than it wants
+ * @param {ECSService} service - The service
+ * @returns {boolean} True if RunningCount is below DesiredCount
+ */
+export const isUnderDesired = (service: ECSService): boolean => service.RunningCount < service.DesiredCount;
+
+/**
+ * Sums a task count over all services of a cluster
+ * @param {ECSCluster} cluster - The cluster
+ * @param {Function} count - Picks the count from a service
+ * @returns {number} The total
+ */
+const sumServices = (cluster: ECSCluster, count: (service: ECSService) => number): number =>
+  cluster.attributes.Services.reduce((total, service) => total + count(service), 0);
+
+/**
+ * Number of services in a cluster that are under their desired count
+ * @param {ECSCluster} cluster - The cluster
+ * @returns {number} The count
+ */
+const countUnderDesired = (cluster: ECSCluster): number =>
+  cluster.attributes.Services.filter(isUnderDesired).length;
+
+/**
+ * Chip colors for deployment rollout states
+ */
+const DEPLOYMENT_COLORS: Record<ECSService['DeploymentStatus'], 'success' | 'info' | 'error'> = {
+  COMPLETED: 'success',
+  IN_PROGRESS: 'info',
+  FAILED: 'error',
+};
+
+/**
+ * Column definitions for the clusters level
+ */
+const clusterColumns: GridColDef[] = [
+  {
+    field: 'clusterName',
+    headerName: 'Cluster',
+    width: 180,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSCluster).attributes.ClusterName,
+    renderCell: (params: GridRenderCellParams) => <Link component="button" underline="hover">{params.value}</Link>,
+  },
+  {
+    field: 'account',
+    headerName: 'Account',
+    width: 140,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSCluster).relationships.Account.data.name,
+  },
+  {
+    field: 'region',
+    headerName: 'Region',
+    width: 120,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSCluster).attributes.Region,
+  },
+  {
+    field: 'services',
+    headerName: 'Services',
+    width: 100,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSCluster).attributes.Services.length,
+  },
+  {
+    field: 'desired',
+    headerName: 'Desired',
+    width: 100,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => sumServices(params.row as ECSCluster, service => service.DesiredCount),
+  },
+  {
+    field: 'running',
+    headerName: 'Running',
+    width: 100,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => sumServices(params.row as ECSCluster, service => service.RunningCount),
+  },
+  {
+    field: 'pending',
+    headerName: 'Pending',
+    width: 100,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => sumServices(params.row as ECSCluster, service => service.PendingCount),
+  },
+  {
+    field: 'underDesired',
+    headerName: 'Under Desired',
+    width: 130,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => countUnderDesired(params.row as ECSCluster),
+    renderCell: (params: GridRenderCellParams) => (
+      params.value > 0
+        ? <Chip label={`${params.value} services`} size="small" color="warning" />
+        : params.value
+    ),
+  },
+];
+
+/**
+ * Filterable field metadata for the clusters level
+ */
+export const clusterFilterFields: FilterField<ECSCluster>[] = [
+  { field: 'clusterName', label: 'Cluster', type: 'string', getValue: row => row.attributes.ClusterName },
+  { field: 'account', label: 'Account', type: 'string', getValue: row => row.relationships.Account.data.name },
+  { field: 'region', label: 'Region', type: 'string', getValue: row => row.attributes.Region },
+  { field: 'services', label: 'Services', type: 'number', getValue: row => row.attributes.Services.length },
+  { field: 'desired', label: 'Desired', type: 'number', getValue: row => sumServices(row, service => service.DesiredCount) },
+  { field: 'running', label: 'Running', type: 'number', getValue: row => sumServices(row, service => service.RunningCount) },
+  { field: 'pending', label: 'Pending', type: 'number', getValue: row => sumServices(row, service => service.PendingCount) },
+  { field: 'underDesired', label: 'Under Desired', type: 'number', getValue: row => countUnderDesired(row) },
+];
+
+/**
+ * Column definitions for the services level
+ */
+const serviceColumns: GridColDef[] = [
+  {
+    field: 'serviceName',
+    headerName: 'Service',
+    width: 180,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSService).ServiceName,
+    renderCell: (params: GridRenderCellParams) => <Link component="button" underline="hover">{params.value}</Link>,
+  },
+  {
+    field: 'launchType',
+    headerName: 'Launch Type',
+    width: 130,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSService).LaunchType,
+  },
+  {
+    field: 'desired',
+    headerName: 'Desired',
+    width: 90,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSService).DesiredCount,
+  },
+  {
+    field: 'running',
+    headerName: 'Running',
+    width: 90,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSService).RunningCount,
+    renderCell: (params: GridRenderCellParams) => (
+      <Typography
+        variant="body2"
+        color={isUnderDesired(params.row as ECSService) ? 'warning.main' : 'inherit'}
+        fontWeight={isUnderDesired(params.row as ECSService) ? 'bold' : undefined}
+      >
+        {params.value}
+      </Typography>
+    ),
+  },
+  {
+    field: 'pending',
+    headerName: 'Pending',
+    width: 90,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSService).PendingCount,
+  },
+  {
+    field: 'taskDefinition',
+    headerName: 'Task Definition',
+    width: 180,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSService).TaskDefinition,
+  },
+  {
+    field: 'deploymentStatus',
+    headerName: 'Deployment',
+    width: 130,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSService).DeploymentStatus,
+    renderCell: (params: GridRenderCellParams) => {
+      const status = (params.row as ECSService).DeploymentStatus;
+      return <Chip label={status} size="small" color={DEPLOYMENT_COLORS[status]} variant="outlined" />;
+    },
+  },
+];
+
+/**
+ * Filterable field metadata for the services level
+ */
+const serviceFilterFields: FilterField<ECSService>[] = [
+  { field: 'serviceName', label: 'Service', type: 'string', getValue: row => row.ServiceName },
+  { field: 'launchType', label: 'Launch Type', type: 'string', getValue: row => row.LaunchType },
+  { field: 'desired', label: 'Desired', type: 'number', getValue: row => row.DesiredCount },
+  { field: 'running', label: 'Running', type: 'number', getValue: row => row.RunningCount },
+  { field: 'pending', label: 'Pending', type: 'number', getValue: row => row.PendingCount },
+  { field: 'taskDefinition', label: 'Task Definition', type: 'string', getValue: row => row.TaskDefinition },
+  { field: 'deploymentStatus', label: 'Deployment', type: 'string', getValue: row => row.DeploymentStatus },
+];
+
+/**
+ * Column definitions for the tasks level
+ */
+const taskColumns: GridColDef[] = [
+  {
+    field: 'taskId',
+    headerName: 'Task ID',
+    width: 280,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).TaskId,
+  },
+  {
+    field: 'lastStatus',
+    headerName: 'Last Status',
+    width: 110,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).LastStatus,
+  },
+  {
+    field: 'desiredStatus',
+    headerName: 'Desired Status',
+    width: 120,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).DesiredStatus,
+  },
+  {
+    field: 'launchType',
+    headerName: 'Launch Type',
+    width: 110,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).LaunchType,
+  },
+  {
+    field: 'revision',
+    headerName: 'Revision',
+    width: 90,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).TaskDefinitionRevision,
+  },
+  {
+    field: 'availabilityZone',
+    headerName: 'Availability Zone',
+    width: 140,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).AvailabilityZone,
+  },
+  {
+    field: 'startedAt',
+    headerName: 'Started At',
+    width: 180,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).StartedAt ?? '',
+    valueFormatter: (params) => (params.value ? new Date(params.value as string).toLocaleString() : '-'),
+  },
+  {
+    field: 'cpu',
+    headerName: 'CPU',
+    width: 80,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).Cpu,
+  },
+  {
+    field: 'memory',
+    headerName: 'Memory',
+    width: 90,
+    valueGetter: (params: GridValueGetterParams) => (params.row as ECSTask).Memory,
+  },
+];
+
+/**
+ * Filterable field metadata for the tasks level
+ */
+const taskFilterFields: FilterField<ECSTask>[] = [
+  { field: 'taskId', label: 'Task ID', type: 'string', getValue: row => row.TaskId },
+  { field: 'lastStatus', label: 'Last Status', type: 'string', getValue: row => row.LastStatus },
+  { field: 'desiredStatus', label: 'Desired Status', type: 'string', getValue: row => row.DesiredStatus },
+  { field: 'launchType', label: 'Launch Type', type: 'string', getValue: row => row.LaunchType },
+  { field: 'revision', label: 'Revision', type: 'number', getValue: row => row.TaskDefinitionRevision },
+  { field: 'availabilityZone', label: 'Availability Zone', type: 'string', getValue: row => row.AvailabilityZone },
+  { field: 'startedAt', label: 'Started At', type: 'string', getValue: row => row.StartedAt ?? '' },
+];
+
+interface ECSInventoryProps {
+  widgetId: string;
+}
+
+/**
+ * ECSInventory Component
+ *
+ * Displays ECS clusters, the services of a selected cluster, or the tasks of a
+ * selected service, with breadcrumbs for navigating between the levels.
+ *
+ * Features:
+ * - Cluster → service → task drill-down
+ * - Desired, running and pending task counts
+ * - Deployment status and task definition revisions
+ * - Highlighted clusters and services that are under their desired count
+ * - Persistent filter state per widget and level
+ *
+ * @component
+ * @param {ECSInventoryProps} props - Component props
+ */
+const ECSInventory: React.FC<ECSInventoryProps> = ({ widgetId }) => {
+  const { data: clusters, loading, error, refresh } = useInventory('ecsClusters');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const clusterId = searchParams.get(CLUSTER_PARAM);
+  const serviceName = searchParams.get(SERVICE_PARAM);
+
+  const cluster = useMemo(() => clusters.find(item => item.id === clusterId), [clusters, clusterId]);
+  const service = cluster?.attributes.Services.find(item => item.ServiceName === serviceName);
+
+  /**
+   * Moves the drill-down to the given level
+   * @param {string | null} nextClusterId - Cluster to show, or null for the cluster list
+   * @param {string | null} nextServiceName - Service to show, or null for the service list
+   */
+  const navigate = (nextClusterId: string | null, nextServiceName: string | null = null) => {
+    const next = new URLSearchParams(searchParams);
+    [[CLUSTER_PARAM, nextClusterId], [SERVICE_PARAM, nextServiceName]].forEach(([key, value]) => {
+      if (value) {
+        next.set(key as string, value);
+      } else {
+        next.delete(key as string);
+      }
+    });
+    setSearchParams(next);
+  };
+
+  // A stale link, or a resource that no longer exists after a refresh
+  const notFound = !loading && (
+    (clusterId !== null && !cluster) || (serviceName !== null && cluster !== undefined && !service)
+  );
+
+  const grid = (() => {
+    if (cluster && service) {
+      return (
+        <InventoryDataGrid
+          key="tasks"
+          rows={service.Tasks}
+          columns={taskColumns}
+          filterFields={taskFilterFields}
+          getRowId={(row) => row.TaskArn}
+          filterStorageKey={`ecs-tasks-filters-${widgetId}`}
+          resourceLabel="ECS tasks"
+          defaultSortField="taskId"
+          loading={loading}
+          error={error}
+          onRefresh={refresh}
+        />
+      );
+    }
+    if (cluster) {
+      return (
+        <InventoryDataGrid
+          key="services"
+          rows={cluster.attributes.Services}
+          columns={serviceColumns}
+          filterFields={serviceFilterFields}
+          getRowId={(row) => row.ServiceArn}
+          filterStorageKey={`ecs-services-filters-${widgetId}`}
+          resourceLabel="ECS services"
+          defaultSortField="serviceName"
+          loading={loading}
+          error={error}
+          onRefresh={refresh}
+          isRowFlagged={isUnderDesired}
+          onRowClick={(row) => navigate(cluster.id, row.ServiceName)}
+        />
+      );
+    }
+    return (
+      <InventoryDataGrid
+        key="clusters"
+        rows={clusters}
+        columns={clusterColumns}
+        filterFields={clusterFilterFields}
+        getRowId={(row) => row.id}
+        filterStorageKey={`ecs-clusters-filters-${widgetId}`}
+        resourceLabel="ECS clusters"
+        defaultSortField="clusterName"
+        loading={loading}
+        error={error}
+        onRefresh={refresh}
+        isRowFlagged={(row) => countUnderDesired(row) > 0}
+        onRowClick={(row) => navigate(row.id)}
+      />
+    );
+  })();
+
+  return (
+    <Box>
+      <Breadcrumbs sx={{ mb: 1 }}>
+        {cluster ? (
+          <Link component="button" underline="hover" onClick={() => navigate(null)}>
+            Clusters
+          </Link>
+        ) : (
+          <Typography color="text.primary">Clusters</Typography>
+        )}
+        {cluster && (service ? (
+          <Link component="button" underline="hover" onClick={() => navigate(cluster.id)}>
+            {cluster.attributes.ClusterName}
+          </Link>
+        ) : (
+          <Typography color="text.primary">{cluster.attributes.ClusterName}</Typography>
+        ))}
+        {service && <Typography color="text.primary">{service.ServiceName}</Typography>}
+      </Breadcrumbs>
+      {notFound && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          The {serviceName !== null && cluster ? 'service' : 'cluster'} you followed no longer exists; showing its parent instead.
+        </Alert>
+      )}
+      {grid}
+    </Box>
+  );
+};
+
+export default ECSInventory;
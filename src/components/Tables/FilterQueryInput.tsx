@@ -0,0 +1,198 @@
+/**
+ * Filter Query Input Component
+ *
+ * A text box for writing table filters in the query language, e.g.
+ * `region = us-east-1 AND (size > 1TB OR storageClass != GLACIER)`.
+ * It stays in two-way sync with the chip-based filter builder.
+ *
+ * Technical Concepts:
+ * 1. Controlled text input with cursor-aware autocomplete
+ * 2. Keyboard navigation of suggestions (arrows, Enter/Tab, Escape)
+ * 3. Two-way synchronisation between query text and FilterElement chips
+ * 4. Positional error reporting from the query parser
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Box, TextField, Paper, Popper, MenuItem, MenuList, Typography, ClickAwayListener } from '@mui/material';
+import { FilterElement, FilterField } from '../../utils/filterExpression';
+import {
+  FilterQueryError,
+  QuerySuggestions,
+  parseFilterQuery,
+  serializeFilterElements,
+  getQuerySuggestions,
+} from '../../utils/filterQuery';
+
+/**
+ * FilterQueryInputProps Interface
+ * @property {FilterElement[]} elements - Current chip elements
+ * @property {Function} onChange - Called with new elements when the query parses
+ * @property {FilterField<T>[]} fields - Fields that may be referenced
+ * @property {Record<string, string[]>} knownValues - Autocomplete values per field key
+ */
+interface FilterQueryInputProps<T> {
+  elements: FilterElement[];
+  onChange: (elements: FilterElement[]) => void;
+  fields: FilterField<T>[];
+  knownValues: Record<string, string[]>;
+}
+
+/**
+ * FilterQueryInput Component
+ *
+ * While the query is valid, every edit replaces the chip elements.
+ * When the chips change elsewhere (drag, add, remove), the query text is
+ * regenerated unless it already describes the same filter.
+ *
+ * @component
+ */
+const FilterQueryInput = <T,>({ elements, onChange, fields, knownValues }: FilterQueryInputProps<T>) => {
+  const [query, setQuery] = useState(() => serializeFilterElements(elements));
+  const [error, setError] = useState<FilterQueryError | null>(null);
+  const [suggestions, setSuggestions] = useState<QuerySuggestions | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const anchorRef = useRef<HTMLDivElement>(null);
+  // Serialized form of the elements this input last emitted, to skip echoing them back
+  const emittedRef = useRef(serializeFilterElements(elements));
+
+  useEffect(() => {
+    const serialized = serializeFilterElements(elements);
+    if (serialized !== emittedRef.current) {
+      emittedRef.current = serialized;
+      setQuery(serialized);
+      setError(null);
+    }
+  }, [elements]);
+
+  /**
+   * Recomputes suggestions for the current cursor position
+   */
+  const updateSuggestions = (text: string, cursor: number) => {
+    const next = getQuerySuggestions(text, cursor, fields, knownValues);
+    setSuggestions(next.items.length > 0 ? next : null);
+    setHighlighted(0);
+  };
+
+  /**
+   * Parses the query and, when valid, publishes the equivalent elements
+   */
+  const applyQuery = (text: string) => {
+    try {
+      const parsed = parseFilterQuery(text, fields);
+      setError(null);
+      emittedRef.current = serializeFilterElements(parsed);
+      onChange(parsed);
+    } catch (parseError) {
+      if (parseError instanceof FilterQueryError) {
+        setError(parseError);
+      } else {
+        throw parseError;
+      }
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const text = e.target.value;
+    setQuery(text);
+    applyQuery(text);
+    updateSuggestions(text, e.target.selectionStart ?? text.length);
+  };
+
+  /**
+   * Replaces the word being typed with the chosen suggestion
+   */
+  const acceptSuggestion = (index: number) => {
+    if (!suggestions) return;
+    const item = suggestions.items[index];
+    const text = query.slice(0, suggestions.from) + item.insertText + query.slice(suggestions.to);
+    const cursor = suggestions.from + item.insertText.length;
+    setQuery(text);
+    applyQuery(text);
+    updateSuggestions(text, cursor);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!suggestions) {
+      if (e.key === 'ArrowDown' || (e.key === ' ' && e.ctrlKey)) {
+        e.preventDefault();
+        updateSuggestions(query, inputRef.current?.selectionStart ?? query.length);
+      }
+      return;
+    }
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.items.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.items.length) % suggestions.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      acceptSuggestion(highlighted);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setSuggestions(null);
+    }
+  };
+
+  return (
+    <ClickAwayListener onClickAway={() => setSuggestions(null)}>
+      <Box ref={anchorRef}>
+        <TextField
+          inputRef={inputRef}
+          size="small"
+          fullWidth
+          value={query}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onClick={() => updateSuggestions(query, inputRef.current?.selectionStart ?? query.length)}
+          placeholder="e.g. region = us-east-1 AND (size > 1TB OR storageClass != GLACIER)"
+          error={Boolean(error)}
+          helperText={error ? error.message : 'Type a query or use the chips below; Ctrl+Space shows suggestions'}
+          inputProps={{ spellCheck: false, 'aria-label': 'Filter query' }}
+          sx={{
+            '& .MuiInputBase-input': {
+              fontFamily: 'monospace',
+              fontSize: '0.875rem',
+            }
+          }}
+        />
+        <Popper
+          open={Boolean(suggestions)}
+          anchorEl={anchorRef.current}
+          placement="bottom-start"
+          sx={{ zIndex: (theme) => theme.zIndex.modal + 1 }}
+        >
+          <Paper elevation={4} sx={{ maxHeight: 280, overflow: 'auto', minWidth: 240 }}>
+            <MenuList dense>
+              {suggestions?.items.map((item, index) => (
+                <MenuItem
+                  key={`${item.label}-${index}`}
+                  selected={index === highlighted}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => acceptSuggestion(index)}
+                  sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}
+                >
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                    {item.label}
+                  </Typography>
+                  {item.detail && (
+                    <Typography variant="caption" color="text.secondary">
+                      {item.detail}
+                    </Typography>
+                  )}
+                </MenuItem>
+              ))}
+            </MenuList>
+          </Paper>
+        </Popper>
+      </Box>
+    </ClickAwayListener>
+  );
+};
+
+export default FilterQueryInput;
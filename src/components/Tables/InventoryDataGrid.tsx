@@ -0,0 +1,694 @@
+/**
+ * Inventory Data Grid Component
+ * 
+ * A generic data grid for inventory resources with the custom filter builder.
+ * Resource tables (S3 buckets, EC2 instances, ...) supply their columns and
+ * filterable field metadata; this component handles everything else.
+ * 
+ * Technical Concepts:
+ * 1. Material-UI DataGrid for advanced table functionality
+ * 2. Custom filtering system with drag-and-drop support
+ * 3. Persistent filter state management
+ * 4. Text query language kept in sync with the filter chips
+ * 5. Loading, error and refresh handling for provider-backed data
+ * 6. Page filters set by other widgets on a custom page
+ */
+
+import React, { useState, useMemo } from 'react';
+import {
+  DataGrid,
+  GridColDef,
+  GridToolbar,
+  GridSortModel,
+} from '@mui/x-data-grid';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  Select,
+  MenuItem,
+  TextField,
+  Typography,
+  Paper,
+  Chip,
+  Alert,
+  alpha,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  FilterList as FilterListIcon,
+  Refresh as RefreshIcon,
+  DeleteForever as TrashIcon,
+} from '@mui/icons-material';
+import {
+  FilterElement,
+  FilterField,
+  FilterParseError,
+  FILTER_OPERATORS,
+  parseFilterElements,
+  evaluateFilter,
+  getOperatorsForType,
+  getOperandCount,
+  validateConditionValues,
+  describeCondition,
+} from '../../utils/filterExpression';
+import { AppliedPageFilter } from '../../context/PageFilterContext';
+import FilterQueryInput from './FilterQueryInput';
+import useStoredValue from '../../hooks/useStoredValue';
+
+// Shared empty filter, so the filtered rows stay memoized while nothing is saved
+const NO_FILTER_ELEMENTS: FilterElement[] = [];
+
+/**
+ * InventoryDataGridProps Interface
+ * @property {T[]} rows - All resources; filtering happens inside the grid
+ * @property {GridColDef[]} columns - DataGrid column definitions
+ * @property {FilterField<T>[]} filterFields - Filterable fields with their types
+ * @property {Function} getRowId - Returns a stable id for a row
+ * @property {string} [filterStorageKey] - Storage key the filter is persisted under when uncontrolled
+ * @property {string} resourceLabel - Plural resource name used in messages (e.g. "S3 buckets")
+ * @property {string} defaultSortField - Column sorted ascending initially
+ * @property {boolean} loading - Whether rows are being loaded
+ * @property {Error | null} error - Load error to display, if any
+ * @property {Function} onRefresh - Reloads the rows from their source
+ * @property {Function} [isRowFlagged] - Rows for which this returns true are highlighted
+ * @property {Function} [onRowClick] - Called with the row when a row is clicked
+ * @property {FilterElement[]} [filterElements] - Controlled filter; when set, filterStorageKey is ignored
+ * @property {Function} [onFilterElementsChange] - Called with the new filter whenever it changes
+ * @property {AppliedPageFilter<T>} [pageFilter] - Filter set by another widget on the page, applied on top
+ */
+interface InventoryDataGridProps<T> {
+  rows: T[];
+  columns: GridColDef[];
+  filterFields: FilterField<T>[];
+  getRowId: (row: T) => string;
+  filterStorageKey?: string;
+  resourceLabel: string;
+  defaultSortField: string;
+  loading: boolean;
+  error: Error | null;
+  onRefresh: () => void;
+  isRowFlagged?: (row: T) => boolean;
+  onRowClick?: (row: T) => void;
+  filterElements?: FilterElement[];
+  onFilterElementsChange?: (elements: FilterElement[]) => void;
+  pageFilter?: AppliedPageFilter<T>;
+}
+
+/**
+ * InventoryDataGrid Component
+ * 
+ * Displays inventory resources in a feature-rich data grid with advanced filtering capabilities.
+ * 
+ * Features:
+ * - Sortable and filterable columns
+ * - Custom filter builder with drag-and-drop support
+ * - Typed filter operators per field
+ * - Persistent filter state, either in the app's storage or controlled by the parent
+ * - Refresh, loading and error states
+ * - Optional highlighting of flagged rows
+ * - Page filters from other widgets, shown as a removable chip
+ * 
+ * @component
+ * @param {InventoryDataGridProps} props - Component props
+ */
+const InventoryDataGrid = <T,>({
+  rows,
+  columns,
+  filterFields,
+  getRowId,
+  filterStorageKey,
+  resourceLabel,
+  defaultSortField,
+  loading,
+  error: loadError,
+  onRefresh,
+  isRowFlagged,
+  onRowClick,
+  filterElements: controlledElements,
+  onFilterElementsChange,
+  pageFilter,
+}: InventoryDataGridProps<T>) => {
+  const isControlled = controlledElements !== undefined;
+  const { value: storedElements, setValue: setStoredElements } = useStoredValue<FilterElement[]>(
+    !isControlled && filterStorageKey ? filterStorageKey : null,
+    NO_FILTER_ELEMENTS,
+    saved => (Array.isArray(saved) ? saved : NO_FILTER_ELEMENTS)
+  );
+  const filterElements = isControlled ? controlledElements : storedElements;
+
+  /**
+   * Replaces the filter, notifying the parent and, when uncontrolled, storing it locally
+   * @param {FilterElement[]} elements - The new filter elements
+   */
+  const setFilterElements = (elements: FilterElement[]) => {
+    onFilterElementsChange?.(elements);
+    if (!isControlled) {
+      setStoredElements(elements);
+    }
+  };
+  
+  const [isFilterDialogOpen, setIsFilterDialogOpen] = useState(false);
+  /**
+   * Initial state of the "Add New Filter" form: the first field with its first operator
+   */
+  const emptyFilter = () => ({
+    field: filterFields[0].field,
+    operator: getOperatorsForType(filterFields[0].type)[0],
+    value: '',
+    valueTo: '',
+  });
+
+  const [currentFilter, setCurrentFilter] = useState(emptyFilter);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [pageSize, setPageSize] = useState(5); // Default page size
+
+  const currentFieldType = filterFields.find(f => f.field === currentFilter.field)?.type ?? 'string';
+  const currentOperands = getOperandCount(currentFilter.operator);
+  const currentFilterError = validateConditionValues(currentFilter, currentFieldType);
+
+  /**
+   * Changes the field of the filter being built
+   * Resets the operator when the new field type does not support it
+   */
+  const handleFieldChange = (field: string) => {
+    const type = filterFields.find(f => f.field === field)?.type ?? 'string';
+    const available = getOperatorsForType(type);
+    setCurrentFilter({
+      ...currentFilter,
+      field,
+      operator: available.includes(currentFilter.operator) ? currentFilter.operator : available[0],
+    });
+  };
+
+  const handleAddFilter = () => {
+    if (!currentFilterError) {
+      const { valueTo, ...condition } = currentFilter;
+      const filter = currentOperands === 2 ? { ...condition, valueTo } : condition;
+      const newFilter: FilterElement = {
+        id: Math.random().toString(36).substr(2, 9),
+        type: 'filter',
+        value: describeCondition(filter),
+        filter,
+      };
+      setFilterElements([...filterElements, newFilter]);
+      setCurrentFilter(emptyFilter());
+    }
+  };
+
+  const handleAddOperator = (operator: 'AND' | 'OR') => {
+    const newOperator: FilterElement = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: 'operator',
+      value: operator,
+    };
+    setFilterElements([...filterElements, newOperator]);
+  };
+
+  const handleAddParenthesis = (type: 'open' | 'close') => {
+    const newParenthesis: FilterElement = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: 'parenthesis',
+      value: type === 'open' ? '(' : ')',
+      parenthesisType: type,
+    };
+    setFilterElements([...filterElements, newParenthesis]);
+  };
+
+  const handleRemoveElement = (id: string) => {
+    setFilterElements(filterElements.filter(element => element.id !== id));
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.dataTransfer.setData('text/plain', index.toString());
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, dropIndex: number) => {
+    e.preventDefault();
+    const dragIndex = parseInt(e.dataTransfer.getData('text/plain'), 10);
+    if (dragIndex === dropIndex) return;
+
+    const items = Array.from(filterElements);
+    const [draggedItem] = items.splice(dragIndex, 1);
+    items.splice(dropIndex, 0, draggedItem);
+    setFilterElements(items);
+  };
+
+  const handleTrashDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDraggingOver(true);
+  };
+
+  const handleTrashDragLeave = () => {
+    setIsDraggingOver(false);
+  };
+
+  const handleTrashDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const dragIndex = parseInt(e.dataTransfer.getData('text/plain'), 10);
+    const items = Array.from(filterElements);
+    items.splice(dragIndex, 1);
+    setFilterElements(items);
+    setIsDraggingOver(false);
+  };
+
+  /**
+   * Parses the filter elements into an AST once per change
+   * A malformed expression yields an error instead of silently matching every row
+   */
+  const { filterTree, filterError } = useMemo(() => {
+    try {
+      return { filterTree: parseFilterElements(filterElements), filterError: null };
+    } catch (error) {
+      if (error instanceof FilterParseError) {
+        return { filterTree: null, filterError: error };
+      }
+      throw error;
+    }
+  }, [filterElements]);
+
+  /**
+   * Distinct values of each text field, offered as query autocomplete values
+   */
+  const knownValues = useMemo(() => {
+    return filterFields.reduce<Record<string, string[]>>((values, field) => {
+      if (field.type === 'string') {
+        const distinct = new Set(rows.map(row => String(field.getValue(row) ?? '')).filter(Boolean));
+        values[field.field] = Array.from(distinct).sort();
+      }
+      return values;
+    }, {});
+  }, [rows, filterFields]);
+
+  const matchesPageFilter = pageFilter?.matches;
+  const filteredRows = useMemo(() => {
+    if (filterError) return [];
+    const pageRows = matchesPageFilter ? rows.filter(matchesPageFilter) : rows;
+    if (!filterTree) return pageRows;
+    return pageRows.filter(row => evaluateFilter(filterTree, row, filterFields));
+  }, [rows, filterFields, filterTree, filterError, matchesPageFilter]);
+
+  /**
+   * Whether the element at the given index is the one a parse error points at
+   */
+  const isErrorElement = (index: number) =>
+    filterError !== null && filterError.position === index;
+
+  const renderReadOnlyFilter = (element: FilterElement, index: number) => (
+    <Chip
+      key={element.id}
+      label={element.value}
+      size="small"
+      color={isErrorElement(index) ? 'error' : element.type === 'operator' || element.type === 'parenthesis' ? 'primary' : 'default'}
+      sx={{ 
+        m: 0.1,
+        ...(element.type === 'parenthesis' && {
+          fontWeight: 'bold',
+          fontSize: '1.1rem',
+        })
+      }}
+    />
+  );
+
+  const renderDraggableFilter = (element: FilterElement, index: number) => (
+    <Box
+      key={element.id}
+      draggable
+      onDragStart={(e) => handleDragStart(e, index)}
+      onDragOver={handleDragOver}
+      onDrop={(e) => handleDrop(e, index)}
+      sx={{ 
+        display: 'inline-flex',
+        alignItems: 'center',
+        m: 0.25,
+      }}
+    >
+      {element.type === 'filter' ? (
+        <Chip
+          label={element.value}
+          color={isErrorElement(index) ? 'error' : 'default'}
+          sx={{ mr: 0.5 }}
+        />
+      ) : (
+        <Chip
+          label={element.value}
+          color={isErrorElement(index) ? 'error' : element.type === 'operator' || element.type === 'parenthesis' ? 'primary' : 'default'}
+          sx={{ 
+            mr: 0.5,
+            ...(element.type === 'parenthesis' && {
+              fontWeight: 'bold',
+              fontSize: '1.1rem',
+            })
+          }}
+        />
+      )}
+    </Box>
+  );
+
+  const TrashZone = () => (
+    <Box
+      onDragOver={handleTrashDragOver}
+      onDragLeave={handleTrashDragLeave}
+      onDrop={handleTrashDrop}
+      sx={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        p: 2,
+        border: '2px dashed',
+        borderColor: isDraggingOver ? 'error.main' : 'divider',
+        borderRadius: 1,
+        backgroundColor: isDraggingOver ? 'error.light' : 'background.default',
+        transition: 'all 0.2s ease',
+        opacity: isDraggingOver ? 0.9 : 0.7,
+        cursor: 'default',
+      }}
+    >
+      <TrashIcon color={isDraggingOver ? 'error' : 'action'} />
+      <Typography
+        variant="body2"
+        color={isDraggingOver ? 'error' : 'text.secondary'}
+        sx={{ ml: 1 }}
+      >
+        Drag here to remove
+      </Typography>
+    </Box>
+  );
+
+  const FilterContainer = ({ children, isEditable = false }: { children: React.ReactNode, isEditable?: boolean }) => (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: isEditable ? 2 : 0.5 }}>
+      <Box
+        sx={{ 
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          minHeight: isEditable ? '40px' : 'auto',
+          gap: 0.25,
+          flex: 1,
+        }}
+      >
+        {children}
+      </Box>
+      {isEditable && <TrashZone />}
+    </Box>
+  );
+
+  const CustomToolbar = () => (
+    <Box sx={{ p: 2, display: 'flex', gap: 2 }}>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flex: 1 }}>
+        <GridToolbar 
+          sx={{
+            '& .MuiButton-root[aria-label="Show filters"]': {
+              display: 'none',
+            },
+          }}
+        />
+        <Button
+          startIcon={<FilterListIcon />}
+          onClick={() => setIsFilterDialogOpen(true)}
+          variant="outlined"
+          size="small"
+        >
+          Custom Filters
+        </Button>
+        <Button
+          startIcon={<RefreshIcon />}
+          onClick={() => onRefresh()}
+          variant="outlined"
+          size="small"
+          disabled={loading}
+        >
+          Refresh
+        </Button>
+        {pageFilter?.filter && (
+          <Chip
+            size="small"
+            color="primary"
+            label={`${pageFilter.filter.label} = ${pageFilter.filter.value}`}
+            onDelete={pageFilter.clear}
+          />
+        )}
+        {filterElements.length > 0 && (
+          <Box 
+            sx={{ 
+              display: 'flex', 
+              alignItems: 'center', 
+              gap: 1,
+              backgroundColor: 'background.default',
+              borderRadius: 1,
+              pl: 1.5,
+              height: '32px', // Match button height
+            }}
+          >
+            <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+              Filter:
+            </Typography>
+            <FilterContainer>
+              {filterElements.map((element, index) => renderReadOnlyFilter(element, index))}
+            </FilterContainer>
+            {filterError && (
+              <Typography variant="body2" color="error" sx={{ whiteSpace: 'nowrap', pr: 1 }}>
+                Invalid filter
+              </Typography>
+            )}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ width: '100%', height: '100%' }} onMouseDown={(e) => e.stopPropagation()}>
+      {loadError && (
+        <Alert
+          severity="error"
+          sx={{ mb: 1 }}
+          action={<Button color="inherit" size="small" onClick={() => onRefresh()}>Retry</Button>}
+        >
+          Could not load {resourceLabel}: {loadError.message}
+        </Alert>
+      )}
+      <DataGrid
+        rows={filteredRows}
+        loading={loading}
+        columns={columns}
+        getRowId={(row) => getRowId(row as T)}
+        getRowClassName={(params) => (isRowFlagged?.(params.row as T) ? 'inventory-row-flagged' : '')}
+        onRowClick={onRowClick ? (params) => onRowClick(params.row as T) : undefined}
+        components={{
+          Toolbar: CustomToolbar,
+        }}
+        density="compact"
+        initialState={{
+          pagination: {
+            pageSize: 5,
+          },
+          sorting: {
+            sortModel: [{ field: defaultSortField, sort: 'asc' }] as GridSortModel,
+          },
+        }}
+        pageSize={pageSize}
+        onPageSizeChange={(newPageSize) => setPageSize(newPageSize)}
+        rowsPerPageOptions={[1, 2, 3, 5, 8, 13, 21, 34, 55]}
+        disableSelectionOnClick
+        autoHeight
+        sx={{
+          '& .MuiDataGrid-root': {
+            border: 'none',
+          },
+          '& .MuiDataGrid-cell': {
+            borderBottom: '1px solid #e0e0e0',
+          },
+          '& .MuiDataGrid-columnHeaders': {
+            backgroundColor: 'background.paper',
+            borderBottom: '2px solid #e0e0e0',
+          },
+          '& .MuiDataGrid-virtualScroller': {
+            backgroundColor: 'background.paper',
+          },
+          '& .MuiDataGrid-footerContainer': {
+            borderTop: '2px solid #e0e0e0',
+            backgroundColor: 'background.paper',
+          },
+          '& .MuiDataGrid-toolbarContainer': {
+            padding: '8px',
+            backgroundColor: 'background.paper',
+          },
+          '& .MuiDataGrid-row': {
+            cursor: onRowClick ? 'pointer' : undefined,
+          },
+          '& .inventory-row-flagged': {
+            backgroundColor: (theme) => alpha(theme.palette.warning.main, 0.12),
+          },
+        }}
+      />
+
+      <Dialog 
+        open={isFilterDialogOpen} 
+        onClose={() => setIsFilterDialogOpen(false)}
+        maxWidth={false}
+        PaperProps={{
+          sx: {
+            width: '900px', // Approximately 50% wider than the default 'sm' width (600px)
+            maxWidth: '90vw', // Ensure it doesn't overflow on smaller screens
+          }
+        }}
+      >
+        <DialogTitle>Custom Filters</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 2 }}>
+            <Typography variant="subtitle2">Query</Typography>
+            <FilterQueryInput
+              elements={filterElements}
+              onChange={setFilterElements}
+              fields={filterFields}
+              knownValues={knownValues}
+            />
+
+            {filterElements.length > 0 && (
+              <>
+                <Typography variant="subtitle2">Combined Filter</Typography>
+                <Paper 
+                  elevation={1} 
+                  sx={{ 
+                    p: 1.5,
+                    backgroundColor: 'background.default',
+                    minHeight: '50px',
+                  }}
+                >
+                  <FilterContainer isEditable>
+                    {filterElements.map((element, index) => renderDraggableFilter(element, index))}
+                  </FilterContainer>
+                </Paper>
+                {filterError && (
+                  <Alert severity="error">
+                    {filterError.message}. No {resourceLabel} are shown until the filter is fixed.
+                  </Alert>
+                )}
+              </>
+            )}
+
+            <Typography variant="subtitle2" sx={{ mt: 1 }}>Filter Components</Typography>
+            <Box sx={{ display: 'flex', gap: 0.75 }}>
+              <Button
+                variant="outlined"
+                size="small"
+                onClick={() => handleAddParenthesis('open')}
+                sx={{ 
+                  fontWeight: 'bold',
+                  fontSize: '1.1rem',
+                  minWidth: '45px',
+                }}
+              >
+                (
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                onClick={() => handleAddParenthesis('close')}
+                sx={{ 
+                  fontWeight: 'bold',
+                  fontSize: '1.1rem',
+                  minWidth: '45px',
+                }}
+              >
+                )
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                onClick={() => handleAddOperator('AND')}
+              >
+                AND
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                onClick={() => handleAddOperator('OR')}
+              >
+                OR
+              </Button>
+            </Box>
+
+            <Typography variant="subtitle2">Add New Filter</Typography>
+            <Stack spacing={2}>
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                <Select
+                  size="small"
+                  value={currentFilter.field}
+                  onChange={(e) => handleFieldChange(e.target.value)}
+                  sx={{ minWidth: 120 }}
+                >
+                  {filterFields.map(field => (
+                    <MenuItem key={field.field} value={field.field}>
+                      {field.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                <Select
+                  size="small"
+                  value={currentFilter.operator}
+                  onChange={(e) => setCurrentFilter({ ...currentFilter, operator: e.target.value })}
+                  sx={{ minWidth: 120 }}
+                >
+                  {getOperatorsForType(currentFieldType).map(key => (
+                    <MenuItem key={key} value={key}>
+                      {FILTER_OPERATORS[key].label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </Box>
+              {currentOperands > 0 && (
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    value={currentFilter.value}
+                    onChange={(e) => setCurrentFilter({ ...currentFilter, value: e.target.value })}
+                    placeholder={currentFieldType === 'bytes' ? 'e.g. 500 GB' : 'Value'}
+                    error={currentFilter.value !== '' && Boolean(currentFilterError)}
+                    helperText={currentFilter.value !== '' && currentFilterError ? currentFilterError : ''}
+                  />
+                  {currentOperands === 2 && (
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={currentFilter.valueTo}
+                      onChange={(e) => setCurrentFilter({ ...currentFilter, valueTo: e.target.value })}
+                      placeholder={currentFieldType === 'bytes' ? 'e.g. 1.5 TB' : 'Upper bound'}
+                    />
+                  )}
+                </Box>
+              )}
+              <Button
+                startIcon={<AddIcon />}
+                onClick={handleAddFilter}
+                variant="contained"
+                size="small"
+                disabled={Boolean(currentFilterError)}
+              >
+                Add Filter
+              </Button>
+            </Stack>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsFilterDialogOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default InventoryDataGrid; 
\ No newline at end of file
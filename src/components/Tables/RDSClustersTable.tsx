@@ -0,0 +1,225 @@
+/**
+ * AWS RDS Clusters Table Component
+ *
+ * This component implements a data grid for reviewing AWS RDS database clusters.
+ * Alongside engine and sizing details it surfaces the data-protection settings
+ * checked by the database compliance review and highlights failing clusters.
+ *
+ * Technical Concepts:
+ * 1. Column and filter field definitions for the shared InventoryDataGrid
+ * 2. Persistent, per-widget filter state
+ * 3. Compliance flags for missing encryption and short backup retention
+ * 4. Data loaded through the inventory provider layer (useInventory)
+ */
+
+import React from 'react';
+import {
+  GridColDef,
+  GridValueGetterParams,
+  GridRenderCellParams,
+} from '@mui/x-data-grid';
+import { Chip, Link, Stack, Typography } from '@mui/material';
+import { RDSCluster } from '../../types/inventory';
+import { useInventory } from '../../context/InventoryContext';
+import { FilterField } from '../../utils/filterExpression';
+import {
+  getRdsComplianceIssues,
+  describeRdsCompliance,
+  MIN_BACKUP_RETENTION_DAYS,
+  RDS_COMPLIANCE_LABELS,
+} from '../../utils/rdsCompliance';
+import InventoryDataGrid from './InventoryDataGrid';
+
+/**
+ * Formats a boolean setting for display and text filtering
+ * @param {boolean} value - The setting
+ * @returns {string} "Yes" or "No"
+ */
+const yesNo = (value: boolean): string => (value ? 'Yes' : 'No');
+
+/**
+ * Column definitions for the RDS clusters data grid
+ */
+const columns: GridColDef[] = [
+  {
+    field: 'clusterId',
+    headerName: 'Cluster ID',
+    width: 200,
+    valueGetter: (params: GridValueGetterParams) => (params.row as RDSCluster).attributes.DBClusterIdentifier,
+    renderCell: (params: GridRenderCellParams) => {
+      const { DBClusterIdentifier, Region } = (params.row as RDSCluster).attributes;
+      const consoleUrl = `https://${Region}.console.aws.amazon.com/rds/home?region=${Region}#database:id=${DBClusterIdentifier};is-cluster=true`;
+      return (
+        <Link
+          href={consoleUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          sx={{
+            textDecoration: 'none',
+            '&:hover': {
+              textDecoration: 'underline',
+            }
+          }}
+        >
+          {DBClusterIdentifier}
+        </Link>
+      );
+    },
+  },
+  {
+    field: 'engine',
+    headerName: 'Engine',
+    width: 150,
+    valueGetter: (params: GridValueGetterParams) => (params.row as RDSCluster).attributes.Engine,
+  },
+  {
+    field: 'engineVersion',
+    headerName: 'Engine Version',
+    width: 190,
+    valueGetter: (params: GridValueGetterParams) => (params.row as RDSCluster).attributes.EngineVersion,
+  },
+  {
+    field: 'instanceClass',
+    headerName: 'Instance Class',
+    width: 140,
+    valueGetter: (params: GridValueGetterParams) => (params.row as RDSCluster).attributes.DBClusterInstanceClass,
+  },
+  {
+    field: 'multiAz',
+    headerName: 'Multi-AZ',
+    width: 100,
+    valueGetter: (params: GridValueGetterParams) => yesNo((params.row as RDSCluster).attributes.MultiAZ),
+  },
+  {
+    field: 'storageEncrypted',
+    headerName: 'Encrypted',
+    width: 110,
+    valueGetter: (params: GridValueGetterParams) => yesNo((params.row as RDSCluster).attributes.StorageEncrypted),
+    renderCell: (params: GridRenderCellParams) => (
+      (params.row as RDSCluster).attributes.StorageEncrypted
+        ? params.value
+        : <Typography variant="body2" color="error.main" fontWeight="bold">No</Typography>
+    ),
+  },
+  {
+    field: 'backupRetention',
+    headerName: 'Backup Retention',
+    width: 140,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as RDSCluster).attributes.BackupRetentionPeriod,
+    renderCell: (params: GridRenderCellParams) => {
+      const days = params.value as number;
+      return (
+        <Typography
+          variant="body2"
+          color={days < MIN_BACKUP_RETENTION_DAYS ? 'error.main' : 'inherit'}
+          fontWeight={days < MIN_BACKUP_RETENTION_DAYS ? 'bold' : undefined}
+        >
+          {days} {days === 1 ? 'day' : 'days'}
+        </Typography>
+      );
+    },
+  },
+  {
+    field: 'deletionProtection',
+    headerName: 'Deletion Protection',
+    width: 150,
+    valueGetter: (params: GridValueGetterParams) => yesNo((params.row as RDSCluster).attributes.DeletionProtection),
+  },
+  {
+    field: 'account',
+    headerName: 'Account',
+    width: 150,
+    valueGetter: (params: GridValueGetterParams) => (params.row as RDSCluster).relationships.Account.data.name,
+  },
+  {
+    field: 'region',
+    headerName: 'Region',
+    width: 120,
+    valueGetter: (params: GridValueGetterParams) => (params.row as RDSCluster).attributes.Region,
+  },
+  {
+    field: 'compliance',
+    headerName: 'Compliance',
+    width: 240,
+    valueGetter: (params: GridValueGetterParams) => describeRdsCompliance(params.row as RDSCluster),
+    renderCell: (params: GridRenderCellParams) => {
+      const issues = getRdsComplianceIssues(params.row as RDSCluster);
+      if (issues.length === 0) {
+        return <Chip label="Compliant" size="small" color="success" variant="outlined" />;
+      }
+      return (
+        <Stack direction="row" spacing={0.5}>
+          {issues.map(issue => (
+            <Chip key={issue} label={RDS_COMPLIANCE_LABELS[issue]} size="small" color="warning" />
+          ))}
+        </Stack>
+      );
+    },
+  },
+];
+
+/**
+ * Filterable field metadata for RDS clusters
+ * Boolean settings filter on "Yes"/"No"; compliance filters on the issue labels,
+ * e.g. "compliance contains Unencrypted".
+ */
+export const rdsFilterFields: FilterField<RDSCluster>[] = [
+  { field: 'clusterId', label: 'Cluster ID', type: 'string', getValue: row => row.attributes.DBClusterIdentifier },
+  { field: 'engine', label: 'Engine', type: 'string', getValue: row => row.attributes.Engine },
+  { field: 'engineVersion', label: 'Engine Version', type: 'string', getValue: row => row.attributes.EngineVersion },
+  { field: 'instanceClass', label: 'Instance Class', type: 'string', getValue: row => row.attributes.DBClusterInstanceClass },
+  { field: 'multiAz', label: 'Multi-AZ', type: 'string', getValue: row => yesNo(row.attributes.MultiAZ) },
+  { field: 'storageEncrypted', label: 'Encrypted', type: 'string', getValue: row => yesNo(row.attributes.StorageEncrypted) },
+  { field: 'backupRetention', label: 'Backup Retention', type: 'number', getValue: row => row.attributes.BackupRetentionPeriod },
+  {
+    field: 'deletionProtection',
+    label: 'Deletion Protection',
+    type: 'string',
+    getValue: row => yesNo(row.attributes.DeletionProtection),
+  },
+  { field: 'account', label: 'Account', type: 'string', getValue: row => row.relationships.Account.data.name },
+  { field: 'region', label: 'Region', type: 'string', getValue: row => row.attributes.Region },
+  { field: 'compliance', label: 'Compliance', type: 'string', getValue: row => describeRdsCompliance(row) },
+];
+
+interface RDSClustersTableProps {
+  widgetId: string;
+}
+
+/**
+ * RDSClustersTable Component
+ *
+ * Displays AWS RDS clusters in a data grid with the custom filter builder.
+ *
+ * Features:
+ * - Sortable and filterable columns
+ * - Custom filter builder with drag-and-drop support
+ * - Persistent filter state per widget
+ * - AWS RDS console integration
+ * - Highlighted rows for clusters failing the compliance checks
+ *
+ * @component
+ * @param {RDSClustersTableProps} props - Component props
+ */
+const RDSClustersTable: React.FC<RDSClustersTableProps> = ({ widgetId }) => {
+  const { data: clusters, loading, error, refresh } = useInventory('rdsClusters');
+
+  return (
+    <InventoryDataGrid
+      rows={clusters}
+      columns={columns}
+      filterFields={rdsFilterFields}
+      getRowId={(row) => row.id}
+      filterStorageKey={`rds-clusters-filters-${widgetId}`}
+      resourceLabel="RDS clusters"
+      defaultSortField="clusterId"
+      loading={loading}
+      error={error}
+      onRefresh={refresh}
+      isRowFlagged={(row) => getRdsComplianceIssues(row).length > 0}
+    />
+  );
+};
+
+export default RDSClustersTable;
@@ -0,0 +1,268 @@
+/**
+ * AWS VPC Table Component
+ *
+ * This component implements a data grid for AWS VPCs with their CIDR blocks,
+ * subnets, route tables, gateways and peering connections. CIDR blocks are
+ * compared across all accounts, and VPCs whose ranges collide are highlighted.
+ *
+ * Technical Concepts:
+ * 1. Column and filter field definitions for the shared InventoryDataGrid
+ * 2. Persistent, per-widget filter state
+ * 3. CIDR overlap analysis across every loaded VPC
+ * 4. Data loaded through the inventory provider layer (useInventory)
+ */
+
+import React, { useMemo } from 'react';
+import {
+  GridColDef,
+  GridValueGetterParams,
+  GridRenderCellParams,
+} from '@mui/x-data-grid';
+import { Chip, Link, Stack, Tooltip } from '@mui/material';
+import { VPC } from '../../types/inventory';
+import { useInventory } from '../../context/InventoryContext';
+import { FilterField } from '../../utils/filterExpression';
+import { CidrOverlap, findCidrOverlaps } from '../../utils/cidr';
+import InventoryDataGrid from './InventoryDataGrid';
+
+/**
+ * Returns the display name of a VPC: its Name tag, or "default" for default VPCs
+ * @param {VPC} vpc - The VPC
+ * @returns {string} The name, or an empty string if it has none
+ */
+export const getVpcName = (vpc: VPC): string =>
+  vpc.attributes.Tags.find(tag => tag.Key === 'Name')?.Value ?? (vpc.attributes.IsDefault ? 'default' : '');
+
+/**
+ * Finds overlapping CIDR blocks between all VPCs, across accounts and regions
+ * @param {VPC[]} vpcs - The VPCs to analyze
+ * @returns {CidrOverlap<VPC>[]} Overlapping pairs of VPC CIDR blocks
+ */
+export const findVpcCidrOverlaps = (vpcs: VPC[]): CidrOverlap<VPC>[] =>
+  findCidrOverlaps(vpcs.flatMap(vpc => vpc.attributes.CidrBlocks.map(cidr => ({ owner: vpc, cidr }))));
+
+/**
+ * Renders a count with a tooltip listing the underlying items
+ * @param {string[]} lines - One line per item
+ * @returns {JSX.Element} The count, with the list on hover
+ */
+const renderCountWithDetails = (lines: string[]) => (
+  <Tooltip title={lines.length > 0 ? <span style={{ whiteSpace: 'pre-line' }}>{lines.join('\n')}</span> : ''}>
+    <span>{lines.length}</span>
+  </Tooltip>
+);
+
+/**
+ * Column definitions for the VPC data grid
+ * @param {Map<string, string[]>} overlapsById - Overlapping VPC IDs keyed by row id
+ * @returns {GridColDef[]} The columns
+ */
+const createColumns = (overlapsById: Map<string, string[]>): GridColDef[] => [
+  {
+    field: 'vpcId',
+    headerName: 'VPC ID',
+    width: 200,
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.VpcId,
+    renderCell: (params: GridRenderCellParams) => {
+      const { VpcId, Region } = (params.row as VPC).attributes;
+      const consoleUrl = `https://${Region}.console.aws.amazon.com/vpcconsole/home?region=${Region}#VpcDetails:VpcId=${VpcId}`;
+      return (
+        <Link
+          href={consoleUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          sx={{
+            textDecoration: 'none',
+            '&:hover': {
+              textDecoration: 'underline',
+            }
+          }}
+        >
+          {VpcId}
+        </Link>
+      );
+    },
+  },
+  {
+    field: 'name',
+    headerName: 'Name',
+    width: 150,
+    valueGetter: (params: GridValueGetterParams) => getVpcName(params.row as VPC),
+  },
+  {
+    field: 'cidrBlocks',
+    headerName: 'CIDR Blocks',
+    width: 200,
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.CidrBlocks.join(', '),
+  },
+  {
+    field: 'subnets',
+    headerName: 'Subnets',
+    width: 90,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.Subnets.length,
+    renderCell: (params: GridRenderCellParams) => renderCountWithDetails(
+      (params.row as VPC).attributes.Subnets.map(
+        subnet => `${subnet.SubnetId}  ${subnet.CidrBlock}  ${subnet.AvailabilityZone}${subnet.MapPublicIpOnLaunch ? '  public' : ''}`
+      )
+    ),
+  },
+  {
+    field: 'routeTables',
+    headerName: 'Route Tables',
+    width: 110,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.RouteTables.length,
+    renderCell: (params: GridRenderCellParams) => renderCountWithDetails(
+      (params.row as VPC).attributes.RouteTables.map(table =>
+        `${table.RouteTableId}${table.Main ? ' (main)' : ''}: ${table.Routes.map(route => `${route.DestinationCidrBlock} → ${route.Target}`).join(', ')}`
+      )
+    ),
+  },
+  {
+    field: 'internetGateway',
+    headerName: 'Internet Gateway',
+    width: 190,
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.InternetGatewayId ?? '-',
+  },
+  {
+    field: 'natGateways',
+    headerName: 'NAT Gateways',
+    width: 120,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.NatGatewayIds.length,
+    renderCell: (params: GridRenderCellParams) => renderCountWithDetails((params.row as VPC).attributes.NatGatewayIds),
+  },
+  {
+    field: 'peeringConnections',
+    headerName: 'Peering',
+    width: 90,
+    type: 'number',
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.PeeringConnections.length,
+    renderCell: (params: GridRenderCellParams) => renderCountWithDetails(
+      (params.row as VPC).attributes.PeeringConnections.map(
+        peering => `${peering.PeeringConnectionId} → ${peering.PeerVpcId} (${peering.PeerAccountId}, ${peering.Status})`
+      )
+    ),
+  },
+  {
+    field: 'account',
+    headerName: 'Account',
+    width: 130,
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).relationships.Account.data.name,
+  },
+  {
+    field: 'region',
+    headerName: 'Region',
+    width: 110,
+    valueGetter: (params: GridValueGetterParams) => (params.row as VPC).attributes.Region,
+  },
+  {
+    field: 'cidrOverlaps',
+    headerName: 'CIDR Overlaps',
+    width: 260,
+    valueGetter: (params: GridValueGetterParams) => (overlapsById.get((params.row as VPC).id) ?? []).join(', '),
+    renderCell: (params: GridRenderCellParams) => (
+      <Stack direction="row" spacing={0.5}>
+        {(overlapsById.get((params.row as VPC).id) ?? []).map(vpcId => (
+          <Chip key={vpcId} label={vpcId} size="small" color="warning" />
+        ))}
+      </Stack>
+    ),
+  },
+];
+
+/**
+ * Filterable field metadata for VPCs
+ * @param {Map<string, string[]>} overlapsById - Overlapping VPC IDs keyed by row id
+ * @returns {FilterField<VPC>[]} The fields
+ */
+const createFilterFields = (overlapsById: Map<string, string[]>): FilterField<VPC>[] => [
+  { field: 'vpcId', label: 'VPC ID', type: 'string', getValue: row => row.attributes.VpcId },
+  { field: 'name', label: 'Name', type: 'string', getValue: row => getVpcName(row) },
+  { field: 'cidrBlocks', label: 'CIDR Blocks', type: 'string', getValue: row => row.attributes.CidrBlocks.join(', ') },
+  { field: 'subnets', label: 'Subnets', type: 'number', getValue: row => row.attributes.Subnets.length },
+  { field: 'routeTables', label: 'Route Tables', type: 'number', getValue: row => row.attributes.RouteTables.length },
+  {
+    field: 'internetGateway',
+    label: 'Internet Gateway',
+    type: 'string',
+    getValue: row => row.attributes.InternetGatewayId ?? '',
+  },
+  { field: 'natGateways', label: 'NAT Gateways', type: 'number', getValue: row => row.attributes.NatGatewayIds.length },
+  {
+    field: 'peeringConnections',
+    label: 'Peering',
+    type: 'number',
+    getValue: row => row.attributes.PeeringConnections.length,
+  },
+  { field: 'account', label: 'Account', type: 'string', getValue: row => row.relationships.Account.data.name },
+  { field: 'region', label: 'Region', type: 'string', getValue: row => row.attributes.Region },
+  {
+    field: 'cidrOverlaps',
+    label: 'CIDR Overlaps',
+    type: 'string',
+    getValue: row => (overlapsById.get(row.id) ?? []).join(', '),
+  },
+];
+
+interface VPCTableProps {
+  widgetId: string;
+}
+
+/**
+ * VPCTable Component
+ *
+ * Displays AWS VPCs in a data grid with the custom filter builder.
+ * Overlaps are computed over all VPCs, not just the filtered rows, so a
+ * filtered view still shows collisions with VPCs it hides.
+ *
+ * Features:
+ * - Sortable and filterable columns
+ * - Custom filter builder with drag-and-drop support
+ * - Persistent filter state per widget
+ * - Subnet, route table and peering details on hover
+ * - Highlighted rows for VPCs with overlapping CIDR blocks
+ *
+ * @component
+ * @param {VPCTableProps} props - Component props
+ */
+const VPCTable: React.FC<VPCTableProps> = ({ widgetId }) => {
+  const { data: vpcs, loading, error, refresh } = useInventory('vpcs');
+
+  const overlapsById = useMemo(() => {
+    const map = new Map<string, string[]>();
+    const add = (vpc: VPC, other: VPC) => {
+      const ids = map.get(vpc.id) ?? [];
+      if (!ids.includes(other.attributes.VpcId)) {
+        map.set(vpc.id, [...ids, other.attributes.VpcId]);
+      }
+    };
+    findVpcCidrOverlaps(vpcs).forEach(({ first, second }) => {
+      add(first.owner, second.owner);
+      add(second.owner, first.owner);
+    });
+    return map;
+  }, [vpcs]);
+
+  const columns = useMemo(() => createColumns(overlapsById), [overlapsById]);
+  const filterFields = useMemo(() => createFilterFields(overlapsById), [overlapsById]);
+
+  return (
+    <InventoryDataGrid
+      rows={vpcs}
+      columns={columns}
+      filterFields={filterFields}
+      getRowId={(row) => row.id}
+      filterStorageKey={`vpcs-filters-${widgetId}`}
+      resourceLabel="VPCs"
+      defaultSortField="vpcId"
+      loading={loading}
+      error={error}
+      onRefresh={refresh}
+      isRowFlagged={(row) => overlapsById.has(row.id)}
+    />
+  );
+};
+
+export default VPCTable;
@@ -0,0 +1,92 @@
+/**
+ * Chart Frame Component
+ *
+ * Shared layout of the inventory chart widgets: the page filter chip the
+ * chart has set, and load error, loading and empty states around the chart.
+ */
+
+import React from 'react';
+import { Alert, Box, Button, Chip, CircularProgress, Typography } from '@mui/material';
+import { BoundData } from '../../hooks/useBoundData';
+import { PageFilterSource } from '../../context/PageFilterContext';
+
+/**
+ * ChartFrameProps Interface
+ * @property {BoundData} data - The chart's bound data and load state
+ * @property {PageFilterSource} selection - The page filter the chart has set
+ * @property {React.ReactNode} children - The chart, rendered once there is data
+ */
+interface ChartFrameProps {
+  data: BoundData;
+  selection: PageFilterSource;
+  children: React.ReactNode;
+}
+
+/**
+ * ChartFrame Component
+ *
+ * @component
+ * @param {ChartFrameProps} props - Component props
+ */
+const ChartFrame: React.FC<ChartFrameProps> = ({ data, selection, children }) => {
+  const { points, groupField, loading, error, refresh } = data;
+
+  const renderContent = () => {
+    if (error) {
+      return (
+        <Alert
+          severity="error"
+          action={<Button color="inherit" size="small" onClick={() => refresh()}>Retry</Button>}
+        >
+          {error.message}
+        </Alert>
+      );
+    }
+    if (loading && points.length === 0) {
+      return <CircularProgress />;
+    }
+    if (points.length === 0) {
+      return <Typography color="text.secondary">No data matches this chart's filter.</Typography>;
+    }
+    return children;
+  };
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      p: 2,
+    }}>
+      {selection.selectedKey !== null && groupField && (
+        <Box sx={{ mb: 1 }}>
+          <Chip
+            size="small"
+            color="primary"
+            label={`Filtering page: ${groupField.label} = ${selection.selectedKey}`}
+            onDelete={selection.clear}
+          />
+        </Box>
+      )}
+      <Box
+        sx={{
+          flex: 1,
+          minHeight: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          '& canvas': {
+            maxWidth: '100%',
+            height: 'auto'
+          }
+        }}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {renderContent()}
+      </Box>
+    </Box>
+  );
+};
+
+export default ChartFrame;
@@ -0,0 +1,199 @@
+/**
+ * Inventory Summary Widget Component
+ *
+ * A summary card with the headline numbers of the inventory: S3 bucket count
+ * and total size, EC2 instance count by state and RDS cluster count. The card
+ * can be scoped to one account and/or region, and shows how each number
+ * changed since the previous day's snapshot.
+ *
+ * Technical Concepts:
+ * 1. Several resource types loaded through the inventory provider layer (useInventory)
+ * 2. Daily snapshots persisted per scope (useSnapshotHistory)
+ * 3. Trend arrows comparing the current numbers to the previous snapshot
+ */
+
+import React from 'react';
+import { Alert, Box, Button, Chip, CircularProgress, Paper, Stack, Tooltip, Typography } from '@mui/material';
+import {
+  ArrowDownward as ArrowDownIcon,
+  ArrowUpward as ArrowUpIcon,
+  TrendingFlat as TrendingFlatIcon,
+} from '@mui/icons-material';
+import { InventorySummaryWidgetConfig } from '../../types/dashboard';
+import { useInventory } from '../../context/InventoryContext';
+import useSnapshotHistory from '../../hooks/useSnapshotHistory';
+import { EC2_STATES, getSummarySnapshotKey, InventorySummary, summarizeInventory } from '../../utils/inventorySummary';
+import { getPreviousSnapshot, Snapshot } from '../../utils/snapshots';
+import { formatBytes } from '../../utils/formatBytes';
+import { STATE_COLORS } from '../Tables/EC2InstancesTable';
+
+/**
+ * TrendProps Interface
+ * @property {number} current - The current value
+ * @property {Snapshot} [previous] - Snapshot to compare against
+ * @property {string} metric - Key of the value in the snapshot
+ * @property {Function} [format] - Formats values and differences for display
+ */
+interface TrendProps {
+  current: number;
+  previous?: Snapshot;
+  metric: string;
+  format?: (value: number) => string;
+}
+
+/**
+ * Trend Component
+ *
+ * An arrow with the change since the previous snapshot. Changes are shown in a
+ * neutral color, as more or fewer resources is neither good nor bad by itself.
+ *
+ * @component
+ * @param {TrendProps} props - Component props
+ */
+const Trend: React.FC<TrendProps> = ({ current, previous, metric, format = (value) => value.toLocaleString() }) => {
+  const before = previous?.values[metric];
+  if (before === undefined) {
+    return null;
+  }
+  const delta = current - before;
+  const Icon = delta > 0 ? ArrowUpIcon : delta < 0 ? ArrowDownIcon : TrendingFlatIcon;
+  const since = new Date(previous!.takenAt).toLocaleDateString();
+
+  return (
+    <Tooltip title={`${format(before)} on ${since}`}>
+      <Box sx={{ display: 'inline-flex', alignItems: 'center', color: 'text.secondary' }}>
+        <Icon fontSize="small" />
+        <Typography variant="caption">
+          {delta === 0 ? 'No change' : `${delta > 0 ? '+' : '-'}${format(Math.abs(delta))}`}
+        </Typography>
+      </Box>
+    </Tooltip>
+  );
+};
+
+/**
+ * SummarySection Component
+ *
+ * One service on the card: its name, headline number, trend and details.
+ *
+ * @component
+ */
+const SummarySection: React.FC<{
+  title: string;
+  value: string;
+  trend: React.ReactNode;
+  children?: React.ReactNode;
+}> = ({ title, value, trend, children }) => (
+  <Paper variant="outlined" sx={{ flex: 1, minWidth: 160, p: 1.5 }}>
+    <Typography variant="overline" color="text.secondary">{title}</Typography>
+    <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1, flexWrap: 'wrap' }}>
+      <Typography variant="h4" component="div">{value}</Typography>
+      {trend}
+    </Box>
+    {children}
+  </Paper>
+);
+
+/**
+ * InventorySummaryWidgetProps Interface
+ * @property {InventorySummaryWidgetConfig} config - Account and region scope
+ */
+interface InventorySummaryWidgetProps {
+  config: InventorySummaryWidgetConfig;
+}
+
+/**
+ * InventorySummaryWidget Component
+ *
+ * Features:
+ * - S3 bucket count and total size
+ * - EC2 instance count, broken down by state
+ * - RDS cluster count
+ * - Optional account and region scope
+ * - Trend arrows against the previous day's snapshot of the same scope
+ *
+ * @component
+ * @param {InventorySummaryWidgetProps} props - Component props
+ */
+const InventorySummaryWidget: React.FC<InventorySummaryWidgetProps> = ({ config }) => {
+  const s3 = useInventory('s3Buckets');
+  const ec2 = useInventory('ec2Instances');
+  const rds = useInventory('rdsClusters');
+  const sources = [s3, ec2, rds];
+  const loaded = sources.every(source => source.loadedAt !== null);
+  const error = sources.find(source => source.error)?.error ?? null;
+
+  const summary: InventorySummary | null = loaded
+    ? summarizeInventory({ s3Buckets: s3.data, ec2Instances: ec2.data, rdsClusters: rds.data }, config)
+    : null;
+  // Only complete, successfully loaded data is recorded
+  const history = useSnapshotHistory(getSummarySnapshotKey(config), error ? null : summary);
+  const previous = getPreviousSnapshot(history, Date.now());
+
+  const scopeLabel = [config.account, config.region].filter(Boolean).join(' · ') || 'All accounts and regions';
+
+  if (error) {
+    return (
+      <Box sx={{ width: '100%', height: '100%', p: 2 }}>
+        <Alert
+          severity="error"
+          action={<Button color="inherit" size="small" onClick={() => sources.forEach(source => source.refresh())}>Retry</Button>}
+        >
+          Could not load the inventory: {error.message}
+        </Alert>
+      </Box>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <Box sx={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ width: '100%', height: '100%', p: 2, overflow: 'auto' }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        {scopeLabel}
+      </Typography>
+      <Stack direction="row" spacing={2} useFlexGap sx={{ flexWrap: 'wrap' }}>
+        <SummarySection
+          title="S3 Buckets"
+          value={summary['s3.count'].toLocaleString()}
+          trend={<Trend current={summary['s3.count']} previous={previous} metric="s3.count" />}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2">{formatBytes(summary['s3.bytes'])} total</Typography>
+            <Trend current={summary['s3.bytes']} previous={previous} metric="s3.bytes" format={formatBytes} />
+          </Box>
+        </SummarySection>
+        <SummarySection
+          title="EC2 Instances"
+          value={summary['ec2.count'].toLocaleString()}
+          trend={<Trend current={summary['ec2.count']} previous={previous} metric="ec2.count" />}
+        >
+          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+            {EC2_STATES.filter(state => summary[`ec2.state.${state}`] > 0).map(state => (
+              <Chip
+                key={state}
+                size="small"
+                variant="outlined"
+                color={STATE_COLORS[state]}
+                label={`${state}: ${summary[`ec2.state.${state}`]}`}
+              />
+            ))}
+          </Box>
+        </SummarySection>
+        <SummarySection
+          title="RDS Clusters"
+          value={summary['rds.count'].toLocaleString()}
+          trend={<Trend current={summary['rds.count']} previous={previous} metric="rds.count" />}
+        />
+      </Stack>
+    </Box>
+  );
+};
+
+export default InventorySummaryWidget;
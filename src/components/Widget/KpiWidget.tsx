@@ -0,0 +1,187 @@
+/**
+ * KPI Widget Component
+ *
+ * A single big number computed from inventory data, e.g. total S3 storage,
+ * the number of buckets without lifecycle rules or their weekly growth. The
+ * card turns orange or red when the number crosses the configured warning or
+ * critical threshold, and a sparkline shows the number over the last days.
+ *
+ * Technical Concepts:
+ * 1. Inventory data binding without grouping (useBoundData total)
+ * 2. Daily snapshots persisted per binding (useSnapshotHistory)
+ * 3. Chart.js line chart through react-chartjs-2, reduced to a sparkline
+ * 4. Material-UI palette colors for threshold states
+ */
+
+import React from 'react';
+import { alpha, Alert, Box, Button, CircularProgress, Tooltip as MuiTooltip, Typography, useTheme } from '@mui/material';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LineElement,
+  PointElement,
+  CategoryScale,
+  LinearScale,
+  Filler,
+  Tooltip,
+  ChartOptions,
+} from 'chart.js';
+import { KpiWidgetConfig } from '../../types/dashboard';
+import useBoundData from '../../hooks/useBoundData';
+import useSnapshotHistory from '../../hooks/useSnapshotHistory';
+import { getChartTextStyles } from '../../theme/chartTheme';
+import { formatKpiValue, getKpiStatus, KpiStatus } from '../../utils/kpi';
+
+// Register Chart.js components
+ChartJS.register(LineElement, PointElement, CategoryScale, LinearScale, Filler, Tooltip);
+
+/**
+ * Key of the number in the widget's snapshots
+ */
+const SNAPSHOT_VALUE = 'value';
+
+/**
+ * Palette color per threshold state
+ */
+const STATUS_COLORS: Record<KpiStatus, 'primary' | 'warning' | 'error'> = {
+  ok: 'primary',
+  warning: 'warning',
+  critical: 'error',
+};
+
+/**
+ * KpiWidgetProps Interface
+ * @property {string} widgetId - The widget, so page filters it set do not apply to it
+ * @property {KpiWidgetConfig} config - The number's data binding, format and thresholds
+ */
+interface KpiWidgetProps {
+  widgetId: string;
+  config: KpiWidgetConfig;
+}
+
+/**
+ * KpiWidget Component
+ *
+ * Features:
+ * - Byte sizes, plain or compact number formatting
+ * - Warning and critical thresholds, for values above or below them
+ * - Sparkline of one snapshot per day, recorded while the page is open
+ * - Follows page filters set by other widgets; filtered values are not recorded
+ *
+ * @component
+ * @param {KpiWidgetProps} props - Component props
+ */
+const KpiWidget: React.FC<KpiWidgetProps> = ({ widgetId, config }) => {
+  const theme = useTheme();
+  const { total, valueType, pageFiltered, loading, error, refresh } = useBoundData(config, widgetId);
+
+  // Only unfiltered, fully loaded values go into the history
+  const recordable = !loading && !error && !pageFiltered;
+  const history = useSnapshotHistory(
+    `kpi:${config.resource}:${config.metric}:${config.filter}`,
+    recordable ? { [SNAPSHOT_VALUE]: total } : null
+  );
+  const trend = history.filter(snapshot => snapshot.values[SNAPSHOT_VALUE] !== undefined);
+
+  const format = (value: number) => formatKpiValue(value, config.unit, valueType);
+  const status = getKpiStatus(total, config, config.unit, valueType);
+  const color = theme.palette[STATUS_COLORS[status]].main;
+
+  if (error) {
+    return (
+      <Box sx={{ p: 2 }}>
+        <Alert
+          severity="error"
+          action={<Button color="inherit" size="small" onClick={() => refresh()}>Retry</Button>}
+        >
+          {error.message}
+        </Alert>
+      </Box>
+    );
+  }
+
+  if (loading && total === 0) {
+    return (
+      <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const sparklineOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        ...getChartTextStyles(theme).tooltip,
+        displayColors: false,
+        callbacks: {
+          label: (context) => format(context.parsed.y),
+        },
+      },
+    },
+    scales: {
+      x: { display: false },
+      y: { display: false },
+    },
+    elements: {
+      point: { radius: 0, hitRadius: 8, hoverRadius: 3 },
+    },
+  };
+
+  const sparklineData = {
+    labels: trend.map(snapshot => new Date(snapshot.takenAt).toLocaleDateString()),
+    datasets: [{
+      data: trend.map(snapshot => snapshot.values[SNAPSHOT_VALUE]),
+      borderColor: color,
+      backgroundColor: alpha(color, 0.15),
+      borderWidth: 2,
+      tension: 0.3,
+      fill: true,
+    }],
+  };
+
+  return (
+    <Box
+      sx={{
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        p: 2,
+        borderLeft: 4,
+        borderColor: status === 'ok' ? 'transparent' : color,
+        backgroundColor: status === 'ok' ? undefined : alpha(color, 0.08),
+      }}
+    >
+      <MuiTooltip title={pageFiltered ? 'Filtered by a selection on this page' : ''}>
+        <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="h3" component="div" sx={{ color: status === 'ok' ? 'text.primary' : color }}>
+            {format(total)}
+          </Typography>
+          {config.suffix && (
+            <Typography variant="subtitle1" color="text.secondary">{config.suffix}</Typography>
+          )}
+        </Box>
+      </MuiTooltip>
+      {status !== 'ok' && (
+        <Typography variant="caption" sx={{ color }}>
+          {status === 'critical' ? 'Critical' : 'Warning'}: {config.direction === 'below' ? 'at or below' : 'at or above'}{' '}
+          {status === 'critical' ? config.critical : config.warning}
+        </Typography>
+      )}
+      <Box sx={{ flex: 1, minHeight: 32, mt: 1 }} onMouseDown={(e) => e.stopPropagation()}>
+        {trend.length > 1 ? (
+          <Line data={sparklineData} options={sparklineOptions} />
+        ) : (
+          <Typography variant="caption" color="text.secondary">
+            The trend appears once values from more than one day have been recorded.
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default KpiWidget;
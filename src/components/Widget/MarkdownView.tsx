@@ -0,0 +1,182 @@
+/**
+ * Markdown View Component
+ *
+ * Renders Markdown with Material-UI components. The source is parsed into a
+ * syntax tree (`utils/markdown`) and every node becomes a React element, so
+ * user content is never inserted as HTML and unsafe links are dropped.
+ */
+
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Divider,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+  TypographyProps,
+} from '@mui/material';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../../utils/markdown';
+
+/**
+ * Typography variant per heading level
+ */
+const HEADING_VARIANTS: TypographyProps['variant'][] = ['h5', 'h6', 'subtitle1', 'subtitle2', 'body1', 'body2'];
+
+/**
+ * Renders inline nodes
+ */
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strikethrough':
+        return <s key={index}>{renderInline(node.children)}</s>;
+      case 'code':
+        return (
+          <Box
+            key={index}
+            component="code"
+            sx={{ fontFamily: 'monospace', fontSize: '0.875em', px: 0.5, borderRadius: 0.5, backgroundColor: 'action.hover' }}
+          >
+            {node.text}
+          </Box>
+        );
+      case 'link':
+        return (
+          <Link key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </Link>
+        );
+      case 'break':
+        return <br key={index} />;
+      default:
+        return null;
+    }
+  });
+
+/**
+ * Renders block nodes
+ * @param {MarkdownBlock[]} blocks - The blocks
+ * @param {boolean} [tight] - Render paragraphs without spacing (inside list items)
+ */
+const renderBlocks = (blocks: MarkdownBlock[], tight = false): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading':
+        return (
+          <Typography
+            key={index}
+            variant={HEADING_VARIANTS[block.level - 1]}
+            component={`h${block.level}` as React.ElementType}
+            sx={{ fontWeight: 'bold', mt: index === 0 ? 0 : 1.5, mb: 0.5 }}
+          >
+            {renderInline(block.children)}
+          </Typography>
+        );
+      case 'paragraph':
+        return (
+          <Typography key={index} variant="body2" sx={{ mb: tight ? 0 : 1 }}>
+            {renderInline(block.children)}
+          </Typography>
+        );
+      case 'list':
+        return (
+          <Box
+            key={index}
+            component={block.ordered ? 'ol' : 'ul'}
+            start={block.ordered ? block.start : undefined}
+            sx={{ pl: 3, my: 0, mb: tight ? 0 : 1 }}
+          >
+            {block.items.map((item, itemIndex) => (
+              <Typography key={itemIndex} component="li" variant="body2">
+                {renderBlocks(item, true)}
+              </Typography>
+            ))}
+          </Box>
+        );
+      case 'code':
+        return (
+          <Box
+            key={index}
+            component="pre"
+            data-language={block.language || undefined}
+            sx={{
+              fontFamily: 'monospace',
+              fontSize: '0.8125rem',
+              p: 1,
+              mt: 0,
+              mb: 1,
+              borderRadius: 1,
+              overflowX: 'auto',
+              backgroundColor: 'action.hover',
+            }}
+          >
+            <code>{block.text}</code>
+          </Box>
+        );
+      case 'table':
+        return (
+          <Box key={index} sx={{ overflowX: 'auto', mb: 1 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {block.header.map((cell, column) => (
+                    <TableCell key={column} align={block.align[column] ?? undefined} sx={{ fontWeight: 'bold' }}>
+                      {renderInline(cell)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {block.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <TableCell key={column} align={block.align[column] ?? undefined}>
+                        {renderInline(cell)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        );
+      case 'blockquote':
+        return (
+          <Box
+            key={index}
+            component="blockquote"
+            sx={{ m: 0, mb: 1, pl: 1.5, borderLeft: 3, borderColor: 'divider', color: 'text.secondary' }}
+          >
+            {renderBlocks(block.children)}
+          </Box>
+        );
+      case 'rule':
+        return <Divider key={index} sx={{ my: 1 }} />;
+      default:
+        return null;
+    }
+  });
+
+/**
+ * MarkdownView Component
+ *
+ * @component
+ * @param {Object} props - Component props
+ * @param {string} props.source - The Markdown to render
+ */
+const MarkdownView: React.FC<{ source: string }> = ({ source }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <Box sx={{ '& > :last-child': { mb: 0 } }}>{renderBlocks(blocks)}</Box>;
+};
+
+export default MarkdownView;
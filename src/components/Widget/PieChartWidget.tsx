@@ -1,18 +1,21 @@
 /**
  * Pie Chart Widget Component
- * 
+ *
  * This component implements a responsive pie chart visualization using Chart.js.
- * It provides a customizable chart for displaying proportional data with dynamic theming.
- * 
+ * It shows inventory data grouped by a field, as described by the widget's
+ * data binding, and acts as a filter for the other widgets on the page.
+ *
  * Technical Concepts:
  * 1. Chart.js for data visualization
  * 2. Material-UI theming integration
  * 3. Responsive chart rendering
  * 4. Dynamic color palette management
+ * 5. Inventory data binding (resource, group-by field, metric, filter)
+ * 6. Cross-widget filtering through the page filter context
  */
 
 import React from 'react';
-import { Box, useTheme } from '@mui/material';
+import { useTheme } from '@mui/material';
 import { Pie } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -21,51 +24,64 @@ import {
   Legend,
   ChartOptions
 } from 'chart.js';
+import { DataBinding } from '../../types/dashboard';
+import { usePageFilterSource } from '../../context/PageFilterContext';
+import useBoundData from '../../hooks/useBoundData';
+import { getChartColors, getChartTextStyles } from '../../theme/chartTheme';
+import { formatMetricValue } from '../../utils/aggregate';
+import ChartFrame from './ChartFrame';
 
 // Register Chart.js components
 ChartJS.register(ArcElement, Tooltip, Legend);
 
+/**
+ * PieChartWidgetProps Interface
+ * @property {string} widgetId - The widget, used as the source of page filters it sets
+ * @property {DataBinding} binding - The inventory data to show
+ */
+interface PieChartWidgetProps {
+  widgetId: string;
+  binding: DataBinding;
+}
+
 /**
  * PieChartWidget Component
- * 
- * Displays data in a pie chart format with customizable styling and tooltips.
- * 
+ *
+ * Displays aggregated inventory data in a pie chart format with customizable styling and tooltips.
+ *
  * Features:
  * - Responsive chart sizing
  * - Dynamic color theming
- * - Interactive tooltips
+ * - Interactive tooltips with formatted values and percentages
  * - Custom legend positioning
- * - Percentage-based data display
- * 
+ * - Clicking a slice filters the other widgets on the page; clicking it again clears the filter
+ *
  * @component
+ * @param {PieChartWidgetProps} props - Component props
  */
-const PieChartWidget: React.FC = () => {
+const PieChartWidget: React.FC<PieChartWidgetProps> = ({ widgetId, binding }) => {
   const theme = useTheme();
+  const data = useBoundData(binding, widgetId);
+  const { points, groupField, valueType } = data;
+  const selection = usePageFilterSource(widgetId, groupField);
+  const { selectedKey } = selection;
+  const styles = getChartTextStyles(theme);
 
-  /**
-   * Sample pet data with dynamic colors based on theme
-   * Demonstrates the widget's data structure and theming capabilities
-   */
-  const petData = {
-    labels: ['Dogs', 'Cats', 'Birds', 'Fish', 'Small Pets'],
+  const total = points.reduce((sum, point) => sum + point.value, 0);
+  const colors = getChartColors(theme, points.length);
+
+  const chartData = {
+    labels: points.map(point => point.key),
     datasets: [
       {
-        data: [35, 30, 15, 12, 8],
-        backgroundColor: [
-          theme.palette.primary.main,
-          theme.palette.secondary.main,
-          theme.palette.info.main,
-          theme.palette.success.main,
-          theme.palette.warning.main,
-        ],
-        borderColor: [
-          theme.palette.primary.dark,
-          theme.palette.secondary.dark,
-          theme.palette.info.dark,
-          theme.palette.success.dark,
-          theme.palette.warning.dark,
-        ],
+        data: points.map(point => point.value),
+        // Dim the other slices while one is selected
+        backgroundColor: colors.background.map((color, index) => (
+          selectedKey !== null && points[index].key !== selectedKey ? theme.palette.action.disabled : color
+        )),
+        borderColor: colors.border,
         borderWidth: 2,
+        offset: points.map(point => (point.key === selectedKey ? 12 : 0)),
       },
     ],
   };
@@ -77,39 +93,30 @@ const PieChartWidget: React.FC = () => {
   const options: ChartOptions<'pie'> = {
     responsive: true,
     maintainAspectRatio: false,
+    onClick: (_event, elements) => {
+      if (elements.length > 0) {
+        selection.toggle(points[elements[0].index].key);
+      }
+    },
+    onHover: (event, elements) => {
+      const target = event.native?.target as HTMLElement | undefined;
+      if (target) {
+        target.style.cursor = elements.length > 0 ? 'pointer' : 'default';
+      }
+    },
     plugins: {
       legend: {
         position: 'bottom',
-        labels: {
-          padding: 20,
-          font: {
-            size: 14,
-            family: theme.typography.fontFamily,
-            weight: 'bold'
-          },
-          color: theme.palette.text.primary
-        }
+        labels: styles.legendLabels,
       },
       tooltip: {
-        titleFont: {
-          size: 14,
-          family: theme.typography.fontFamily,
-          weight: 'bold'
-        },
-        bodyFont: {
-          size: 14,
-          family: theme.typography.fontFamily
-        },
-        padding: 12,
-        backgroundColor: theme.palette.background.paper,
-        titleColor: theme.palette.text.primary,
-        bodyColor: theme.palette.text.primary,
+        ...styles.tooltip,
         callbacks: {
           label: (context) => {
             const label = context.label || '';
             const value = context.raw as number;
-            const percentage = Math.round(value) + '%';
-            return ` ${label}: ${percentage}`;
+            const percentage = total > 0 ? Math.round((value / total) * 100) + '%' : '0%';
+            return ` ${label}: ${formatMetricValue(value, valueType)} (${percentage})`;
           }
         }
       }
@@ -117,20 +124,9 @@ const PieChartWidget: React.FC = () => {
   };
 
   return (
-    <Box sx={{ 
-      width: '100%', 
-      height: '100%',
-      display: 'flex',
-      alignItems: 'center',
-      justifyContent: 'center',
-      p: 2,
-      '& canvas': {
-        maxWidth: '100%',
-        height: 'auto'
-      }
-    }}>
-      <Pie data={petData} options={options} />
-    </Box>
+    <ChartFrame data={data} selection={selection}>
+      <Pie data={chartData} options={options} />
+    </ChartFrame>
   );
 };
 
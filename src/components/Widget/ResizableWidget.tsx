@@ -8,13 +8,13 @@
  * Technical Concepts:
  * 1. Material-UI Paper component for elevation and styling
  * 2. Custom title editing functionality
- * 3. Widget control management (copy, delete)
+ * 3. Widget control management (settings, copy, delete)
  * 4. Heart-shaped widget variant support
  */
 
 import React, { useState } from 'react';
 import { Paper, Typography, IconButton, Box, TextField } from '@mui/material';
-import { ContentCopy as CopyIcon, Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
+import { ContentCopy as CopyIcon, Delete as DeleteIcon, Edit as EditIcon, Settings as SettingsIcon } from '@mui/icons-material';
 import { useLocation } from 'react-router-dom';
 
 /**
@@ -30,6 +30,7 @@ interface ResizableWidgetProps {
   onCopy?: () => void;
   onDelete?: () => void;
   onTitleChange?: (newTitle: string) => void;
+  onSettings?: () => void;
   showControls?: boolean;
   isHeart?: boolean;
 }
@@ -42,7 +43,7 @@ interface ResizableWidgetProps {
  * Features:
  * - Resizable and draggable container
  * - Editable widget title
- * - Copy and delete controls
+ * - Settings, copy and delete controls
  * - Heart-shaped variant support
  * - Persistent layout management
  * 
@@ -56,6 +57,7 @@ const ResizableWidget: React.FC<ResizableWidgetProps> = ({
   onCopy,
   onDelete,
   onTitleChange,
+  onSettings,
   showControls = false,
   isHeart = false
 }) => {
@@ -76,6 +78,18 @@ const ResizableWidget: React.FC<ResizableWidgetProps> = ({
     }
   };
 
+  /**
+   * Opens the widget settings
+   * @param e - Mouse event
+   */
+  const handleSettings = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (onSettings) {
+      onSettings();
+    }
+  };
+
   /**
    * Handles the delete action for the widget
    * @param e - Mouse event
@@ -238,6 +252,21 @@ const ResizableWidget: React.FC<ResizableWidgetProps> = ({
               right: 0
             })
           }}>
+            {onSettings && (
+              <IconButton
+                size="small"
+                onClick={handleSettings}
+                onMouseDown={(e) => e.stopPropagation()}
+                sx={{ 
+                  mr: 0.5,
+                  '&:hover': {
+                    backgroundColor: 'rgba(0, 0, 0, 0.08)'
+                  }
+                }}
+              >
+                <SettingsIcon fontSize="small" />
+              </IconButton>
+            )}
             <IconButton
               size="small"
               onClick={handleCopy}
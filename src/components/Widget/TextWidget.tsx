@@ -0,0 +1,100 @@
+/**
+ * Text Widget Component
+ *
+ * Displays notes written in Markdown, e.g. runbook links and on-call details.
+ * The widget can be edited in place: Edit shows the Markdown source, Preview
+ * shows the rendered result. Changes are saved when switching back to
+ * Preview or when the editor loses focus.
+ */
+
+import React, { useState } from 'react';
+import { Box, TextField, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import { Edit as EditIcon, Visibility as PreviewIcon } from '@mui/icons-material';
+import MarkdownView from './MarkdownView';
+
+interface TextWidgetProps {
+  text: string;
+  onTextChange: (text: string) => void;
+}
+
+/**
+ * TextWidget Component
+ *
+ * @component
+ * @param {TextWidgetProps} props - Component props
+ * @param {string} props.text - The Markdown to display
+ * @param {Function} props.onTextChange - Saves edited Markdown
+ */
+const TextWidget: React.FC<TextWidgetProps> = ({ text, onTextChange }) => {
+  const [mode, setMode] = useState<'edit' | 'preview'>('preview');
+  const [draft, setDraft] = useState(text);
+
+  const save = () => {
+    if (draft !== text) {
+      onTextChange(draft);
+    }
+  };
+
+  /**
+   * Switches between editing and previewing
+   * Entering edit mode starts from the saved text; leaving it saves the draft.
+   */
+  const handleModeChange = (next: 'edit' | 'preview' | null) => {
+    if (!next || next === mode) return;
+    if (next === 'edit') {
+      setDraft(text);
+    } else {
+      save();
+    }
+    setMode(next);
+  };
+
+  const content = mode === 'edit' ? draft : text;
+
+  return (
+    <Box
+      sx={{ height: '100%', display: 'flex', flexDirection: 'column', gap: 1 }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={mode}
+          onChange={(_event, next) => handleModeChange(next)}
+        >
+          <ToggleButton value="edit" aria-label="Edit">
+            <EditIcon fontSize="small" />
+          </ToggleButton>
+          <ToggleButton value="preview" aria-label="Preview">
+            <PreviewIcon fontSize="small" />
+          </ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+      <Box sx={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+        {mode === 'edit' ? (
+          <TextField
+            fullWidth
+            multiline
+            minRows={4}
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={save}
+            placeholder={'## Runbook\n- [Restart procedure](https://...)\n- On-call: @team'}
+            helperText="Markdown: headings, lists, links, tables and code blocks"
+            sx={{ '& textarea': { fontFamily: 'monospace', fontSize: '0.875rem' } }}
+          />
+        ) : content.trim() ? (
+          <MarkdownView source={content} />
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No text yet. Click the edit button to add notes in Markdown.
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default TextWidget;
@@ -0,0 +1,112 @@
+/**
+ * Treemap Widget Component
+ *
+ * Shows inventory data as nested rectangles whose areas are proportional to
+ * each group's metric, e.g. the size of every S3 bucket. Chart.js has no
+ * built-in treemap, so the squarified layout from `utils/treemap` is drawn
+ * with absolutely positioned boxes.
+ *
+ * Technical Concepts:
+ * 1. Squarified treemap layout recomputed on resize
+ * 2. Material-UI theming integration for tile colors
+ * 3. Inventory data binding (resource, group-by field, metric, filter)
+ * 4. Cross-widget filtering through the page filter context
+ */
+
+import React from 'react';
+import { Box, Tooltip, Typography, useTheme } from '@mui/material';
+import { DataBinding } from '../../types/dashboard';
+import { usePageFilterSource } from '../../context/PageFilterContext';
+import useBoundData from '../../hooks/useBoundData';
+import useElementSize from '../../hooks/useElementSize';
+import { getChartColors } from '../../theme/chartTheme';
+import { formatMetricValue } from '../../utils/aggregate';
+import { layoutTreemap } from '../../utils/treemap';
+import ChartFrame from './ChartFrame';
+
+// Tiles smaller than this (in pixels) show their details in the tooltip only
+const MIN_LABELED_WIDTH = 60;
+const MIN_LABELED_HEIGHT = 36;
+
+/**
+ * TreemapWidgetProps Interface
+ * @property {string} widgetId - The widget, used as the source of page filters it sets
+ * @property {DataBinding} binding - The inventory data to show
+ */
+interface TreemapWidgetProps {
+  widgetId: string;
+  binding: DataBinding;
+}
+
+/**
+ * TreemapWidget Component
+ *
+ * Features:
+ * - Tile areas proportional to the metric, largest top-left
+ * - Theme colors per tile, labels on tiles large enough to hold them
+ * - Tooltips with byte sizes and share of the total
+ * - Clicking a tile filters the other widgets on the page; clicking it again clears the filter
+ *
+ * @component
+ * @param {TreemapWidgetProps} props - Component props
+ */
+const TreemapWidget: React.FC<TreemapWidgetProps> = ({ widgetId, binding }) => {
+  const theme = useTheme();
+  const data = useBoundData(binding, widgetId);
+  const { points, groupField, valueType } = data;
+  const selection = usePageFilterSource(widgetId, groupField);
+  const { selectedKey } = selection;
+  const { ref, width, height } = useElementSize<HTMLDivElement>();
+
+  const total = points.reduce((sum, point) => sum + point.value, 0);
+  const colors = getChartColors(theme, points.length);
+  const colorByKey = new Map(points.map((point, index) => [point.key, colors.background[index]]));
+  const tiles = layoutTreemap(points, point => point.value, width, height);
+
+  return (
+    <ChartFrame data={data} selection={selection}>
+      <Box ref={ref} sx={{ position: 'relative', width: '100%', height: '100%' }}>
+        {tiles.map(({ item, x, y, width: tileWidth, height: tileHeight }) => {
+          const color = colorByKey.get(item.key) ?? theme.palette.primary.main;
+          const background = selectedKey !== null && item.key !== selectedKey ? theme.palette.action.disabled : color;
+          const share = total > 0 ? Math.round((item.value / total) * 100) : 0;
+          const details = `${formatMetricValue(item.value, valueType)} (${share}%)`;
+          return (
+            <Tooltip key={item.key} title={`${item.key}: ${details}`} followCursor>
+              <Box
+                onClick={() => selection.toggle(item.key)}
+                sx={{
+                  position: 'absolute',
+                  left: x,
+                  top: y,
+                  width: tileWidth,
+                  height: tileHeight,
+                  p: 0.5,
+                  overflow: 'hidden',
+                  cursor: 'pointer',
+                  backgroundColor: background,
+                  color: theme.palette.getContrastText(background),
+                  border: `1px solid ${theme.palette.background.paper}`,
+                  boxSizing: 'border-box',
+                }}
+              >
+                {tileWidth >= MIN_LABELED_WIDTH && tileHeight >= MIN_LABELED_HEIGHT && (
+                  <>
+                    <Typography variant="caption" component="div" noWrap sx={{ fontWeight: 'bold' }}>
+                      {item.key}
+                    </Typography>
+                    <Typography variant="caption" component="div" noWrap>
+                      {details}
+                    </Typography>
+                  </>
+                )}
+              </Box>
+            </Tooltip>
+          );
+        })}
+      </Box>
+    </ChartFrame>
+  );
+};
+
+export default TreemapWidget;
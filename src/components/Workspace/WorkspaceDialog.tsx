@@ -0,0 +1,242 @@
+/**
+ * Workspace Dialog Component
+ *
+ * Backs up the whole workspace to a file and restores it: the custom pages,
+ * the templates saved from pages, the theme, the layouts of the built-in
+ * pages and the filters saved in inventory tables (see utils/workspaceBundle).
+ * An import is merged with the current workspace or replaces it.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Download as DownloadIcon, UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { stringify } from 'yaml';
+import { useCustomPages } from '../../context/CustomPagesContext';
+import { useStorage } from '../../context/StorageContext';
+import { isThemeMode, useTheme } from '../../theme/ThemeContext';
+import { getWidgetDefinition } from '../../widgets';
+import { PageConfigError, PageConfigIssue, parsePageConfigYaml } from '../../utils/pageConfig';
+import {
+  collectStoredSettings,
+  createWorkspaceBundle,
+  mergeTemplates,
+  readWorkspaceBundle,
+  restoreStoredSettings,
+  StoredSettings,
+  WorkspaceImportMode,
+} from '../../utils/workspaceBundle';
+import PageConfigInput from '../PageConfig/PageConfigInput';
+import usePageTemplates from '../../hooks/usePageTemplates';
+
+type ExportFormat = 'yaml' | 'json';
+
+/**
+ * Offers text as a file download
+ */
+const downloadFile = (fileName: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Counts things for a summary, e.g. "1 page" or "3 pages"
+ */
+const count = (amount: number, noun: string) => `${amount} ${noun}${amount === 1 ? '' : 's'}`;
+
+/**
+ * WorkspaceDialog Component
+ * Mount it only while shown, so the export reflects the current workspace.
+ *
+ * @component
+ * @param {Object} props - Component props
+ * @param {Function} props.onClose - Closes the dialog
+ */
+const WorkspaceDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { pages, importWorkspacePages } = useCustomPages();
+  const { preference, setTheme } = useTheme();
+  const { keys, load, update } = useStorage();
+  const [format, setFormat] = useState<ExportFormat>('yaml');
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState<WorkspaceImportMode>('merge');
+  const [issues, setIssues] = useState<PageConfigIssue[]>([]);
+  const [summary, setSummary] = useState('');
+  const [settings, setSettings] = useState<StoredSettings | null>(null);
+  const [settingsError, setSettingsError] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const {
+    savedTemplates,
+    replaceSavedTemplates,
+    status: templatesStatus,
+    error: templatesError,
+  } = usePageTemplates();
+  const exportReady = settings !== null && templatesStatus === 'ready';
+
+  useEffect(() => {
+    let active = true;
+    collectStoredSettings({ keys, load }).then(
+      collected => active && setSettings(collected),
+      error => active && setSettingsError(error instanceof Error ? error.message : String(error))
+    );
+    return () => {
+      active = false;
+    };
+  }, [keys, load]);
+
+  const handleExport = () => {
+    if (!settings || !exportReady) return;
+    const bundle = createWorkspaceBundle({ pages, templates: savedTemplates, theme: preference.mode, ...settings }, new Date());
+    const date = bundle.exportedAt.slice(0, 10);
+    if (format === 'json') {
+      downloadFile(`dashboard-workspace-${date}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    } else {
+      downloadFile(`dashboard-workspace-${date}.yaml`, stringify(bundle), 'application/yaml');
+    }
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setIssues([]);
+    setSummary('');
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      handleTextChange(await file.text());
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      // JSON is valid YAML, so both export formats parse the same way
+      const contents = readWorkspaceBundle(parsePageConfigYaml(text), getWidgetDefinition);
+      await restoreStoredSettings({ keys, update }, contents, mode);
+      const result = importWorkspacePages(contents.pages, mode);
+      replaceSavedTemplates(mergeTemplates(savedTemplates, contents.templates, mode));
+      // 'auto' keeps this browser's light and dark themes for Auto mode
+      if (mode === 'replace' && (contents.theme === 'auto' || isThemeMode(contents.theme))) {
+        setTheme(contents.theme);
+      }
+      setText('');
+      setSummary([
+        `Imported ${count(result.added, 'page')}`,
+        result.skipped > 0 ? ` (${result.skipped} already here)` : '',
+        `, ${count(contents.templates.length, 'template')}`,
+        `, ${count(Object.keys(contents.layouts).length, 'page layout')}`,
+        ` and ${count(Object.keys(contents.filters).length, 'table filter')}.`,
+      ].join(''));
+    } catch (error) {
+      setIssues(error instanceof PageConfigError
+        ? error.issues
+        : [{ path: '', message: error instanceof Error ? error.message : 'Invalid workspace bundle' }]);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Workspace Backup</DialogTitle>
+      <DialogContent>
+        <Typography variant="subtitle2" sx={{ mt: 1 }}>Export</Typography>
+        {settingsError || templatesError ? (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {settingsError
+              ? `Saved layouts and filters cannot be read: ${settingsError}`
+              : `Saved templates cannot be read: ${templatesError?.message}`}
+          </Alert>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {settings && exportReady
+              ? <>
+                  Downloads {count(pages.length, 'custom page')}, {count(savedTemplates.length, 'saved template')},
+                  {' '}{count(Object.keys(settings.layouts).length, 'page layout')},
+                  {' '}{count(Object.keys(settings.filters).length, 'table filter')} and the theme as one file.
+                </>
+              : 'Reading saved templates, layouts and filters...'}
+          </Typography>
+        )}
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            select
+            size="small"
+            label="Format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            sx={{ width: 140 }}
+          >
+            <MenuItem value="yaml">YAML</MenuItem>
+            <MenuItem value="json">JSON</MenuItem>
+          </TextField>
+          <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport} disabled={!exportReady}>
+            Download
+          </Button>
+        </Box>
+
+        <Divider sx={{ my: 3 }} />
+
+        <Typography variant="subtitle2">Import</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Choose a workspace file or paste its contents.
+        </Typography>
+        <Button component="label" variant="outlined" startIcon={<UploadFileIcon />} sx={{ mb: 2 }}>
+          Choose File
+          <input type="file" hidden accept=".yaml,.yml,.json" onChange={handleFile} />
+        </Button>
+        <PageConfigInput value={text} onChange={handleTextChange} issues={issues} />
+        <RadioGroup value={mode} onChange={(e) => setMode(e.target.value as WorkspaceImportMode)} sx={{ mt: 1 }}>
+          <FormControlLabel
+            value="merge"
+            control={<Radio size="small" />}
+            label="Merge: keep my pages and settings, and add what the file has in addition"
+          />
+          <FormControlLabel
+            value="replace"
+            control={<Radio size="small" />}
+            label="Replace: discard my pages and settings, and use the file's instead"
+          />
+        </RadioGroup>
+        {summary && (
+          <Alert severity="success" sx={{ mt: 2 }}>
+            {summary}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          color={mode === 'replace' ? 'error' : 'primary'}
+          onClick={handleImport}
+          disabled={!text.trim() || importing || templatesStatus !== 'ready'}
+        >
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WorkspaceDialog;
@@ -7,14 +7,58 @@
  * Technical Concepts:
  * 1. React Context API for global state management
  * 2. TypeScript interfaces for type safety
- * 3. Local Storage integration for persistence
+ * 3. Persistence through the app's storage adapter (StorageContext)
  * 4. React Grid Layout integration for widget positioning
  * 5. Custom hooks for context consumption
+ * 6. Undo/redo history of page and widget edits (utils/editHistory)
+ * 7. Sync of the pages with other browser tabs (utils/pageSync)
  */
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef } from 'react';
 import { Layout } from 'react-grid-layout';
-import { Widget, WidgetType } from '../pages/CustomPage';
+import { Widget, WidgetConfig, WidgetType } from '../types/dashboard';
+import { getWidgetDefinition, migrateWidget } from '../widgets';
+import {
+  addLayoutItem,
+  BASE_BREAKPOINT,
+  LAYOUT_KEY_PREFIX,
+  mapLayouts,
+  removeLayoutItem,
+  ResponsiveLayouts,
+  toResponsiveLayouts,
+} from '../utils/responsiveLayout';
+import {
+  createHistory,
+  Edit,
+  EditHistory,
+  mapHistory,
+  recordEdit,
+  redoEdit,
+  replacePresent,
+  undoEdit,
+} from '../utils/editHistory';
+import { PageContent, PageVersion, removeOrphanedVersions } from '../utils/pageVersions';
+import { PageTemplate } from '../utils/pageTemplates';
+import { readPageConfig } from '../utils/pageConfig';
+import { mergePages, PageMergeResult, WorkspaceImportMode } from '../utils/workspaceBundle';
+import {
+  applyPageChanges,
+  createSyncState,
+  isPageSyncMessage,
+  mergeRemotePages,
+  PageSyncMessage,
+  PageSyncState,
+  recordLocalChanges,
+} from '../utils/pageSync';
+import { useStorage } from './StorageContext';
+import { PAGES_KEY } from '../utils/storageKeys';
+import { LoadStatus } from '../hooks/useStoredValue';
+import { ThemeMode } from '../theme/ThemeContext';
+
+/**
+ * Storage keys of layouts kept by older versions of the app, removed on reset
+ */
+const LEGACY_LAYOUT_KEYS = ['gridLayouts', 'widgetPositions', 'lastWidgetPositions'];
 
 /**
  * CustomPage Interface
@@ -23,39 +67,57 @@ import { Widget, WidgetType } from '../pages/CustomPage';
  * @property {string} id - Unique identifier for the page
  * @property {string} title - Display title of the page
  * @property {Widget[]} widgets - Array of widgets on the page
- * @property {Layout[]} layout - React-grid-layout configuration for widget positioning
+ * @property {ResponsiveLayouts} layout - React-grid-layout configuration for widget positioning, per breakpoint
+ * @property {ThemeMode} [theme] - Theme shown while the page is open, instead of the app's
  */
-interface CustomPage {
+export interface CustomPage {
   id: string;
   title: string;
   widgets: Widget[];
-  layout: Layout[];
+  layout: ResponsiveLayouts;
+  theme?: ThemeMode;
 }
 
 /**
  * CustomPagesContextType Interface
  * 
  * Defines the shape of the context value object
- * Includes all methods for managing pages and their widgets
+ * Includes all methods for managing pages and their widgets. Every change
+ * except resetAllPages can be undone. Pages are empty until loadStatus is
+ * 'ready'; if loading failed, changes are not saved.
  */
 interface CustomPagesContextType {
   pages: CustomPage[];
+  loadStatus: LoadStatus;
+  loadError: Error | null;
   addPage: (title: string) => void;
+  addPageFromTemplate: (title: string, template: PageTemplate) => string;
   removePage: (id: string) => void;
   addWidgetToPage: (pageId: string, type: WidgetType, title: string, isHeart?: boolean) => void;
   removeWidgetFromPage: (pageId: string, widgetId: string) => void;
-  updatePageLayout: (pageId: string, layout: Layout[]) => void;
+  updatePageLayout: (pageId: string, layout: ResponsiveLayouts, recordHistory?: boolean) => void;
   copyWidget: (pageId: string, widgetId: string) => void;
   resetAllPages: () => void;
   updatePageTitle: (pageId: string, newTitle: string) => void;
+  updatePageTheme: (pageId: string, theme: ThemeMode | null) => void;
   updateWidgetTitle: (pageId: string, widgetId: string, newTitle: string) => void;
-  importPage: (config: CustomPage) => void;
+  updateWidgetConfig: (pageId: string, widgetId: string, config: WidgetConfig) => void;
+  importPage: (config: unknown) => string;
+  restorePageVersion: (pageId: string, version: PageVersion) => void;
+  importWorkspacePages: (imported: CustomPage[], mode: WorkspaceImportMode) => PageMergeResult;
+  undo: () => void;
+  redo: () => void;
+  lastEdit: Edit | null;
+  nextRedo: Edit | null;
 }
 
 // Create context with default values
 const CustomPagesContext = createContext<CustomPagesContextType>({
   pages: [],
+  loadStatus: 'loading',
+  loadError: null,
   addPage: () => {},
+  addPageFromTemplate: () => '',
   removePage: () => {},
   addWidgetToPage: () => {},
   removeWidgetFromPage: () => {},
@@ -63,8 +125,16 @@ const CustomPagesContext = createContext<CustomPagesContextType>({
   copyWidget: () => {},
   resetAllPages: () => {},
   updatePageTitle: () => {},
+  updatePageTheme: () => {},
   updateWidgetTitle: () => {},
-  importPage: () => {},
+  updateWidgetConfig: () => {},
+  importPage: () => '',
+  restorePageVersion: () => {},
+  importWorkspacePages: () => ({ pages: [], added: 0, skipped: 0 }),
+  undo: () => {},
+  redo: () => {},
+  lastEdit: null,
+  nextRedo: null,
 });
 
 /**
@@ -92,16 +162,153 @@ export const useCustomPages = () => {
  * @param {React.ReactNode} props.children - Child components
  */
 export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // Initialize state from localStorage or empty array
-  const [pages, setPages] = useState<CustomPage[]>(() => {
-    const savedPages = localStorage.getItem('customPages');
-    return savedPages ? JSON.parse(savedPages) : [];
-  });
+  const { adapter, save, remove, tabId, publish, subscribe } = useStorage();
+  const [history, setHistory] = useState<EditHistory<CustomPage[]>>(() => createHistory([]));
+  const [load, setLoad] = useState<{ status: LoadStatus; error: Error | null }>({ status: 'loading', error: null });
+  const pages = history.present;
+  const lastEditId = useRef(0);
+
+  // The pages as last sent to or received from other tabs; null until loaded
+  const sync = useRef<PageSyncState<CustomPage> | null>(null);
+  const latestPages = useRef(pages);
+  latestPages.current = pages;
+
+  // Load the saved pages, moving any widget state still kept in separate
+  // localStorage keys into the widget configs, and single layouts from
+  // before breakpoints into per-breakpoint layouts
+  useEffect(() => {
+    let active = true;
+    setLoad({ status: 'loading', error: null });
+    adapter.load(PAGES_KEY).then(
+      saved => {
+        if (!active) return;
+        const loaded = (Array.isArray(saved) ? saved as CustomPage[] : []).map(page => ({
+          ...page,
+          widgets: page.widgets.map(migrateWidget),
+          layout: toResponsiveLayouts(page.layout),
+        }));
+        setHistory(createHistory(loaded));
+        setLoad({ status: 'ready', error: null });
+        // Tabs open for longer answer with their newer revisions
+        sync.current = createSyncState(loaded);
+        publish(PAGES_KEY, { pages: loaded, revisions: {} });
+        // The migrated pages are saved below, so the legacy widget state is no longer needed
+        loaded.forEach(page => page.widgets.forEach(widget => {
+          getWidgetDefinition(widget.type)?.removeLegacyState?.(widget.id);
+        }));
+      },
+      error => {
+        if (!active) return;
+        setLoad({ status: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    );
+    return () => {
+      active = false;
+      sync.current = null;
+    };
+  }, [adapter, publish]);
+
+  /**
+   * Gives pages changed in this tab new revisions and sends them to the other tabs
+   * @param {CustomPage[]} current - The pages now
+   */
+  const sendLocalChanges = useCallback((current: CustomPage[]) => {
+    if (!sync.current) return;
+    const next = recordLocalChanges(sync.current, current, tabId);
+    if (next.clock !== sync.current.clock) {
+      publish(PAGES_KEY, { pages: next.pages, revisions: next.revisions });
+    }
+    sync.current = next;
+  }, [tabId, publish]);
+
+  // Persist pages whenever they change, once the saved ones are loaded
+  useEffect(() => {
+    if (load.status === 'ready') {
+      save(PAGES_KEY, pages);
+      sendLocalChanges(pages);
+    }
+  }, [pages, load.status, save, sendLocalChanges]);
 
-  // Persist pages to localStorage whenever they change
+  // Delete the versions of pages deleted in earlier sessions, once on startup.
+  // While the app runs, undo in this or another tab can still bring a deleted page back.
+  const versionsCleaned = useRef(false);
   useEffect(() => {
-    localStorage.setItem('customPages', JSON.stringify(pages));
-  }, [pages]);
+    if (load.status !== 'ready' || versionsCleaned.current) return;
+    versionsCleaned.current = true;
+    removeOrphanedVersions(new Set(pages.map(page => page.id)));
+  }, [pages, load.status]);
+
+  // Take in pages changed in other tabs. Local undo steps keep their changes;
+  // when both tabs edited a page, the other tab's edit can win, which is
+  // recorded as an edit here so it can be undone.
+  useEffect(() => subscribe(PAGES_KEY, payload => {
+    if (!isPageSyncMessage(payload)) return;
+    sendLocalChanges(latestPages.current);
+    const local = sync.current;
+    if (!local) return;
+    const outcome = mergeRemotePages(local, payload as PageSyncMessage<CustomPage>, tabId);
+    sync.current = outcome.state;
+    if (outcome.reply) {
+      publish(PAGES_KEY, { pages: outcome.state.pages, revisions: outcome.state.revisions });
+    }
+    if (outcome.state.pages === local.pages) return;
+
+    const { changes, replaced } = outcome;
+    lastEditId.current += 1;
+    const edit: Edit = {
+      id: lastEditId.current,
+      label: replaced.length === 1
+        ? `"${replaced[0].title}" was changed in another tab, replacing your changes`
+        : `${replaced.length} pages were changed in another tab, replacing your changes`,
+      at: Date.now(),
+      destructive: true,
+    };
+    setHistory(current => {
+      const rebased = mapHistory(current, state => applyPageChanges(state, changes));
+      return replaced.length > 0
+        ? recordEdit(rebased, outcome.state.pages, edit)
+        : replacePresent(rebased, outcome.state.pages);
+    });
+  }), [subscribe, publish, tabId, sendLocalChanges]);
+
+  /**
+   * Applies an edit to the pages and records it for undo
+   * @param {string} label - What the edit did, e.g. 'Widget renamed', shown when offering to undo it
+   * @param {Function} update - Returns the new pages for the current pages
+   * @param {Object} [options] - Whether the edit removes something, and a key merging quick successive edits
+   */
+  const editPages = (
+    label: string,
+    update: (current: CustomPage[]) => CustomPage[],
+    options: Pick<Edit, 'destructive' | 'mergeKey'> = {}
+  ) => {
+    lastEditId.current += 1;
+    const edit: Edit = { id: lastEditId.current, label, at: Date.now(), ...options };
+    setHistory(current => {
+      const next = update(current.present);
+      // Edits that leave the pages as they were (e.g. saving an unchanged title) are not undo steps
+      const changed = JSON.stringify(next) !== JSON.stringify(current.present);
+      return changed ? recordEdit(current, next, edit) : current;
+    });
+  };
+
+  /**
+   * Undoes the latest edit
+   */
+  const undo = useCallback(() => setHistory(undoEdit), []);
+
+  /**
+   * Redoes the latest undone edit
+   */
+  const redo = useCallback(() => setHistory(redoEdit), []);
+
+  /**
+   * Deletes state a widget type keeps outside the page model
+   * @param {Widget} widget - The widget being removed
+   */
+  const removeWidgetState = (widget: Widget) => {
+    getWidgetDefinition(widget.type)?.removeLegacyState?.(widget.id);
+  };
 
   /**
    * Creates a new custom page
@@ -112,9 +319,9 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
       id: Math.random().toString(36).substr(2, 9),
       title,
       widgets: [],
-      layout: []
+      layout: {}
     };
-    setPages([...pages, newPage]);
+    editPages('Page added', current => [...current, newPage]);
   };
 
   /**
@@ -122,29 +329,36 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
    * @param {string} id - The ID of the page to remove
    */
   const removePage = (id: string) => {
-    setPages(pages.filter(page => page.id !== id));
+    const removed = pages.find(page => page.id === id);
+    removed?.widgets.forEach(removeWidgetState);
+    editPages(`Page "${removed?.title ?? ''}" deleted`, current => current.filter(page => page.id !== id), {
+      destructive: true,
+    });
   };
 
   /**
    * Adds a new widget to a specific page
+   * Size and initial config come from the widget type's registry definition.
    * @param {string} pageId - The ID of the target page
    * @param {WidgetType} type - The type of widget to add
    * @param {string} title - The title for the new widget
    * @param {boolean} [isHeart=false] - Whether the widget is favorited
    */
   const addWidgetToPage = (pageId: string, type: WidgetType, title: string, isHeart: boolean = false) => {
-    setPages(pages.map(page => {
+    const definition = getWidgetDefinition(type);
+    const widgetId = Math.random().toString(36).substr(2, 9);
+    editPages('Widget added', current => current.map(page => {
       if (page.id === pageId) {
-        const widgetId = Math.random().toString(36).substr(2, 9);
         const newWidget: Widget = {
           id: widgetId,
           type,
           title,
           isHeart,
-          x: (page.layout.length * 2) % 12, // Ensure widgets stay within 12-column grid
+          config: { ...definition?.defaultConfig },
+          x: (page.widgets.length * 2) % 12, // Ensure widgets stay within 12-column grid
           y: Infinity, // Place at bottom
-          w: 6, // Default width of 6 columns
-          h: 4  // Default height of 4 rows
+          w: definition?.defaultSize.w ?? 6, // Default width of 6 columns
+          h: definition?.defaultSize.h ?? 4  // Default height of 4 rows
         };
         const newLayout: Layout = {
           i: widgetId,
@@ -156,7 +370,7 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
         return {
           ...page,
           widgets: [...page.widgets, newWidget],
-          layout: [...page.layout, newLayout]
+          layout: addLayoutItem(page.layout, newLayout)
         };
       }
       return page;
@@ -169,61 +383,72 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
    * @param {string} widgetId - The ID of the widget to remove
    */
   const removeWidgetFromPage = (pageId: string, widgetId: string) => {
-    setPages(pages.map(page => {
+    const removed = pages.find(page => page.id === pageId)?.widgets.find(widget => widget.id === widgetId);
+    if (removed) {
+      removeWidgetState(removed);
+    }
+    editPages(`Widget "${removed?.title ?? ''}" deleted`, current => current.map(page => {
       if (page.id === pageId) {
         return {
           ...page,
           widgets: page.widgets.filter(widget => widget.id !== widgetId),
-          layout: page.layout.filter(item => item.i !== widgetId)
+          layout: removeLayoutItem(page.layout, widgetId)
         };
       }
       return page;
-    }));
+    }), { destructive: true });
   };
 
   /**
    * Updates the layout of widgets on a specific page
    * @param {string} pageId - The ID of the page to update
-   * @param {Layout[]} layout - The new layout configuration
+   * @param {ResponsiveLayouts} layout - The new layout configuration of each breakpoint
+   * @param {boolean} [recordHistory=true] - Whether the change can be undone; false for
+   *   changes the grid makes by itself, such as compacting the layout
    */
-  const updatePageLayout = (pageId: string, layout: Layout[]) => {
-    setPages(pages.map(page => {
-      if (page.id === pageId) {
-        return {
-          ...page,
-          layout
-        };
+  const updatePageLayout = (pageId: string, layout: ResponsiveLayouts, recordHistory: boolean = true) => {
+    const update = (current: CustomPage[]) => {
+      const page = current.find(candidate => candidate.id === pageId);
+      if (!page || JSON.stringify(page.layout) === JSON.stringify(layout)) {
+        return current;
       }
-      return page;
-    }));
+      return current.map(candidate => (candidate.id === pageId ? { ...candidate, layout } : candidate));
+    };
+    if (recordHistory) {
+      editPages('Widgets moved', update);
+    } else {
+      setHistory(current => replacePresent(current, update(current.present)));
+    }
   };
 
   /**
-   * Creates a copy of an existing widget
+   * Creates a copy of an existing widget, including its config, at the same size
    * @param {string} pageId - The ID of the page containing the widget
    * @param {string} widgetId - The ID of the widget to copy
    */
   const copyWidget = (pageId: string, widgetId: string) => {
-    setPages(pages.map(page => {
+    const newWidgetId = Math.random().toString(36).substr(2, 9);
+    editPages('Widget copied', current => current.map(page => {
       if (page.id === pageId) {
         const originalWidget = page.widgets.find(w => w.id === widgetId);
         if (originalWidget) {
-          const newWidgetId = Math.random().toString(36).substr(2, 9);
+          const originalLayout = page.layout[BASE_BREAKPOINT]?.find(item => item.i === widgetId);
           const newWidget: Widget = {
             ...originalWidget,
-            id: newWidgetId
+            id: newWidgetId,
+            config: JSON.parse(JSON.stringify(originalWidget.config ?? {}))
           };
           const newLayout: Layout = {
             i: newWidgetId,
-            x: (page.layout.length * 2) % 12,
+            x: (page.widgets.length * 2) % 12,
             y: Infinity,
-            w: 6,
-            h: 4
+            w: originalLayout?.w ?? 6,
+            h: originalLayout?.h ?? 4
           };
           return {
             ...page,
             widgets: [...page.widgets, newWidget],
-            layout: [...page.layout, newLayout]
+            layout: addLayoutItem(page.layout, newLayout)
           };
         }
       }
@@ -232,33 +457,24 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
   };
 
   /**
-   * Resets the application state by removing all pages and clearing localStorage
-   * Also cleans up any related layout and widget position data
+   * Resets the application state by removing all pages
+   * Also removes the layouts of the built-in pages from the app's storage,
+   * and layout keys older versions of the app kept. Only keys the app owns
+   * are removed. This clears the undo history: a reset cannot be undone, so
+   * the pages' versions go as well.
    */
   const resetAllPages = () => {
-    // Clear all pages and layouts
-    setPages([]);
-    
-    // Clear all stored data
-    localStorage.removeItem('customPages');
-    localStorage.removeItem('gridLayouts');
-    localStorage.removeItem('widgetPositions');
-    localStorage.removeItem('lastWidgetPositions');
-    
-    // Clear any other related local storage items that might affect layout
-    const keysToRemove = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && (
-        key.startsWith('rgl-') || // react-grid-layout keys
-        key.includes('layout') || // any layout related keys
-        key.includes('widget') || // any widget related keys
-        key.includes('position') // any position related keys
-      )) {
-        keysToRemove.push(key);
-      }
-    }
-    keysToRemove.forEach(key => localStorage.removeItem(key));
+    // Clear all pages; the empty page list is saved like any change. Reset can't be undone,
+    // so the pages' versions go too.
+    setHistory(createHistory([]));
+    removeOrphanedVersions(new Set());
+    adapter.keys().then(keys => Promise.all(
+      keys
+        .filter(key => key.startsWith(LAYOUT_KEY_PREFIX) || LEGACY_LAYOUT_KEYS.includes(key))
+        .map(remove)
+    )).catch(() => {
+      // Layouts left behind only keep the built-in pages' arrangement
+    });
   };
 
   /**
@@ -267,7 +483,7 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
    * @param {string} newTitle - The new title for the page
    */
   const updatePageTitle = (pageId: string, newTitle: string) => {
-    setPages(pages.map(page => {
+    editPages('Page renamed', current => current.map(page => {
       if (page.id === pageId) {
         return {
           ...page,
@@ -278,6 +494,19 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
     }));
   };
 
+  /**
+   * Sets the theme shown while a page is open
+   * @param {string} pageId - The ID of the page to update
+   * @param {ThemeMode | null} theme - The page's theme, or null to show the app's theme
+   */
+  const updatePageTheme = (pageId: string, theme: ThemeMode | null) => {
+    editPages('Page theme changed', current => current.map(page => {
+      if (page.id !== pageId) return page;
+      const { theme: previous, ...rest } = page;
+      return theme ? { ...rest, theme } : rest;
+    }));
+  };
+
   /**
    * Updates the title of a specific widget
    * @param {string} pageId - The ID of the page containing the widget
@@ -285,7 +514,7 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
    * @param {string} newTitle - The new title for the widget
    */
   const updateWidgetTitle = (pageId: string, widgetId: string, newTitle: string) => {
-    setPages(pages.map(page => {
+    editPages('Widget renamed', current => current.map(page => {
       if (page.id === pageId) {
         return {
           ...page,
@@ -305,55 +534,124 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
   };
 
   /**
-   * Imports a page from a configuration object
-   * @param {CustomPage} config - The page configuration to import
+   * Replaces the config of a specific widget
+   * @param {string} pageId - The ID of the page containing the widget
+   * @param {string} widgetId - The ID of the widget to update
+   * @param {WidgetConfig} config - The new config
    */
-  const importPage = (config: CustomPage) => {
-    // Validate required fields
-    if (!config.title || !Array.isArray(config.widgets) || !Array.isArray(config.layout)) {
-      throw new Error('Invalid page configuration');
-    }
+  const updateWidgetConfig = (pageId: string, widgetId: string, config: WidgetConfig) => {
+    // Functional update: widgets may report config changes in quick succession,
+    // e.g. while typing a filter; those form one undo step
+    editPages('Widget settings changed', current => current.map(page => {
+      if (page.id === pageId) {
+        return {
+          ...page,
+          widgets: page.widgets.map(widget => (
+            widget.id === widgetId ? { ...widget, config } : widget
+          ))
+        };
+      }
+      return page;
+    }), { mergeKey: `config:${widgetId}` });
+  };
 
-    // Generate new IDs for widgets to avoid conflicts
+  /**
+   * Builds a new page from page content
+   * @param {PageContent} config - The page's title, widgets, layout and theme
+   * @returns {CustomPage} The page, with fresh page and widget IDs
+   */
+  const createPageFrom = (config: PageContent): CustomPage => {
+    // Generate new IDs for widgets to avoid conflicts, and let each widget
+    // type build its config from the exported fields (e.g. older share formats)
     const widgetIdMap = new Map<string, string>();
-    const newWidgets = config.widgets.map(widget => {
+    const newWidgets: Widget[] = config.widgets.map(widget => {
       const newId = Math.random().toString(36).substr(2, 9);
       widgetIdMap.set(widget.id, newId);
-      return { ...widget, id: newId };
+      const { title, type, isHeart, x, y, w, h } = widget;
+      const definition = getWidgetDefinition(type);
+      const baseConfig: WidgetConfig = { ...definition?.defaultConfig, ...widget.config };
+      const widgetConfig = definition?.deserialize
+        ? definition.deserialize(widget as unknown as Record<string, unknown>, baseConfig)
+        : baseConfig;
+      return { id: newId, title, type, isHeart, config: widgetConfig, x, y, w, h };
     });
 
     // Update layout with new widget IDs
-    const newLayout = config.layout.map(item => ({
+    const newLayout = mapLayouts(config.layout, layout => layout.map(item => ({
       ...item,
       i: widgetIdMap.get(item.i) || item.i
-    }));
+    })));
 
-    // Create new page with imported configuration
     const newPage: CustomPage = {
       id: Math.random().toString(36).substr(2, 9),
       title: config.title,
       widgets: newWidgets,
       layout: newLayout
     };
+    return config.theme ? { ...newPage, theme: config.theme } : newPage;
+  };
 
-    // Restore S3 table filters if they exist in the config
-    config.widgets.forEach((widget: any) => {
-      if (widget.type === 's3-buckets' && widget.filters) {
-        const newWidgetId = widgetIdMap.get(widget.id);
-        if (newWidgetId) {
-          localStorage.setItem(`s3-buckets-filters-${newWidgetId}`, JSON.stringify(widget.filters));
-        }
-      }
-    });
+  /**
+   * Imports a page from a shared configuration
+   * Configurations of older format versions are migrated first (utils/pageConfig).
+   * @param {unknown} config - The page configuration to import, e.g. parsed YAML
+   * @returns {string} The ID of the new page
+   * @throws {PageConfigError} If the configuration is invalid, with every problem found
+   */
+  const importPage = (config: unknown): string => {
+    const newPage = createPageFrom(readPageConfig(config, getWidgetDefinition));
+    editPages('Page imported', current => [...current, newPage]);
+    return newPage.id;
+  };
+
+  /**
+   * Creates a new custom page with the widgets and layout of a template
+   * @param {string} title - The title for the new page
+   * @param {PageTemplate} template - The template
+   * @returns {string} The ID of the new page
+   */
+  const addPageFromTemplate = (title: string, template: PageTemplate): string => {
+    const newPage = createPageFrom({ ...template.content, title });
+    editPages(`Page added from "${template.name}"`, current => [...current, newPage]);
+    return newPage.id;
+  };
 
-    setPages([...pages, newPage]);
+  /**
+   * Restores a page to a saved version
+   * The restore can be undone like any other edit.
+   * @param {string} pageId - The ID of the page to restore
+   * @param {PageVersion} version - The version to restore
+   */
+  const restorePageVersion = (pageId: string, version: PageVersion) => {
+    const { title, widgets, layout, theme } = version.content;
+    editPages(`Version "${version.name}" restored`, current => current.map(page => {
+      if (page.id !== pageId) return page;
+      const { theme: previous, ...rest } = page;
+      return theme ? { ...rest, title, widgets, layout, theme } : { ...rest, title, widgets, layout };
+    }));
+  };
+
+  /**
+   * Adds the pages of a workspace bundle, or replaces all pages with them
+   * Either can be undone like any other edit.
+   * @param {CustomPage[]} imported - The bundle's pages, with their IDs
+   * @param {WorkspaceImportMode} mode - Merge with or replace the current pages
+   * @returns {PageMergeResult} The pages afterwards and how many were added or skipped
+   */
+  const importWorkspacePages = (imported: CustomPage[], mode: WorkspaceImportMode): PageMergeResult => {
+    const result = mergePages(pages, imported, mode);
+    editPages('Workspace imported', () => result.pages, { destructive: mode === 'replace' });
+    return result;
   };
 
   return (
     <CustomPagesContext.Provider
       value={{
         pages,
+        loadStatus: load.status,
+        loadError: load.error,
         addPage,
+        addPageFromTemplate,
         removePage,
         addWidgetToPage,
         removeWidgetFromPage,
@@ -361,8 +659,16 @@ export const CustomPagesProvider: React.FC<{ children: React.ReactNode }> = ({ c
         copyWidget,
         resetAllPages,
         updatePageTitle,
+        updatePageTheme,
         updateWidgetTitle,
-        importPage
+        updateWidgetConfig,
+        importPage,
+        restorePageVersion,
+        importWorkspacePages,
+        undo,
+        redo,
+        lastEdit: history.past[history.past.length - 1] ?? null,
+        nextRedo: history.future[0] ?? null
       }}
     >
       {children}
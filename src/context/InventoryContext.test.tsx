@@ -0,0 +1,95 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { InventoryDataProvider, useInventory } from './InventoryContext';
+import { InventoryProvider } from '../data/providers/InventoryProvider';
+import { createMockInventoryProvider } from '../data/providers/MockInventoryProvider';
+import { InventoryResourceType, S3Bucket } from '../types/inventory';
+
+const bucket = (id: string) => ({ type: 's3-buckets', id }) as S3Bucket;
+
+/**
+ * Renders useInventory under an InventoryDataProvider; the provider can be replaced before a rerender
+ */
+const renderInventory = (provider: InventoryProvider, maxAgeMs?: number) => {
+  const current = { provider };
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <InventoryDataProvider provider={current.provider} maxAgeMs={maxAgeMs}>{children}</InventoryDataProvider>
+  );
+  const view = renderHook(({ type }: { type: InventoryResourceType }) => useInventory(type), {
+    wrapper,
+    initialProps: { type: 's3Buckets' as InventoryResourceType },
+  });
+  return { ...view, current };
+};
+
+describe('useInventory', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test('loads a resource type once for all its consumers', async () => {
+    const provider = createMockInventoryProvider({ s3Buckets: [bucket('b1')] }, { latencyMs: 10 });
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <InventoryDataProvider provider={provider}>{children}</InventoryDataProvider>
+    );
+    const { result } = renderHook(() => [useInventory('s3Buckets'), useInventory('s3Buckets')], { wrapper });
+    expect(result.current[0]).toMatchObject({ data: [], loading: true, error: null });
+
+    await waitFor(() => expect(result.current[0].loading).toBe(false));
+    expect(result.current.map(inventory => inventory.data)).toEqual([[bucket('b1')], [bucket('b1')]]);
+    expect(provider.requestCount).toBe(1);
+  });
+
+  test('serves loaded resources from the cache until they are too old', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const provider = createMockInventoryProvider({ s3Buckets: [bucket('b1')] });
+    const { result, rerender } = renderInventory(provider, 60 * 1000);
+    await waitFor(() => expect(result.current.loadedAt).toBe(1000));
+
+    now.mockReturnValue(1000 + 60 * 1000);
+    rerender({ type: 's3Buckets' });
+    expect(result.current.data).toEqual([bucket('b1')]);
+    expect(provider.requestCount).toBe(1);
+
+    now.mockReturnValue(1000 + 60 * 1000 + 1);
+    rerender({ type: 's3Buckets' });
+    await waitFor(() => expect(result.current.loadedAt).toBe(1000 + 60 * 1000 + 1));
+    expect(provider.requestCount).toBe(2);
+  });
+
+  test('reloads on refresh, keeping the data while loading and after a failure', async () => {
+    const provider = createMockInventoryProvider({ s3Buckets: [bucket('b1')] });
+    const { result } = renderInventory(provider);
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    provider.setResources('s3Buckets', [bucket('b1'), bucket('b2')]);
+    await act(() => result.current.refresh());
+    expect(result.current.data).toEqual([bucket('b1'), bucket('b2')]);
+
+    provider.failNext('Inventory service unavailable');
+    await act(() => result.current.refresh());
+    expect(result.current.error?.message).toBe('Inventory service unavailable');
+    expect(result.current.data).toEqual([bucket('b1'), bucket('b2')]);
+    expect(provider.requestCount).toBe(3);
+  });
+
+  test('starts a forced refresh even while a request is in flight', async () => {
+    const provider = createMockInventoryProvider({ s3Buckets: [bucket('b1')] }, { latencyMs: 20 });
+    const { result } = renderInventory(provider);
+    expect(result.current.loading).toBe(true);
+
+    await act(() => result.current.refresh());
+    expect(provider.requestCount).toBe(2);
+    expect(result.current).toMatchObject({ data: [bucket('b1')], loading: false, error: null });
+  });
+
+  test('drops the cache and loads again when the provider changes', async () => {
+    const first = createMockInventoryProvider({ s3Buckets: [bucket('b1')] });
+    const { result, rerender, current } = renderInventory(first);
+    await waitFor(() => expect(result.current.data).toEqual([bucket('b1')]));
+
+    const second = createMockInventoryProvider({ s3Buckets: [bucket('b9')] });
+    current.provider = second;
+    rerender({ type: 's3Buckets' });
+    await waitFor(() => expect(result.current.data).toEqual([bucket('b9')]));
+    expect([first.requestCount, second.requestCount]).toEqual([1, 1]);
+  });
+});
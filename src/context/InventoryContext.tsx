@@ -0,0 +1,201 @@
+/**
+ * Inventory Data Context
+ *
+ * This module provides inventory resources to tables and widgets through the
+ * `useInventory` hook. It sits between components and an InventoryProvider and
+ * adds the state every consumer needs:
+ *
+ * Technical Concepts:
+ * 1. React Context API for sharing one provider and cache across the app
+ * 2. Per-resource-type cache with a configurable maximum age
+ * 3. De-duplication of concurrent requests for the same resource type
+ * 4. Loading and error state, plus an explicit refresh that bypasses the cache
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { InventoryResourceMap, InventoryResourceType } from '../types/inventory';
+import { InventoryProvider } from '../data/providers/InventoryProvider';
+import { createDefaultInventoryProvider } from '../data/providers/defaultInventoryProvider';
+
+/**
+ * Cache entry for one resource type
+ * @property {unknown[]} data - Last successfully loaded resources
+ * @property {boolean} loading - Whether a request is in flight
+ * @property {Error | null} error - Error from the last request, if it failed
+ * @property {number | null} loadedAt - Time of the last successful load (ms)
+ */
+interface InventoryCacheEntry {
+  data: unknown[];
+  loading: boolean;
+  error: Error | null;
+  loadedAt: number | null;
+}
+
+/**
+ * InventoryContextType Interface
+ *
+ * Defines the shape of the context value object
+ */
+interface InventoryContextType {
+  provider: InventoryProvider;
+  cache: Partial<Record<InventoryResourceType, InventoryCacheEntry>>;
+  maxAgeMs: number;
+  load: (type: InventoryResourceType, force?: boolean) => Promise<void>;
+}
+
+const InventoryContext = createContext<InventoryContextType | null>(null);
+
+// Shared empty array so consumers get a stable reference before data loads
+const EMPTY: unknown[] = [];
+
+// Cache of a provider nothing was loaded from yet
+const EMPTY_CACHE: InventoryContextType['cache'] = {};
+
+/**
+ * Result of the useInventory hook
+ * @property {T[]} data - Loaded resources (empty until the first load completes)
+ * @property {boolean} loading - Whether a request is in flight
+ * @property {Error | null} error - Error from the last request, if it failed
+ * @property {number | null} loadedAt - Time of the last successful load (ms)
+ * @property {Function} refresh - Reloads from the provider, bypassing the cache
+ */
+export interface UseInventoryResult<T> {
+  data: T[];
+  loading: boolean;
+  error: Error | null;
+  loadedAt: number | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for consuming inventory resources
+ * Loads the resource type on first use and whenever the cached copy is stale.
+ *
+ * @param {InventoryResourceType} type - The resource type to load
+ * @throws {Error} If used outside of InventoryDataProvider
+ * @returns {UseInventoryResult} The resources and their load state
+ */
+export const useInventory = <K extends InventoryResourceType>(type: K): UseInventoryResult<InventoryResourceMap[K]> => {
+  const context = useContext(InventoryContext);
+  if (!context) {
+    throw new Error('useInventory must be used within an InventoryDataProvider');
+  }
+  const { cache, load, maxAgeMs } = context;
+  const entry = cache[type];
+  const isStale = !entry || (!entry.loading && !entry.error && (entry.loadedAt === null || Date.now() - entry.loadedAt > maxAgeMs));
+
+  useEffect(() => {
+    if (isStale) {
+      load(type);
+    }
+  }, [isStale, load, type]);
+
+  const refresh = useCallback(() => load(type, true), [load, type]);
+
+  return {
+    data: (entry?.data ?? EMPTY) as InventoryResourceMap[K][],
+    loading: !entry || entry.loading,
+    error: entry?.error ?? null,
+    loadedAt: entry?.loadedAt ?? null,
+    refresh,
+  };
+};
+
+/**
+ * Custom hook for reading the active provider (e.g. to show its name)
+ * @returns {InventoryProvider} The provider behind the inventory context
+ */
+export const useInventoryProvider = (): InventoryProvider => {
+  const context = useContext(InventoryContext);
+  if (!context) {
+    throw new Error('useInventoryProvider must be used within an InventoryDataProvider');
+  }
+  return context.provider;
+};
+
+/**
+ * InventoryDataProvider Component
+ *
+ * Provides inventory data to its children.
+ *
+ * @component
+ * @param {Object} props - Component props
+ * @param {InventoryProvider} [props.provider] - Data source (defaults to the build's configured provider)
+ * @param {number} [props.maxAgeMs=300000] - How long loaded data is served from cache
+ * @param {React.ReactNode} props.children - Child components
+ */
+export const InventoryDataProvider: React.FC<{
+  provider?: InventoryProvider;
+  maxAgeMs?: number;
+  children: React.ReactNode;
+}> = ({ provider: providerProp, maxAgeMs = 5 * 60 * 1000, children }) => {
+  const provider = useMemo(() => providerProp ?? createDefaultInventoryProvider(), [providerProp]);
+
+  // The cache belongs to the provider that filled it; another provider starts from an empty cache.
+  // Tagging it, rather than clearing it in an effect, keeps loads that consumers start in their
+  // own effects (which run before this component's) from being dropped.
+  const [cache, setCache] = useState<{ provider: InventoryProvider; entries: InventoryContextType['cache'] }>(
+    () => ({ provider, entries: {} })
+  );
+
+  // In-flight requests to the provider per resource type, so concurrent consumers share one fetch
+  const requests = useMemo(() => ({ provider, inFlight: new Map<InventoryResourceType, Promise<void>>() }), [provider]);
+
+  // Ignore the results of requests to a replaced provider
+  useEffect(() => () => requests.inFlight.clear(), [requests]);
+
+  /**
+   * Updates the cache entry of a resource type, starting a new cache for a new provider
+   */
+  const setEntry = useCallback((
+    type: InventoryResourceType,
+    update: (entry: InventoryCacheEntry | undefined) => InventoryCacheEntry
+  ) => {
+    setCache(prev => {
+      const entries = prev.provider === provider ? prev.entries : {};
+      return { provider, entries: { ...entries, [type]: update(entries[type]) } };
+    });
+  }, [provider]);
+
+  /**
+   * Loads a resource type into the cache
+   * @param {InventoryResourceType} type - The resource type to load
+   * @param {boolean} [force=false] - Start a new request even if one is in flight
+   */
+  const load = useCallback((type: InventoryResourceType, force = false): Promise<void> => {
+    const { inFlight } = requests;
+    const pending = inFlight.get(type);
+    if (pending && !force) return pending;
+
+    setEntry(type, entry => ({ data: entry?.data ?? EMPTY, loadedAt: entry?.loadedAt ?? null, error: null, loading: true }));
+
+    const request = requests.provider.fetchResources(type).then(
+      data => {
+        if (inFlight.get(type) !== request) return;
+        inFlight.delete(type);
+        setEntry(type, () => ({ data, loading: false, error: null, loadedAt: Date.now() }));
+      },
+      error => {
+        if (inFlight.get(type) !== request) return;
+        inFlight.delete(type);
+        setEntry(type, entry => ({
+          data: entry?.data ?? EMPTY,
+          loadedAt: entry?.loadedAt ?? null,
+          loading: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        }));
+      }
+    );
+    inFlight.set(type, request);
+    return request;
+  }, [requests, setEntry]);
+
+  const entries = cache.provider === provider ? cache.entries : EMPTY_CACHE;
+  const value = useMemo(() => ({ provider, cache: entries, maxAgeMs, load }), [provider, entries, maxAgeMs, load]);
+
+  return (
+    <InventoryContext.Provider value={value}>
+      {children}
+    </InventoryContext.Provider>
+  );
+};
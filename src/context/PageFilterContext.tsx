@@ -0,0 +1,147 @@
+/**
+ * Page Filter Context
+ *
+ * Lets widgets on a custom page filter each other: clicking a chart slice
+ * publishes the slice's group (e.g. region = us-east-1) as the page filter,
+ * and every other widget whose data has that field shows only matching rows.
+ *
+ * Technical Concepts:
+ * 1. React Context API scoped to one page, so filters do not leak between pages
+ * 2. Matching by field id, so a filter applies across resource types that share a field
+ * 3. The widget that set the filter keeps showing all of its data to allow reselection
+ */
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { FilterField } from '../utils/filterExpression';
+import { getGroupKey } from '../utils/aggregate';
+
+/**
+ * PageFilter Interface
+ * @property {string} field - Field id the filter applies to (e.g. 'region')
+ * @property {string} label - Field label shown on the filter chip
+ * @property {string} value - Group value rows must have
+ * @property {string} sourceWidgetId - Widget that set the filter
+ */
+export interface PageFilter {
+  field: string;
+  label: string;
+  value: string;
+  sourceWidgetId: string;
+}
+
+/**
+ * PageFilterContextType Interface
+ *
+ * Defines the shape of the context value object
+ */
+interface PageFilterContextType {
+  filter: PageFilter | null;
+  setFilter: (filter: PageFilter | null) => void;
+}
+
+/**
+ * Outside a PageFilterProvider (e.g. on the fixed inventory pages) there is
+ * no page filter and setting one has no effect.
+ */
+const PageFilterContext = createContext<PageFilterContextType>({
+  filter: null,
+  setFilter: () => {},
+});
+
+/**
+ * Custom hook for reading and setting the page filter
+ * @returns {PageFilterContextType} The page filter and its setter
+ */
+export const usePageFilter = () => useContext(PageFilterContext);
+
+/**
+ * Result of the usePageFilterFor hook
+ * @property {PageFilter | null} filter - The page filter, if it applies to the widget
+ * @property {Function} matches - Whether a row passes the filter (always true without one)
+ * @property {Function} clear - Removes the page filter
+ */
+export interface AppliedPageFilter<T> {
+  filter: PageFilter | null;
+  matches: (row: T) => boolean;
+  clear: () => void;
+}
+
+/**
+ * Custom hook for applying the page filter to a widget's rows
+ * The filter applies when the rows have its field and it was set by another widget.
+ *
+ * @param {FilterField<T>[]} fields - Field definitions of the widget's rows
+ * @param {string} widgetId - The widget consuming the filter
+ * @returns {AppliedPageFilter} The applicable filter and a row predicate
+ */
+export const usePageFilterFor = <T,>(fields: FilterField<T>[], widgetId: string): AppliedPageFilter<T> => {
+  const { filter, setFilter } = usePageFilter();
+  const field = filter && filter.sourceWidgetId !== widgetId
+    ? fields.find(candidate => candidate.field === filter.field)
+    : undefined;
+  const applied = field ? filter : null;
+
+  const matches = useCallback(
+    (row: T) => !field || !applied || getGroupKey(field, row) === applied.value,
+    [field, applied]
+  );
+  const clear = useCallback(() => setFilter(null), [setFilter]);
+
+  return { filter: applied, matches, clear };
+};
+
+/**
+ * Result of the usePageFilterSource hook
+ * @property {string | null} selectedKey - The group this widget filters the page to, if any
+ * @property {Function} toggle - Filters the page to a group, or clears the filter if it is already selected
+ * @property {Function} clear - Removes the page filter
+ */
+export interface PageFilterSource {
+  selectedKey: string | null;
+  toggle: (key: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Custom hook for widgets that set the page filter, e.g. charts whose groups can be clicked
+ *
+ * @param {string} widgetId - The widget setting the filter
+ * @param {FilterField<T> | undefined} field - The field the widget's groups are values of
+ * @returns {PageFilterSource} The widget's selection and functions to change it
+ */
+export const usePageFilterSource = <T,>(widgetId: string, field: FilterField<T> | undefined): PageFilterSource => {
+  const { filter, setFilter } = usePageFilter();
+  const selectedKey = filter?.sourceWidgetId === widgetId ? filter.value : null;
+
+  const toggle = (key: string) => {
+    if (!field) return;
+    if (key === selectedKey) {
+      setFilter(null);
+    } else {
+      setFilter({ field: field.field, label: field.label, value: key, sourceWidgetId: widgetId });
+    }
+  };
+
+  return { selectedKey, toggle, clear: () => setFilter(null) };
+};
+
+/**
+ * PageFilterProvider Component
+ *
+ * Holds the page filter for the widgets of one page. Key it by page id so the
+ * filter resets when switching pages.
+ *
+ * @component
+ * @param {Object} props - Component props
+ * @param {React.ReactNode} props.children - Child components
+ */
+export const PageFilterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [filter, setFilter] = useState<PageFilter | null>(null);
+  const value = useMemo(() => ({ filter, setFilter }), [filter]);
+
+  return (
+    <PageFilterContext.Provider value={value}>
+      {children}
+    </PageFilterContext.Provider>
+  );
+};
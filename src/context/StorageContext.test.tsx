@@ -0,0 +1,132 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { StorageProvider, useStorage } from './StorageContext';
+import { StorageAdapter, StorageAdapterError } from '../data/storage/StorageAdapter';
+import useStoredValue from '../hooks/useStoredValue';
+
+/**
+ * An adapter keeping values in a map, whose loads wait until released and whose saves can fail
+ */
+const createControlledAdapter = (entries: Record<string, unknown> = {}) => {
+  const saved = new Map(Object.entries(entries));
+  const waiting: Array<() => void> = [];
+  const control = { failLoad: false, failSave: false, release: () => waiting.splice(0).forEach(resolve => resolve()) };
+  const adapter: StorageAdapter = {
+    name: 'Controlled',
+    load: key => new Promise((resolve, reject) => {
+      waiting.push(() => (control.failLoad
+        ? reject(new StorageAdapterError('Could not reach the storage service', key))
+        : resolve(saved.has(key) ? saved.get(key) : null)));
+    }),
+    save: async (key, value) => {
+      if (control.failSave) throw new StorageAdapterError('Browser storage is full', key);
+      saved.set(key, value);
+    },
+    remove: async key => { saved.delete(key); },
+    keys: async () => Array.from(saved.keys()),
+  };
+  return { adapter, saved, control };
+};
+
+const renderStoredValue = (adapter: StorageAdapter, key = 'pageTemplates') => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <StorageProvider adapter={adapter}>{children}</StorageProvider>
+  );
+  return renderHook(() => ({ stored: useStoredValue<string[]>(key, [], saved => saved as string[]), storage: useStorage() }), { wrapper });
+};
+
+describe('StorageContext', () => {
+  test('shows the initial value while loading, then the saved value', async () => {
+    const { adapter, control } = createControlledAdapter({ pageTemplates: ['Costs'] });
+    const { result } = renderStoredValue(adapter);
+    expect(result.current.stored).toMatchObject({ value: [], status: 'loading', error: null });
+
+    act(() => control.release());
+    await waitFor(() => expect(result.current.stored.status).toBe('ready'));
+    expect(result.current.stored.value).toEqual(['Costs']);
+  });
+
+  test('keeps a value set while loading over the loaded one', async () => {
+    const { adapter, saved, control } = createControlledAdapter({ pageTemplates: ['Costs'] });
+    const { result } = renderStoredValue(adapter);
+
+    act(() => result.current.stored.setValue(['Uptime']));
+    act(() => control.release());
+    await waitFor(() => expect(result.current.stored.status).toBe('ready'));
+    expect(result.current.stored.value).toEqual(['Uptime']);
+    await waitFor(() => expect(saved.get('pageTemplates')).toEqual(['Uptime']));
+  });
+
+  test('reports a failed load and does not overwrite the stored value', async () => {
+    const { adapter, saved, control } = createControlledAdapter({ pageTemplates: ['Costs'] });
+    control.failLoad = true;
+    const { result } = renderStoredValue(adapter);
+
+    act(() => control.release());
+    await waitFor(() => expect(result.current.stored.status).toBe('error'));
+    expect(result.current.stored.error?.message).toBe('Could not reach the storage service');
+
+    act(() => result.current.stored.setValue(['Uptime']));
+    await act(() => result.current.storage.retrySave());
+    expect(result.current.stored.value).toEqual(['Uptime']);
+    expect(saved.get('pageTemplates')).toEqual(['Costs']);
+    expect(result.current.storage.saveState.status).toBe('saved');
+  });
+
+  test('removes a key only after a save of it already running', async () => {
+    const { adapter, saved, control } = createControlledAdapter();
+    const calls: string[] = [];
+    let finishSave = () => {};
+    const slowAdapter: StorageAdapter = {
+      ...adapter,
+      save: (key, value) => {
+        calls.push(`save ${key}`);
+        return new Promise(resolve => {
+          finishSave = () => {
+            saved.set(key, value);
+            calls.push(`saved ${key}`);
+            resolve();
+          };
+        });
+      },
+      remove: async key => {
+        calls.push(`remove ${key}`);
+        saved.delete(key);
+      },
+    };
+    const { result } = renderStoredValue(slowAdapter);
+    act(() => control.release());
+    await waitFor(() => expect(result.current.stored.status).toBe('ready'));
+
+    act(() => result.current.stored.setValue(['Uptime']));
+    act(() => { result.current.storage.retrySave(); });
+    await waitFor(() => expect(calls).toEqual(['save pageTemplates']));
+    let removed: Promise<void> = Promise.resolve();
+    act(() => { removed = result.current.storage.remove('pageTemplates'); });
+    await act(async () => {
+      finishSave();
+      await removed;
+    });
+    expect(calls).toEqual(['save pageTemplates', 'saved pageTemplates', 'remove pageTemplates']);
+    expect(saved.has('pageTemplates')).toBe(false);
+  });
+
+  test('reports a failed save and saves again on retry', async () => {
+    const { adapter, saved, control } = createControlledAdapter();
+    const { result } = renderStoredValue(adapter);
+    act(() => control.release());
+    await waitFor(() => expect(result.current.stored.status).toBe('ready'));
+
+    control.failSave = true;
+    act(() => result.current.stored.setValue(['Uptime']));
+    expect(result.current.storage.saveState.status).toBe('saving');
+    await act(() => result.current.storage.retrySave());
+    expect(result.current.storage.saveState).toEqual({ status: 'error', error: new StorageAdapterError('Browser storage is full', 'pageTemplates') });
+    expect(await result.current.storage.load('pageTemplates')).toEqual(['Uptime']);
+
+    control.failSave = false;
+    await act(() => result.current.storage.retrySave());
+    expect(result.current.storage.saveState).toEqual({ status: 'saved', error: null });
+    expect(saved.get('pageTemplates')).toEqual(['Uptime']);
+  });
+});
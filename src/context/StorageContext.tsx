@@ -0,0 +1,189 @@
+/**
+ * Storage Context
+ *
+ * This module gives the app one StorageAdapter for its saved state, and the
+ * bookkeeping every writer needs:
+ *
+ * Technical Concepts:
+ * 1. React Context API for sharing one adapter and save queue across the app
+ * 2. Debounced, ordered saves (utils/debouncedSave)
+ * 3. Save state, so failed saves can be shown and retried
+ * 4. Pending saves written when the page is left
+ * 5. Messages to the app in other tabs of the browser (BroadcastChannel), to keep them in step
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { StorageAdapter } from '../data/storage/StorageAdapter';
+import { createDefaultStorageAdapter } from '../data/storage/defaultStorageAdapter';
+import { createDebouncedSaver, SaveState } from '../utils/debouncedSave';
+
+/**
+ * Name of the channel tabs using the same storage talk on, followed by the storage's name
+ */
+const SYNC_CHANNEL_PREFIX = 'dashboard-storage:';
+
+/**
+ * Receives what another tab published about a key
+ */
+type SyncListener = (payload: unknown) => void;
+
+/**
+ * StorageContextType Interface
+ * @property {StorageAdapter} adapter - Where state is kept
+ * @property {Function} load - Reads a key, including a value queued for it but not saved yet
+ * @property {Function} keys - Lists the saved keys, including keys with a value queued
+ * @property {Function} save - Queues a value to save under a key
+ * @property {Function} remove - Removes a key, dropping any queued value; a value being
+ *   written is written first, so it cannot overwrite the removal
+ * @property {Function} update - Saves (or, for null, removes) a key and passes the value to
+ *   its listeners in this tab and the other tabs, e.g. for imported state
+ * @property {SaveState} saveState - Whether queued values are saved, or failed to save
+ * @property {Function} retrySave - Saves the queued values again after a failure
+ * @property {string} tabId - Identifies this tab to the others
+ * @property {Function} publish - Tells the other tabs about a change of a key, e.g. its new value
+ * @property {Function} subscribe - Listens to what other tabs publish about a key; returns an unsubscribe function
+ */
+interface StorageContextType {
+  adapter: StorageAdapter;
+  load: (key: string) => Promise<unknown | null>;
+  keys: () => Promise<string[]>;
+  save: (key: string, value: unknown) => void;
+  remove: (key: string) => Promise<void>;
+  update: (key: string, value: unknown | null) => Promise<void>;
+  saveState: SaveState;
+  retrySave: () => void;
+  tabId: string;
+  publish: (key: string, payload: unknown) => void;
+  subscribe: (key: string, listener: SyncListener) => () => void;
+}
+
+const StorageContext = createContext<StorageContextType | null>(null);
+
+/**
+ * Custom hook for consuming the Storage context
+ *
+ * @throws {Error} If used outside of StorageProvider
+ * @returns {StorageContextType} The context value object
+ */
+export const useStorage = (): StorageContextType => {
+  const context = useContext(StorageContext);
+  if (!context) {
+    throw new Error('useStorage must be used within a StorageProvider');
+  }
+  return context;
+};
+
+/**
+ * StorageProvider Component
+ *
+ * Provides the storage adapter and the save queue to its children.
+ *
+ * @component
+ * @param {Object} props - Component props
+ * @param {StorageAdapter} [props.adapter] - Where to keep state (defaults to the build's configured adapter)
+ * @param {React.ReactNode} props.children - Child components
+ */
+export const StorageProvider: React.FC<{
+  adapter?: StorageAdapter;
+  children: React.ReactNode;
+}> = ({ adapter: adapterProp, children }) => {
+  const adapter = useMemo(() => adapterProp ?? createDefaultStorageAdapter(), [adapterProp]);
+  const [saveState, setSaveState] = useState<SaveState>({ status: 'saved', error: null });
+  const saver = useMemo(() => createDebouncedSaver(adapter.save, setSaveState), [adapter]);
+  const [tabId] = useState(() => Math.random().toString(36).substr(2, 9));
+  const channel = useRef<BroadcastChannel | null>(null);
+  const listeners = useRef(new Map<string, Set<SyncListener>>());
+
+  /**
+   * Passes a payload to the listeners of a key in this tab
+   */
+  const deliver = useCallback((key: string, payload: unknown) => {
+    listeners.current.get(key)?.forEach(listener => listener(payload));
+  }, []);
+
+  // Tabs only hear each other where the browser supports BroadcastChannel
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const opened = new BroadcastChannel(`${SYNC_CHANNEL_PREFIX}${adapter.name}`);
+    opened.onmessage = (event: MessageEvent<{ key: string; payload: unknown }>) => {
+      deliver(event.data.key, event.data.payload);
+    };
+    channel.current = opened;
+    return () => {
+      opened.close();
+      channel.current = null;
+    };
+  }, [adapter, deliver]);
+
+  const publish = useCallback((key: string, payload: unknown) => {
+    channel.current?.postMessage({ key, payload });
+  }, []);
+
+  const subscribe = useCallback((key: string, listener: SyncListener) => {
+    const keyListeners = listeners.current.get(key) ?? new Set<SyncListener>();
+    keyListeners.add(listener);
+    listeners.current.set(key, keyListeners);
+    return () => {
+      keyListeners.delete(listener);
+    };
+  }, []);
+
+  // Write what is still queued when the page is left or the adapter replaced
+  useEffect(() => {
+    const flush = () => { saver.flush(); };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [saver]);
+
+  const remove = useCallback(async (key: string) => {
+    const cancelled = saver.cancel(key);
+    publish(key, null);
+    await cancelled;
+    await adapter.remove(key);
+  }, [adapter, saver, publish]);
+
+  const load = useCallback(async (key: string) => {
+    const queued = saver.peek(key);
+    return queued ? queued.value : adapter.load(key);
+  }, [adapter, saver]);
+
+  const keys = useCallback(async () => {
+    const saved = await adapter.keys();
+    return saved.concat(saver.pendingKeys().filter(key => !saved.includes(key)));
+  }, [adapter, saver]);
+
+  const update = useCallback(async (key: string, value: unknown | null) => {
+    deliver(key, value);
+    if (value === null) {
+      await remove(key);
+    } else {
+      saver.schedule(key, value);
+      publish(key, value);
+    }
+  }, [saver, remove, publish, deliver]);
+
+  const retrySave = useCallback(() => { saver.flush(); }, [saver]);
+
+  const value = useMemo(() => ({
+    adapter,
+    load,
+    keys,
+    save: saver.schedule,
+    remove,
+    update,
+    saveState,
+    retrySave,
+    tabId,
+    publish,
+    subscribe,
+  }), [adapter, load, keys, saver, remove, update, saveState, retrySave, tabId, publish, subscribe]);
+
+  return (
+    <StorageContext.Provider value={value}>
+      {children}
+    </StorageContext.Provider>
+  );
+};
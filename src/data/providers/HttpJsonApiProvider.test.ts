@@ -0,0 +1,92 @@
+import { createHttpJsonApiProvider } from './HttpJsonApiProvider';
+import { InventoryProviderError } from './InventoryProvider';
+
+/**
+ * A fake inventory service answering each URL with a fixed status and body, like `npm run stub-server`
+ */
+const createInventoryService = (routes: Record<string, { status?: number; body: unknown }>) => {
+  const requests: Array<{ url: string; headers: HeadersInit | undefined }> = [];
+  const fetchImpl = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = String(input);
+    requests.push({ url, headers: init.headers });
+    const route = routes[url] ?? { status: 404, body: { errors: [{ status: '404', title: 'Not Found' }] } };
+    const status = route.status ?? 200;
+    return {
+      ok: status < 400,
+      status,
+      statusText: status === 502 ? 'Bad Gateway' : '',
+      json: async () => (typeof route.body === 'string' ? JSON.parse(route.body) : route.body),
+    } as Response;
+  }) as typeof fetch;
+  return { fetchImpl, requests };
+};
+
+const BASE_URL = 'http://localhost:4000/api';
+
+describe('HTTP JSON:API provider', () => {
+  test('follows pagination links until the last page', async () => {
+    const service = createInventoryService({
+      [`${BASE_URL}/s3-buckets`]: { body: { data: [{ id: 'b1' }, { id: 'b2' }], links: { next: '?page=2' } } },
+      [`${BASE_URL}/s3-buckets?page=2`]: { body: { data: [{ id: 'b3' }], links: { next: null } } },
+    });
+    const provider = createHttpJsonApiProvider({ baseUrl: BASE_URL, headers: { Authorization: 'Bearer token' }, fetchImpl: service.fetchImpl });
+
+    const buckets = await provider.fetchResources('s3Buckets');
+    expect(buckets.map(bucket => bucket.id)).toEqual(['b1', 'b2', 'b3']);
+    expect(service.requests.map(request => request.url)).toEqual([`${BASE_URL}/s3-buckets`, `${BASE_URL}/s3-buckets?page=2`]);
+    expect(service.requests[0].headers).toEqual({ Accept: 'application/vnd.api+json', Authorization: 'Bearer token' });
+  });
+
+  test('uses overridden endpoints and stops at the page limit', async () => {
+    const service = createInventoryService({
+      [`${BASE_URL}/storage/buckets`]: { body: { data: [{ id: 'b1' }], links: { next: `${BASE_URL}/storage/buckets` } } },
+    });
+    const provider = createHttpJsonApiProvider({
+      baseUrl: `${BASE_URL}/`,
+      endpoints: { s3Buckets: 'storage/buckets' },
+      fetchImpl: service.fetchImpl,
+      maxPages: 3,
+    });
+
+    await expect(provider.fetchResources('s3Buckets')).rejects.toEqual(
+      new InventoryProviderError('Stopped after 3 pages of s3Buckets', 's3Buckets')
+    );
+    expect(service.requests).toHaveLength(3);
+  });
+
+  test('maps HTTP failures and JSON:API errors to InventoryProviderError', async () => {
+    const load = (route: { status?: number; body: unknown }) => {
+      const service = createInventoryService({ [`${BASE_URL}/s3-buckets`]: route });
+      return createHttpJsonApiProvider({ baseUrl: BASE_URL, fetchImpl: service.fetchImpl }).fetchResources('s3Buckets');
+    };
+
+    await expect(load({ status: 403, body: { errors: [{ status: '403', title: 'Forbidden', detail: 'Token expired' }] } })).rejects.toEqual(
+      new InventoryProviderError('Loading s3Buckets failed with HTTP 403: Token expired', 's3Buckets', 403)
+    );
+    await expect(load({ status: 502, body: '<html>' })).rejects.toEqual(
+      new InventoryProviderError('Loading s3Buckets failed with HTTP 502: Bad Gateway', 's3Buckets', 502)
+    );
+    await expect(load({ body: { errors: [{ status: '500', title: 'Inventory sync running' }] } })).rejects.toEqual(
+      new InventoryProviderError('Inventory sync running', 's3Buckets', 200)
+    );
+    await expect(load({ body: { data: { id: 'b1' } } })).rejects.toEqual(
+      new InventoryProviderError('Response for s3Buckets is not a JSON:API collection', 's3Buckets', 200)
+    );
+  });
+
+  test('reports an unreachable service, but passes aborts through', async () => {
+    const unreachable = createHttpJsonApiProvider({
+      baseUrl: BASE_URL,
+      fetchImpl: () => Promise.reject(new TypeError('Failed to fetch')),
+    });
+    await expect(unreachable.fetchResources('s3Buckets')).rejects.toEqual(
+      new InventoryProviderError(`Could not reach the inventory service (${BASE_URL}/s3-buckets)`, 's3Buckets')
+    );
+
+    const aborted = createHttpJsonApiProvider({
+      baseUrl: BASE_URL,
+      fetchImpl: () => Promise.reject(new DOMException('Aborted', 'AbortError')),
+    });
+    await expect(aborted.fetchResources('s3Buckets')).rejects.toHaveProperty('name', 'AbortError');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * HTTP JSON:API Inventory Provider
+ *
+ * Fetches inventory resources from an HTTP service that speaks JSON:API.
+ * Follows `links.next` pagination until all pages are loaded and turns
+ * JSON:API error documents and HTTP failures into InventoryProviderError.
+ */
+
+import { InventoryResourceMap, InventoryResourceType, JsonApiDocument } from '../../types/inventory';
+import { FetchResourcesOptions, InventoryProvider, InventoryProviderError } from './InventoryProvider';
+
+/**
+ * Default endpoint paths, relative to the base URL
+ */
+export const DEFAULT_INVENTORY_ENDPOINTS: Record<InventoryResourceType, string> = {
+  s3Buckets: 's3-buckets',
+  ec2Instances: 'ec2-instances',
+  rdsClusters: 'rds-clusters',
+  vpcs: 'vpcs',
+  ecsClusters: 'ecs-clusters',
+};
+
+/**
+ * Options for the HTTP provider
+ * @property {string} baseUrl - Base URL of the inventory service
+ * @property {Object} [endpoints] - Overrides for individual endpoint paths
+ * @property {Object} [headers] - Extra request headers (e.g. authorization)
+ * @property {Function} [fetchImpl] - fetch implementation, for tests
+ * @property {number} [maxPages=100] - Safety limit on followed pagination links
+ */
+export interface HttpJsonApiProviderOptions {
+  baseUrl: string;
+  endpoints?: Partial<Record<InventoryResourceType, string>>;
+  headers?: Record<string, string>;
+  fetchImpl?: typeof fetch;
+  maxPages?: number;
+}
+
+/**
+ * Extracts a readable message from a JSON:API error document
+ */
+const describeErrors = (document: Partial<JsonApiDocument<unknown>> | null): string | null => {
+  const errors = document?.errors;
+  if (!errors || errors.length === 0) return null;
+  return errors.map(error => error.detail || error.title || error.status).filter(Boolean).join('; ');
+};
+
+/**
+ * Creates a provider that loads resources over HTTP
+ * @param {HttpJsonApiProviderOptions} options - Provider configuration
+ * @returns {InventoryProvider} The provider
+ */
+export const createHttpJsonApiProvider = (options: HttpJsonApiProviderOptions): InventoryProvider => {
+  const { baseUrl, endpoints = {}, headers = {}, maxPages = 100 } = options;
+  const fetchImpl = options.fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+  const fetchResources = async <K extends InventoryResourceType>(
+    type: K,
+    fetchOptions: FetchResourcesOptions = {}
+  ): Promise<InventoryResourceMap[K][]> => {
+    const resources: InventoryResourceMap[K][] = [];
+    let url: string | null | undefined = new URL(endpoints[type] ?? DEFAULT_INVENTORY_ENDPOINTS[type], base).toString();
+    let pages = 0;
+
+    while (url) {
+      if (pages >= maxPages) {
+        throw new InventoryProviderError(`Stopped after ${maxPages} pages of ${type}`, type);
+      }
+
+      let response: Response;
+      try {
+        response = await fetchImpl(url, {
+          headers: { Accept: 'application/vnd.api+json', ...headers },
+          signal: fetchOptions.signal,
+        });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') throw error;
+        throw new InventoryProviderError(`Could not reach the inventory service (${url})`, type);
+      }
+
+      let document: JsonApiDocument<InventoryResourceMap[K]> | null = null;
+      try {
+        document = await response.json();
+      } catch {
+        document = null;
+      }
+
+      if (!response.ok) {
+        const detail = describeErrors(document) ?? response.statusText;
+        throw new InventoryProviderError(
+          `Loading ${type} failed with HTTP ${response.status}${detail ? `: ${detail}` : ''}`,
+          type,
+          response.status
+        );
+      }
+      if (!document || !Array.isArray(document.data)) {
+        throw new InventoryProviderError(
+          describeErrors(document) ?? `Response for ${type} is not a JSON:API collection`,
+          type,
+          response.status
+        );
+      }
+
+      resources.push(...document.data);
+      url = document.links?.next ? new URL(document.links.next, url).toString() : null;
+      pages++;
+    }
+
+    return resources;
+  };
+
+  return {
+    name: `Inventory service (${baseUrl})`,
+    fetchResources,
+  };
+};
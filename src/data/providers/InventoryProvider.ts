@@ -0,0 +1,51 @@
+/**
+ * Inventory Provider Abstraction
+ *
+ * An InventoryProvider loads inventory resources from some source. Tables and
+ * widgets never talk to a provider directly; they use the `useInventory` hook
+ * from InventoryContext, which adds caching, loading and error state on top.
+ *
+ * Implementations:
+ * - StaticJsonProvider: serves JSON:API documents bundled with the app
+ * - HttpJsonApiProvider: fetches JSON:API documents from an HTTP service
+ * - MockInventoryProvider: in-memory data with adjustable latency and failures
+ */
+
+import { InventoryResourceMap, InventoryResourceType } from '../../types/inventory';
+
+/**
+ * Options for a single fetch
+ * @property {AbortSignal} [signal] - Aborts the request when signalled
+ */
+export interface FetchResourcesOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * InventoryProvider Interface
+ * @property {string} name - Human-readable name of the data source
+ */
+export interface InventoryProvider {
+  readonly name: string;
+  fetchResources: <K extends InventoryResourceType>(
+    type: K,
+    options?: FetchResourcesOptions
+  ) => Promise<InventoryResourceMap[K][]>;
+}
+
+/**
+ * Error raised by providers when resources cannot be loaded
+ * @property {InventoryResourceType} resourceType - The resource type being loaded
+ * @property {number} [status] - HTTP status, for providers that use HTTP
+ */
+export class InventoryProviderError extends Error {
+  resourceType: InventoryResourceType;
+  status?: number;
+
+  constructor(message: string, resourceType: InventoryResourceType, status?: number) {
+    super(message);
+    this.name = 'InventoryProviderError';
+    this.resourceType = resourceType;
+    this.status = status;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Mock Inventory Provider
+ *
+ * An in-memory provider for tests and local experiments. Data can be replaced
+ * at runtime, responses can be delayed, and the next request can be made to fail
+ * so loading and error states are easy to exercise.
+ */
+
+import { InventoryResourceMap, InventoryResourceType } from '../../types/inventory';
+import { FetchResourcesOptions, InventoryProvider, InventoryProviderError } from './InventoryProvider';
+
+/**
+ * In-memory resources keyed by resource type
+ */
+export type MockInventoryData = {
+  [K in InventoryResourceType]?: InventoryResourceMap[K][];
+};
+
+/**
+ * MockInventoryProvider Interface
+ *
+ * An InventoryProvider with controls for tests.
+ * @property {number} requestCount - Number of fetches made so far
+ */
+export interface MockInventoryProvider extends InventoryProvider {
+  readonly requestCount: number;
+  setResources: <K extends InventoryResourceType>(type: K, resources: InventoryResourceMap[K][]) => void;
+  failNext: (message?: string) => void;
+}
+
+/**
+ * Creates an in-memory provider
+ * @param {MockInventoryData} [initialData={}] - Initial resources
+ * @param {Object} [options] - Behaviour options
+ * @param {number} [options.latencyMs=0] - Artificial delay for every fetch
+ * @returns {MockInventoryProvider} The provider and its controls
+ */
+export const createMockInventoryProvider = (
+  initialData: MockInventoryData = {},
+  { latencyMs = 0 }: { latencyMs?: number } = {}
+): MockInventoryProvider => {
+  const data: MockInventoryData = { ...initialData };
+  let pendingFailure: string | null = null;
+  let requestCount = 0;
+
+  const delay = (signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (latencyMs <= 0) {
+        resolve();
+        return;
+      }
+      const timer = setTimeout(resolve, latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+
+  return {
+    name: 'Mock data',
+    get requestCount() {
+      return requestCount;
+    },
+    fetchResources: async <K extends InventoryResourceType>(type: K, options: FetchResourcesOptions = {}) => {
+      requestCount++;
+      await delay(options.signal);
+      if (pendingFailure !== null) {
+        const message = pendingFailure;
+        pendingFailure = null;
+        throw new InventoryProviderError(message, type);
+      }
+      return [...((data[type] as InventoryResourceMap[K][] | undefined) ?? [])];
+    },
+    setResources: (type, resources) => {
+      (data as Record<string, unknown>)[type] = resources;
+    },
+    failNext: (message = 'Mock failure') => {
+      pendingFailure = message;
+    },
+  };
+};
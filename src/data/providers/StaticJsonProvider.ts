@@ -0,0 +1,32 @@
+/**
+ * Static JSON Inventory Provider
+ *
+ * Serves JSON:API documents that are bundled with the application,
+ * such as the fixture files in `src/data`.
+ */
+
+import { InventoryResourceMap, InventoryResourceType, JsonApiDocument } from '../../types/inventory';
+import { InventoryProvider, InventoryProviderError } from './InventoryProvider';
+
+/**
+ * Bundled documents keyed by resource type
+ */
+export type StaticInventoryDocuments = {
+  [K in InventoryResourceType]?: JsonApiDocument<InventoryResourceMap[K]>;
+};
+
+/**
+ * Creates a provider backed by in-bundle JSON:API documents
+ * @param {StaticInventoryDocuments} documents - Documents keyed by resource type
+ * @returns {InventoryProvider} The provider
+ */
+export const createStaticJsonProvider = (documents: StaticInventoryDocuments): InventoryProvider => ({
+  name: 'Bundled sample data',
+  fetchResources: async <K extends InventoryResourceType>(type: K) => {
+    const document = documents[type] as JsonApiDocument<InventoryResourceMap[K]> | undefined;
+    if (!document) {
+      throw new InventoryProviderError(`No bundled data for ${type}`, type);
+    }
+    return [...document.data];
+  },
+});
@@ -0,0 +1,36 @@
+/**
+ * Default Inventory Provider
+ *
+ * Chooses the data source the dashboard uses when no provider is passed to
+ * InventoryDataProvider explicitly:
+ * - REACT_APP_INVENTORY_API_URL set: the HTTP JSON:API provider at that URL
+ * - otherwise: the sample data bundled in `src/data`
+ */
+
+import s3InventoryData from '../s3Inventory.json';
+import ec2InventoryData from '../ec2Inventory.json';
+import rdsInventoryData from '../rdsInventory.json';
+import vpcInventoryData from '../vpcInventory.json';
+import ecsInventoryData from '../ecsInventory.json';
+import { EC2Instance, ECSCluster, RDSCluster, S3Bucket, VPC } from '../../types/inventory';
+import { InventoryProvider } from './InventoryProvider';
+import { createStaticJsonProvider } from './StaticJsonProvider';
+import { createHttpJsonApiProvider } from './HttpJsonApiProvider';
+
+/**
+ * Creates the provider configured for this build
+ * @returns {InventoryProvider} The provider
+ */
+export const createDefaultInventoryProvider = (): InventoryProvider => {
+  const apiUrl = process.env.REACT_APP_INVENTORY_API_URL;
+  if (apiUrl) {
+    return createHttpJsonApiProvider({ baseUrl: apiUrl });
+  }
+  return createStaticJsonProvider({
+    s3Buckets: { data: s3InventoryData.data as S3Bucket[] },
+    ec2Instances: { data: ec2InventoryData.data as EC2Instance[] },
+    rdsClusters: { data: rdsInventoryData.data as RDSCluster[] },
+    vpcs: { data: vpcInventoryData.data as VPC[] },
+    ecsClusters: { data: ecsInventoryData.data as ECSCluster[] },
+  });
+};
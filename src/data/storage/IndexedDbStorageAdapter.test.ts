@@ -0,0 +1,97 @@
+import { createIndexedDbStorageAdapter } from './IndexedDbStorageAdapter';
+import { StorageAdapterError } from './StorageAdapter';
+
+/**
+ * A request settling on a later tick, after the caller attached its handlers
+ */
+const createRequest = <T>(run: () => T) => {
+  const request = {
+    result: undefined as T | undefined,
+    error: null as Error | null,
+    onsuccess: null as (() => void) | null,
+    onerror: null as (() => void) | null,
+    onupgradeneeded: null as (() => void) | null,
+  };
+  setTimeout(() => {
+    try {
+      request.result = run();
+      request.onsuccess?.();
+    } catch (error) {
+      request.error = error as Error;
+      request.onerror?.();
+    }
+  });
+  return request;
+};
+
+/**
+ * Just enough of IndexedDB for the adapter: databases holding object stores of cloned values
+ */
+const createFakeIndexedDb = () => {
+  const databases = new Map<string, Map<string, Map<string, unknown>>>();
+  const fake = { failOpen: false, opened: 0, databases, indexedDB: {} as IDBFactory };
+
+  const open = (name: string) => {
+    const request = createRequest(() => {
+      if (fake.failOpen) throw new Error('The database is blocked');
+      fake.opened++;
+      const stores = databases.get(name) ?? new Map<string, Map<string, unknown>>();
+      const isNew = !databases.has(name);
+      databases.set(name, stores);
+      const db = {
+        createObjectStore: (storeName: string) => stores.set(storeName, new Map()),
+        transaction: (storeName: string) => ({
+          objectStore: () => {
+            const store = stores.get(storeName);
+            if (!store) throw new Error(`No object store "${storeName}"`);
+            return {
+              get: (key: string) => createRequest(() => (store.has(key) ? JSON.parse(JSON.stringify(store.get(key))) : undefined)),
+              put: (value: unknown, key: string) => createRequest(() => { store.set(key, JSON.parse(JSON.stringify(value))); }),
+              delete: (key: string) => createRequest(() => { store.delete(key); }),
+              getAllKeys: () => createRequest(() => Array.from(store.keys())),
+            };
+          },
+        }),
+      };
+      request.result = db;
+      if (isNew) request.onupgradeneeded?.();
+      return db;
+    });
+    return request;
+  };
+
+  fake.indexedDB = { open } as unknown as IDBFactory;
+  return fake;
+};
+
+describe('IndexedDB storage adapter', () => {
+  test('saves, loads, lists and removes values', async () => {
+    const fake = createFakeIndexedDb();
+    const adapter = createIndexedDbStorageAdapter({ databaseName: 'test', indexedDB: fake.indexedDB });
+
+    expect(adapter.name).toBe('IndexedDB (test)');
+    expect(await adapter.load('customPages')).toBeNull();
+    await adapter.save('customPages', [{ id: 'p1', title: 'Costs' }]);
+    await adapter.save('layout-s3', { lg: [] });
+    expect(await adapter.load('customPages')).toEqual([{ id: 'p1', title: 'Costs' }]);
+    expect(await adapter.keys()).toEqual(['customPages', 'layout-s3']);
+
+    await adapter.remove('layout-s3');
+    expect(await adapter.keys()).toEqual(['customPages']);
+    expect(fake.opened).toBe(1);
+    expect(Array.from(fake.databases.get('test')?.keys() ?? [])).toEqual(['state']);
+  });
+
+  test('reports failures as StorageAdapterError and opens the database again on the next call', async () => {
+    const fake = createFakeIndexedDb();
+    fake.failOpen = true;
+    const adapter = createIndexedDbStorageAdapter({ indexedDB: fake.indexedDB });
+
+    await expect(adapter.save('customPages', [])).rejects.toEqual(
+      new StorageAdapterError('IndexedDB request failed: The database is blocked', 'customPages')
+    );
+    fake.failOpen = false;
+    await adapter.save('customPages', []);
+    expect(await adapter.load('customPages')).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * IndexedDB Adapter
+ *
+ * Keeps state in an object store of the browser's IndexedDB. Values are stored
+ * as structured clones rather than strings, and the browser allows far more
+ * data than localStorage's few megabytes.
+ */
+
+import { StorageAdapter, StorageAdapterError } from './StorageAdapter';
+
+/**
+ * Object store holding the state, by key
+ */
+const STORE_NAME = 'state';
+
+/**
+ * Options for the IndexedDB adapter
+ * @property {string} [databaseName='dashboard'] - Name of the database
+ * @property {IDBFactory} [indexedDB=window.indexedDB] - IndexedDB implementation, for tests
+ */
+export interface IndexedDbStorageAdapterOptions {
+  databaseName?: string;
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Resolves with a request's result once it succeeds
+ */
+const settle = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Creates an adapter that keeps state in IndexedDB
+ * The database is opened on first use.
+ * @param {IndexedDbStorageAdapterOptions} [options] - Adapter configuration
+ * @returns {StorageAdapter} The adapter
+ */
+export const createIndexedDbStorageAdapter = (options: IndexedDbStorageAdapterOptions = {}): StorageAdapter => {
+  const { databaseName = 'dashboard' } = options;
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = (options.indexedDB ?? window.indexedDB).open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      database = settle(request).catch(error => {
+        // Let the next access try again
+        database = null;
+        throw error;
+      });
+    }
+    return database;
+  };
+
+  /**
+   * Runs a request against the object store, wrapping failures in StorageAdapterError
+   */
+  const run = async <T>(
+    key: string | null,
+    mode: IDBTransactionMode,
+    request: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    try {
+      const db = await open();
+      return await settle(request(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+    } catch (error) {
+      const detail = error instanceof Error && error.message ? `: ${error.message}` : '';
+      throw new StorageAdapterError(`IndexedDB request failed${detail}`, key);
+    }
+  };
+
+  return {
+    name: `IndexedDB (${databaseName})`,
+    load: async key => (await run(key, 'readonly', store => store.get(key))) ?? null,
+    save: async (key, value) => {
+      await run(key, 'readwrite', store => store.put(value, key));
+    },
+    remove: async key => {
+      await run(key, 'readwrite', store => store.delete(key));
+    },
+    keys: async () => (await run(null, 'readonly', store => store.getAllKeys())).map(String),
+  };
+};
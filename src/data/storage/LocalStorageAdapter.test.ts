@@ -0,0 +1,58 @@
+import { createLocalStorageAdapter } from './LocalStorageAdapter';
+import { StorageAdapterError } from './StorageAdapter';
+
+/**
+ * A Storage keeping strings in a map, failing writes once full
+ */
+const createStorage = (maxEntries = Infinity): Storage => {
+  const saved = new Map<string, string>();
+  return {
+    get length() { return saved.size; },
+    key: index => Array.from(saved.keys())[index] ?? null,
+    getItem: key => saved.get(key) ?? null,
+    setItem: (key, value) => {
+      if (!saved.has(key) && saved.size >= maxEntries) {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      }
+      saved.set(key, value);
+    },
+    removeItem: key => { saved.delete(key); },
+    clear: () => saved.clear(),
+  };
+};
+
+describe('localStorage adapter', () => {
+  test('saves, loads, lists and removes values as JSON', async () => {
+    const storage = createStorage();
+    const adapter = createLocalStorageAdapter({ storage });
+
+    expect(await adapter.load('customPages')).toBeNull();
+    await adapter.save('customPages', [{ id: 'p1', title: 'Costs' }]);
+    await adapter.save('layout-s3', { lg: [] });
+    expect(storage.getItem('customPages')).toBe('[{"id":"p1","title":"Costs"}]');
+    expect(await adapter.load('customPages')).toEqual([{ id: 'p1', title: 'Costs' }]);
+    expect(await adapter.keys()).toEqual(['customPages', 'layout-s3']);
+
+    await adapter.remove('layout-s3');
+    expect(await adapter.keys()).toEqual(['customPages']);
+  });
+
+  test('reads state saved before the adapter existed', async () => {
+    const storage = createStorage();
+    storage.setItem('gridLayouts', '{"lg":[]}');
+    expect(await createLocalStorageAdapter({ storage }).load('gridLayouts')).toEqual({ lg: [] });
+  });
+
+  test('reports damaged state and a full storage as StorageAdapterError', async () => {
+    const storage = createStorage(1);
+    storage.setItem('customPages', '[{"id":');
+    const adapter = createLocalStorageAdapter({ storage });
+
+    await expect(adapter.load('customPages')).rejects.toEqual(
+      new StorageAdapterError('Saved state "customPages" is damaged', 'customPages')
+    );
+    await expect(adapter.save('layout-s3', { lg: [] })).rejects.toEqual(
+      new StorageAdapterError('Browser storage is full', 'layout-s3')
+    );
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * localStorage Adapter
+ *
+ * Keeps state in the browser's localStorage, one JSON string per key, under
+ * the same keys the dashboard always used, so existing state is read as is.
+ */
+
+import { StorageAdapter, StorageAdapterError } from './StorageAdapter';
+
+/**
+ * Options for the localStorage adapter
+ * @property {Storage} [storage=window.localStorage] - Storage to use, for tests
+ */
+export interface LocalStorageAdapterOptions {
+  storage?: Storage;
+}
+
+/**
+ * Creates an adapter that keeps state in localStorage
+ * @param {LocalStorageAdapterOptions} [options] - Adapter configuration
+ * @returns {StorageAdapter} The adapter
+ */
+export const createLocalStorageAdapter = (options: LocalStorageAdapterOptions = {}): StorageAdapter => {
+  const storage = options.storage ?? window.localStorage;
+
+  const load = async (key: string): Promise<unknown | null> => {
+    const saved = storage.getItem(key);
+    if (saved === null) return null;
+    try {
+      return JSON.parse(saved);
+    } catch {
+      throw new StorageAdapterError(`Saved state "${key}" is damaged`, key);
+    }
+  };
+
+  const save = async (key: string, value: unknown): Promise<void> => {
+    try {
+      storage.setItem(key, JSON.stringify(value));
+    } catch {
+      // setItem only throws when the storage quota is exceeded
+      throw new StorageAdapterError('Browser storage is full', key);
+    }
+  };
+
+  const remove = async (key: string): Promise<void> => {
+    storage.removeItem(key);
+  };
+
+  const keys = async (): Promise<string[]> => {
+    const found: string[] = [];
+    for (let index = 0; index < storage.length; index++) {
+      const key = storage.key(index);
+      if (key !== null) found.push(key);
+    }
+    return found;
+  };
+
+  return {
+    name: 'Browser storage',
+    load,
+    save,
+    remove,
+    keys,
+  };
+};
@@ -0,0 +1,61 @@
+import { createRestStorageAdapter } from './RestStorageAdapter';
+import { StorageAdapterError } from './StorageAdapter';
+
+/**
+ * An in-memory storage service speaking the adapter's REST protocol, like `npm run stub-server`
+ */
+const createStorageService = (failStatus?: number) => {
+  const saved = new Map<string, string>();
+  const requests: string[] = [];
+  const respond = (status: number, body: unknown) =>
+    ({ ok: status < 400, status, json: async () => (typeof body === 'string' ? JSON.parse(body) : body) }) as Response;
+
+  const fetchImpl = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    requests.push(`${method} ${url.pathname}`);
+    if (failStatus) return respond(failStatus, {});
+    const key = decodeURIComponent(url.pathname.replace(/^\/storage\/?/, ''));
+    if (!key) return respond(200, { keys: Array.from(saved.keys()) });
+    if (method === 'PUT') {
+      saved.set(key, String(init.body));
+      return respond(200, {});
+    }
+    if (method === 'DELETE') {
+      saved.delete(key);
+      return respond(200, {});
+    }
+    return saved.has(key) ? respond(200, saved.get(key)) : respond(404, {});
+  }) as typeof fetch;
+
+  return { fetchImpl, requests };
+};
+
+describe('REST storage adapter', () => {
+  test('saves, loads, lists and removes values', async () => {
+    const service = createStorageService();
+    const adapter = createRestStorageAdapter({ baseUrl: 'http://localhost:4000/storage', fetchImpl: service.fetchImpl });
+
+    expect(await adapter.load('customPages')).toBeNull();
+    await adapter.save('customPages', [{ id: 'p1', title: 'Costs' }]);
+    await adapter.save('layout-s3 page', { lg: [] });
+    expect(await adapter.load('customPages')).toEqual([{ id: 'p1', title: 'Costs' }]);
+    expect(await adapter.keys()).toEqual(['customPages', 'layout-s3 page']);
+
+    await adapter.remove('layout-s3 page');
+    expect(await adapter.keys()).toEqual(['customPages']);
+    expect(service.requests).toContain('PUT /storage/layout-s3%20page');
+  });
+
+  test('reports failures as StorageAdapterError', async () => {
+    const service = createStorageService(503);
+    const failing = createRestStorageAdapter({ baseUrl: 'http://localhost:4000/storage', fetchImpl: service.fetchImpl });
+    await expect(failing.keys()).rejects.toEqual(new StorageAdapterError('Loading the saved keys failed with HTTP 503', null, 503));
+
+    const unreachable = createRestStorageAdapter({
+      baseUrl: 'http://localhost:4000/storage',
+      fetchImpl: () => Promise.reject(new TypeError('Failed to fetch')),
+    });
+    await expect(unreachable.save('customPages', [])).rejects.toThrow('Could not reach the storage service');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * REST Storage Adapter
+ *
+ * Keeps state on an HTTP service, one JSON document per key:
+ *   GET    <baseUrl>/<key>   The value (404 when never saved)
+ *   PUT    <baseUrl>/<key>   Saves the value sent as the JSON body
+ *   DELETE <baseUrl>/<key>   Removes the value
+ *   GET    <baseUrl>/        `{ "keys": [...] }`, all saved keys
+ * `npm run stub-server` serves this API in memory under /storage.
+ */
+
+import { StorageAdapter, StorageAdapterError } from './StorageAdapter';
+
+/**
+ * Options for the REST adapter
+ * @property {string} baseUrl - Base URL of the storage service
+ * @property {Object} [headers] - Extra request headers (e.g. authorization)
+ * @property {Function} [fetchImpl] - fetch implementation, for tests
+ */
+export interface RestStorageAdapterOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Creates an adapter that keeps state on a REST service
+ * @param {RestStorageAdapterOptions} options - Adapter configuration
+ * @returns {StorageAdapter} The adapter
+ */
+export const createRestStorageAdapter = (options: RestStorageAdapterOptions): StorageAdapter => {
+  const { baseUrl, headers = {} } = options;
+  const fetchImpl = options.fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+  /**
+   * Sends a request, turning network failures and error statuses other than 404 into StorageAdapterError
+   */
+  const request = async (key: string | null, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(key === null ? '' : encodeURIComponent(key), base).toString();
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        ...init,
+        headers: { Accept: 'application/json', ...(init.body ? { 'Content-Type': 'application/json' } : {}), ...headers },
+      });
+    } catch {
+      throw new StorageAdapterError(`Could not reach the storage service (${baseUrl})`, key);
+    }
+    if (!response.ok && response.status !== 404) {
+      const action = init.method === 'PUT' ? 'Saving' : init.method === 'DELETE' ? 'Removing' : 'Loading';
+      throw new StorageAdapterError(
+        `${action} ${key === null ? 'the saved keys' : `"${key}"`} failed with HTTP ${response.status}`,
+        key,
+        response.status
+      );
+    }
+    return response;
+  };
+
+  /**
+   * Reads a response's JSON body
+   */
+  const readJson = async (response: Response, key: string | null): Promise<unknown> => {
+    try {
+      return await response.json();
+    } catch {
+      throw new StorageAdapterError('The storage service did not respond with JSON', key, response.status);
+    }
+  };
+
+  const load = async (key: string): Promise<unknown | null> => {
+    const response = await request(key);
+    return response.status === 404 ? null : readJson(response, key);
+  };
+
+  const save = async (key: string, value: unknown): Promise<void> => {
+    const response = await request(key, { method: 'PUT', body: JSON.stringify(value) });
+    if (response.status === 404) {
+      throw new StorageAdapterError(`Saving "${key}" failed with HTTP 404`, key, 404);
+    }
+  };
+
+  const remove = async (key: string): Promise<void> => {
+    // Removing a key that was never saved is not an error
+    await request(key, { method: 'DELETE' });
+  };
+
+  const keys = async (): Promise<string[]> => {
+    const response = await request(null);
+    const body = response.status === 404 ? null : await readJson(response, null);
+    const found = (body as { keys?: unknown } | null)?.keys;
+    if (!Array.isArray(found)) {
+      throw new StorageAdapterError('The storage service did not list the saved keys', null, response.status);
+    }
+    return found.map(String);
+  };
+
+  return {
+    name: `Storage service (${baseUrl})`,
+    load,
+    save,
+    remove,
+    keys,
+  };
+};
@@ -0,0 +1,45 @@
+/**
+ * Storage Adapter Abstraction
+ *
+ * A StorageAdapter keeps the dashboard's saved state (custom pages, saved
+ * templates, layouts of the built-in pages, table filters; see
+ * utils/storageKeys) under string keys, as JSON values.
+ * Components never talk to an adapter directly; they use StorageContext, which
+ * debounces saves and surfaces failures, or the `useStoredValue` hook, which
+ * adds a load state on top.
+ *
+ * Implementations:
+ * - LocalStorageAdapter: the browser's localStorage (the default)
+ * - IndexedDbStorageAdapter: the browser's IndexedDB, for more than localStorage holds
+ * - RestStorageAdapter: a REST service, e.g. to keep team dashboards on a server
+ */
+
+/**
+ * StorageAdapter Interface
+ * Loading a key that was never saved resolves to null.
+ * @property {string} name - Human-readable name of the storage
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  load: (key: string) => Promise<unknown | null>;
+  save: (key: string, value: unknown) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+/**
+ * Error raised by adapters when state cannot be loaded or saved
+ * @property {string | null} key - The key being loaded or saved, if any
+ * @property {number} [status] - HTTP status, for adapters that use HTTP
+ */
+export class StorageAdapterError extends Error {
+  key: string | null;
+  status?: number;
+
+  constructor(message: string, key: string | null, status?: number) {
+    super(message);
+    this.name = 'StorageAdapterError';
+    this.key = key;
+    this.status = status;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Default Storage Adapter
+ *
+ * Chooses where the dashboard keeps its state when no adapter is passed to
+ * StorageProvider explicitly:
+ * - REACT_APP_STORAGE_API_URL set: the REST storage service at that URL
+ * - REACT_APP_STORAGE_BACKEND=indexeddb: the browser's IndexedDB
+ * - otherwise: the browser's localStorage
+ *
+ * IndexedDB and the REST service start out with what the dashboard kept in
+ * localStorage (see localStorageMigration).
+ */
+
+import { StorageAdapter } from './StorageAdapter';
+import { createLocalStorageAdapter } from './LocalStorageAdapter';
+import { createIndexedDbStorageAdapter } from './IndexedDbStorageAdapter';
+import { createRestStorageAdapter } from './RestStorageAdapter';
+import { withLocalStorageMigration } from './localStorageMigration';
+import { isStoredStateKey } from '../../utils/storageKeys';
+
+/**
+ * Creates the adapter configured for this build
+ * @returns {StorageAdapter} The adapter
+ */
+export const createDefaultStorageAdapter = (): StorageAdapter => {
+  const apiUrl = process.env.REACT_APP_STORAGE_API_URL;
+  if (apiUrl) {
+    return withLocalStorageMigration(createRestStorageAdapter({ baseUrl: apiUrl }), createLocalStorageAdapter(), isStoredStateKey);
+  }
+  if (process.env.REACT_APP_STORAGE_BACKEND === 'indexeddb') {
+    return withLocalStorageMigration(createIndexedDbStorageAdapter(), createLocalStorageAdapter(), isStoredStateKey);
+  }
+  return createLocalStorageAdapter();
+};
@@ -0,0 +1,60 @@
+import { withLocalStorageMigration } from './localStorageMigration';
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * An adapter keeping values in a map, counting the calls to keys()
+ */
+const createMemoryAdapter = (entries: Record<string, unknown> = {}) => {
+  const saved = new Map(Object.entries(entries));
+  const adapter: StorageAdapter & { saved: Map<string, unknown>; failKeys: boolean } = {
+    name: 'Memory',
+    saved,
+    failKeys: false,
+    load: async key => (saved.has(key) ? saved.get(key) : null),
+    save: async (key, value) => { saved.set(key, value); },
+    remove: async key => { saved.delete(key); },
+    keys: async () => {
+      if (adapter.failKeys) throw new Error('Could not reach the storage service');
+      return Array.from(saved.keys());
+    },
+  };
+  return adapter;
+};
+
+const isMigrated = (key: string) => key === 'customPages' || key.startsWith('layout-');
+
+describe('localStorage migration', () => {
+  test('copies the state to a backend used for the first time', async () => {
+    const source = createMemoryAdapter({ customPages: [{ id: 'p1' }], 'layout-s3': { lg: [] }, theme: '"dark"' });
+    const target = createMemoryAdapter();
+    const adapter = withLocalStorageMigration(target, source, isMigrated);
+
+    expect(await adapter.load('customPages')).toEqual([{ id: 'p1' }]);
+    expect(Array.from(target.saved.keys())).toEqual(['customPages', 'layout-s3']);
+    expect(source.saved.has('customPages')).toBe(true);
+
+    // Later changes are not overwritten by another copy
+    await adapter.save('customPages', []);
+    expect(await adapter.load('customPages')).toEqual([]);
+  });
+
+  test('leaves a backend already in use alone', async () => {
+    const source = createMemoryAdapter({ customPages: [{ id: 'local' }] });
+    const target = createMemoryAdapter({ customPages: [{ id: 'team' }] });
+    const adapter = withLocalStorageMigration(target, source, isMigrated);
+
+    expect(await adapter.load('customPages')).toEqual([{ id: 'team' }]);
+    expect(await adapter.keys()).toEqual(['customPages']);
+  });
+
+  test('tries again after a failed copy', async () => {
+    const source = createMemoryAdapter({ customPages: [{ id: 'p1' }] });
+    const target = createMemoryAdapter();
+    target.failKeys = true;
+    const adapter = withLocalStorageMigration(target, source, isMigrated);
+
+    await expect(adapter.load('customPages')).rejects.toThrow('Could not reach the storage service');
+    target.failKeys = false;
+    expect(await adapter.load('customPages')).toEqual([{ id: 'p1' }]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * localStorage Migration
+ *
+ * Moves state the dashboard kept in localStorage to another backend the
+ * first time that backend is used, so switching to IndexedDB or a REST
+ * service does not start from an empty dashboard. The state stays in
+ * localStorage as well, so switching back finds it as it was.
+ */
+
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Wraps an adapter so that, before its first use, it receives the state kept in another
+ * Nothing is copied if the target already holds any of that state: it is then
+ * in use, maybe from another browser, and must not be overwritten. If copying
+ * fails, the call that started it fails and the next call tries again.
+ * @param {StorageAdapter} target - The adapter to use from now on
+ * @param {StorageAdapter} source - The adapter state was kept in so far (usually localStorage)
+ * @param {Function} isMigrated - Whether a key holds state to copy
+ * @returns {StorageAdapter} The target adapter, copying the state first
+ */
+export const withLocalStorageMigration = (
+  target: StorageAdapter,
+  source: StorageAdapter,
+  isMigrated: (key: string) => boolean
+): StorageAdapter => {
+  let migration: Promise<void> | null = null;
+
+  const copy = async () => {
+    if ((await target.keys()).some(isMigrated)) return;
+    const keys = (await source.keys()).filter(isMigrated);
+    for (const key of keys) {
+      let value: unknown;
+      try {
+        value = await source.load(key);
+      } catch {
+        // Damaged entries stay behind
+        continue;
+      }
+      if (value !== null) {
+        await target.save(key, value);
+      }
+    }
+  };
+
+  const migrate = () => {
+    migration = migration ?? copy().catch(error => {
+      migration = null;
+      throw error;
+    });
+    return migration;
+  };
+
+  return {
+    name: target.name,
+    load: async key => {
+      await migrate();
+      return target.load(key);
+    },
+    save: async (key, value) => {
+      await migrate();
+      return target.save(key, value);
+    },
+    remove: async key => {
+      await migrate();
+      return target.remove(key);
+    },
+    keys: async () => {
+      await migrate();
+      return target.keys();
+    },
+  };
+};
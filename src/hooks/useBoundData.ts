@@ -0,0 +1,91 @@
+import { useMemo } from 'react';
+import { DataBinding } from '../types/dashboard';
+import { useInventory } from '../context/InventoryContext';
+import { usePageFilterFor } from '../context/PageFilterContext';
+import { getDataSource } from '../widgets/dataSources';
+import { evaluateFilter, FilterField, FilterFieldType, parseFilterElements } from '../utils/filterExpression';
+import { parseFilterQuery } from '../utils/filterQuery';
+import {
+  aggregateRows,
+  aggregateSeries,
+  AggregatePoint,
+  AggregateSeries,
+  computeMetric,
+  getMetricOptions,
+} from '../utils/aggregate';
+
+// Shared empty field list for unknown data sources, so memoized values stay stable
+const NO_FIELDS: FilterField<unknown>[] = [];
+
+/**
+ * Result of the useBoundData hook
+ * @property {AggregatePoint[]} points - One point per group, largest first (none when not grouped)
+ * @property {number} total - The metric computed over all matching rows
+ * @property {AggregateSeries | null} series - Groups split into series, when the binding has a splitBy field
+ * @property {FilterField | undefined} groupField - The group-by field, if it exists
+ * @property {FilterFieldType} valueType - Type of the metric values, for formatting
+ * @property {boolean} pageFiltered - Whether a page filter set by another widget narrows the rows
+ * @property {boolean} loading - Whether the rows are being loaded
+ * @property {Error | null} error - Load error, or an invalid binding
+ * @property {Function} refresh - Reloads the rows
+ */
+export interface BoundData {
+  points: AggregatePoint[];
+  total: number;
+  series: AggregateSeries | null;
+  groupField: FilterField<unknown> | undefined;
+  valueType: FilterFieldType;
+  pageFiltered: boolean;
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Loads and aggregates the inventory data a widget is bound to
+ * Rows are narrowed by the binding's filter query and by the page filter
+ * (when another widget set one on a field these rows have) before grouping.
+ *
+ * @param {DataBinding} binding - What the widget shows
+ * @param {string} widgetId - The widget, so it is not filtered by its own selection
+ * @returns {BoundData} The aggregated points and load state
+ */
+const useBoundData = (binding: DataBinding, widgetId: string): BoundData => {
+  const source = getDataSource(binding.resource);
+  const fields = source?.fields ?? NO_FIELDS;
+  const { data, loading, error, refresh } = useInventory(source?.resource ?? 's3Buckets');
+  const { filter: pageFilter, matches } = usePageFilterFor(fields, widgetId);
+  const { resource, filter, groupBy, metric, splitBy } = binding;
+
+  const { points, total, series, bindingError } = useMemo(() => {
+    if (!source) {
+      return { points: [], total: 0, series: null, bindingError: new Error(`Unknown data source "${resource}"`) };
+    }
+    try {
+      const tree = parseFilterElements(parseFilterQuery(filter, fields));
+      const rows = (data as unknown[]).filter(row => (!tree || evaluateFilter(tree, row, fields)) && matches(row));
+      return {
+        points: groupBy ? aggregateRows(rows, fields, groupBy, metric) : [],
+        total: computeMetric(rows, fields, metric),
+        series: groupBy && splitBy ? aggregateSeries(rows, fields, groupBy, splitBy, metric) : null,
+        bindingError: null,
+      };
+    } catch (aggregateError) {
+      return { points: [], total: 0, series: null, bindingError: aggregateError as Error };
+    }
+  }, [source, fields, data, resource, filter, groupBy, metric, splitBy, matches]);
+
+  return {
+    points,
+    total,
+    series,
+    groupField: fields.find(field => field.field === groupBy),
+    valueType: getMetricOptions(fields).find(option => option.id === metric)?.valueType ?? 'number',
+    pageFiltered: pageFilter !== null,
+    loading,
+    error: bindingError ?? error,
+    refresh,
+  };
+};
+
+export default useBoundData;
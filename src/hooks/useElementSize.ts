@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Tracks the rendered size of an element
+ * Returns a callback ref, so elements that mount later (e.g. after data loads) are measured too.
+ * @returns {Object} A ref to attach to the element and its current width and height in pixels
+ */
+const useElementSize = <E extends HTMLElement>() => {
+  const [element, setElement] = useState<E | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize(current => (current.width === width && current.height === height ? current : { width, height }));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return { ref: setElement, ...size };
+};
+
+export default useElementSize;
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { useCustomPages } from '../context/CustomPagesContext';
+import { PageConfigError, PageConfigIssue, parsePageConfigYaml } from '../utils/pageConfig';
+
+/**
+ * Keeps the YAML text of a page configuration being imported and imports it
+ * Problems found in the configuration are kept as issues, with the path of
+ * the field at fault, until the text changes.
+ *
+ * @returns {Object} The text and its issues, and functions to edit, import and clear the text
+ */
+const usePageConfigImport = () => {
+  const { importPage } = useCustomPages();
+  const [text, setText] = useState('');
+  const [issues, setIssues] = useState<PageConfigIssue[]>([]);
+
+  /**
+   * Replaces the text, clearing the issues found in the previous text
+   * @param {string} value - The new text
+   */
+  const changeText = (value: string) => {
+    setText(value);
+    setIssues([]);
+  };
+
+  /**
+   * Imports the text as a new page
+   * @returns {string | null} The ID of the new page, or null if the configuration has issues
+   */
+  const importText = (): string | null => {
+    try {
+      const pageId = importPage(parsePageConfigYaml(text));
+      changeText('');
+      return pageId;
+    } catch (error) {
+      setIssues(error instanceof PageConfigError
+        ? error.issues
+        : [{ path: '', message: error instanceof Error ? error.message : 'Invalid page configuration' }]);
+      return null;
+    }
+  };
+
+  return { text, issues, changeText, importText, clear: () => changeText('') };
+};
+
+export default usePageConfigImport;
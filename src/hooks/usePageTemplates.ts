@@ -0,0 +1,53 @@
+import { BUILTIN_TEMPLATES } from '../templates/builtinTemplates';
+import { createTemplate, PageTemplate, readTemplates } from '../utils/pageTemplates';
+import { PageContent } from '../utils/pageVersions';
+import { TEMPLATES_KEY } from '../utils/storageKeys';
+import useStoredValue from './useStoredValue';
+
+/**
+ * Saved templates before any are loaded
+ */
+const NO_TEMPLATES: PageTemplate[] = [];
+
+/**
+ * Lists the page templates and keeps the ones saved from pages
+ * Saved templates are kept in the app's storage and read when the hook
+ * mounts, so components showing them should mount when shown (as dialog
+ * contents do). Until they are read, status is 'loading' and only the
+ * built-in templates are listed.
+ *
+ * @returns {Object} The built-in and saved templates, functions to save, delete and replace saved templates, and the load status and error
+ */
+const usePageTemplates = () => {
+  const { value: saved, setValue, status, error } = useStoredValue(TEMPLATES_KEY, NO_TEMPLATES, readTemplates);
+
+  /**
+   * Saves a page as a template
+   * @param {PageContent} page - The page's title, widgets and layout
+   * @param {string} name - The template's name
+   * @param {string} description - The template's description
+   */
+  const saveTemplate = (page: PageContent, name: string, description: string) => {
+    setValue([...saved, createTemplate(page, name, description)]);
+  };
+
+  /**
+   * Deletes a saved template
+   * @param {string} templateId - The template
+   */
+  const deleteTemplate = (templateId: string) => {
+    setValue(saved.filter(template => template.id !== templateId));
+  };
+
+  return {
+    templates: [...BUILTIN_TEMPLATES, ...saved],
+    savedTemplates: saved,
+    saveTemplate,
+    deleteTemplate,
+    replaceSavedTemplates: setValue,
+    status,
+    error,
+  };
+};
+
+export default usePageTemplates;
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  addVersion,
+  getAutomaticVersionName,
+  loadVersions,
+  PageContent,
+  PageVersion,
+  saveVersions,
+  toPageContent,
+} from '../utils/pageVersions';
+
+/**
+ * Keeps the version history of a custom page
+ * Saves an automatic version whenever the page changes significantly (see
+ * getAutomaticVersionName), and versions saved by hand on request. When the
+ * browser's storage is full, the oldest versions are dropped and storageError
+ * says so.
+ *
+ * @param {string} pageId - The page
+ * @param {PageContent} content - The page's current title, widgets and layout
+ * @returns {Object} The versions (oldest first), functions to save and delete versions, and the storage error
+ */
+const usePageVersions = (pageId: string, content: PageContent) => {
+  const [versions, setVersions] = useState<PageVersion[]>(() => loadVersions(pageId));
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Compare by content: the page object changes on every edit, including ones that change nothing
+  const serialized = JSON.stringify(toPageContent(content));
+
+  /**
+   * Stores the history, keeping what fits
+   */
+  const storeVersions = useCallback((next: PageVersion[]) => {
+    const kept = saveVersions(pageId, next);
+    const dropped = next.length - kept.length;
+    setStorageError(dropped > 0
+      ? `The browser's storage is full, so the ${dropped === 1 ? 'oldest version' : `${dropped} oldest versions`} of this page could not be kept`
+      : null);
+    setVersions(kept);
+  }, [pageId]);
+
+  /**
+   * Adds a version of the given content and stores the history
+   */
+  const storeVersion = useCallback((name: string, versionContent: PageContent, automatic: boolean) => {
+    storeVersions(addVersion(loadVersions(pageId), {
+      id: Math.random().toString(36).substr(2, 9),
+      name,
+      createdAt: Date.now(),
+      automatic,
+      content: toPageContent(versionContent),
+    }));
+  }, [pageId, storeVersions]);
+
+  useEffect(() => {
+    const stored = loadVersions(pageId);
+    const current: PageContent = JSON.parse(serialized);
+    const name = getAutomaticVersionName(stored[stored.length - 1], current, Date.now());
+    if (name) {
+      storeVersion(name, current, true);
+    } else {
+      setVersions(stored);
+    }
+  }, [pageId, serialized, storeVersion]);
+
+  /**
+   * Saves the current page as a named version
+   * @param {string} name - The version's name
+   */
+  const saveVersion = (name: string) => {
+    storeVersion(name, JSON.parse(serialized), false);
+  };
+
+  /**
+   * Records that the page was restored to a version, so the restore shows in the history
+   * @param {PageVersion} version - The restored version
+   */
+  const recordRestore = (version: PageVersion) => {
+    storeVersion(`Restored "${version.name}"`, version.content, true);
+  };
+
+  /**
+   * Deletes a version
+   * @param {string} versionId - The version
+   */
+  const deleteVersion = (versionId: string) => {
+    storeVersions(loadVersions(pageId).filter(version => version.id !== versionId));
+  };
+
+  return { versions, saveVersion, recordRestore, deleteVersion, storageError, dismissStorageError: () => setStorageError(null) };
+};
+
+export default usePageVersions;
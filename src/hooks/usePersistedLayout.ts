@@ -1,21 +1,33 @@
-import { useState, useEffect } from 'react';
-import { Layout } from 'react-grid-layout';
+import { LAYOUT_KEY_PREFIX, ResponsiveLayouts, toResponsiveLayouts } from '../utils/responsiveLayout';
+import useStoredValue from './useStoredValue';
 
-const usePersistedLayout = (pageId: string, defaultLayout: Layout[]) => {
-  const [layout, setLayout] = useState<Layout[]>(() => {
-    const savedLayout = localStorage.getItem(`layout-${pageId}`);
-    return savedLayout ? JSON.parse(savedLayout) : defaultLayout;
-  });
+// Shared empty layouts, so the grid's memoized layouts stay stable while loading
+const NO_LAYOUTS: ResponsiveLayouts = {};
 
-  useEffect(() => {
-    localStorage.setItem(`layout-${pageId}`, JSON.stringify(layout));
-  }, [layout, pageId]);
+/**
+ * Persists a page's grid layouts, one per breakpoint, in the app's storage
+ * A single layout saved before breakpoints existed is read as the widest
+ * breakpoint's layout. Widgets missing from the saved layouts are placed by
+ * the grid's default layout. Layouts the grid reports while the saved ones
+ * are loading are its defaults, so they are not saved.
+ *
+ * @param {string} pageId - Page identifier, part of the storage key
+ * @returns {Object} The saved layouts and a handler for layout changes
+ */
+const usePersistedLayout = (pageId: string) => {
+  const { value: layouts, setValue, status } = useStoredValue(
+    `${LAYOUT_KEY_PREFIX}${pageId}`,
+    NO_LAYOUTS,
+    toResponsiveLayouts
+  );
 
-  const onLayoutChange = (newLayout: Layout[]) => {
-    setLayout(newLayout);
+  const onLayoutsChange = (newLayouts: ResponsiveLayouts) => {
+    if (status !== 'loading') {
+      setValue(newLayouts);
+    }
   };
 
-  return { layout, onLayoutChange };
+  return { layouts, onLayoutsChange };
 };
 
 export default usePersistedLayout; 
\ No newline at end of file
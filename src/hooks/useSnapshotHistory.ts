@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import { addSnapshot, loadSnapshots, saveSnapshots, Snapshot, SnapshotValues } from '../utils/snapshots';
+
+/**
+ * Records values in a persisted snapshot history and returns the history
+ * Nothing is recorded while values is null (e.g. while data is loading), so
+ * incomplete data never ends up in the history. If the history cannot be
+ * saved (e.g. storage is full), it is kept in memory while the widget is shown.
+ *
+ * @param {string} key - History identifier
+ * @param {SnapshotValues | null} values - The current values, or null if not known yet
+ * @returns {Snapshot[]} The history including the current values, oldest first
+ */
+const useSnapshotHistory = (key: string, values: SnapshotValues | null): Snapshot[] => {
+  const [history, setHistory] = useState<Snapshot[]>(() => loadSnapshots(key));
+  // The history of the key, while it could not be saved
+  const unsaved = useRef<{ key: string; history: Snapshot[] } | null>(null);
+
+  // Compare by content: callers usually compute a new values object on every render
+  const serialized = values ? JSON.stringify(values) : null;
+
+  useEffect(() => {
+    const stored = unsaved.current?.key === key ? unsaved.current.history : loadSnapshots(key);
+    if (serialized === null) {
+      setHistory(stored);
+      return;
+    }
+    const next = addSnapshot(stored, JSON.parse(serialized), Date.now());
+    unsaved.current = saveSnapshots(key, next) ? null : { key, history: next };
+    setHistory(next);
+  }, [key, serialized]);
+
+  return history;
+};
+
+export default useSnapshotHistory;
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useStorage } from '../context/StorageContext';
+
+/**
+ * Whether a stored value is loaded
+ * - loading: the value is being read; the initial value is shown meanwhile
+ * - ready: the value is read (or was never saved)
+ * - error: the value could not be read; changes are not saved, so the stored
+ *   value is not overwritten with one made from incomplete state
+ */
+export type LoadStatus = 'loading' | 'ready' | 'error';
+
+/**
+ * Keeps a value in the app's storage (see StorageContext)
+ * The value is read when the key changes and saved, debounced, whenever it is
+ * set. A value set before loading finished wins over the loaded one. Values
+ * set in other tabs replace it as they are set; the tab setting a value saves it.
+ *
+ * @param {string | null} key - Storage key, or null to keep the value in memory only
+ * @param {T} initialValue - Value while loading, and when nothing was saved
+ * @param {Function} read - Builds the value from what was saved (e.g. migrating older formats)
+ * @returns {Object} The value, its setter, and the load status and error
+ */
+const useStoredValue = <T>(key: string | null, initialValue: T, read: (saved: unknown) => T) => {
+  const { load, save, publish, subscribe } = useStorage();
+  const [state, setState] = useState<{ value: T; status: LoadStatus; error: Error | null }>({
+    value: initialValue,
+    status: key ? 'loading' : 'ready',
+    error: null,
+  });
+
+  // Read through refs, so callers can pass new literals and functions on every render
+  const defaults = useRef({ initialValue, read });
+  defaults.current = { initialValue, read };
+  const status = useRef<LoadStatus>(state.status);
+  status.current = state.status;
+  const latest = useRef(state.value);
+  latest.current = state.value;
+  const changed = useRef(false);
+
+  useEffect(() => {
+    changed.current = false;
+    if (!key) {
+      setState({ value: defaults.current.initialValue, status: 'ready', error: null });
+      return;
+    }
+    let active = true;
+    setState({ value: defaults.current.initialValue, status: 'loading', error: null });
+    load(key).then(
+      saved => {
+        if (!active) return;
+        setState(current => changed.current
+          ? { ...current, status: 'ready' }
+          : { value: saved === null ? defaults.current.initialValue : defaults.current.read(saved), status: 'ready', error: null });
+      },
+      error => {
+        if (!active) return;
+        setState(current => ({ ...current, status: 'error', error: error instanceof Error ? error : new Error(String(error)) }));
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, [load, key]);
+
+  useEffect(() => {
+    if (!key) return;
+    return subscribe(key, payload => {
+      changed.current = true;
+      const { initialValue, read } = defaults.current;
+      setState({ value: payload === null ? initialValue : read(payload), status: 'ready', error: null });
+    });
+  }, [key, subscribe]);
+
+  const setValue = useCallback((value: T) => {
+    // Setting the same value again (e.g. the grid reporting a layout it was given) changes nothing
+    if (JSON.stringify(value) === JSON.stringify(latest.current)) return;
+    changed.current = true;
+    setState(previous => ({ ...previous, value }));
+    if (key && status.current !== 'error') {
+      save(key, value);
+      publish(key, value);
+    }
+  }, [key, save, publish]);
+
+  return { value: state.value, setValue, status: state.status, error: state.error };
+};
+
+export default useStoredValue;
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+
+/**
+ * Whether a key press goes to a text field, which has its own undo
+ */
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Binds the undo and redo keyboard shortcuts
+ * Ctrl+Z (Cmd+Z on macOS) undoes, Ctrl+Shift+Z and Ctrl+Y redo. Key presses
+ * in text fields are left to the field.
+ *
+ * @param {Function} undo - Undoes the latest edit
+ * @param {Function} redo - Redoes the latest undone edit
+ */
+const useUndoShortcuts = (undo: () => void, redo: () => void) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+};
+
+export default useUndoShortcuts;
@@ -19,11 +19,10 @@
 
 import React from 'react';
 import { Box } from '@mui/material';
-import GridLayout, { Layout } from 'react-grid-layout';
+import { Layout } from 'react-grid-layout';
 import ResizableWidget from '../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../components/Layout/ResponsiveGrid';
 import usePersistedLayout from '../hooks/usePersistedLayout';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
 
 /**
  * AwsInventoryPage Component
@@ -47,7 +46,7 @@ const AwsInventoryPage: React.FC = () => {
     { i: 'widget2', x: 6, y: 0, w: 6, h: 4 },
   ];
 
-  const { layout, onLayoutChange } = usePersistedLayout('aws-inventory-page', defaultLayout);
+  const { layouts, onLayoutsChange } = usePersistedLayout('aws-inventory-page');
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -85,15 +84,10 @@ const AwsInventoryPage: React.FC = () => {
        * Contains the grid layout for widgets with proper padding
        */}
       <Box sx={{ p: 3 }}>
-        <GridLayout
-          className="layout"
-          layout={layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={onLayoutChange}
+        <ResponsiveGrid
+          layouts={layouts}
+          defaultLayout={defaultLayout}
+          onLayoutsChange={onLayoutsChange}
         >
           <div key="widget1">
             <ResizableWidget title="AWS Resource Widget 1">
@@ -105,7 +99,7 @@ const AwsInventoryPage: React.FC = () => {
               <div>AWS Resource Information Widget 2</div>
             </ResizableWidget>
           </div>
-        </GridLayout>
+        </ResponsiveGrid>
       </Box>
     </Box>
   );
@@ -6,7 +6,7 @@
  * 
  * Technical Concepts:
  * 1. React Grid Layout for widget positioning and resizing
- * 2. Dynamic component rendering based on widget types
+ * 2. Widget rendering through the widget type registry
  * 3. Custom context integration for state management
  * 4. TypeScript type definitions and interfaces
  * 5. Material-UI components and styling
@@ -18,7 +18,7 @@
  * 4. Maintain consistent comment formatting and style
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import {
   Box,
@@ -29,6 +29,7 @@ import {
   DialogActions,
   List,
   ListItemButton,
+  ListItemIcon,
   ListItemText,
   TextField,
   FormControlLabel,
@@ -36,71 +37,45 @@ import {
   Typography,
   Snackbar,
   Alert,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Menu,
+  MenuItem,
+  Divider,
 } from '@mui/material';
-import { Add as AddIcon, Share as ShareIcon } from '@mui/icons-material';
-import { parse, stringify } from 'yaml';
-import GridLayout from 'react-grid-layout';
+import {
+  Add as AddIcon,
+  BookmarkAdd as BookmarkAddIcon,
+  Link as LinkIcon,
+  History as HistoryIcon,
+  Palette as PaletteIcon,
+  Redo as RedoIcon,
+  Share as ShareIcon,
+  Undo as UndoIcon,
+} from '@mui/icons-material';
+import { stringify } from 'yaml';
 import ResizableWidget from '../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../components/Layout/ResponsiveGrid';
+import PageHistoryDialog from '../components/PageHistory/PageHistoryDialog';
+import SaveTemplateDialog from '../components/PageTemplates/SaveTemplateDialog';
 import { useCustomPages } from '../context/CustomPagesContext';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
-import PieChartWidget from '../components/Widget/PieChartWidget';
-import S3BucketsTable from '../components/Tables/S3BucketsTable';
-
-/**
- * Widget Type Definition
- * 
- * Defines the available types of widgets that can be added to the dashboard
- * Each type corresponds to a specific widget component
- */
-export type WidgetType = 'text' | 'inventory' | 'pie-chart' | 's3-buckets';
-
-/**
- * Available widget types with their display labels
- * Used in the widget selection dialog
- */
-const WIDGET_TYPES = [
-  { type: 'text' as WidgetType, label: 'Text Widget' },
-  { type: 'inventory' as WidgetType, label: 'Inventory Widget' },
-  { type: 'pie-chart' as WidgetType, label: 'Pie Chart' },
-  { type: 's3-buckets' as WidgetType, label: 'S3 Buckets' }
-] as const;
-
-/**
- * Widget Interface
- * 
- * Defines the structure of a widget object
- * @property {string} id - Unique identifier for the widget
- * @property {string} title - Display title of the widget
- * @property {WidgetType} type - Type of widget (determines rendered content)
- * @property {boolean} [isHeart] - Optional flag for heart-shaped styling
- * @property {number} x - Horizontal position in the grid
- * @property {number} y - Vertical position in the grid
- * @property {number} w - Width in grid units
- * @property {number} h - Height in grid units
- */
-export interface Widget {
-  id: string;
-  title: string;
-  type: WidgetType;
-  isHeart?: boolean;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-}
-
-/**
- * CustomPage Interface
- * 
- * Defines the structure of a custom page object
- */
-interface CustomPage {
-  id: string;
-  title: string;
-  widgets: Widget[];
-  layout: any[];
-}
+import { THEME_LABELS, ThemeMode, useTheme } from '../theme/ThemeContext';
+import { PageFilterProvider } from '../context/PageFilterContext';
+import { Widget, WidgetType } from '../types/dashboard';
+import { ResponsiveLayouts } from '../utils/responsiveLayout';
+import { createShareLink } from '../utils/shareLink';
+import { PAGE_CONFIG_VERSION, toPageConfig } from '../utils/pageConfig';
+import usePageConfigImport from '../hooks/usePageConfigImport';
+import useUndoShortcuts from '../hooks/useUndoShortcuts';
+import PageConfigInput from '../components/PageConfig/PageConfigInput';
+import {
+  getWidgetConfig,
+  getWidgetDefinition,
+  getWidgetDefinitions,
+  hasWidgetSettings,
+} from '../widgets';
+import WidgetSettingsDialog from '../widgets/WidgetSettingsDialog';
 
 /**
  * CustomPage Component
@@ -110,6 +85,9 @@ interface CustomPage {
  * - Drag and resize widgets
  * - Edit page and widget titles
  * - Copy existing widgets
+ * - Undo and redo their edits
+ * - Save, compare and restore versions of the page
+ * - Choose a theme shown only while the page is open
  * 
  * @component
  */
@@ -120,35 +98,66 @@ const CustomPage: React.FC = () => {
   // Access custom pages context for state management
   const { 
     pages, 
+    loadStatus,
     addWidgetToPage, 
     removeWidgetFromPage, 
     updatePageLayout, 
     copyWidget, 
     updatePageTitle,
+    updatePageTheme,
     updateWidgetTitle,
-    addPage,
-    importPage
+    updateWidgetConfig,
+    undo,
+    redo,
+    lastEdit,
+    nextRedo
   } = useCustomPages();
 
   // Local state for managing the UI
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newWidgetTitle, setNewWidgetTitle] = useState('');
-  const [selectedWidgetType, setSelectedWidgetType] = useState<WidgetType>('text');
+  const [selectedWidgetType, setSelectedWidgetType] = useState<WidgetType>(() => getWidgetDefinitions()[0]?.type ?? '');
   const [isHeartShape, setIsHeartShape] = useState(false);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editedTitle, setEditedTitle] = useState('');
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
-  const [importJson, setImportJson] = useState('');
-  const [importError, setImportError] = useState('');
+  const configImport = usePageConfigImport();
+  const [shareError, setShareError] = useState('');
+  const [settingsWidgetId, setSettingsWidgetId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [themeMenuAnchor, setThemeMenuAnchor] = useState<null | HTMLElement>(null);
+  const { setPageTheme } = useTheme();
 
   // Find the current page from the pages array
   const page = pages.find(p => p.id === id);
 
+  // Show the page's own theme while it is open
+  const pageTheme = page?.theme ?? null;
+  useEffect(() => {
+    setPageTheme(pageTheme);
+    return () => setPageTheme(null);
+  }, [pageTheme, setPageTheme]);
+
+  // Bind undo and redo only here, next to the undo and redo buttons, so the shortcuts
+  // never change pages on other routes out of sight
+  useUndoShortcuts(undo, redo);
+
   if (!page) {
+    if (loadStatus === 'loading') {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+          <CircularProgress />
+        </Box>
+      );
+    }
     return <div>Page not found</div>;
   }
 
+  const settingsWidget = page.widgets.find(widget => widget.id === settingsWidgetId);
+
   /**
    * Initiates page title editing
    * Sets up the editing state with current title
@@ -192,37 +201,48 @@ const CustomPage: React.FC = () => {
       addWidgetToPage(page.id, selectedWidgetType, newWidgetTitle, isHeartShape);
       setIsDialogOpen(false);
       setNewWidgetTitle('');
-      setSelectedWidgetType('text');
+      setSelectedWidgetType(getWidgetDefinitions()[0]?.type ?? '');
       setIsHeartShape(false);
     }
   };
 
   /**
-   * Updates the layout when widgets are moved or resized
-   * @param {Layout[]} layout - New layout configuration from react-grid-layout
+   * Updates the layouts when widgets are moved or resized
+   * Only moves and resizes by the user become undo steps.
+   * @param {ResponsiveLayouts} layouts - New layout configuration of each breakpoint
+   * @param {boolean} edited - Whether the user dragged or resized a widget
    */
-  const handleLayoutChange = (layout: any) => {
-    updatePageLayout(page.id, layout);
+  const handleLayoutChange = (layouts: ResponsiveLayouts, edited: boolean) => {
+    updatePageLayout(page.id, layouts, edited);
   };
 
   /**
-   * Renders the appropriate widget content based on widget type
+   * Renders a widget's content with the component registered for its type
    * @param {Widget} widget - The widget object to render
-   * @returns {JSX.Element | null} The rendered widget content
+   * @returns {JSX.Element} The rendered widget content
    */
   const renderWidget = (widget: Widget) => {
-    switch (widget.type) {
-      case 'text':
-        return <div>Text Widget Content</div>;
-      case 'inventory':
-        return <div>Inventory Widget Content</div>;
-      case 'pie-chart':
-        return <PieChartWidget />;
-      case 's3-buckets':
-        return <Box sx={{ width: '100%', height: '100%', p: 2 }}><S3BucketsTable widgetId={widget.id} /></Box>;
-      default:
-        return null;
+    const definition = getWidgetDefinition(widget.type);
+    if (!definition) {
+      return <Alert severity="warning">Unknown widget type "{widget.type}"</Alert>;
     }
+    const WidgetComponent = definition.component;
+    return (
+      <WidgetComponent
+        widget={widget}
+        config={getWidgetConfig(widget)}
+        onConfigChange={(config) => updateWidgetConfig(page.id, widget.id, config)}
+      />
+    );
+  };
+
+  /**
+   * Handles choosing the page's theme from the page theme menu
+   * @param {ThemeMode | null} theme - The page's theme, or null to show the app's theme
+   */
+  const handlePageThemeChange = (theme: ThemeMode | null) => {
+    updatePageTheme(page.id, theme);
+    setThemeMenuAnchor(null);
   };
 
   /**
@@ -234,50 +254,63 @@ const CustomPage: React.FC = () => {
   };
 
   /**
-   * Generates a YAML configuration with comments explaining the structure
+   * Builds the configuration shared as YAML or as a link, in the current format version
+   * Widget settings travel in each widget's config; widget types may add extra fields
    */
-  const generateYamlConfig = () => {
-    // Get all S3 table filters from localStorage
-    const s3Filters: Record<string, any> = {};
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('s3-buckets-filters-')) {
-        const widgetId = key.replace('s3-buckets-filters-', '');
-        s3Filters[widgetId] = JSON.parse(localStorage.getItem(key) || '[]');
-      }
+  const getShareConfig = () => toPageConfig({
+    title: page.title,
+    widgets: page.widgets.map(widget => ({
+      ...widget,
+      ...getWidgetDefinition(widget.type)?.serialize?.(widget),
+    })),
+    layout: page.layout,
+    theme: page.theme
+  });
+
+  /**
+   * Copies a link that opens a preview of the page to the clipboard
+   */
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(createShareLink(getShareConfig(), window.location.origin));
+      setLinkCopied(true);
+    } catch {
+      setShareError('Could not copy the link to the clipboard');
     }
+  };
 
-    const config = {
-      title: page.title,
-      widgets: page.widgets.map(widget => ({
-        ...widget,
-        filters: widget.type === 's3-buckets' ? s3Filters[widget.id] : undefined
-      })),
-      layout: page.layout
-    };
+  /**
+   * Generates a YAML configuration with comments explaining the structure
+   */
+  const generateYamlConfig = () => {
+    const config = getShareConfig();
 
     // Add comments to explain the configuration
     const yamlWithComments = `# Custom Page Configuration
 # This YAML file contains the complete configuration for a custom dashboard page
 # You can use this configuration to recreate the page layout and widgets
 
-# Page title that will be displayed in the header
-title: ${page.title}
+# Version of this configuration format; older versions are upgraded on import
+apiVersion: ${PAGE_CONFIG_VERSION}
 
+# Page title that will be displayed in the header
+${stringify({ title: config.title })}
 # List of widgets on the page
 # Each widget has:
 # - id: Unique identifier (will be regenerated on import)
 # - title: Display title of the widget
-# - type: Type of widget (text, inventory, pie-chart, or s3-buckets)
+# - type: Type of widget (${getWidgetDefinitions().map(definition => definition.type).join(', ')})
 # - isHeart: Optional flag for heart-shaped styling
-# - filters: For S3 bucket widgets, contains the filter configuration
+# - config: Widget settings and state, e.g. the text of a text widget or
+#   the filters of an S3 bucket table
 widgets:
 ${stringify(config.widgets, { indent: 2 })}
 
-# Layout configuration for widget positioning
+# Layout configuration for widget positioning, per screen width breakpoint
+# (lg: 20 columns, md: 12, sm: 6, xs: 2)
 # Each layout item has:
 # - i: Widget ID (matching the widget.id above)
-# - x: Horizontal position (0-19)
+# - x: Horizontal position (in columns)
 # - y: Vertical position (in grid units)
 # - w: Width (in grid units)
 # - h: Height (in grid units)
@@ -289,56 +322,12 @@ ${stringify(config.layout, { indent: 2 })}`;
 
   /**
    * Handles importing a page configuration
-   * Validates and processes the YAML input
+   * Problems found in the configuration are listed in the dialog.
    */
-  const handleImport = (yamlString: string) => {
-    try {
-      const config = parse(yamlString);
-      
-      if (!config.title || !config.widgets || !config.layout) {
-        throw new Error('Invalid configuration format');
-      }
-
-      const newPage: CustomPage = {
-        id: Math.random().toString(36).substr(2, 9),
-        title: config.title,
-        widgets: config.widgets.map((widget: any) => ({
-          id: Math.random().toString(36).substr(2, 9),
-          title: widget.title,
-          type: widget.type,
-          x: widget.x,
-          y: widget.y,
-          w: widget.w,
-          h: widget.h,
-          isHeart: widget.isHeart || false,
-        })),
-        layout: config.layout.map((item: any) => ({
-          ...item,
-          i: config.widgets.find((w: Widget) => w.x === item.x && w.y === item.y)?.id || item.i
-        }))
-      };
-
-      // Restore S3 table filters if they exist in the config
-      config.widgets.forEach((widget: any) => {
-        if (widget.type === 's3-buckets' && widget.filters) {
-          const newWidgetId = newPage.widgets.find(w => 
-            w.title === widget.title && 
-            w.type === widget.type && 
-            w.x === widget.x && 
-            w.y === widget.y
-          )?.id;
-          if (newWidgetId) {
-            localStorage.setItem(`s3-buckets-filters-${newWidgetId}`, JSON.stringify(widget.filters));
-          }
-        }
-      });
-
-      importPage(newPage);
+  const handleImport = () => {
+    // importPage validates the configuration, assigns fresh IDs and restores widget state through the registry
+    if (configImport.importText()) {
       setIsImportDialogOpen(false);
-      setImportJson('');
-      setImportError('');
-    } catch (error) {
-      setImportError('Invalid YAML format');
     }
   };
 
@@ -401,7 +390,46 @@ ${stringify(config.layout, { indent: 2 })}`;
             {page.title}
           </Box>
         )}
-        <Box sx={{ display: 'flex', gap: 1 }}>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          {/* Disabled buttons get no hover events, so the tooltips wrap a span */}
+          <Tooltip title={lastEdit ? `Undo: ${lastEdit.label} (Ctrl+Z)` : 'Nothing to undo'}>
+            <span>
+              <IconButton size="small" aria-label="Undo" onClick={undo} disabled={!lastEdit}>
+                <UndoIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+            <span>
+              <IconButton size="small" aria-label="Redo" onClick={redo} disabled={!nextRedo}>
+                <RedoIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Button
+            variant="contained"
+            startIcon={<HistoryIcon />}
+            onClick={() => setIsHistoryOpen(true)}
+            size="small"
+          >
+            History
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<PaletteIcon />}
+            onClick={(event) => setThemeMenuAnchor(event.currentTarget)}
+            size="small"
+          >
+            {page.theme ? THEME_LABELS[page.theme] : 'Page Theme'}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<BookmarkAddIcon />}
+            onClick={() => setIsSaveTemplateOpen(true)}
+            size="small"
+          >
+            Save as Template
+          </Button>
           <Button
             variant="contained"
             startIcon={<ShareIcon />}
@@ -425,33 +453,63 @@ ${stringify(config.layout, { indent: 2 })}`;
        * Contains the grid layout for widgets with proper padding
        */}
       <Box sx={{ p: 3 }}>
-        <GridLayout
-          className="layout"
-          layout={page.layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={handleLayoutChange}
-        >
-          {page.widgets.map((widget) => (
-            <div key={widget.id}>
-              <ResizableWidget 
-                title={widget.title}
-                showControls={true}
-                onCopy={() => copyWidget(page.id, widget.id)}
-                onDelete={() => removeWidgetFromPage(page.id, widget.id)}
-                onTitleChange={(newTitle) => updateWidgetTitle(page.id, widget.id, newTitle)}
-                isHeart={widget.isHeart}
-              >
-                {renderWidget(widget)}
-              </ResizableWidget>
-            </div>
-          ))}
-        </GridLayout>
+        {/* Widgets on the page share one page filter, reset when switching pages */}
+        <PageFilterProvider key={page.id}>
+          <ResponsiveGrid
+            layouts={page.layout}
+            onLayoutsChange={handleLayoutChange}
+          >
+            {page.widgets.map((widget) => (
+              <div key={widget.id}>
+                <ResizableWidget 
+                  title={widget.title}
+                  showControls={true}
+                  onSettings={hasWidgetSettings(widget.type) ? () => setSettingsWidgetId(widget.id) : undefined}
+                  onCopy={() => copyWidget(page.id, widget.id)}
+                  onDelete={() => removeWidgetFromPage(page.id, widget.id)}
+                  onTitleChange={(newTitle) => updateWidgetTitle(page.id, widget.id, newTitle)}
+                  isHeart={widget.isHeart}
+                >
+                  {renderWidget(widget)}
+                </ResizableWidget>
+              </div>
+            ))}
+          </ResponsiveGrid>
+        </PageFilterProvider>
       </Box>
 
+      {/* Page Theme Menu: the app's theme, or one shown only on this page */}
+      <Menu
+        anchorEl={themeMenuAnchor}
+        open={Boolean(themeMenuAnchor)}
+        onClose={() => setThemeMenuAnchor(null)}
+      >
+        <MenuItem onClick={() => handlePageThemeChange(null)} selected={!page.theme}>
+          Same as the App
+        </MenuItem>
+        <Divider />
+        {(Object.keys(THEME_LABELS) as ThemeMode[]).map(theme => (
+          <MenuItem key={theme} onClick={() => handlePageThemeChange(theme)} selected={page.theme === theme}>
+            {THEME_LABELS[theme]}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      {/* Version History Dialog
+       * Always mounted, so automatic versions are recorded while the page is edited
+       */}
+      <PageHistoryDialog
+        key={page.id}
+        page={page}
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
+
+      {/* Save as Template Dialog */}
+      {isSaveTemplateOpen && (
+        <SaveTemplateDialog page={page} onClose={() => setIsSaveTemplateOpen(false)} />
+      )}
+
       {/* Share Configuration Dialog */}
       <Dialog
         open={isShareDialogOpen}
@@ -462,7 +520,7 @@ ${stringify(config.layout, { indent: 2 })}`;
         <DialogTitle>Share Page Configuration</DialogTitle>
         <DialogContent>
           <Typography variant="body2" sx={{ mb: 2 }}>
-            Copy this configuration to share your page layout:
+            Copy a link that opens a preview of this page, or copy this configuration to share your page layout:
           </Typography>
           <TextField
             multiline
@@ -482,6 +540,9 @@ ${stringify(config.layout, { indent: 2 })}`;
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setIsShareDialogOpen(false)}>Close</Button>
+          <Button variant="contained" startIcon={<LinkIcon />} onClick={handleCopyLink}>
+            Copy Link
+          </Button>
         </DialogActions>
       </Dialog>
 
@@ -497,29 +558,18 @@ ${stringify(config.layout, { indent: 2 })}`;
           <Typography variant="body2" sx={{ mb: 2 }}>
             Paste the page configuration YAML below:
           </Typography>
-          <TextField
-            multiline
-            fullWidth
-            rows={15}
-            value={importJson}
-            onChange={(e) => setImportJson(e.target.value)}
-            placeholder="Paste configuration YAML here..."
-            error={importJson !== '' && !isValidYaml(importJson)}
-            helperText={importJson !== '' && !isValidYaml(importJson) ? 'Invalid YAML format' : ''}
-            sx={{
-              '& .MuiInputBase-input': {
-                fontFamily: 'monospace',
-                fontSize: '0.875rem',
-              }
-            }}
+          <PageConfigInput
+            value={configImport.text}
+            onChange={configImport.changeText}
+            issues={configImport.issues}
           />
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setIsImportDialogOpen(false)}>Cancel</Button>
           <Button 
-            onClick={() => handleImport(importJson)} 
+            onClick={handleImport} 
             variant="contained"
-            disabled={!isValidYaml(importJson)}
+            disabled={!configImport.text.trim()}
           >
             Import
           </Button>
@@ -545,13 +595,16 @@ ${stringify(config.layout, { indent: 2 })}`;
             sx={{ mb: 2 }}
           />
           <List sx={{ border: 1, borderColor: 'divider', borderRadius: 1 }}>
-            {WIDGET_TYPES.map((type) => (
+            {getWidgetDefinitions().map((definition) => (
               <ListItemButton
-                key={type.type}
-                selected={selectedWidgetType === type.type}
-                onClick={() => setSelectedWidgetType(type.type)}
+                key={definition.type}
+                selected={selectedWidgetType === definition.type}
+                onClick={() => setSelectedWidgetType(definition.type)}
               >
-                <ListItemText primary={type.label} />
+                <ListItemIcon>
+                  <definition.icon />
+                </ListItemIcon>
+                <ListItemText primary={definition.displayName} />
               </ListItemButton>
             ))}
           </List>
@@ -575,29 +628,44 @@ ${stringify(config.layout, { indent: 2 })}`;
         </DialogActions>
       </Dialog>
 
+      {/* Widget Settings Dialog */}
+      {settingsWidget && (
+        <WidgetSettingsDialog
+          key={settingsWidget.id}
+          widget={settingsWidget}
+          onClose={() => setSettingsWidgetId(null)}
+          onSave={(config) => {
+            updateWidgetConfig(page.id, settingsWidget.id, config);
+            setSettingsWidgetId(null);
+          }}
+        />
+      )}
+
+      {/* Link Copied Snackbar */}
+      <Snackbar
+        open={linkCopied}
+        autoHideDuration={4000}
+        onClose={() => setLinkCopied(false)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert onClose={() => setLinkCopied(false)} severity="success" sx={{ width: '100%' }}>
+          Link copied. Anyone opening it sees a preview and can add the page to their own pages.
+        </Alert>
+      </Snackbar>
+
       {/* Error Snackbar */}
       <Snackbar
-        open={!!importError}
+        open={!!shareError}
         autoHideDuration={6000}
-        onClose={() => setImportError('')}
+        onClose={() => setShareError('')}
         anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
       >
-        <Alert onClose={() => setImportError('')} severity="error" sx={{ width: '100%' }}>
-          {importError}
+        <Alert onClose={() => setShareError('')} severity="error" sx={{ width: '100%' }}>
+          {shareError}
         </Alert>
       </Snackbar>
     </Box>
   );
 };
 
-// Helper function to validate YAML
-const isValidYaml = (str: string): boolean => {
-  try {
-    parse(str);
-    return true;
-  } catch (e) {
-    return false;
-  }
-};
-
-export default CustomPage; 
\ No newline at end of file
+export default CustomPage;
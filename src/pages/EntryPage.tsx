@@ -19,11 +19,10 @@
 
 import React from 'react';
 import { Box } from '@mui/material';
-import GridLayout, { Layout } from 'react-grid-layout';
+import { Layout } from 'react-grid-layout';
 import ResizableWidget from '../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../components/Layout/ResponsiveGrid';
 import usePersistedLayout from '../hooks/usePersistedLayout';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
 
 /**
  * EntryPage Component
@@ -48,7 +47,7 @@ const EntryPage: React.FC = () => {
   ];
 
   // Use custom hook to persist layout changes across sessions
-  const { layout, onLayoutChange } = usePersistedLayout('entry-page', defaultLayout);
+  const { layouts, onLayoutsChange } = usePersistedLayout('entry-page');
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -87,15 +86,10 @@ const EntryPage: React.FC = () => {
        */}
       <Box sx={{ p: 3 }}>
         {/* Grid Layout Container */}
-        <GridLayout
-          className="layout"
-          layout={layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={onLayoutChange}
+        <ResponsiveGrid
+          layouts={layouts}
+          defaultLayout={defaultLayout}
+          onLayoutsChange={onLayoutsChange}
         >
           {/* Entry Point Widget 1 */}
           <div key="widget1">
@@ -109,7 +103,7 @@ const EntryPage: React.FC = () => {
               <div>Widget 2 Content</div>
             </ResizableWidget>
           </div>
-        </GridLayout>
+        </ResponsiveGrid>
       </Box>
     </Box>
   );
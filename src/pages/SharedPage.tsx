@@ -0,0 +1,139 @@
+/**
+ * Shared Page Preview Component
+ *
+ * Opens a custom page shared as a link (see utils/shareLink): the page
+ * configuration is decoded from the URL fragment, read like an imported
+ * configuration (utils/pageConfig) and shown read-only, with the option to
+ * add it to the user's own pages.
+ *
+ * Technical Concepts:
+ * 1. URL fragment decoding with useLocation
+ * 2. Widget rendering through the widget type registry, without editing
+ * 3. Read-only React Grid Layout (ResponsiveGrid)
+ */
+
+import React, { useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Alert, Box, Button, Chip, Typography } from '@mui/material';
+import { LibraryAdd as LibraryAddIcon } from '@mui/icons-material';
+import ResizableWidget from '../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../components/Layout/ResponsiveGrid';
+import { useCustomPages } from '../context/CustomPagesContext';
+import { PageFilterProvider } from '../context/PageFilterContext';
+import { Widget } from '../types/dashboard';
+import { PageContent } from '../utils/pageVersions';
+import { PageConfigError, PageConfigIssue, readPageConfig } from '../utils/pageConfig';
+import { decodeSharedPage } from '../utils/shareLink';
+import { getWidgetConfig, getWidgetDefinition } from '../widgets';
+
+/**
+ * SharedPage Component
+ *
+ * @component
+ */
+const SharedPage: React.FC = () => {
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const { importPage, loadStatus } = useCustomPages();
+
+  const shared = useMemo((): { content: PageContent } | { issues: PageConfigIssue[] } => {
+    try {
+      return { content: readPageConfig(decodeSharedPage(hash), getWidgetDefinition) };
+    } catch (error) {
+      return error instanceof PageConfigError
+        ? { issues: error.issues }
+        : { issues: [{ path: '', message: error instanceof Error ? error.message : 'Invalid link' }] };
+    }
+  }, [hash]);
+
+  if ('issues' in shared) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert severity="error">
+          This shared page cannot be opened. Ask for the link again, or for the page's YAML configuration.
+          <Box component="ul" sx={{ mb: 0, pl: 2 }}>
+            {shared.issues.map((issue, index) => (
+              <li key={index}>{issue.path ? `${issue.path}: ` : ''}{issue.message}</li>
+            ))}
+          </Box>
+        </Alert>
+      </Box>
+    );
+  }
+
+  const { content } = shared;
+
+  /**
+   * Adds the shared page to the user's pages and opens it
+   */
+  const handleAdd = () => {
+    navigate(`/custom/${importPage(content)}`);
+  };
+
+  /**
+   * Renders a widget's content with the component registered for its type
+   * Config changes are ignored: the preview is read-only.
+   * @param {Widget} widget - The widget object to render
+   * @returns {JSX.Element} The rendered widget content
+   */
+  const renderWidget = (widget: Widget) => {
+    const definition = getWidgetDefinition(widget.type);
+    if (!definition) {
+      return <Alert severity="warning">Unknown widget type "{widget.type}"</Alert>;
+    }
+    const WidgetComponent = definition.component;
+    return <WidgetComponent widget={widget} config={getWidgetConfig(widget)} onConfigChange={() => {}} />;
+  };
+
+  return (
+    <Box sx={{ flexGrow: 1 }}>
+      <Box sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        px: 3,
+        py: 1.5,
+        backgroundColor: 'action.hover',
+        borderBottom: 1,
+        borderColor: 'divider',
+        height: '64px',
+        position: 'sticky',
+        top: 0,
+        zIndex: 1
+      }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="h6" component="h2">{content.title}</Typography>
+          <Chip size="small" label="Preview" />
+        </Box>
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={<LibraryAddIcon />}
+          onClick={handleAdd}
+          disabled={loadStatus !== 'ready'}
+        >
+          Add to my pages
+        </Button>
+      </Box>
+
+      <Box sx={{ p: 3 }}>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          This page was shared with you. Changes to the preview are not kept; add the page to your pages to edit it.
+        </Alert>
+        <PageFilterProvider>
+          <ResponsiveGrid layouts={content.layout} readOnly>
+            {content.widgets.map(widget => (
+              <div key={widget.id}>
+                <ResizableWidget title={widget.title} showControls={false} isHeart={widget.isHeart}>
+                  {renderWidget(widget)}
+                </ResizableWidget>
+              </div>
+            ))}
+          </ResponsiveGrid>
+        </PageFilterProvider>
+      </Box>
+    </Box>
+  );
+};
+
+export default SharedPage;
@@ -19,11 +19,11 @@
 
 import React from 'react';
 import { Box } from '@mui/material';
-import GridLayout, { Layout } from 'react-grid-layout';
+import { Layout } from 'react-grid-layout';
 import ResizableWidget from '../../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../../components/Layout/ResponsiveGrid';
 import usePersistedLayout from '../../hooks/usePersistedLayout';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
+import EC2InstancesTable from '../../components/Tables/EC2InstancesTable';
 
 /**
  * EC2Page Component
@@ -35,7 +35,6 @@ import 'react-resizable/css/styles.css';
  * - Sticky header bar with consistent styling
  * - Draggable and resizable widgets
  * - Persistent layout across sessions
- * - Real-time EC2 instance monitoring
  * - Instance inventory display
  * 
  * @component
@@ -47,7 +46,7 @@ const EC2Page: React.FC = () => {
   ];
 
   // Use custom hook to persist layout changes
-  const { layout, onLayoutChange } = usePersistedLayout('ec2-page', defaultLayout);
+  const { layouts, onLayoutsChange } = usePersistedLayout('ec2-page');
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -86,23 +85,20 @@ const EC2Page: React.FC = () => {
        */}
       <Box sx={{ p: 3 }}>
         {/* Grid Layout Container */}
-        <GridLayout
-          className="layout"
-          layout={layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={onLayoutChange}
+        <ResponsiveGrid
+          layouts={layouts}
+          defaultLayout={defaultLayout}
+          onLayoutsChange={onLayoutsChange}
         >
           {/* EC2 Instances Inventory Widget */}
           <div key="inventory">
             <ResizableWidget title="EC2 Instances Inventory">
-              <div>EC2 Instances Inventory Content</div>
+              <Box sx={{ width: '100%', height: '100%', p: 2 }}>
+                <EC2InstancesTable widgetId="ec2-page-default" />
+              </Box>
             </ResizableWidget>
           </div>
-        </GridLayout>
+        </ResponsiveGrid>
       </Box>
     </Box>
   );
@@ -19,11 +19,11 @@
 
 import React from 'react';
 import { Box } from '@mui/material';
-import GridLayout, { Layout } from 'react-grid-layout';
+import { Layout } from 'react-grid-layout';
 import ResizableWidget from '../../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../../components/Layout/ResponsiveGrid';
 import usePersistedLayout from '../../hooks/usePersistedLayout';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
+import ECSInventory from '../../components/Tables/ECSInventory';
 
 /**
  * ECSPage Component
@@ -35,8 +35,8 @@ import 'react-resizable/css/styles.css';
  * - Sticky header bar with consistent styling
  * - Draggable and resizable widgets
  * - Persistent layout across sessions
- * - Real-time ECS service monitoring
- * - Service inventory display
+ * - Cluster → service → task inventory drill-down
+ * - Services under their desired count highlighted
  * 
  * @component
  */
@@ -47,7 +47,7 @@ const ECSPage: React.FC = () => {
   ];
 
   // Use custom hook to persist layout changes across sessions
-  const { layout, onLayoutChange } = usePersistedLayout('ecs-page', defaultLayout);
+  const { layouts, onLayoutsChange } = usePersistedLayout('ecs-page');
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -86,23 +86,20 @@ const ECSPage: React.FC = () => {
        */}
       <Box sx={{ p: 3 }}>
         {/* Grid Layout Container */}
-        <GridLayout
-          className="layout"
-          layout={layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={onLayoutChange}
+        <ResponsiveGrid
+          layouts={layouts}
+          defaultLayout={defaultLayout}
+          onLayoutsChange={onLayoutsChange}
         >
           {/* ECS Resource Inventory Widget */}
           <div key="inventory">
             <ResizableWidget title="ECS Inventory">
-              <div>ECS Inventory Content</div>
+              <Box sx={{ width: '100%', height: '100%', p: 2 }}>
+                <ECSInventory widgetId="ecs-page-default" />
+              </Box>
             </ResizableWidget>
           </div>
-        </GridLayout>
+        </ResponsiveGrid>
       </Box>
     </Box>
   );
@@ -14,11 +14,11 @@
 
 import React from 'react';
 import { Box } from '@mui/material';
-import GridLayout, { Layout } from 'react-grid-layout';
+import { Layout } from 'react-grid-layout';
 import ResizableWidget from '../../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../../components/Layout/ResponsiveGrid';
 import usePersistedLayout from '../../hooks/usePersistedLayout';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
+import RDSClustersTable from '../../components/Tables/RDSClustersTable';
 
 /**
  * RDSPage Component
@@ -29,9 +29,7 @@ import 'react-resizable/css/styles.css';
  * Features:
  * - Draggable and resizable widgets
  * - Persistent layout across sessions
- * - Real-time RDS resource monitoring
- * - Database instance metrics
- * - Cluster performance insights
+ * - RDS cluster inventory with compliance flags
  * 
  * @component
  */
@@ -42,7 +40,7 @@ const RDSPage: React.FC = () => {
   ];
 
   // Use custom hook to persist layout changes across sessions
-  const { layout, onLayoutChange } = usePersistedLayout('rds-page', defaultLayout);
+  const { layouts, onLayoutsChange } = usePersistedLayout('rds-page');
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -81,23 +79,20 @@ const RDSPage: React.FC = () => {
        */}
       <Box sx={{ p: 3 }}>
         {/* Grid Layout Container */}
-        <GridLayout
-          className="layout"
-          layout={layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={onLayoutChange}
+        <ResponsiveGrid
+          layouts={layouts}
+          defaultLayout={defaultLayout}
+          onLayoutsChange={onLayoutsChange}
         >
           {/* RDS Clusters Inventory Widget */}
           <div key="inventory">
             <ResizableWidget title="RDS Clusters Inventory">
-              <div>RDS Clusters Inventory Content</div>
+              <Box sx={{ width: '100%', height: '100%', p: 2 }}>
+                <RDSClustersTable widgetId="rds-page-default" />
+              </Box>
             </ResizableWidget>
           </div>
-        </GridLayout>
+        </ResponsiveGrid>
       </Box>
     </Box>
   );
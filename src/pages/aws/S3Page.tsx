@@ -19,12 +19,11 @@
 
 import React from 'react';
 import { Box } from '@mui/material';
-import GridLayout, { Layout } from 'react-grid-layout';
+import { Layout } from 'react-grid-layout';
 import ResizableWidget from '../../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../../components/Layout/ResponsiveGrid';
 import usePersistedLayout from '../../hooks/usePersistedLayout';
 import S3BucketsTable from '../../components/Tables/S3BucketsTable';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
 
 /**
  * S3Page Component
@@ -48,7 +47,7 @@ const S3Page: React.FC = () => {
   ];
 
   // Use custom hook to persist layout changes
-  const { layout, onLayoutChange } = usePersistedLayout('s3-page', defaultLayout);
+  const { layouts, onLayoutsChange } = usePersistedLayout('s3-page');
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -87,15 +86,10 @@ const S3Page: React.FC = () => {
        */}
       <Box sx={{ p: 3 }}>
         {/* Grid Layout Container */}
-        <GridLayout
-          className="layout"
-          layout={layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={onLayoutChange}
+        <ResponsiveGrid
+          layouts={layouts}
+          defaultLayout={defaultLayout}
+          onLayoutsChange={onLayoutsChange}
         >
           {/* S3 Buckets Inventory Widget */}
           <div key="inventory">
@@ -105,7 +99,7 @@ const S3Page: React.FC = () => {
               </Box>
             </ResizableWidget>
           </div>
-        </GridLayout>
+        </ResponsiveGrid>
       </Box>
     </Box>
   );
@@ -10,15 +10,17 @@
  * 2. Custom hooks for layout persistence
  * 3. Reusable widget components
  * 4. AWS VPC network monitoring
+ * 5. CIDR overlap analysis across accounts
  */
 
 import React from 'react';
 import { Box } from '@mui/material';
-import GridLayout, { Layout } from 'react-grid-layout';
+import { Layout } from 'react-grid-layout';
 import ResizableWidget from '../../components/Widget/ResizableWidget';
+import ResponsiveGrid from '../../components/Layout/ResponsiveGrid';
 import usePersistedLayout from '../../hooks/usePersistedLayout';
-import 'react-grid-layout/css/styles.css';
-import 'react-resizable/css/styles.css';
+import VPCTable from '../../components/Tables/VPCTable';
+import CidrOverlapsTable from '../../components/Tables/CidrOverlapsTable';
 
 /**
  * VPCPage Component
@@ -29,20 +31,20 @@ import 'react-resizable/css/styles.css';
  * Features:
  * - Draggable and resizable widgets
  * - Persistent layout across sessions
- * - Real-time VPC resource monitoring
- * - Network configuration insights
- * - Subnet and routing visualization
+ * - VPC inventory with subnets, route tables, gateways and peering
+ * - Overlapping CIDR blocks across all accounts
  * 
  * @component
  */
 const VPCPage: React.FC = () => {
-  // Default grid layout configuration for VPC inventory widget
+  // Default grid layout configuration for the VPC inventory and CIDR overlap widgets
   const defaultLayout: Layout[] = [
     { i: 'inventory', x: 0, y: 0, w: 12, h: 8 },
+    { i: 'overlaps', x: 12, y: 0, w: 8, h: 8 },
   ];
 
   // Use custom hook to persist layout changes across sessions
-  const { layout, onLayoutChange } = usePersistedLayout('vpc-page', defaultLayout);
+  const { layouts, onLayoutsChange } = usePersistedLayout('vpc-page');
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -81,23 +83,29 @@ const VPCPage: React.FC = () => {
        */}
       <Box sx={{ p: 3 }}>
         {/* Grid Layout Container */}
-        <GridLayout
-          className="layout"
-          layout={layout}
-          cols={20}
-          rowHeight={100}
-          width={2000}
-          isDraggable={true}
-          isResizable={true}
-          onLayoutChange={onLayoutChange}
+        <ResponsiveGrid
+          layouts={layouts}
+          defaultLayout={defaultLayout}
+          onLayoutsChange={onLayoutsChange}
         >
           {/* VPC Resource Inventory Widget */}
           <div key="inventory">
             <ResizableWidget title="VPC Inventory">
-              <div>VPC Inventory Content</div>
+              <Box sx={{ width: '100%', height: '100%', p: 2 }}>
+                <VPCTable widgetId="vpc-page-default" />
+              </Box>
             </ResizableWidget>
           </div>
-        </GridLayout>
+
+          {/* CIDR Overlap Analysis Widget */}
+          <div key="overlaps">
+            <ResizableWidget title="CIDR Overlaps">
+              <Box sx={{ width: '100%', height: '100%', p: 2, overflow: 'auto' }}>
+                <CidrOverlapsTable />
+              </Box>
+            </ResizableWidget>
+          </div>
+        </ResponsiveGrid>
       </Box>
     </Box>
   );
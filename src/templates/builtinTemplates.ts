@@ -0,0 +1,137 @@
+/**
+ * Built-in Page Templates
+ *
+ * The templates offered in the "Add New Page" dialog besides a blank page.
+ * Widget ids only need to be unique within a template: pages created from
+ * a template get fresh ids. Layouts are given for the widest breakpoint; the
+ * grid derives the narrower ones.
+ */
+
+import { Widget, WidgetConfig } from '../types/dashboard';
+import { describeCondition, FilterCondition } from '../utils/filterExpression';
+import { PageTemplate } from '../utils/pageTemplates';
+
+/**
+ * A template widget placed on the grid
+ */
+const place = (
+  id: string,
+  type: string,
+  title: string,
+  config: WidgetConfig,
+  [x, y, w, h]: [number, number, number, number]
+): Widget => ({ id, type, title, config, x, y, w, h });
+
+/**
+ * A built-in template from its widgets, with the layout taken from the widgets' positions
+ */
+const template = (id: string, name: string, description: string, widgets: Widget[]): PageTemplate => ({
+  id,
+  name,
+  description,
+  builtin: true,
+  content: {
+    title: name,
+    widgets,
+    layout: { lg: widgets.map(({ id: i, x, y, w, h }) => ({ i, x, y, w, h })) },
+  },
+});
+
+/**
+ * Buckets whose lifecycle rules are missing or disabled, as filter query and as table filter
+ */
+const NO_LIFECYCLE_FILTER = 'lifecycleStatus != Enabled';
+const NO_LIFECYCLE_CONDITION: FilterCondition = { field: 'lifecycleStatus', operator: 'notEquals', value: 'Enabled' };
+
+/**
+ * Built-in templates, in the order the gallery lists them
+ */
+export const BUILTIN_TEMPLATES: PageTemplate[] = [
+  template('storage-overview', 'Storage overview', 'Total S3 storage and growth, storage per region and the largest buckets.', [
+    place('total', 'kpi', 'Total Storage', {
+      resource: 's3Buckets', groupBy: '', metric: 'sum:size', filter: '',
+      unit: 'auto', suffix: '', warning: '', critical: '', direction: 'above',
+    }, [0, 0, 5, 3]),
+    place('count', 'kpi', 'Buckets', {
+      resource: 's3Buckets', groupBy: '', metric: 'count', filter: '',
+      unit: 'number', suffix: 'buckets', warning: '', critical: '', direction: 'above',
+    }, [5, 0, 5, 3]),
+    place('growth', 'kpi', 'Weekly Growth', {
+      resource: 's3Buckets', groupBy: '', metric: 'sum:weeklyGrowth', filter: '',
+      unit: 'bytes', suffix: '', warning: '', critical: '', direction: 'above',
+    }, [10, 0, 5, 3]),
+    place('standard', 'kpi', 'Standard Storage Class', {
+      resource: 's3Buckets', groupBy: '', metric: 'sum:size', filter: 'storageClass = STANDARD',
+      unit: 'auto', suffix: '', warning: '', critical: '', direction: 'above',
+    }, [15, 0, 5, 3]),
+    place('regions', 'pie-chart', 'Storage by Region', {
+      resource: 's3Buckets', groupBy: 'region', metric: 'sum:size', filter: '',
+    }, [0, 3, 8, 5]),
+    place('largest', 'treemap', 'Largest Buckets', {
+      resource: 's3Buckets', groupBy: 'name', metric: 'sum:size', filter: '',
+    }, [8, 3, 12, 5]),
+    place('buckets', 's3-buckets', 'Buckets', { filters: [] }, [0, 8, 20, 6]),
+  ]),
+  template('account-cost-review', 'Account cost review', 'Compares accounts by what drives their cost: storage, running instances and databases.', [
+    place('storage', 'kpi', 'Total Storage', {
+      resource: 's3Buckets', groupBy: '', metric: 'sum:size', filter: '',
+      unit: 'auto', suffix: '', warning: '', critical: '', direction: 'above',
+    }, [0, 0, 5, 3]),
+    place('instances', 'kpi', 'Running Instances', {
+      resource: 'ec2Instances', groupBy: '', metric: 'count', filter: 'state = running',
+      unit: 'number', suffix: 'instances', warning: '', critical: '', direction: 'above',
+    }, [5, 0, 5, 3]),
+    place('databases', 'kpi', 'RDS Clusters', {
+      resource: 'rdsClusters', groupBy: '', metric: 'count', filter: '',
+      unit: 'number', suffix: 'clusters', warning: '', critical: '', direction: 'above',
+    }, [10, 0, 5, 3]),
+    place('growth', 'kpi', 'Weekly Storage Growth', {
+      resource: 's3Buckets', groupBy: '', metric: 'sum:weeklyGrowth', filter: '',
+      unit: 'bytes', suffix: '', warning: '', critical: '', direction: 'above',
+    }, [15, 0, 5, 3]),
+    place('storage-by-account', 'bar-chart', 'Storage by Account', {
+      resource: 's3Buckets', groupBy: 'account', metric: 'sum:size', filter: '', splitBy: 'storageClass',
+    }, [0, 3, 10, 5]),
+    place('instances-by-account', 'horizontal-bar-chart', 'Instances by Account', {
+      resource: 'ec2Instances', groupBy: 'account', metric: 'count', filter: 'state = running', splitBy: 'instanceType',
+    }, [10, 3, 10, 5]),
+    place('databases-by-account', 'bar-chart', 'RDS Clusters by Account', {
+      resource: 'rdsClusters', groupBy: 'account', metric: 'count', filter: '', splitBy: 'engine',
+    }, [0, 8, 10, 5]),
+    place('checklist', 'text', 'Review Checklist', {
+      text: [
+        '## Review checklist',
+        '',
+        '- Which account grew the most this week?',
+        '- Are large buckets still in the STANDARD storage class?',
+        '- Are there stopped or oversized instances that can go?',
+        '- Do all database clusters still have an owner?',
+      ].join('\n'),
+    }, [10, 8, 10, 5]),
+  ]),
+  template('lifecycle-compliance', 'Lifecycle compliance', 'Finds S3 buckets without an enabled lifecycle rule, per account, with the buckets to fix.', [
+    place('noncompliant', 'kpi', 'Buckets Without Lifecycle Rules', {
+      resource: 's3Buckets', groupBy: '', metric: 'count', filter: NO_LIFECYCLE_FILTER,
+      unit: 'number', suffix: 'buckets', warning: '1', critical: '10', direction: 'above',
+    }, [0, 0, 6, 3]),
+    place('unmanaged-storage', 'kpi', 'Storage Without Lifecycle Rules', {
+      resource: 's3Buckets', groupBy: '', metric: 'sum:size', filter: NO_LIFECYCLE_FILTER,
+      unit: 'auto', suffix: '', warning: '', critical: '', direction: 'above',
+    }, [6, 0, 6, 3]),
+    place('policy', 'text', 'Lifecycle Policy', {
+      text: 'Every bucket needs an **enabled** lifecycle rule that moves or expires old objects. '
+        + 'Buckets listed below have none, or have their rule disabled.',
+    }, [12, 0, 8, 3]),
+    place('status', 'pie-chart', 'Lifecycle Status', {
+      resource: 's3Buckets', groupBy: 'lifecycleStatus', metric: 'count', filter: '',
+    }, [0, 3, 8, 5]),
+    place('by-account', 'bar-chart', 'Lifecycle Status by Account', {
+      resource: 's3Buckets', groupBy: 'account', metric: 'count', filter: '', splitBy: 'lifecycleStatus',
+    }, [8, 3, 12, 5]),
+    place('buckets', 's3-buckets', 'Buckets to Fix', {
+      filters: [
+        { id: 'lifecycle', type: 'filter', value: describeCondition(NO_LIFECYCLE_CONDITION), filter: NO_LIFECYCLE_CONDITION },
+      ],
+    }, [0, 8, 20, 6]),
+  ]),
+];
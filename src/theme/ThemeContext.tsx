@@ -10,10 +10,18 @@
  * 3. Dynamic Theme Switching
  * 4. Component-Level Style Overrides
  * 5. Custom Typography and Color Palettes
+ * 6. Persisted theme choice, an Auto mode following the OS light/dark setting, and per-page themes
  */
 
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { ThemeProvider as MuiThemeProvider, createTheme, ThemeOptions } from '@mui/material';
+import {
+  ColorScheme,
+  readThemePreference,
+  resolveTheme,
+  THEME_PREFERENCE_KEY,
+  ThemePreference,
+} from '../utils/themePreference';
 
 /**
  * Available theme modes in the application
@@ -785,22 +793,91 @@ const themes = {
   }),
 };
 
+/**
+ * Whether a value names one of the themes, e.g. a theme read from a backup
+ * @param {unknown} value - The value
+ * @returns {boolean} True for a known theme name
+ */
+export const isThemeMode = (value: unknown): value is ThemeMode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(themes, value);
+
+/**
+ * Display names of the themes, in menu order
+ */
+export const THEME_LABELS: Record<ThemeMode, string> = {
+  broadridge: 'Broadridge',
+  dark: 'Dark',
+  ocean: 'Ocean',
+  forest: 'Forest',
+  nyc: 'New York City',
+  hibeanie: 'Hi Beanie',
+  india: 'India',
+};
+
+/**
+ * Whether each theme is light or dark, for picking the themes Auto mode switches between
+ */
+export const THEME_SCHEMES = Object.fromEntries(
+  Object.entries(themes).map(([name, theme]) => [name, theme.palette.mode])
+) as Record<ThemeMode, ColorScheme>;
+
+/**
+ * The theme preference before one is chosen
+ */
+const DEFAULT_PREFERENCE: ThemePreference<ThemeMode> = { mode: 'broadridge', light: 'broadridge', dark: 'dark' };
+
+/**
+ * Media query matching while the operating system is set to dark
+ */
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Reads the saved theme preference from localStorage
+ * @returns {ThemePreference} The preference, or the default one
+ */
+const loadPreference = (): ThemePreference<ThemeMode> => {
+  try {
+    const saved = localStorage.getItem(THEME_PREFERENCE_KEY);
+    return readThemePreference(saved ? JSON.parse(saved) : null, THEME_SCHEMES, DEFAULT_PREFERENCE);
+  } catch {
+    return DEFAULT_PREFERENCE;
+  }
+};
+
+/**
+ * Whether the operating system is set to dark, where the browser tells
+ */
+const queryPrefersDark = () =>
+  typeof window.matchMedia === 'function' && window.matchMedia(DARK_SCHEME_QUERY).matches;
+
 /**
  * Theme Context Type Definition
  * 
  * Defines the shape of the context value object
- * @property {ThemeMode} currentTheme - Currently active theme
- * @property {Function} setTheme - Function to change the active theme
+ * @property {ThemeMode} currentTheme - Theme shown now, including the open page's own theme
+ * @property {ThemeMode} appTheme - Theme of the app, following the OS setting in Auto mode
+ * @property {ThemePreference} preference - The chosen theme, or Auto and its light and dark themes
+ * @property {Function} setTheme - Chooses a theme, or 'auto' to follow the OS setting
+ * @property {Function} setAutoTheme - Chooses the theme Auto mode shows for a light or dark OS setting
+ * @property {Function} setPageTheme - Shows a page's own theme instead of the app's while the page is open; null to stop
  */
 interface ThemeContextType {
   currentTheme: ThemeMode;
-  setTheme: (theme: ThemeMode) => void;
+  appTheme: ThemeMode;
+  preference: ThemePreference<ThemeMode>;
+  setTheme: (theme: ThemeMode | 'auto') => void;
+  setAutoTheme: (scheme: ColorScheme, theme: ThemeMode) => void;
+  setPageTheme: (theme: ThemeMode | null) => void;
 }
 
 // Create the theme context with default values
 const ThemeContext = createContext<ThemeContextType>({
   currentTheme: 'broadridge',
+  appTheme: 'broadridge',
+  preference: DEFAULT_PREFERENCE,
   setTheme: () => {},
+  setAutoTheme: () => {},
+  setPageTheme: () => {},
 });
 
 /**
@@ -815,30 +892,79 @@ export const useTheme = () => useContext(ThemeContext);
  * Theme Provider Component
  * 
  * Wraps the application with both the custom theme context and Material-UI's ThemeProvider
- * Manages theme state and provides theme switching functionality
+ * Manages theme state and provides theme switching functionality. The chosen
+ * theme is kept in localStorage and follows changes made in other tabs.
  * 
  * @component
  * @param {Object} props - Component props
  * @param {React.ReactNode} props.children - Child components
  */
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [currentTheme, setCurrentTheme] = useState<ThemeMode>('broadridge');
+  const [preference, setPreference] = useState(loadPreference);
+  const [prefersDark, setPrefersDark] = useState(queryPrefersDark);
+  const [pageTheme, setPageTheme] = useState<ThemeMode | null>(null);
+  const appTheme = resolveTheme(preference, prefersDark);
+  const currentTheme = resolveTheme(preference, prefersDark, pageTheme);
+
+  /**
+   * Updates and saves the theme preference
+   * @param {Function} update - Returns the new preference for the current one
+   */
+  const updatePreference = useCallback((update: (current: ThemePreference<ThemeMode>) => ThemePreference<ThemeMode>) => {
+    setPreference(current => {
+      const next = update(current);
+      try {
+        localStorage.setItem(THEME_PREFERENCE_KEY, JSON.stringify(next));
+      } catch {
+        // Without localStorage the choice lasts until the page is reloaded
+      }
+      return next;
+    });
+  }, []);
 
   /**
    * Updates the current theme
-   * @param {ThemeMode} theme - The new theme to apply
+   * @param {ThemeMode | 'auto'} theme - The new theme to apply, or 'auto'
    */
-  const setTheme = (theme: ThemeMode) => {
-    setCurrentTheme(theme);
-    document.documentElement.setAttribute('data-theme', theme);
-  };
+  const setTheme = useCallback((theme: ThemeMode | 'auto') => {
+    updatePreference(current => ({ ...current, mode: theme }));
+  }, [updatePreference]);
 
-  React.useEffect(() => {
-    document.documentElement.setAttribute('data-theme', currentTheme);
+  /**
+   * Updates the theme Auto mode shows for one OS setting
+   * @param {ColorScheme} scheme - The OS setting
+   * @param {ThemeMode} theme - The theme to show
+   */
+  const setAutoTheme = useCallback((scheme: ColorScheme, theme: ThemeMode) => {
+    updatePreference(current => ({ ...current, [scheme]: theme }));
+  }, [updatePreference]);
+
+  // Switch live when the OS setting changes
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(DARK_SCHEME_QUERY);
+    const handleChange = (event: MediaQueryListEvent) => setPrefersDark(event.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
   }, []);
 
+  // Take the theme chosen in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === THEME_PREFERENCE_KEY) {
+        setPreference(loadPreference());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.setAttribute('data-theme', currentTheme);
+  }, [currentTheme]);
+
   return (
-    <ThemeContext.Provider value={{ currentTheme, setTheme }}>
+    <ThemeContext.Provider value={{ currentTheme, appTheme, preference, setTheme, setAutoTheme, setPageTheme }}>
       <MuiThemeProvider theme={themes[currentTheme]}>
         {children}
       </MuiThemeProvider>
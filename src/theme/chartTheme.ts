@@ -0,0 +1,80 @@
+/**
+ * Chart Theme
+ *
+ * Derives chart colors and text styles from the active MUI theme so charts
+ * follow theme switches. Series colors use the palette's main colors first;
+ * longer series cycle through them again at lower opacity.
+ */
+
+import { alpha, Theme } from '@mui/material';
+
+/**
+ * Fill and border colors for a chart series
+ * @property {string[]} background - Fill color per data point
+ * @property {string[]} border - Border color per data point
+ */
+export interface ChartColors {
+  background: string[];
+  border: string[];
+}
+
+/**
+ * Returns theme colors for a number of data points
+ * @param {Theme} theme - The active MUI theme
+ * @param {number} count - Number of data points
+ * @returns {ChartColors} One fill and border color per data point
+ */
+export const getChartColors = (theme: Theme, count: number): ChartColors => {
+  const { primary, secondary, info, success, warning, error } = theme.palette;
+  const base = [primary, secondary, info, success, warning, error];
+  const background: string[] = [];
+  const border: string[] = [];
+  for (let index = 0; index < count; index++) {
+    const color = base[index % base.length];
+    const round = Math.floor(index / base.length);
+    background.push(round === 0 ? color.main : alpha(color.main, Math.max(0.25, 1 - round * 0.3)));
+    border.push(color.dark);
+  }
+  return { background, border };
+};
+
+/**
+ * Returns the legend and tooltip styles shared by all chart widgets
+ * @param {Theme} theme - The active MUI theme
+ * @returns {Object} Chart.js legend label and tooltip options
+ */
+export const getChartTextStyles = (theme: Theme) => ({
+  legendLabels: {
+    padding: 20,
+    font: {
+      size: 14,
+      family: theme.typography.fontFamily,
+      weight: 'bold' as const,
+    },
+    color: theme.palette.text.primary,
+  },
+  tooltip: {
+    titleFont: {
+      size: 14,
+      family: theme.typography.fontFamily,
+      weight: 'bold' as const,
+    },
+    bodyFont: {
+      size: 14,
+      family: theme.typography.fontFamily,
+    },
+    padding: 12,
+    backgroundColor: theme.palette.background.paper,
+    titleColor: theme.palette.text.primary,
+    bodyColor: theme.palette.text.primary,
+  },
+  axis: {
+    ticks: {
+      color: theme.palette.text.secondary,
+      font: { family: theme.typography.fontFamily },
+    },
+    grid: {
+      color: theme.palette.divider,
+    },
+  },
+});
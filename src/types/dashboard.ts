@@ -0,0 +1,118 @@
+/**
+ * Dashboard Types
+ *
+ * Shared TypeScript models for custom dashboard pages and their widgets.
+ * Widget types are not a fixed union: each type is registered at runtime in
+ * the widget registry (`src/widgets`), which supplies its component and settings.
+ */
+
+import { FilterElement } from '../utils/filterExpression';
+import { KpiThresholds, KpiUnit } from '../utils/kpi';
+
+/**
+ * Widget Type Definition
+ *
+ * Identifier of a registered widget type (e.g. 'text', 's3-buckets')
+ */
+export type WidgetType = string;
+
+/**
+ * Widget configuration values, as described by the widget type's config schema
+ * All per-widget state lives here so that copying, sharing, importing and
+ * deleting a widget carries or removes its settings with it.
+ */
+export type WidgetConfig = Record<string, unknown>;
+
+/**
+ * Config of the built-in 'text' widget
+ * @property {string} text - Markdown source of the widget's notes
+ */
+export type TextWidgetConfig = {
+  text: string;
+};
+
+/**
+ * Config of the built-in 'inventory' summary widget
+ * @property {string} account - Account name to restrict the summary to, or '' for all
+ * @property {string} region - Region to restrict the summary to, or '' for all
+ */
+export type InventorySummaryWidgetConfig = {
+  account: string;
+  region: string;
+};
+
+/**
+ * Config of the built-in 's3-buckets' widget
+ * @property {FilterElement[]} filters - The table's custom filter
+ */
+export type S3BucketsWidgetConfig = {
+  filters: FilterElement[];
+};
+
+/**
+ * Describes the inventory data a chart or KPI widget shows
+ * @property {string} resource - Data source id (e.g. 's3Buckets'), see `src/widgets/dataSources.ts`
+ * @property {string} groupBy - Text field whose values become the chart's groups ('' for a single total)
+ * @property {string} metric - 'count', or 'sum:<field>' for the total of a numeric field
+ * @property {string} filter - Optional filter query applied before aggregating, e.g. `region = us-east-1`
+ * @property {string} [splitBy] - Text field splitting each group into series, for charts that stack
+ *   or overlay series ('' for a single series)
+ */
+export type DataBinding = {
+  resource: string;
+  groupBy: string;
+  metric: string;
+  filter: string;
+  splitBy?: string;
+};
+
+/**
+ * Config of the built-in 'pie-chart' and 'treemap' widgets
+ */
+export type PieChartWidgetConfig = DataBinding;
+
+/**
+ * Config of the built-in bar, line and area chart widgets
+ */
+export type SeriesChartWidgetConfig = DataBinding & {
+  splitBy: string;
+};
+
+/**
+ * Config of the built-in 'kpi' widget: one number computed over all matching rows
+ * @property {KpiUnit} unit - How the number is formatted
+ * @property {string} suffix - Optional text shown after the number, e.g. "buckets"
+ * @property {string} warning - Value at which the card turns orange ('' for none), e.g. "50 TB"
+ * @property {string} critical - Value at which the card turns red ('' for none)
+ * @property {ThresholdDirection} direction - Whether values above or below the thresholds are a problem
+ */
+export type KpiWidgetConfig = DataBinding & {
+  unit: KpiUnit;
+  suffix: string;
+} & KpiThresholds;
+
+/**
+ * Widget Interface
+ *
+ * Defines the structure of a widget object
+ * @property {string} id - Unique identifier for the widget
+ * @property {string} title - Display title of the widget
+ * @property {WidgetType} type - Registered widget type (determines rendered content)
+ * @property {boolean} [isHeart] - Optional flag for heart-shaped styling
+ * @property {C} config - Settings and state of the widget, typed per widget type
+ * @property {number} x - Horizontal position in the grid
+ * @property {number} y - Vertical position in the grid
+ * @property {number} w - Width in grid units
+ * @property {number} h - Height in grid units
+ */
+export interface Widget<C extends WidgetConfig = WidgetConfig> {
+  id: string;
+  title: string;
+  type: WidgetType;
+  isHeart?: boolean;
+  config: C;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
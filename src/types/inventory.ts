@@ -0,0 +1,290 @@
+/**
+ * Inventory Resource Types
+ *
+ * Shared TypeScript models for the AWS inventory resources the dashboard displays.
+ * Resources follow the JSON:API document format (`{ data: [...] }`) used by the
+ * inventory service and the bundled fixture files in `src/data`.
+ */
+
+/**
+ * JsonApiDocument Interface
+ *
+ * A JSON:API top-level document containing a collection of resources.
+ * @property {Object} [links] - Pagination links; `next` points at the following page
+ * @property {Object[]} [errors] - JSON:API error objects returned instead of data
+ */
+export interface JsonApiDocument<T> {
+  data: T[];
+  links?: {
+    next?: string | null;
+  };
+  errors?: Array<{
+    status?: string;
+    title?: string;
+    detail?: string;
+  }>;
+}
+
+/**
+ * AccountRelationship Interface
+ *
+ * The account a resource belongs to, as a JSON:API relationship.
+ */
+export interface AccountRelationship {
+  data: {
+    id: string;
+    type: string;
+    name: string;
+  };
+}
+
+/**
+ * LifecycleRule Interface
+ *
+ * Defines the structure of S3 bucket lifecycle rules.
+ * Contains configuration for object transitions, expirations, and versioning.
+ */
+export interface LifecycleRule {
+  AbortIncompleteMultipartUpload: number;
+  Expiration: number;
+  LifecycleRule: string;
+  NoncurrentVersionExpiration: number;
+  NoncurrentVersionTransitionsDays: number;
+  NoncurrentVersionTransitionsStorage: string;
+  Status: string;
+  TransitionDays: number;
+  TransitionStorage: string;
+}
+
+/**
+ * S3Bucket Interface
+ *
+ * Represents an AWS S3 bucket with its attributes and relationships.
+ * Includes metadata such as name, region, size, and lifecycle rules.
+ */
+export interface S3Bucket {
+  type: string;
+  id: string;
+  attributes: {
+    lifecycle: LifecycleRule[];
+    Name: string;
+    Region: string;
+    SizeBytes: number;
+    WeeklyGrow: number;
+  };
+  relationships: {
+    Account: AccountRelationship;
+  };
+}
+
+/**
+ * ResourceTag Interface
+ *
+ * An AWS resource tag in the API's Key/Value form.
+ */
+export interface ResourceTag {
+  Key: string;
+  Value: string;
+}
+
+/**
+ * Lifecycle states of an EC2 instance
+ */
+export type EC2InstanceState = 'pending' | 'running' | 'stopping' | 'stopped' | 'shutting-down' | 'terminated';
+
+/**
+ * EC2Instance Interface
+ *
+ * Represents an AWS EC2 instance with its placement, networking and tags.
+ * IP addresses are null when the instance has none (e.g. no public IP, or terminated).
+ * LaunchTime is an ISO 8601 timestamp.
+ */
+export interface EC2Instance {
+  type: string;
+  id: string;
+  attributes: {
+    InstanceId: string;
+    InstanceType: string;
+    State: EC2InstanceState;
+    AvailabilityZone: string;
+    Region: string;
+    PrivateIpAddress: string | null;
+    PublicIpAddress: string | null;
+    LaunchTime: string;
+    Platform: string;
+    Tags: ResourceTag[];
+  };
+  relationships: {
+    Account: AccountRelationship;
+  };
+}
+
+/**
+ * RDSCluster Interface
+ *
+ * Represents an AWS RDS database cluster with its engine, sizing and
+ * data-protection settings. BackupRetentionPeriod is in days.
+ */
+export interface RDSCluster {
+  type: string;
+  id: string;
+  attributes: {
+    DBClusterIdentifier: string;
+    Engine: string;
+    EngineVersion: string;
+    DBClusterInstanceClass: string;
+    MultiAZ: boolean;
+    StorageEncrypted: boolean;
+    BackupRetentionPeriod: number;
+    DeletionProtection: boolean;
+    Region: string;
+  };
+  relationships: {
+    Account: AccountRelationship;
+  };
+}
+
+/**
+ * VpcSubnet Interface
+ *
+ * A subnet within a VPC.
+ */
+export interface VpcSubnet {
+  SubnetId: string;
+  CidrBlock: string;
+  AvailabilityZone: string;
+  MapPublicIpOnLaunch: boolean;
+}
+
+/**
+ * VpcRouteTable Interface
+ *
+ * A route table within a VPC. Route targets are gateway or connection IDs, or "local".
+ */
+export interface VpcRouteTable {
+  RouteTableId: string;
+  Main: boolean;
+  Routes: Array<{
+    DestinationCidrBlock: string;
+    Target: string;
+  }>;
+}
+
+/**
+ * VpcPeeringConnection Interface
+ *
+ * A peering connection from a VPC to another VPC, possibly in another account.
+ */
+export interface VpcPeeringConnection {
+  PeeringConnectionId: string;
+  PeerVpcId: string;
+  PeerAccountId: string;
+  Status: string;
+}
+
+/**
+ * VPC Interface
+ *
+ * Represents an AWS VPC with its CIDR blocks (primary first), subnets,
+ * route tables, gateways and peering connections.
+ * InternetGatewayId is null when no internet gateway is attached.
+ */
+export interface VPC {
+  type: string;
+  id: string;
+  attributes: {
+    VpcId: string;
+    CidrBlocks: string[];
+    Region: string;
+    IsDefault: boolean;
+    State: string;
+    Subnets: VpcSubnet[];
+    RouteTables: VpcRouteTable[];
+    InternetGatewayId: string | null;
+    NatGatewayIds: string[];
+    PeeringConnections: VpcPeeringConnection[];
+    Tags: ResourceTag[];
+  };
+  relationships: {
+    Account: AccountRelationship;
+  };
+}
+
+/**
+ * ECS launch types
+ */
+export type ECSLaunchType = 'FARGATE' | 'FARGATE_SPOT' | 'EC2' | 'EXTERNAL';
+
+/**
+ * ECSTask Interface
+ *
+ * A task started by an ECS service. StartedAt is an ISO 8601 timestamp,
+ * null until the task is running. Cpu and Memory are in CPU units and MiB.
+ */
+export interface ECSTask {
+  TaskId: string;
+  TaskArn: string;
+  LastStatus: string;
+  DesiredStatus: string;
+  LaunchType: ECSLaunchType;
+  TaskDefinitionRevision: number;
+  AvailabilityZone: string;
+  StartedAt: string | null;
+  Cpu: string;
+  Memory: string;
+}
+
+/**
+ * ECSService Interface
+ *
+ * An ECS service with its task counts and the rollout state of its primary
+ * deployment. TaskDefinition is the "family:revision" the service deploys.
+ */
+export interface ECSService {
+  ServiceName: string;
+  ServiceArn: string;
+  LaunchType: ECSLaunchType;
+  DesiredCount: number;
+  RunningCount: number;
+  PendingCount: number;
+  TaskDefinition: string;
+  DeploymentStatus: 'COMPLETED' | 'IN_PROGRESS' | 'FAILED';
+  Tasks: ECSTask[];
+}
+
+/**
+ * ECSCluster Interface
+ *
+ * Represents an AWS ECS cluster with its services and their tasks nested inside.
+ */
+export interface ECSCluster {
+  type: string;
+  id: string;
+  attributes: {
+    ClusterName: string;
+    ClusterArn: string;
+    Region: string;
+    Status: string;
+    Services: ECSService[];
+  };
+  relationships: {
+    Account: AccountRelationship;
+  };
+}
+
+/**
+ * Maps each inventory resource type to its model
+ * Add an entry here when introducing a new resource type.
+ */
+export interface InventoryResourceMap {
+  s3Buckets: S3Bucket;
+  ec2Instances: EC2Instance;
+  rdsClusters: RDSCluster;
+  vpcs: VPC;
+  ecsClusters: ECSCluster;
+}
+
+/**
+ * Identifier of an inventory resource type
+ */
+export type InventoryResourceType = keyof InventoryResourceMap;
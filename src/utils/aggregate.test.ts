@@ -0,0 +1,67 @@
+import { FilterField } from './filterExpression';
+import { aggregateRows, aggregateSeries, computeMetric, getGroupByFields, getMetricOptions } from './aggregate';
+
+interface Row {
+  region: string;
+  tier: string;
+  size: number;
+}
+
+const fields: FilterField<Row>[] = [
+  { field: 'region', label: 'Region', type: 'string', getValue: row => row.region },
+  { field: 'tier', label: 'Tier', type: 'string', getValue: row => row.tier },
+  { field: 'size', label: 'Size', type: 'bytes', getValue: row => row.size },
+];
+
+const rows: Row[] = [
+  { region: 'us-east-1', tier: 'hot', size: 100 },
+  { region: 'eu-west-1', tier: 'cold', size: 500 },
+  { region: 'us-east-1', tier: 'cold', size: 50 },
+  { region: '', tier: 'hot', size: 10 },
+];
+
+describe('aggregateRows', () => {
+  test('lists group-by fields and metrics from the field types', () => {
+    expect(getGroupByFields(fields).map(field => field.field)).toEqual(['region', 'tier']);
+    expect(getMetricOptions(fields)).toEqual([
+      { id: 'count', label: 'Count', valueType: 'number' },
+      { id: 'sum:size', label: 'Total Size', valueType: 'bytes' },
+    ]);
+  });
+
+  test('counts and totals rows per group', () => {
+    expect(aggregateRows(rows, fields, 'region', 'count')).toEqual([
+      { key: 'us-east-1', value: 2, count: 2 },
+      { key: '(none)', value: 1, count: 1 },
+      { key: 'eu-west-1', value: 1, count: 1 },
+    ]);
+    expect(aggregateRows(rows, fields, 'region', 'sum:size').map(point => [point.key, point.value])).toEqual([
+      ['eu-west-1', 500],
+      ['us-east-1', 150],
+      ['(none)', 10],
+    ]);
+  });
+
+  test('computes a metric over all rows', () => {
+    expect(computeMetric(rows, fields, 'count')).toBe(4);
+    expect(computeMetric(rows, fields, 'sum:size')).toBe(660);
+    expect(computeMetric([], fields, 'sum:size')).toBe(0);
+  });
+
+  test('splits groups into series', () => {
+    expect(aggregateSeries(rows, fields, 'region', 'tier', 'sum:size')).toEqual({
+      keys: ['(none)', 'eu-west-1', 'us-east-1'],
+      series: [
+        { key: 'cold', values: [0, 500, 50] },
+        { key: 'hot', values: [10, 0, 100] },
+      ],
+    });
+  });
+
+  test('rejects unknown fields', () => {
+    expect(() => aggregateRows(rows, fields, 'account', 'count')).toThrow('Unknown group-by field "account"');
+    expect(() => aggregateRows(rows, fields, 'region', 'sum:region')).toThrow('Unknown metric "sum:region"');
+    expect(() => aggregateSeries(rows, fields, 'region', 'zone', 'count')).toThrow('Unknown group-by field "zone"');
+    expect(() => computeMetric(rows, fields, 'sum:tier')).toThrow('Unknown metric "sum:tier"');
+  });
+});
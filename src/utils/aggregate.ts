@@ -0,0 +1,218 @@
+/**
+ * Inventory Aggregation
+ *
+ * Groups inventory rows by a field and computes a metric per group. Charts
+ * and stat widgets describe what they show with a DataBinding:
+ * - groupBy: a text field whose values become the groups (e.g. region), or ''
+ *   for widgets that show a single total
+ * - metric: 'count', or 'sum:<field>' for the total of a numeric field
+ *
+ * Fields are the same typed FilterField definitions the inventory tables use,
+ * so anything a table can filter on, a chart can group or total.
+ */
+
+import { FilterField, FilterFieldType } from './filterExpression';
+import { formatBytes } from './formatBytes';
+
+/**
+ * Metric identifier: 'count' or 'sum:<numeric field>'
+ */
+export type MetricId = string;
+
+/**
+ * The metric that counts rows
+ */
+export const COUNT_METRIC: MetricId = 'count';
+
+/**
+ * A selectable metric
+ * @property {MetricId} id - Identifier stored in widget configs
+ * @property {string} label - Human-readable name, e.g. "Total Size"
+ * @property {FilterFieldType} valueType - Type of the computed values, for formatting
+ */
+export interface MetricOption {
+  id: MetricId;
+  label: string;
+  valueType: FilterFieldType;
+}
+
+/**
+ * One group of an aggregation
+ * @property {string} key - The group's field value
+ * @property {number} value - The metric computed over the group
+ * @property {number} count - Number of rows in the group
+ */
+export interface AggregatePoint {
+  key: string;
+  value: number;
+  count: number;
+}
+
+/**
+ * A metric split by a second field, e.g. size per region split by storage class
+ * @property {string[]} keys - Group values, in chart order
+ * @property {Object[]} series - One series per split value, with a value per group key
+ */
+export interface AggregateSeries {
+  keys: string[];
+  series: Array<{ key: string; values: number[] }>;
+}
+
+/**
+ * Label of the group rows with an empty value are collected under
+ */
+export const EMPTY_GROUP_KEY = '(none)';
+
+/**
+ * Returns the group a row belongs to for a field
+ * @param {FilterField<T>} field - The group-by field
+ * @param {T} row - The row
+ * @returns {string} The field value as text, or EMPTY_GROUP_KEY when empty
+ */
+export const getGroupKey = <T>(field: FilterField<T>, row: T): string =>
+  String(field.getValue(row) ?? '') || EMPTY_GROUP_KEY;
+
+/**
+ * Formats a metric value for display
+ * @param {number} value - The value
+ * @param {FilterFieldType} valueType - Type of the metric's values
+ * @returns {string} Byte sizes with units (e.g. "1.5 TB"), other values with thousands separators
+ */
+export const formatMetricValue = (value: number, valueType: FilterFieldType): string =>
+  valueType === 'bytes' ? formatBytes(value) : value.toLocaleString();
+
+/**
+ * Lists the fields rows can be grouped by: all text fields
+ * @param {FilterField<T>[]} fields - Field definitions of a resource
+ * @returns {FilterField<T>[]} The groupable fields
+ */
+export const getGroupByFields = <T>(fields: FilterField<T>[]): FilterField<T>[] =>
+  fields.filter(field => field.type === 'string');
+
+/**
+ * Lists the metrics available for a resource: a row count plus a total per numeric field
+ * @param {FilterField<T>[]} fields - Field definitions of a resource
+ * @returns {MetricOption[]} The metrics
+ */
+export const getMetricOptions = <T>(fields: FilterField<T>[]): MetricOption[] => [
+  { id: COUNT_METRIC, label: 'Count', valueType: 'number' },
+  ...fields
+    .filter(field => field.type !== 'string')
+    .map(field => ({ id: `sum:${field.field}`, label: `Total ${field.label}`, valueType: field.type })),
+];
+
+/**
+ * Looks up a group-by field
+ * @throws {Error} If the field is unknown
+ */
+const findGroupField = <T>(fields: FilterField<T>[], groupBy: string): FilterField<T> => {
+  const field = fields.find(candidate => candidate.field === groupBy);
+  if (!field) {
+    throw new Error(`Unknown group-by field "${groupBy}"`);
+  }
+  return field;
+};
+
+/**
+ * Returns a function computing a row's contribution to a metric
+ * @throws {Error} If the metric's field is unknown or not numeric
+ */
+const createMetricGetter = <T>(fields: FilterField<T>[], metric: MetricId): ((row: T) => number) => {
+  if (metric === COUNT_METRIC) {
+    return () => 1;
+  }
+  const field = fields.find(candidate => `sum:${candidate.field}` === metric && candidate.type !== 'string');
+  if (!field) {
+    throw new Error(`Unknown metric "${metric}"`);
+  }
+  return row => Number(field.getValue(row)) || 0;
+};
+
+/**
+ * Computes a metric over all rows, e.g. for a single-number widget
+ * @param {T[]} rows - The rows
+ * @param {FilterField<T>[]} fields - Field definitions of the rows
+ * @param {MetricId} metric - Metric to compute
+ * @returns {number} The metric's total
+ * @throws {Error} If the metric's field is unknown
+ */
+export const computeMetric = <T>(rows: T[], fields: FilterField<T>[], metric: MetricId): number => {
+  const getMetricValue = createMetricGetter(fields, metric);
+  return rows.reduce((total, row) => total + getMetricValue(row), 0);
+};
+
+/**
+ * Groups rows and computes a metric per group
+ * Rows with an empty group value are collected under EMPTY_GROUP_KEY. Groups are
+ * sorted by value, largest first.
+ * @param {T[]} rows - The rows to aggregate
+ * @param {FilterField<T>[]} fields - Field definitions of the rows
+ * @param {string} groupBy - Field to group by
+ * @param {MetricId} metric - Metric to compute
+ * @returns {AggregatePoint[]} One point per group
+ * @throws {Error} If the group-by field or the metric's field is unknown
+ */
+export const aggregateRows = <T>(
+  rows: T[],
+  fields: FilterField<T>[],
+  groupBy: string,
+  metric: MetricId
+): AggregatePoint[] => {
+  const groupField = findGroupField(fields, groupBy);
+  const getMetricValue = createMetricGetter(fields, metric);
+
+  const groups = new Map<string, AggregatePoint>();
+  rows.forEach(row => {
+    const key = getGroupKey(groupField, row);
+    const point = groups.get(key) ?? { key, value: 0, count: 0 };
+    point.count += 1;
+    point.value += getMetricValue(row);
+    groups.set(key, point);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.value - a.value || a.key.localeCompare(b.key));
+};
+
+/**
+ * Groups rows by one field, splits each group by a second field and computes
+ * a metric per group and split value
+ * Group keys are sorted alphabetically so ordered values (dates, versions)
+ * read left to right; series are sorted by their total, largest first.
+ * @param {T[]} rows - The rows to aggregate
+ * @param {FilterField<T>[]} fields - Field definitions of the rows
+ * @param {string} groupBy - Field to group by
+ * @param {string} splitBy - Field whose values become the series
+ * @param {MetricId} metric - Metric to compute
+ * @returns {AggregateSeries} The group keys and one series per split value
+ * @throws {Error} If a field or the metric's field is unknown
+ */
+export const aggregateSeries = <T>(
+  rows: T[],
+  fields: FilterField<T>[],
+  groupBy: string,
+  splitBy: string,
+  metric: MetricId
+): AggregateSeries => {
+  const groupField = findGroupField(fields, groupBy);
+  const splitField = findGroupField(fields, splitBy);
+  const getMetricValue = createMetricGetter(fields, metric);
+
+  const totals = new Map<string, Map<string, number>>();
+  const keys = new Set<string>();
+  rows.forEach(row => {
+    const key = getGroupKey(groupField, row);
+    const seriesKey = getGroupKey(splitField, row);
+    keys.add(key);
+    const values = totals.get(seriesKey) ?? new Map<string, number>();
+    values.set(key, (values.get(key) ?? 0) + getMetricValue(row));
+    totals.set(seriesKey, values);
+  });
+
+  const sortedKeys = Array.from(keys).sort((a, b) => a.localeCompare(b));
+  const series = Array.from(totals.entries())
+    .map(([key, values]) => ({ key, values: sortedKeys.map(groupKey => values.get(groupKey) ?? 0) }))
+    .sort((a, b) => sum(b.values) - sum(a.values) || a.key.localeCompare(b.key));
+  return { keys: sortedKeys, series };
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
@@ -0,0 +1,43 @@
+import { cidrsOverlap, findCidrOverlaps, parseCidr } from './cidr';
+
+describe('parseCidr', () => {
+  test('parses and normalizes a block', () => {
+    expect(parseCidr('10.0.1.7/16')).toEqual({
+      cidr: '10.0.0.0/16',
+      first: 10 * 2 ** 24,
+      last: 10 * 2 ** 24 + 65535,
+      prefixLength: 16,
+    });
+    expect(parseCidr('255.255.255.255/32')?.last).toBe(2 ** 32 - 1);
+  });
+
+  test('rejects invalid notation', () => {
+    expect(parseCidr('10.0.0.0')).toBeNull();
+    expect(parseCidr('10.0.0.256/24')).toBeNull();
+    expect(parseCidr('10.0.0.0/33')).toBeNull();
+  });
+});
+
+describe('findCidrOverlaps', () => {
+  test('detects nested and identical blocks across owners', () => {
+    const overlaps = findCidrOverlaps([
+      { owner: 'a', cidr: '10.1.0.0/16' },
+      { owner: 'b', cidr: '10.1.128.0/17' },
+      { owner: 'c', cidr: '10.2.0.0/16' },
+      { owner: 'd', cidr: '10.2.0.0/16' },
+      { owner: 'e', cidr: '192.168.0.0/16' },
+    ]);
+    expect(overlaps.map(({ first, second, overlap }) => [first.owner, second.owner, overlap])).toEqual([
+      ['a', 'b', '10.1.128.0/17'],
+      ['c', 'd', '10.2.0.0/16'],
+    ]);
+  });
+
+  test('ignores adjacent blocks and blocks of the same owner', () => {
+    expect(cidrsOverlap(parseCidr('10.0.0.0/24')!, parseCidr('10.0.1.0/24')!)).toBe(false);
+    expect(findCidrOverlaps([
+      { owner: 'a', cidr: '10.0.0.0/16' },
+      { owner: 'a', cidr: '10.0.0.0/24' },
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * IPv4 CIDR Utilities
+ *
+ * Parsing and overlap analysis for IPv4 CIDR blocks, used to find VPC address
+ * ranges that collide before they are peered or routed together.
+ *
+ * Two CIDR blocks either nest or are disjoint, so an overlap is always the
+ * whole of the more specific block.
+ */
+
+/**
+ * A parsed CIDR block
+ * @property {string} cidr - Normalized notation, with host bits cleared
+ * @property {number} first - First address as an unsigned 32-bit integer
+ * @property {number} last - Last address as an unsigned 32-bit integer
+ * @property {number} prefixLength - Network prefix length (0-32)
+ */
+export interface CidrRange {
+  cidr: string;
+  first: number;
+  last: number;
+  prefixLength: number;
+}
+
+/**
+ * Converts an unsigned 32-bit integer to dotted-quad notation
+ * @param {number} address - The address
+ * @returns {string} e.g. "10.0.0.0"
+ */
+const formatAddress = (address: number): string =>
+  [24, 16, 8, 0].map(shift => (address >>> shift) & 255).join('.');
+
+/**
+ * Parses an IPv4 CIDR block such as "10.0.0.0/16"
+ * Host bits set in the address are cleared ("10.0.1.0/16" parses as "10.0.0.0/16").
+ * @param {string} cidr - The CIDR notation
+ * @returns {CidrRange | null} The range, or null if the notation is invalid
+ */
+export const parseCidr = (cidr: string): CidrRange | null => {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/.exec(cidr.trim());
+  if (!match) {
+    return null;
+  }
+  const octets = match.slice(1, 5).map(Number);
+  const prefixLength = Number(match[5]);
+  if (octets.some(octet => octet > 255) || prefixLength > 32) {
+    return null;
+  }
+
+  const address = octets.reduce((acc, octet) => acc * 256 + octet, 0);
+  const size = 2 ** (32 - prefixLength);
+  const first = Math.floor(address / size) * size;
+  const last = first + size - 1;
+  return { cidr: `${formatAddress(first)}/${prefixLength}`, first, last, prefixLength };
+};
+
+/**
+ * Checks whether two parsed CIDR blocks share any address
+ * @param {CidrRange} a - First range
+ * @param {CidrRange} b - Second range
+ * @returns {boolean} True if the ranges overlap
+ */
+export const cidrsOverlap = (a: CidrRange, b: CidrRange): boolean =>
+  a.first <= b.last && b.first <= a.last;
+
+/**
+ * A CIDR block attributed to its owner (e.g. a VPC)
+ */
+export interface OwnedCidr<T> {
+  owner: T;
+  cidr: string;
+}
+
+/**
+ * An overlap between CIDR blocks of two different owners
+ * @property {string} overlap - The shared range (the more specific of the two blocks)
+ */
+export interface CidrOverlap<T> {
+  first: OwnedCidr<T>;
+  second: OwnedCidr<T>;
+  overlap: string;
+}
+
+/**
+ * Finds every pair of overlapping CIDR blocks that belong to different owners
+ * Invalid blocks are ignored. Pairs are returned in the order they are found
+ * when sweeping the blocks by start address.
+ * @param {OwnedCidr<T>[]} entries - CIDR blocks with their owners
+ * @returns {CidrOverlap<T>[]} The overlapping pairs
+ */
+export const findCidrOverlaps = <T>(entries: OwnedCidr<T>[]): CidrOverlap<T>[] => {
+  const parsed = entries
+    .map(entry => ({ entry, range: parseCidr(entry.cidr) }))
+    .filter((item): item is { entry: OwnedCidr<T>; range: CidrRange } => item.range !== null)
+    .sort((a, b) => a.range.first - b.range.first || a.range.prefixLength - b.range.prefixLength);
+
+  const overlaps: CidrOverlap<T>[] = [];
+  parsed.forEach((current, index) => {
+    // Sorted by start, so only later blocks starting inside this one can overlap it
+    for (let i = index + 1; i < parsed.length && parsed[i].range.first <= current.range.last; i++) {
+      const other = parsed[i];
+      if (other.entry.owner !== current.entry.owner) {
+        overlaps.push({
+          first: current.entry,
+          second: other.entry,
+          overlap: other.range.prefixLength >= current.range.prefixLength ? other.range.cidr : current.range.cidr,
+        });
+      }
+    }
+  });
+  return overlaps;
+};
@@ -0,0 +1,97 @@
+import { createDebouncedSaver, SAVE_DELAY_MS, SaveState } from './debouncedSave';
+
+const setup = (write: (key: string, value: unknown) => Promise<void>) => {
+  const states: SaveState['status'][] = [];
+  let last: SaveState = { status: 'saved', error: null };
+  const saver = createDebouncedSaver(write, state => {
+    states.push(state.status);
+    last = state;
+  });
+  return { saver, states, last: () => last };
+};
+
+describe('debounced saving', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  test('writes the latest value of each key once changes stop', async () => {
+    const write = jest.fn(() => Promise.resolve());
+    const { saver, states } = setup(write);
+    saver.schedule('a', 1);
+    jest.advanceTimersByTime(SAVE_DELAY_MS - 1);
+    saver.schedule('a', 2);
+    saver.schedule('b', 3);
+    jest.advanceTimersByTime(SAVE_DELAY_MS - 1);
+    expect(write).not.toHaveBeenCalled();
+
+    await saver.flush();
+    expect(write.mock.calls).toEqual([['a', 2], ['b', 3]]);
+    expect(states[states.length - 1]).toBe('saved');
+    jest.advanceTimersByTime(SAVE_DELAY_MS);
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  test('tells the values not written yet', async () => {
+    let finishWrite = () => {};
+    const write = jest.fn(() => new Promise<void>(resolve => { finishWrite = resolve; }));
+    const { saver } = setup(write);
+    saver.schedule('a', 1);
+    expect(saver.peek('a')).toEqual({ value: 1 });
+    expect(saver.peek('b')).toBeUndefined();
+    expect(saver.pendingKeys()).toEqual(['a']);
+
+    const flushed = saver.flush();
+    await Promise.resolve();
+    expect(write).toHaveBeenCalledWith('a', 1);
+    expect(saver.peek('a')).toEqual({ value: 1 });
+    finishWrite();
+    await flushed;
+    expect(saver.peek('a')).toBeUndefined();
+    expect(saver.pendingKeys()).toEqual([]);
+  });
+
+  test('keeps failed values for a retry, unless a newer value replaces them', async () => {
+    const write = jest.fn()
+      .mockRejectedValueOnce(new Error('Browser storage is full'))
+      .mockRejectedValueOnce(new Error('Browser storage is full'))
+      .mockResolvedValue(undefined);
+    const { saver, last } = setup(write);
+    saver.schedule('a', 1);
+    saver.schedule('b', 1);
+    await saver.flush();
+    expect(last()).toEqual({ status: 'error', error: new Error('Browser storage is full') });
+
+    saver.schedule('b', 2);
+    await saver.flush();
+    expect(write.mock.calls.slice(2)).toEqual([['a', 1], ['b', 2]]);
+    expect(last().status).toBe('saved');
+  });
+
+  test('drops cancelled values', async () => {
+    const write = jest.fn(() => Promise.resolve());
+    const { saver } = setup(write);
+    saver.schedule('a', 1);
+    saver.cancel('a');
+    await saver.flush();
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  test('lets a cancel wait for a running write of the key, and does not retry it', async () => {
+    let failWrite = (_error: Error) => {};
+    const write = jest.fn(() => new Promise<void>((_resolve, reject) => { failWrite = reject; }));
+    const { saver } = setup(write);
+    saver.schedule('a', 1);
+    const flushed = saver.flush();
+    await Promise.resolve();
+
+    let cancelled = false;
+    saver.cancel('a').then(() => { cancelled = true; });
+    await Promise.resolve();
+    expect(cancelled).toBe(false);
+    failWrite(new Error('Browser storage is full'));
+    await flushed;
+    await Promise.resolve();
+    expect(cancelled).toBe(true);
+    expect(saver.pendingKeys()).toEqual([]);
+  });
+});
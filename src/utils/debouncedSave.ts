@@ -0,0 +1,127 @@
+/**
+ * Debounced Saving
+ *
+ * Collects values to save by key and writes them once no new value came in
+ * for a short while, so dragging a widget or typing a title writes the
+ * latest value once instead of on every change. Writes run one batch at a
+ * time, so a slow write cannot overtake a newer one. Values whose write
+ * failed are kept and written again with the next batch or on retry.
+ */
+
+/**
+ * Time (ms) without changes after which pending values are written
+ */
+export const SAVE_DELAY_MS = 500;
+
+/**
+ * State of the saved values
+ * @property {string} status - 'saved' when everything is written, 'saving' while
+ *   values are pending or being written, 'error' when a write failed
+ * @property {Error | null} error - Error of the failed write, if any
+ */
+export interface SaveState {
+  status: 'saved' | 'saving' | 'error';
+  error: Error | null;
+}
+
+/**
+ * DebouncedSaver Interface
+ * @property {Function} schedule - Queues a value to write, replacing any pending value of the key
+ * @property {Function} cancel - Drops the pending value of a key; resolves once a write of
+ *   the key already running has finished, and a failed one is not retried
+ * @property {Function} flush - Writes all pending values now; resolves when written or failed
+ * @property {Function} peek - The value of a key not yet written (pending or being written), as `{ value }`
+ * @property {Function} pendingKeys - The keys with a value not yet written
+ */
+export interface DebouncedSaver {
+  schedule: (key: string, value: unknown) => void;
+  cancel: (key: string) => Promise<void>;
+  flush: () => Promise<void>;
+  peek: (key: string) => { value: unknown } | undefined;
+  pendingKeys: () => string[];
+}
+
+/**
+ * Creates a debounced saver
+ * @param {Function} write - Writes a value; rejects if it could not be written
+ * @param {Function} onStateChange - Called whenever the save state changes
+ * @param {number} [delayMs=SAVE_DELAY_MS] - Time without changes before writing
+ * @returns {DebouncedSaver} The saver
+ */
+export const createDebouncedSaver = (
+  write: (key: string, value: unknown) => Promise<void>,
+  onStateChange: (state: SaveState) => void,
+  delayMs = SAVE_DELAY_MS
+): DebouncedSaver => {
+  const pending = new Map<string, unknown>();
+  let inFlight = new Map<string, unknown>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let lastError: Error | null = null;
+  // Keys cancelled while a value of theirs was being written
+  const cancelled = new Set<string>();
+
+  const report = () => {
+    if (pending.size > 0 && !lastError) {
+      onStateChange({ status: 'saving', error: null });
+    } else {
+      onStateChange(lastError ? { status: 'error', error: lastError } : { status: 'saved', error: null });
+    }
+  };
+
+  const writePending = async () => {
+    const batch = Array.from(pending.entries());
+    pending.clear();
+    if (batch.length === 0) return;
+
+    inFlight = new Map(batch);
+    const results = await Promise.allSettled(batch.map(([key, value]) => write(key, value)));
+    inFlight = new Map();
+    lastError = null;
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        const [key, value] = batch[index];
+        if (cancelled.has(key)) return;
+        // A newer value scheduled meanwhile replaces the one that failed
+        if (!pending.has(key)) pending.set(key, value);
+        lastError = lastError ?? (result.reason instanceof Error ? result.reason : new Error(String(result.reason)));
+      }
+    });
+    batch.forEach(([key]) => cancelled.delete(key));
+    report();
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    writing = writing.then(writePending);
+    return writing;
+  };
+
+  const schedule = (key: string, value: unknown) => {
+    cancelled.delete(key);
+    pending.set(key, value);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, delayMs);
+    if (!lastError) report();
+  };
+
+  const cancel = (key: string): Promise<void> => {
+    pending.delete(key);
+    if (!inFlight.has(key)) return Promise.resolve();
+    cancelled.add(key);
+    return writing;
+  };
+
+  const peek = (key: string) => {
+    if (pending.has(key)) return { value: pending.get(key) };
+    if (inFlight.has(key)) return { value: inFlight.get(key) };
+    return undefined;
+  };
+
+  const pendingKeys = () => Array.from(new Set([...Array.from(pending.keys()), ...Array.from(inFlight.keys())]));
+
+  return { schedule, cancel, flush, peek, pendingKeys };
+};
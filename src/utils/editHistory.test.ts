@@ -0,0 +1,73 @@
+import { createHistory, mapHistory, MAX_HISTORY, recordEdit, redoEdit, replacePresent, undoEdit } from './editHistory';
+
+const edit = (id: number, extra: { mergeKey?: string; at?: number } = {}) => ({
+  id,
+  label: `Edit ${id}`,
+  at: 1000 * id,
+  ...extra,
+});
+
+describe('edit history', () => {
+  test('undoes and redoes edits', () => {
+    let history = createHistory(['a']);
+    history = recordEdit(history, ['a', 'b'], edit(1));
+    history = recordEdit(history, ['b'], edit(2));
+
+    history = undoEdit(history);
+    expect(history.present).toEqual(['a', 'b']);
+    history = undoEdit(history);
+    expect(history.present).toEqual(['a']);
+    expect(undoEdit(history)).toBe(history);
+
+    history = redoEdit(history);
+    expect(history.present).toEqual(['a', 'b']);
+    expect(history.past.map(entry => entry.label)).toEqual(['Edit 1']);
+    expect(history.future.map(entry => entry.label)).toEqual(['Edit 2']);
+  });
+
+  test('clears redo steps on a new edit', () => {
+    let history = recordEdit(createHistory(1), 2, edit(1));
+    history = undoEdit(history);
+    history = recordEdit(history, 3, edit(2));
+    expect(history.future).toEqual([]);
+    expect(redoEdit(history)).toBe(history);
+  });
+
+  test('ignores edits that change nothing', () => {
+    const history = createHistory({ value: 1 });
+    expect(recordEdit(history, history.present, edit(1))).toBe(history);
+  });
+
+  test('merges quick edits with the same key', () => {
+    let history = createHistory('');
+    history = recordEdit(history, 'a', edit(1, { mergeKey: 'text', at: 0 }));
+    history = recordEdit(history, 'ab', edit(2, { mergeKey: 'text', at: 500 }));
+    history = recordEdit(history, 'abc', edit(3, { mergeKey: 'text', at: 2000 }));
+    expect(history.past.map(entry => entry.state)).toEqual(['', 'ab']);
+  });
+
+  test('replaces the state without an undo step', () => {
+    let history = recordEdit(createHistory(1), 2, edit(1));
+    history = replacePresent(history, 3);
+    expect(history.present).toBe(3);
+    expect(undoEdit(history).present).toBe(1);
+  });
+
+  test('applies outside changes to every state', () => {
+    let history = recordEdit(createHistory(['a']), ['a', 'b'], edit(1));
+    history = undoEdit(recordEdit(history, ['b'], edit(2)));
+    history = mapHistory(history, state => [...state, 'x']);
+    expect(history.present).toEqual(['a', 'b', 'x']);
+    expect(undoEdit(history).present).toEqual(['a', 'x']);
+    expect(redoEdit(history).present).toEqual(['b', 'x']);
+  });
+
+  test('keeps a limited number of undo steps', () => {
+    let history = createHistory(0);
+    for (let value = 1; value <= MAX_HISTORY + 5; value++) {
+      history = recordEdit(history, value, edit(value));
+    }
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0].state).toBe(5);
+  });
+});
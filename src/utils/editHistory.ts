@@ -0,0 +1,141 @@
+/**
+ * Edit History
+ *
+ * Undo/redo bookkeeping for an immutable state value. Every recorded edit
+ * keeps the state from before it, so undoing restores that state and
+ * redoing returns to the state the edit produced. Changes that are not
+ * user edits (e.g. the grid compacting a layout) replace the current state
+ * without an undo step.
+ */
+
+/**
+ * Describes a user edit
+ * @property {number} id - Unique, increasing identifier of the edit
+ * @property {string} label - What the edit did, e.g. 'Widget "Costs" deleted'
+ * @property {boolean} [destructive] - Whether the edit removed something, so it is worth offering an undo
+ * @property {string} [mergeKey] - Edits with the same key in quick succession (e.g. typing) form one undo step
+ * @property {number} at - Time of the edit (ms)
+ */
+export interface Edit {
+  id: number;
+  label: string;
+  destructive?: boolean;
+  mergeKey?: string;
+  at: number;
+}
+
+/**
+ * An undo or redo step: an edit and the state to return to
+ */
+export type HistoryEntry<T> = Edit & { state: T };
+
+/**
+ * EditHistory Interface
+ * @property {T} present - The current state
+ * @property {HistoryEntry<T>[]} past - Edits that can be undone, oldest first, with the state before each
+ * @property {HistoryEntry<T>[]} future - Undone edits that can be redone, next first, with the state after each
+ */
+export interface EditHistory<T> {
+  present: T;
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+/**
+ * Number of edits kept for undo
+ */
+export const MAX_HISTORY = 50;
+
+/**
+ * Time (ms) within which edits with the same merge key form one undo step
+ */
+export const MERGE_WINDOW_MS = 1000;
+
+/**
+ * Creates a history without edits
+ * @param {T} present - The initial state
+ * @returns {EditHistory<T>} The history
+ */
+export const createHistory = <T>(present: T): EditHistory<T> => ({ present, past: [], future: [] });
+
+/**
+ * Records a user edit
+ * Recording clears the redo steps. An edit that does not change the state is
+ * not recorded.
+ * @param {EditHistory<T>} history - The history
+ * @param {T} next - The state after the edit
+ * @param {Edit} edit - The edit
+ * @returns {EditHistory<T>} The new history
+ */
+export const recordEdit = <T>(history: EditHistory<T>, next: T, edit: Edit): EditHistory<T> => {
+  if (next === history.present) {
+    return history;
+  }
+  const last = history.past[history.past.length - 1];
+  if (last && edit.mergeKey && last.mergeKey === edit.mergeKey && edit.at - last.at < MERGE_WINDOW_MS) {
+    // Keep the state from before the first merged edit
+    return { present: next, past: [...history.past.slice(0, -1), { ...last, at: edit.at }], future: [] };
+  }
+  return {
+    present: next,
+    past: [...history.past, { ...edit, state: history.present }].slice(-MAX_HISTORY),
+    future: [],
+  };
+};
+
+/**
+ * Replaces the current state without an undo step
+ * @param {EditHistory<T>} history - The history
+ * @param {T} next - The new state
+ * @returns {EditHistory<T>} The new history
+ */
+export const replacePresent = <T>(history: EditHistory<T>, next: T): EditHistory<T> =>
+  next === history.present ? history : { ...history, present: next };
+
+/**
+ * Applies a change to every state in the history
+ * For changes that are not edits made here (e.g. made in another browser
+ * tab), so undoing and redoing local edits keeps them.
+ * @param {EditHistory<T>} history - The history
+ * @param {Function} update - Returns the changed state for a state
+ * @returns {EditHistory<T>} The new history
+ */
+export const mapHistory = <T>(history: EditHistory<T>, update: (state: T) => T): EditHistory<T> => ({
+  present: update(history.present),
+  past: history.past.map(entry => ({ ...entry, state: update(entry.state) })),
+  future: history.future.map(entry => ({ ...entry, state: update(entry.state) })),
+});
+
+/**
+ * Undoes the latest edit
+ * @param {EditHistory<T>} history - The history
+ * @returns {EditHistory<T>} The new history (unchanged if there is nothing to undo)
+ */
+export const undoEdit = <T>(history: EditHistory<T>): EditHistory<T> => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return history;
+  }
+  return {
+    present: entry.state,
+    past: history.past.slice(0, -1),
+    future: [{ ...entry, state: history.present }, ...history.future],
+  };
+};
+
+/**
+ * Redoes the latest undone edit
+ * @param {EditHistory<T>} history - The history
+ * @returns {EditHistory<T>} The new history (unchanged if there is nothing to redo)
+ */
+export const redoEdit = <T>(history: EditHistory<T>): EditHistory<T> => {
+  const [entry, ...future] = history.future;
+  if (!entry) {
+    return history;
+  }
+  return {
+    present: entry.state,
+    past: [...history.past, { ...entry, state: history.present }],
+    future,
+  };
+};
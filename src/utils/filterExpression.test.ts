@@ -0,0 +1,115 @@
+import {
+  FilterElement,
+  FilterParseError,
+  parseFilterElements,
+  evaluateFilter,
+  validateFilterElements,
+  evaluateCondition,
+  FilterField,
+} from './filterExpression';
+import { parseBytes } from './formatBytes';
+
+const filter = (field: string, operator: string, value: string): FilterElement => ({
+  id: `${field}-${value}`,
+  type: 'filter',
+  value: `${field} ${operator} ${value}`,
+  filter: { field, operator, value },
+});
+const op = (value: 'AND' | 'OR'): FilterElement => ({ id: value, type: 'operator', value });
+const open: FilterElement = { id: 'open', type: 'parenthesis', value: '(', parenthesisType: 'open' };
+const close: FilterElement = { id: 'close', type: 'parenthesis', value: ')', parenthesisType: 'close' };
+
+type Row = Record<string, string>;
+const fields: FilterField<Row>[] = ['region', 'name', 'size'].map(field => ({
+  field,
+  label: field,
+  type: 'string',
+  getValue: row => row[field],
+}));
+const matches = (elements: FilterElement[], row: Row) =>
+  evaluateFilter(parseFilterElements(elements), row, fields);
+
+describe('parseFilterElements', () => {
+  test('an empty filter matches every row', () => {
+    expect(parseFilterElements([])).toBeNull();
+    expect(matches([], { region: 'us-east-1' })).toBe(true);
+  });
+
+  test('AND binds tighter than OR', () => {
+    // region = eu OR (name = a AND size = big)
+    const elements = [
+      filter('region', 'equals', 'eu'),
+      op('OR'),
+      filter('name', 'equals', 'a'),
+      op('AND'),
+      filter('size', 'equals', 'big'),
+    ];
+    expect(matches(elements, { region: 'eu', name: 'b', size: 'small' })).toBe(true);
+    expect(matches(elements, { region: 'us', name: 'a', size: 'small' })).toBe(false);
+  });
+
+  test('parentheses override precedence', () => {
+    const elements = [
+      open,
+      filter('region', 'equals', 'eu'),
+      op('OR'),
+      filter('name', 'equals', 'a'),
+      close,
+      op('AND'),
+      filter('size', 'equals', 'big'),
+    ];
+    expect(matches(elements, { region: 'eu', name: 'b', size: 'small' })).toBe(false);
+    expect(matches(elements, { region: 'us', name: 'a', size: 'big' })).toBe(true);
+  });
+
+  test('reports the position of an unclosed parenthesis', () => {
+    const error = validateFilterElements([open, filter('name', 'contains', 'x')]);
+    expect(error).toBeInstanceOf(FilterParseError);
+    expect(error?.position).toBe(0);
+  });
+
+  test('reports a stray closing parenthesis', () => {
+    const error = validateFilterElements([filter('name', 'contains', 'x'), close]);
+    expect(error?.position).toBe(1);
+    expect(error?.message).toMatch(/no matching/);
+  });
+
+  test('reports adjacent filters without an operator', () => {
+    const error = validateFilterElements([filter('name', 'contains', 'x'), filter('region', 'equals', 'eu')]);
+    expect(error?.position).toBe(1);
+    expect(error?.message).toMatch(/expected AND or OR/);
+  });
+
+  test('reports a dangling operator at the end', () => {
+    const error = validateFilterElements([filter('name', 'contains', 'x'), op('AND')]);
+    expect(error?.position).toBe(2);
+  });
+});
+
+describe('typed conditions', () => {
+  const TB = Math.pow(1024, 4);
+
+  test('parseBytes understands human sizes', () => {
+    expect(parseBytes('1.5 TB')).toBe(1.5 * TB);
+    expect(parseBytes('500GB')).toBe(500 * Math.pow(1024, 3));
+    expect(parseBytes('2048')).toBe(2048);
+    expect(parseBytes('lots')).toBeNull();
+  });
+
+  test('byte fields compare raw values', () => {
+    const condition = { field: 'size', operator: 'gt', value: '1 TB' };
+    expect(evaluateCondition(condition, 2 * TB, 'bytes')).toBe(true);
+    expect(evaluateCondition(condition, 0.5 * TB, 'bytes')).toBe(false);
+  });
+
+  test('between is inclusive of both bounds', () => {
+    const condition = { field: 'size', operator: 'between', value: '1 TB', valueTo: '2 TB' };
+    expect(evaluateCondition(condition, TB, 'bytes')).toBe(true);
+    expect(evaluateCondition(condition, 2 * TB, 'bytes')).toBe(true);
+    expect(evaluateCondition(condition, 3 * TB, 'bytes')).toBe(false);
+  });
+
+  test('an unparseable numeric value matches nothing', () => {
+    expect(evaluateCondition({ field: 'size', operator: 'lt', value: 'huge' }, 1, 'bytes')).toBe(false);
+  });
+});
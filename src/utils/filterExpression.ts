@@ -0,0 +1,433 @@
+/**
+ * Filter Expression Engine
+ *
+ * This module turns the chip-based filter builder model (a flat list of
+ * FilterElement items) into an abstract syntax tree and evaluates it against rows.
+ * It replaces the previous approach of generating a JavaScript string and running
+ * it through `new Function`, so no code is ever executed dynamically.
+ *
+ * Technical Concepts:
+ * 1. Tokenizer: maps filter elements to typed tokens, remembering their position
+ * 2. Recursive descent parser: builds an AST where AND binds tighter than OR
+ * 3. AST evaluator: walks the tree with short-circuit boolean logic
+ * 4. Positional errors: malformed expressions report which element is at fault
+ * 5. Typed fields: string fields use text operators, number and byte-size
+ *    fields compare raw numeric values
+ *
+ * Grammar:
+ *   expression := andExpr ( OR andExpr )*
+ *   andExpr    := primary ( AND primary )*
+ *   primary    := '(' expression ')' | condition
+ */
+
+import { formatBytes, parseBytes } from './formatBytes';
+
+/**
+ * FilterCondition Interface
+ *
+ * A single comparison such as `name contains logs` or `size > 500 GB`.
+ * @property {string} [valueTo] - Upper bound for the 'between' operator
+ */
+export interface FilterCondition {
+  field: string;
+  operator: string;
+  value: string;
+  valueTo?: string;
+}
+
+/**
+ * Data types a filterable field can have
+ * - string: compared case-insensitively as text
+ * - number: compared numerically
+ * - bytes: compared numerically; values accept units such as "1.5 TB"
+ */
+export type FilterFieldType = 'string' | 'number' | 'bytes';
+
+/**
+ * FilterField Interface
+ *
+ * Describes a filterable field of a row type: its label, data type and
+ * how to read its raw value from a row.
+ */
+export interface FilterField<T> {
+  field: string;
+  label: string;
+  type: FilterFieldType;
+  getValue: (row: T) => string | number | null | undefined;
+}
+
+/**
+ * Operator metadata
+ * @property {string} label - Text shown in the operator picker and on chips
+ * @property {FilterFieldType[]} types - Field types the operator applies to
+ * @property {number} operands - Number of values the operator takes
+ */
+interface OperatorDefinition {
+  label: string;
+  types: FilterFieldType[];
+  operands: 0 | 1 | 2;
+}
+
+const TEXT: FilterFieldType[] = ['string'];
+const NUMERIC: FilterFieldType[] = ['number', 'bytes'];
+const ALL: FilterFieldType[] = ['string', 'number', 'bytes'];
+
+/**
+ * Available operators for the filtering system, keyed by operator id
+ */
+export const FILTER_OPERATORS: Record<string, OperatorDefinition> = {
+  contains: { label: 'contains', types: TEXT, operands: 1 },
+  equals: { label: 'equals', types: ALL, operands: 1 },
+  notEquals: { label: 'does not equal', types: ALL, operands: 1 },
+  startsWith: { label: 'starts with', types: TEXT, operands: 1 },
+  endsWith: { label: 'ends with', types: TEXT, operands: 1 },
+  gt: { label: '>', types: NUMERIC, operands: 1 },
+  gte: { label: '>=', types: NUMERIC, operands: 1 },
+  lt: { label: '<', types: NUMERIC, operands: 1 },
+  lte: { label: '<=', types: NUMERIC, operands: 1 },
+  between: { label: 'between', types: NUMERIC, operands: 2 },
+  isEmpty: { label: 'is empty', types: TEXT, operands: 0 },
+  isNotEmpty: { label: 'is not empty', types: TEXT, operands: 0 },
+};
+
+/**
+ * Lists the operator ids that apply to a field type
+ * @param {FilterFieldType} type - The field type
+ * @returns {string[]} Operator ids in display order
+ */
+export const getOperatorsForType = (type: FilterFieldType): string[] =>
+  Object.keys(FILTER_OPERATORS).filter(key => FILTER_OPERATORS[key].types.includes(type));
+
+/**
+ * Number of values an operator takes (unknown operators take one)
+ */
+export const getOperandCount = (operator: string): number =>
+  FILTER_OPERATORS[operator]?.operands ?? 1;
+
+/**
+ * Parses a filter value for a numeric field
+ * @param {FilterFieldType} type - The field type
+ * @param {string} input - The value typed by the user
+ * @returns {number | null} The numeric value, or null if it cannot be parsed
+ */
+export const parseNumericValue = (type: FilterFieldType, input: string): number | null => {
+  if (type === 'bytes') return parseBytes(input);
+  if (input.trim() === '') return null;
+  const value = Number(input);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Checks the values of a condition against its field type
+ * @param {FilterCondition} condition - The condition to check
+ * @param {FilterFieldType} type - The type of the condition's field
+ * @returns {string | null} A message describing the problem, or null if valid
+ */
+export const validateConditionValues = (condition: FilterCondition, type: FilterFieldType): string | null => {
+  const operands = getOperandCount(condition.operator);
+  if (operands === 0) return null;
+  const values = operands === 2 ? [condition.value, condition.valueTo ?? ''] : [condition.value];
+  if (type === 'string') {
+    return values.some(value => value === '') ? 'A value is required' : null;
+  }
+  if (values.some(value => parseNumericValue(type, value) === null)) {
+    return type === 'bytes' ? 'Enter a size such as 500 GB or 1.5 TB' : 'Enter a number';
+  }
+  return null;
+};
+
+/**
+ * Builds the chip label for a condition, e.g. "size between 1 TB and 2 TB"
+ * @param {FilterCondition} condition - The condition to describe
+ * @returns {string} The label
+ */
+export const describeCondition = (condition: FilterCondition): string => {
+  const definition = FILTER_OPERATORS[condition.operator];
+  // Comparison operators read better as symbols ("size > 1 TB")
+  const operator = definition && /^[<>]/.test(definition.label) ? definition.label : condition.operator;
+  if (definition?.operands === 0) return `${condition.field} ${operator}`;
+  if (definition?.operands === 2) {
+    return `${condition.field} ${operator} ${condition.value} and ${condition.valueTo ?? ''}`;
+  }
+  return `${condition.field} ${operator} ${condition.value}`;
+};
+
+/**
+ * FilterElement Interface
+ *
+ * Represents a single element in the filter expression builder.
+ * Can be a filter condition, operator, or parenthesis.
+ */
+export interface FilterElement {
+  id: string;
+  type: 'filter' | 'operator' | 'parenthesis';
+  value: string;
+  filter?: FilterCondition;
+  parenthesisType?: 'open' | 'close';
+}
+
+/**
+ * Token produced by the tokenizer
+ * @property {number} position - Index of the originating element in the filter list
+ */
+type Token =
+  | { kind: 'condition'; position: number; condition: FilterCondition }
+  | { kind: 'and' | 'or' | 'lparen' | 'rparen'; position: number }
+  | { kind: 'end'; position: number };
+
+/**
+ * Filter AST node types
+ */
+export type FilterNode =
+  | { kind: 'condition'; condition: FilterCondition }
+  | { kind: 'and' | 'or'; left: FilterNode; right: FilterNode };
+
+/**
+ * Error raised for malformed filter expressions
+ * @property {number} position - Index of the offending element (equal to the
+ *   element count when the expression ends unexpectedly)
+ * @property {string} detail - The problem without the position prefix, for
+ *   callers that report positions differently (e.g. text queries)
+ */
+export class FilterParseError extends Error {
+  position: number;
+  detail: string;
+
+  constructor(detail: string, position: number, elementCount: number) {
+    super(`${position >= elementCount ? 'At the end' : `Element ${position + 1}`}: ${detail}`);
+    this.name = 'FilterParseError';
+    this.position = position;
+    this.detail = detail;
+  }
+}
+
+/**
+ * Human-readable description of a token, used in error messages
+ */
+const describeToken = (token: Token): string => {
+  switch (token.kind) {
+    case 'condition':
+      return `filter "${describeCondition(token.condition)}"`;
+    case 'and':
+      return 'AND';
+    case 'or':
+      return 'OR';
+    case 'lparen':
+      return '"("';
+    case 'rparen':
+      return '")"';
+    default:
+      return 'end of filter';
+  }
+};
+
+/**
+ * Converts filter elements into tokens
+ * @param {FilterElement[]} elements - The filter elements to tokenize
+ * @returns {Token[]} Token list terminated by an 'end' token
+ * @throws {FilterParseError} If an element cannot be recognised
+ */
+export const tokenizeFilterElements = (elements: FilterElement[]): Token[] => {
+  const tokens: Token[] = elements.map((element, position): Token => {
+    if (element.type === 'filter') {
+      if (!element.filter) {
+        throw new FilterParseError('filter has no condition', position, elements.length);
+      }
+      return { kind: 'condition', position, condition: element.filter };
+    }
+    if (element.type === 'operator') {
+      const operator = element.value.toUpperCase();
+      if (operator === 'AND') return { kind: 'and', position };
+      if (operator === 'OR') return { kind: 'or', position };
+      throw new FilterParseError(`unknown operator "${element.value}"`, position, elements.length);
+    }
+    if (element.type === 'parenthesis') {
+      const isOpen = element.parenthesisType ? element.parenthesisType === 'open' : element.value === '(';
+      return { kind: isOpen ? 'lparen' : 'rparen', position };
+    }
+    throw new FilterParseError('unknown element type', position, elements.length);
+  });
+  tokens.push({ kind: 'end', position: elements.length });
+  return tokens;
+};
+
+/**
+ * Parses filter elements into an AST
+ * @param {FilterElement[]} elements - The filter elements to parse
+ * @returns {FilterNode | null} The root node, or null for an empty filter
+ * @throws {FilterParseError} If the expression is malformed
+ */
+export const parseFilterElements = (elements: FilterElement[]): FilterNode | null => {
+  if (elements.length === 0) return null;
+
+  const tokens = tokenizeFilterElements(elements);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const fail = (detail: string, position: number) =>
+    new FilterParseError(detail, position, elements.length);
+
+  const parsePrimary = (): FilterNode => {
+    const token = next();
+    if (token.kind === 'condition') {
+      return { kind: 'condition', condition: token.condition };
+    }
+    if (token.kind === 'lparen') {
+      if (peek().kind === 'rparen') {
+        throw fail('empty parentheses', peek().position);
+      }
+      const inner = parseExpression();
+      const closing = next();
+      if (closing.kind !== 'rparen') {
+        throw fail(
+          `expected ")" to close "(" but found ${describeToken(closing)}`,
+          closing.kind === 'end' ? token.position : closing.position
+        );
+      }
+      return inner;
+    }
+    throw fail(`expected a filter or "(" but found ${describeToken(token)}`, token.position);
+  };
+
+  const parseAnd = (): FilterNode => {
+    let node = parsePrimary();
+    while (peek().kind === 'and') {
+      next();
+      node = { kind: 'and', left: node, right: parsePrimary() };
+    }
+    return node;
+  };
+
+  function parseExpression(): FilterNode {
+    let node = parseAnd();
+    while (peek().kind === 'or') {
+      next();
+      node = { kind: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  }
+
+  const root = parseExpression();
+  const trailing = peek();
+  if (trailing.kind !== 'end') {
+    throw fail(
+      trailing.kind === 'rparen'
+        ? '")" has no matching "("'
+        : `expected AND or OR before ${describeToken(trailing)}`,
+      trailing.position
+    );
+  }
+  return root;
+};
+
+/**
+ * Validates filter elements without throwing
+ * @param {FilterElement[]} elements - The filter elements to validate
+ * @returns {FilterParseError | null} The first error found, or null if valid
+ */
+export const validateFilterElements = (elements: FilterElement[]): FilterParseError | null => {
+  try {
+    parseFilterElements(elements);
+    return null;
+  } catch (error) {
+    if (error instanceof FilterParseError) return error;
+    throw error;
+  }
+};
+
+/**
+ * Evaluates a single condition against a field value
+ * String comparisons are case-insensitive; 'N/A' counts as empty.
+ * Number and byte-size fields compare the raw value against the parsed
+ * condition value; an unparseable condition value matches nothing. Text
+ * operators on numeric fields (from filters saved before fields were typed)
+ * compare against the formatted value instead.
+ * @param {FilterCondition} condition - The condition to test
+ * @param {string | number | null | undefined} value - The row's raw value for the field
+ * @param {FilterFieldType} [type='string'] - The field's data type
+ * @returns {boolean} Whether the value satisfies the condition
+ */
+export const evaluateCondition = (
+  condition: FilterCondition,
+  value: string | number | null | undefined,
+  type: FilterFieldType = 'string'
+): boolean => {
+  if (type !== 'string' && FILTER_OPERATORS[condition.operator]?.types.includes(type)) {
+    if (typeof value !== 'number') return false;
+    const expected = parseNumericValue(type, condition.value);
+    if (expected === null) return false;
+    switch (condition.operator) {
+      case 'equals':
+        return value === expected;
+      case 'notEquals':
+        return value !== expected;
+      case 'gt':
+        return value > expected;
+      case 'gte':
+        return value >= expected;
+      case 'lt':
+        return value < expected;
+      case 'lte':
+        return value <= expected;
+      case 'between': {
+        const upper = parseNumericValue(type, condition.valueTo ?? '');
+        if (upper === null) return false;
+        return value >= Math.min(expected, upper) && value <= Math.max(expected, upper);
+      }
+      default:
+        return false;
+    }
+  }
+
+  const text = value === null || value === undefined
+    ? ''
+    : type === 'bytes' && typeof value === 'number' ? formatBytes(value) : String(value);
+  const actual = text.toLowerCase();
+  const expected = condition.value.toLowerCase();
+  switch (condition.operator) {
+    case 'contains':
+      return actual.includes(expected);
+    case 'equals':
+      return actual === expected;
+    case 'notEquals':
+      return actual !== expected;
+    case 'startsWith':
+      return actual.startsWith(expected);
+    case 'endsWith':
+      return actual.endsWith(expected);
+    case 'isEmpty':
+      return !text || text === 'N/A';
+    case 'isNotEmpty':
+      return Boolean(text && text !== 'N/A');
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluates a parsed filter tree against a row
+ * Conditions on fields that are not in the field list match nothing.
+ * @param {FilterNode | null} node - Root of the filter AST (null matches everything)
+ * @param {T} row - The row to test
+ * @param {FilterField<T>[]} fields - The filterable fields of the row type
+ * @returns {boolean} Whether the row matches the filter
+ */
+export const evaluateFilter = <T>(
+  node: FilterNode | null,
+  row: T,
+  fields: FilterField<T>[]
+): boolean => {
+  if (!node) return true;
+  switch (node.kind) {
+    case 'condition': {
+      const field = fields.find(f => f.field === node.condition.field);
+      if (!field) return false;
+      return evaluateCondition(node.condition, field.getValue(row), field.type);
+    }
+    case 'and':
+      return evaluateFilter(node.left, row, fields) && evaluateFilter(node.right, row, fields);
+    case 'or':
+      return evaluateFilter(node.left, row, fields) || evaluateFilter(node.right, row, fields);
+  }
+};
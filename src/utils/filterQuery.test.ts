@@ -0,0 +1,60 @@
+import { FilterField } from './filterExpression';
+import {
+  FilterQueryError,
+  parseFilterQuery,
+  serializeFilterElements,
+  getQuerySuggestions,
+} from './filterQuery';
+
+interface Row {
+  region: string;
+  size: number;
+  storageClass: string;
+}
+
+const fields: FilterField<Row>[] = [
+  { field: 'region', label: 'Region', type: 'string', getValue: row => row.region },
+  { field: 'size', label: 'Size', type: 'bytes', getValue: row => row.size },
+  { field: 'storageClass', label: 'Storage Class', type: 'string', getValue: row => row.storageClass },
+];
+
+describe('parseFilterQuery', () => {
+  test('compiles a query to chip elements', () => {
+    const elements = parseFilterQuery('region = us-east-1 AND (size > 1TB OR storageClass != GLACIER)', fields);
+    expect(elements.map(element => element.type)).toEqual([
+      'filter', 'operator', 'parenthesis', 'filter', 'operator', 'filter', 'parenthesis',
+    ]);
+    expect(elements[0].filter).toEqual({ field: 'region', operator: 'equals', value: 'us-east-1' });
+    expect(elements[3].filter).toEqual({ field: 'size', operator: 'gt', value: '1TB' });
+    expect(elements[5].filter).toEqual({ field: 'storageClass', operator: 'notEquals', value: 'GLACIER' });
+  });
+
+  test('round-trips through the serializer', () => {
+    const query = 'size between 500GB and 1.5TB OR (region contains "us east" AND storageClass is not empty)';
+    expect(serializeFilterElements(parseFilterQuery(query, fields))).toBe(query);
+  });
+
+  test('joins a number and a unit for byte fields', () => {
+    const [element] = parseFilterQuery('size >= 1.5 TB', fields);
+    expect(element.filter?.value).toBe('1.5 TB');
+  });
+
+  test('reports the column of an unknown field', () => {
+    expect(() => parseFilterQuery('region = a AND regoin = b', fields)).toThrow(
+      new FilterQueryError('unknown field "regoin"', 15, 21)
+    );
+  });
+
+  test('reports structural errors at the offending token', () => {
+    expect(() => parseFilterQuery('(region = a', fields)).toThrow(/^Column 1: expected "\)"/);
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  test('suggests fields, then operators, then known values', () => {
+    expect(getQuerySuggestions('sto', 3, fields, {}).items.map(item => item.label)).toEqual(['storageClass']);
+    expect(getQuerySuggestions('size ', 5, fields, {}).items.map(item => item.label)).toContain('>');
+    const values = getQuerySuggestions('region = us', 11, fields, { region: ['us-east-1', 'eu-west-1'] });
+    expect(values).toMatchObject({ from: 9, to: 11, items: [{ label: 'us-east-1' }] });
+  });
+});
@@ -0,0 +1,518 @@
+/**
+ * Filter Query Language
+ *
+ * A text syntax for the same filters the chip builder produces, e.g.
+ *
+ *   region = us-east-1 AND (size > 1TB OR storageClass != GLACIER)
+ *
+ * Queries compile to the FilterElement list used by the chip UI, and filter
+ * elements serialize back to query text, so both editors stay in sync.
+ *
+ * Technical Concepts:
+ * 1. Lexer: splits the query into tokens that remember their character offsets
+ * 2. Condition parser: reads `field operator value` triples between AND/OR/parens
+ * 3. Structural validation: reuses the filter expression parser and maps its
+ *    element positions back to character offsets
+ * 4. Autocomplete: a small state machine over the tokens before the cursor
+ *
+ * Syntax:
+ * - Comparisons: `=`, `!=`, `>`, `>=`, `<`, `<=`
+ * - Word operators: contains, equals, startsWith, endsWith, `is empty`,
+ *   `is not empty`, `between <low> and <high>`
+ * - Values containing spaces or reserved characters are double-quoted
+ * - Byte sizes may be written as `1.5TB`, `500 GB` or a plain byte count
+ */
+
+import {
+  FilterCondition,
+  FilterElement,
+  FilterField,
+  FilterParseError,
+  getOperandCount,
+  getOperatorsForType,
+  parseFilterElements,
+  validateConditionValues,
+  describeCondition,
+} from './filterExpression';
+import { parseBytes } from './formatBytes';
+
+type QueryTokenKind = 'lparen' | 'rparen' | 'and' | 'or' | 'symbol' | 'word' | 'string';
+
+/**
+ * QueryToken Interface
+ * @property {string} value - Token text with quotes and escapes removed
+ * @property {number} start - Offset of the first character in the query
+ * @property {number} end - Offset just past the last character
+ * @property {boolean} [unterminated] - Set for a string missing its closing quote
+ */
+interface QueryToken {
+  kind: QueryTokenKind;
+  value: string;
+  start: number;
+  end: number;
+  unterminated?: boolean;
+}
+
+/**
+ * Error raised for malformed queries
+ * @property {number} start - Offset where the problem starts
+ * @property {number} end - Offset where the problem ends
+ */
+export class FilterQueryError extends Error {
+  start: number;
+  end: number;
+
+  constructor(detail: string, start: number, end: number) {
+    super(`Column ${start + 1}: ${detail}`);
+    this.name = 'FilterQueryError';
+    this.start = start;
+    this.end = end;
+  }
+}
+
+/**
+ * Operator spellings accepted in queries, mapped to operator ids
+ * `is empty` / `is not empty` are handled separately as they span several words.
+ */
+const SYMBOL_OPERATORS: Record<string, string> = {
+  '=': 'equals',
+  '!=': 'notEquals',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+const WORD_OPERATORS: Record<string, string> = {
+  contains: 'contains',
+  equals: 'equals',
+  startswith: 'startsWith',
+  endswith: 'endsWith',
+  between: 'between',
+};
+
+/**
+ * Preferred query spelling of each operator id, used when serializing
+ */
+const OPERATOR_TEXT: Record<string, string> = {
+  equals: '=',
+  notEquals: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  contains: 'contains',
+  startsWith: 'startsWith',
+  endsWith: 'endsWith',
+  between: 'between',
+  isEmpty: 'is empty',
+  isNotEmpty: 'is not empty',
+};
+
+const SYMBOL_CHARS = '=!<>';
+
+/**
+ * Splits a query into tokens
+ * @param {string} query - The query text
+ * @param {boolean} [lenient=false] - Accept an unterminated string instead of throwing
+ * @returns {QueryToken[]} The tokens in order
+ * @throws {FilterQueryError} On unexpected characters or unterminated strings
+ */
+const lexQuery = (query: string, lenient = false): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, start: i, end: i + 1 });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== char) {
+        if (query[i] === '\\' && i + 1 < query.length) i++;
+        value += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        if (!lenient) throw new FilterQueryError('missing closing quote', start, query.length);
+        tokens.push({ kind: 'string', value, start, end: query.length, unterminated: true });
+      } else {
+        i++;
+        tokens.push({ kind: 'string', value, start, end: i });
+      }
+    } else if (SYMBOL_CHARS.includes(char)) {
+      const start = i;
+      const pair = query.slice(i, i + 2);
+      const text = SYMBOL_OPERATORS[pair] ? pair : char;
+      if (!SYMBOL_OPERATORS[text]) {
+        if (!lenient) throw new FilterQueryError(`unexpected "${char}"`, start, start + 1);
+      }
+      i += text.length;
+      tokens.push({ kind: 'symbol', value: text, start, end: i });
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"']/.test(query[i]) && !SYMBOL_CHARS.includes(query[i])) i++;
+      const value = query.slice(start, i);
+      const upper = value.toUpperCase();
+      const kind: QueryTokenKind = upper === 'AND' ? 'and' : upper === 'OR' ? 'or' : 'word';
+      tokens.push({ kind, value, start, end: i });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Finds a field by its key, ignoring case
+ */
+const findField = <T>(fields: FilterField<T>[], name: string) =>
+  fields.find(field => field.field.toLowerCase() === name.toLowerCase());
+
+/**
+ * Whether a value needs quoting to survive a round trip through the lexer
+ */
+const needsQuotes = (value: string) =>
+  value === '' || /[\s()"'=!<>\\]/.test(value) || /^(and|or)$/i.test(value);
+
+/**
+ * Formats a value for a query, compacting byte sizes ("500 GB" → "500GB")
+ */
+const formatQueryValue = (value: string): string => {
+  const size = /^(\d+(?:\.\d+)?)\s+([a-z]+)$/i.exec(value);
+  if (size && parseBytes(value) !== null) return `${size[1]}${size[2]}`;
+  return needsQuotes(value) ? `"${value.replace(/(["\\])/g, '\\$1')}"` : value;
+};
+
+/**
+ * Serializes a single condition to query text
+ */
+const serializeCondition = (condition: FilterCondition): string => {
+  const operator = OPERATOR_TEXT[condition.operator] ?? condition.operator;
+  const operands = getOperandCount(condition.operator);
+  if (operands === 0) return `${condition.field} ${operator}`;
+  if (operands === 2) {
+    return `${condition.field} ${operator} ${formatQueryValue(condition.value)} and ${formatQueryValue(condition.valueTo ?? '')}`;
+  }
+  return `${condition.field} ${operator} ${formatQueryValue(condition.value)}`;
+};
+
+/**
+ * Serializes filter elements to query text
+ * @param {FilterElement[]} elements - The chip elements
+ * @returns {string} Equivalent query text
+ */
+export const serializeFilterElements = (elements: FilterElement[]): string => {
+  let query = '';
+  elements.forEach(element => {
+    let text: string;
+    if (element.type === 'filter' && element.filter) {
+      text = serializeCondition(element.filter);
+    } else if (element.type === 'parenthesis') {
+      text = element.parenthesisType === 'close' || element.value === ')' ? ')' : '(';
+    } else {
+      text = element.value.toUpperCase();
+    }
+    const joinTight = query === '' || query.endsWith('(') || text === ')';
+    query += joinTight ? text : ` ${text}`;
+  });
+  return query;
+};
+
+/**
+ * Parses query text into filter elements
+ * @param {string} query - The query text
+ * @param {FilterField<T>[]} fields - Fields that may be referenced
+ * @returns {FilterElement[]} The equivalent chip elements (empty for a blank query)
+ * @throws {FilterQueryError} If the query is malformed
+ */
+export const parseFilterQuery = <T>(query: string, fields: FilterField<T>[]): FilterElement[] => {
+  const tokens = lexQuery(query);
+  const elements: FilterElement[] = [];
+  const spans: Array<{ start: number; end: number }> = [];
+  let index = 0;
+
+  const newId = () => Math.random().toString(36).substr(2, 9);
+  const endOfQuery = () => new FilterQueryError('unexpected end of query', query.length, query.length);
+
+  /**
+   * Reads one value, joining a number and a following unit for numeric fields
+   */
+  const readValue = (numeric: boolean): { value: string; end: number } => {
+    const token = tokens[index];
+    if (!token) throw endOfQuery();
+    if (token.kind !== 'word' && token.kind !== 'string') {
+      throw new FilterQueryError(`expected a value but found "${token.value}"`, token.start, token.end);
+    }
+    index++;
+    const unit = tokens[index];
+    if (
+      numeric &&
+      token.kind === 'word' &&
+      unit?.kind === 'word' &&
+      /^(\d+(\.\d+)?|\.\d+)$/.test(token.value) &&
+      parseBytes(`${token.value} ${unit.value}`) !== null
+    ) {
+      index++;
+      return { value: `${token.value} ${unit.value}`, end: unit.end };
+    }
+    return { value: token.value, end: token.end };
+  };
+
+  /**
+   * Reads the operator after a field name, including multi-word forms
+   */
+  const readOperator = (): string => {
+    const token = tokens[index];
+    if (!token) throw endOfQuery();
+    index++;
+    if (token.kind === 'symbol' && SYMBOL_OPERATORS[token.value]) {
+      return SYMBOL_OPERATORS[token.value];
+    }
+    if (token.kind === 'word') {
+      const word = token.value.toLowerCase();
+      if (WORD_OPERATORS[word]) return WORD_OPERATORS[word];
+      if (word === 'is') {
+        const negated = tokens[index]?.kind === 'word' && tokens[index].value.toLowerCase() === 'not';
+        if (negated) index++;
+        const empty = tokens[index];
+        if (empty?.kind === 'word' && empty.value.toLowerCase() === 'empty') {
+          index++;
+          return negated ? 'isNotEmpty' : 'isEmpty';
+        }
+        const at = empty ?? token;
+        throw new FilterQueryError(`expected "empty" after "${negated ? 'is not' : 'is'}"`, at.start, at.end);
+      }
+    }
+    throw new FilterQueryError(`unknown operator "${token.value}"`, token.start, token.end);
+  };
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+
+    if (token.kind === 'lparen' || token.kind === 'rparen') {
+      index++;
+      elements.push({
+        id: newId(),
+        type: 'parenthesis',
+        value: token.value,
+        parenthesisType: token.kind === 'lparen' ? 'open' : 'close',
+      });
+      spans.push(token);
+      continue;
+    }
+
+    if (token.kind === 'and' || token.kind === 'or') {
+      index++;
+      elements.push({ id: newId(), type: 'operator', value: token.kind.toUpperCase() });
+      spans.push(token);
+      continue;
+    }
+
+    if (token.kind !== 'word') {
+      throw new FilterQueryError(`expected a field name but found "${token.value}"`, token.start, token.end);
+    }
+
+    const field = findField(fields, token.value);
+    if (!field) {
+      throw new FilterQueryError(`unknown field "${token.value}"`, token.start, token.end);
+    }
+    index++;
+
+    const operatorToken = tokens[index];
+    const operator = readOperator();
+    if (!getOperatorsForType(field.type).includes(operator)) {
+      const at = operatorToken;
+      throw new FilterQueryError(`"${at.value}" cannot be used with ${field.field}`, at.start, tokens[index - 1].end);
+    }
+
+    const condition: FilterCondition = { field: field.field, operator, value: '' };
+    let end = tokens[index - 1].end;
+    const numeric = field.type !== 'string';
+    const operands = getOperandCount(operator);
+    if (operands >= 1) {
+      const first = readValue(numeric);
+      condition.value = first.value;
+      end = first.end;
+    }
+    if (operands === 2) {
+      const and = tokens[index];
+      if (!and) throw endOfQuery();
+      if (and.kind !== 'and') {
+        throw new FilterQueryError('expected "and" between the two "between" values', and.start, and.end);
+      }
+      index++;
+      const second = readValue(numeric);
+      condition.valueTo = second.value;
+      end = second.end;
+    }
+
+    const valueError = validateConditionValues(condition, field.type);
+    if (valueError) {
+      throw new FilterQueryError(`${valueError} for ${field.field}`, token.start, end);
+    }
+
+    elements.push({ id: newId(), type: 'filter', value: describeCondition(condition), filter: condition });
+    spans.push({ start: token.start, end });
+  }
+
+  try {
+    parseFilterElements(elements);
+  } catch (error) {
+    if (error instanceof FilterParseError) {
+      const span = spans[error.position] ?? { start: query.length, end: query.length };
+      throw new FilterQueryError(error.detail, span.start, span.end);
+    }
+    throw error;
+  }
+
+  return elements;
+};
+
+/**
+ * QuerySuggestion Interface
+ * @property {string} label - Text shown in the suggestion list
+ * @property {string} insertText - Text that replaces the word being typed
+ * @property {string} [detail] - Secondary text, e.g. the kind of suggestion
+ */
+export interface QuerySuggestion {
+  label: string;
+  insertText: string;
+  detail?: string;
+}
+
+/**
+ * QuerySuggestions Interface
+ * @property {number} from - Start of the range the chosen suggestion replaces
+ * @property {number} to - End of the range the chosen suggestion replaces
+ */
+export interface QuerySuggestions {
+  from: number;
+  to: number;
+  items: QuerySuggestion[];
+}
+
+const MAX_SUGGESTIONS = 20;
+const BYTE_EXAMPLES = ['1GB', '100GB', '500GB', '1TB', '10TB'];
+
+/**
+ * Computes autocomplete suggestions for the cursor position
+ * @param {string} query - The query text
+ * @param {number} cursor - Cursor offset within the query
+ * @param {FilterField<T>[]} fields - Fields that may be referenced
+ * @param {Record<string, string[]>} knownValues - Known values per field key
+ * @returns {QuerySuggestions} Suggestions and the range they replace
+ */
+export const getQuerySuggestions = <T>(
+  query: string,
+  cursor: number,
+  fields: FilterField<T>[],
+  knownValues: Record<string, string[]>
+): QuerySuggestions => {
+  const tokens = lexQuery(query.slice(0, cursor), true);
+
+  // A word or string touching the cursor is the prefix being typed
+  const last = tokens[tokens.length - 1];
+  const typing = last && last.end === cursor && (last.kind === 'word' || last.kind === 'string' || last.kind === 'and' || last.kind === 'or');
+  const previous = typing ? tokens.slice(0, -1) : tokens;
+  const prefix = typing ? last.value.toLowerCase() : '';
+  const from = typing ? last.start : cursor;
+
+  type State = 'term' | 'operator' | 'is' | 'isNot' | 'value' | 'betweenAnd' | 'after';
+  let state = 'term' as State;
+  let field: FilterField<T> | undefined;
+  let between = false;
+  let betweenFirstRead = false;
+
+  previous.forEach(token => {
+    const word = token.value.toLowerCase();
+    switch (state) {
+      case 'term':
+        if (token.kind === 'word' || token.kind === 'string') {
+          field = findField(fields, token.value);
+          state = 'operator';
+        }
+        break;
+      case 'operator':
+        between = word === 'between';
+        betweenFirstRead = false;
+        state = word === 'is' ? 'is' : 'value';
+        break;
+      case 'is':
+        state = word === 'not' ? 'isNot' : 'after';
+        break;
+      case 'isNot':
+        state = 'after';
+        break;
+      case 'value':
+        if (between && !betweenFirstRead) {
+          betweenFirstRead = true;
+          state = 'betweenAnd';
+        } else {
+          state = 'after';
+        }
+        break;
+      case 'betweenAnd':
+        state = token.kind === 'and' ? 'value' : 'betweenAnd';
+        break;
+      case 'after':
+        if (token.kind === 'and' || token.kind === 'or') state = 'term';
+        break;
+    }
+    if (token.kind === 'lparen') state = 'term';
+  });
+
+  let items: QuerySuggestion[] = [];
+  switch (state) {
+    case 'term':
+      items = [
+        ...fields.map(f => ({ label: f.field, insertText: `${f.field} `, detail: f.label })),
+        { label: '(', insertText: '(', detail: 'group' },
+      ];
+      break;
+    case 'operator':
+      items = getOperatorsForType(field?.type ?? 'string').map(operator => ({
+        label: OPERATOR_TEXT[operator],
+        insertText: `${OPERATOR_TEXT[operator]} `,
+        detail: 'operator',
+      }));
+      break;
+    case 'is':
+      items = [
+        { label: 'empty', insertText: 'empty ' },
+        { label: 'not empty', insertText: 'not empty ' },
+      ];
+      break;
+    case 'isNot':
+      items = [{ label: 'empty', insertText: 'empty ' }];
+      break;
+    case 'value': {
+      const values = field?.type === 'bytes' ? BYTE_EXAMPLES : (field && knownValues[field.field]) || [];
+      items = values.map(value => ({ label: value, insertText: `${formatQueryValue(value)} `, detail: 'value' }));
+      break;
+    }
+    case 'betweenAnd':
+      items = [{ label: 'and', insertText: 'and ' }];
+      break;
+    case 'after':
+      items = [
+        { label: 'AND', insertText: 'AND ' },
+        { label: 'OR', insertText: 'OR ' },
+        { label: ')', insertText: ')' },
+      ];
+      break;
+  }
+
+  return {
+    from,
+    to: cursor,
+    items: items
+      .filter(item => item.label.toLowerCase().startsWith(prefix) && item.label.toLowerCase() !== prefix)
+      .slice(0, MAX_SUGGESTIONS),
+  };
+};
@@ -0,0 +1,59 @@
+/**
+ * Byte Size Helpers
+ *
+ * Converts between raw byte counts and human-readable sizes.
+ * Both directions use binary (1024-based) units so that a value typed
+ * into a filter matches what the tables display.
+ */
+
+const BYTE_UNITS = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
+
+/**
+ * Unit suffixes accepted by parseBytes, mapped to their power of 1024
+ */
+const UNIT_EXPONENTS: Record<string, number> = {
+  '': 0,
+  b: 0,
+  byte: 0,
+  bytes: 0,
+  k: 1,
+  kb: 1,
+  kib: 1,
+  m: 2,
+  mb: 2,
+  mib: 2,
+  g: 3,
+  gb: 3,
+  gib: 3,
+  t: 4,
+  tb: 4,
+  tib: 4,
+  p: 5,
+  pb: 5,
+  pib: 5,
+};
+
+/**
+ * Helper function to format byte sizes into human-readable format
+ * @param bytes - The number of bytes to format
+ * @returns Formatted string with appropriate unit (Bytes, KB, MB, GB, TB, PB)
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), BYTE_UNITS.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + BYTE_UNITS[i];
+};
+
+/**
+ * Parses a human-readable size such as "1.5 TB", "500GB" or "2048" into bytes
+ * @param input - The size to parse; a bare number is treated as bytes
+ * @returns The size in bytes, or null if the input is not a valid size
+ */
+export const parseBytes = (input: string): number | null => {
+  const match = /^\s*(\d+(?:\.\d+)?|\.\d+)\s*([a-z]*)\s*$/i.exec(input);
+  if (!match) return null;
+  const exponent = UNIT_EXPONENTS[match[2].toLowerCase()];
+  if (exponent === undefined) return null;
+  return Math.round(parseFloat(match[1]) * Math.pow(1024, exponent));
+};
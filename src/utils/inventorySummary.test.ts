@@ -0,0 +1,50 @@
+import { EC2Instance, RDSCluster, S3Bucket } from '../types/inventory';
+import { getInventoryScopes, getSummarySnapshotKey, summarizeInventory } from './inventorySummary';
+
+const account = (name: string) => ({ Account: { data: { id: name, type: 'accounts', name } } });
+
+const bucket = (region: string, accountName: string, SizeBytes: number) =>
+  ({ attributes: { Region: region, SizeBytes }, relationships: account(accountName) }) as unknown as S3Bucket;
+const instance = (region: string, accountName: string, State: string) =>
+  ({ attributes: { Region: region, State }, relationships: account(accountName) }) as unknown as EC2Instance;
+const cluster = (region: string, accountName: string) =>
+  ({ attributes: { Region: region }, relationships: account(accountName) }) as unknown as RDSCluster;
+
+const inventory = {
+  s3Buckets: [bucket('us-east-1', 'Prod', 100), bucket('eu-west-1', 'Prod', 50), bucket('us-east-1', 'Dev', 5)],
+  ec2Instances: [
+    instance('us-east-1', 'Prod', 'running'),
+    instance('us-east-1', 'Prod', 'stopped'),
+    instance('eu-west-1', 'Dev', 'running'),
+  ],
+  rdsClusters: [cluster('us-east-1', 'Prod'), cluster('ap-south-1', 'Dev')],
+};
+
+describe('summarizeInventory', () => {
+  test('counts and totals all resources without a scope', () => {
+    const summary = summarizeInventory(inventory, { account: '', region: '' });
+    expect(summary['s3.count']).toBe(3);
+    expect(summary['s3.bytes']).toBe(155);
+    expect(summary['ec2.count']).toBe(3);
+    expect(summary['ec2.state.running']).toBe(2);
+    expect(summary['ec2.state.stopped']).toBe(1);
+    expect(summary['ec2.state.terminated']).toBe(0);
+    expect(summary['rds.count']).toBe(2);
+  });
+
+  test('restricts the summary to an account and region', () => {
+    const summary = summarizeInventory(inventory, { account: 'Prod', region: 'us-east-1' });
+    expect(summary['s3.count']).toBe(1);
+    expect(summary['s3.bytes']).toBe(100);
+    expect(summary['ec2.count']).toBe(2);
+    expect(summary['rds.count']).toBe(1);
+  });
+
+  test('lists scopes and keys histories by scope', () => {
+    expect(getInventoryScopes(inventory)).toEqual({
+      accounts: ['Dev', 'Prod'],
+      regions: ['ap-south-1', 'eu-west-1', 'us-east-1'],
+    });
+    expect(getSummarySnapshotKey({ account: '', region: 'us-east-1' })).toBe('inventory-summary:*:us-east-1');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Inventory Summary
+ *
+ * Condenses the loaded inventory into the headline numbers shown on summary
+ * cards: S3 bucket count and total size, EC2 instance count by state and RDS
+ * cluster count, optionally scoped to one account and/or region.
+ *
+ * Summaries are plain number records so they can be recorded as snapshots
+ * and compared against earlier ones for trends.
+ */
+
+import { EC2Instance, EC2InstanceState, RDSCluster, S3Bucket } from '../types/inventory';
+
+/**
+ * Restricts a summary to one account and/or region
+ * @property {string} account - Account name, or '' for all accounts
+ * @property {string} region - Region, or '' for all regions
+ */
+export interface InventoryScope {
+  account: string;
+  region: string;
+}
+
+/**
+ * The inventory a summary is computed from
+ */
+export interface SummaryInventory {
+  s3Buckets: S3Bucket[];
+  ec2Instances: EC2Instance[];
+  rdsClusters: RDSCluster[];
+}
+
+/**
+ * EC2 states in lifecycle order, as listed on summary cards
+ */
+export const EC2_STATES: EC2InstanceState[] = ['pending', 'running', 'stopping', 'stopped', 'shutting-down', 'terminated'];
+
+/**
+ * Headline numbers per service
+ * Keys are stable because they are also the keys of recorded snapshots, which
+ * is why this is a plain record type usable as SnapshotValues.
+ */
+export type InventorySummary = {
+  's3.count': number;
+  's3.bytes': number;
+  'ec2.count': number;
+  'rds.count': number;
+  [ec2State: `ec2.state.${string}`]: number;
+};
+
+/**
+ * Whether a resource's account and region fall within the scope
+ */
+const inScope = (scope: InventoryScope, account: string, region: string): boolean =>
+  (!scope.account || scope.account === account) && (!scope.region || scope.region === region);
+
+/**
+ * Computes the summary of the inventory within a scope
+ * @param {SummaryInventory} inventory - Loaded resources
+ * @param {InventoryScope} scope - Account and region to restrict to
+ * @returns {InventorySummary} Counts and totals per service
+ */
+export const summarizeInventory = (inventory: SummaryInventory, scope: InventoryScope): InventorySummary => {
+  const buckets = inventory.s3Buckets.filter(bucket =>
+    inScope(scope, bucket.relationships.Account.data.name, bucket.attributes.Region));
+  const instances = inventory.ec2Instances.filter(instance =>
+    inScope(scope, instance.relationships.Account.data.name, instance.attributes.Region));
+  const clusters = inventory.rdsClusters.filter(cluster =>
+    inScope(scope, cluster.relationships.Account.data.name, cluster.attributes.Region));
+
+  const summary: InventorySummary = {
+    's3.count': buckets.length,
+    's3.bytes': buckets.reduce((total, bucket) => total + bucket.attributes.SizeBytes, 0),
+    'ec2.count': instances.length,
+    'rds.count': clusters.length,
+  };
+  EC2_STATES.forEach(state => {
+    summary[`ec2.state.${state}`] = instances.filter(instance => instance.attributes.State === state).length;
+  });
+  return summary;
+};
+
+/**
+ * Lists the accounts and regions present in the inventory, for scope pickers
+ * @param {SummaryInventory} inventory - Loaded resources
+ * @returns {Object} Sorted distinct account names and regions
+ */
+export const getInventoryScopes = (inventory: SummaryInventory): { accounts: string[]; regions: string[] } => {
+  const resources = [...inventory.s3Buckets, ...inventory.ec2Instances, ...inventory.rdsClusters];
+  const accounts = new Set(resources.map(resource => resource.relationships.Account.data.name));
+  const regions = new Set(resources.map(resource => resource.attributes.Region));
+  return {
+    accounts: Array.from(accounts).sort(),
+    regions: Array.from(regions).sort(),
+  };
+};
+
+/**
+ * Snapshot history key for a scope, so each scope keeps its own trend
+ * @param {InventoryScope} scope - The scope
+ * @returns {string} The key
+ */
+export const getSummarySnapshotKey = (scope: InventoryScope): string =>
+  `inventory-summary:${scope.account || '*'}:${scope.region || '*'}`;
+
@@ -0,0 +1,29 @@
+import { formatKpiValue, getKpiStatus, parseThreshold } from './kpi';
+
+const TB = 1024 ** 4;
+
+describe('KPI helpers', () => {
+  test('formats values in the configured unit', () => {
+    expect(formatKpiValue(1.5 * TB, 'auto', 'bytes')).toBe('1.5 TB');
+    expect(formatKpiValue(12345, 'auto', 'number')).toBe((12345).toLocaleString());
+    expect(formatKpiValue(2048, 'bytes', 'number')).toBe('2 KB');
+  });
+
+  test('parses thresholds in the value unit', () => {
+    expect(parseThreshold('50 TB', 'auto', 'bytes')).toBe(50 * TB);
+    expect(parseThreshold('10', 'number', 'number')).toBe(10);
+    expect(parseThreshold('', 'number', 'number')).toBeNull();
+    expect(parseThreshold('lots', 'number', 'number')).toBeNull();
+  });
+
+  test('evaluates thresholds in either direction', () => {
+    const above = { warning: '10', critical: '20', direction: 'above' as const };
+    expect(getKpiStatus(5, above, 'auto', 'number')).toBe('ok');
+    expect(getKpiStatus(10, above, 'auto', 'number')).toBe('warning');
+    expect(getKpiStatus(25, above, 'auto', 'number')).toBe('critical');
+
+    const below = { warning: '1 TB', critical: '', direction: 'below' as const };
+    expect(getKpiStatus(0.5 * TB, below, 'auto', 'bytes')).toBe('warning');
+    expect(getKpiStatus(2 * TB, below, 'auto', 'bytes')).toBe('ok');
+  });
+});
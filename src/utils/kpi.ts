@@ -0,0 +1,105 @@
+/**
+ * KPI Helpers
+ *
+ * Formatting and threshold evaluation for single-number (KPI) widgets.
+ * Thresholds are typed like filter values, so byte-sized KPIs accept
+ * thresholds such as "50 TB".
+ */
+
+import { FilterFieldType, parseNumericValue } from './filterExpression';
+import { formatBytes } from './formatBytes';
+
+/**
+ * How a KPI value is displayed
+ * - auto: byte sizes for byte metrics, plain numbers otherwise
+ * - bytes: with a binary size unit, e.g. "1.5 TB"
+ * - number: with thousands separators, e.g. "12,345"
+ * - compact: abbreviated, e.g. "12K"
+ */
+export type KpiUnit = 'auto' | 'bytes' | 'number' | 'compact';
+
+/**
+ * Whether values above or below the thresholds are a problem
+ */
+export type ThresholdDirection = 'above' | 'below';
+
+/**
+ * State of a KPI relative to its thresholds
+ */
+export type KpiStatus = 'ok' | 'warning' | 'critical';
+
+/**
+ * Threshold settings of a KPI, as entered by the user
+ * @property {string} warning - Warning threshold ('' for none)
+ * @property {string} critical - Critical threshold ('' for none)
+ * @property {ThresholdDirection} direction - Which side of a threshold is a problem
+ */
+export type KpiThresholds = {
+  warning: string;
+  critical: string;
+  direction: ThresholdDirection;
+};
+
+/**
+ * Resolves 'auto' to the unit matching the metric's values
+ * @param {KpiUnit} unit - The configured unit
+ * @param {FilterFieldType} valueType - Type of the metric's values
+ * @returns {KpiUnit} The unit to display values in
+ */
+export const resolveKpiUnit = (unit: KpiUnit, valueType: FilterFieldType): Exclude<KpiUnit, 'auto'> => {
+  if (unit !== 'auto') return unit;
+  return valueType === 'bytes' ? 'bytes' : 'number';
+};
+
+/**
+ * Formats a KPI value
+ * @param {number} value - The value
+ * @param {KpiUnit} unit - The configured unit
+ * @param {FilterFieldType} valueType - Type of the metric's values
+ * @returns {string} The formatted value
+ */
+export const formatKpiValue = (value: number, unit: KpiUnit, valueType: FilterFieldType): string => {
+  switch (resolveKpiUnit(unit, valueType)) {
+    case 'bytes':
+      return formatBytes(value);
+    case 'compact':
+      return new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+    default:
+      return value.toLocaleString();
+  }
+};
+
+/**
+ * Parses a threshold in the KPI's unit
+ * @param {string} input - The threshold as entered, e.g. "50 TB" or "1000"
+ * @param {KpiUnit} unit - The configured unit
+ * @param {FilterFieldType} valueType - Type of the metric's values
+ * @returns {number | null} The threshold, or null if empty or invalid
+ */
+export const parseThreshold = (input: string, unit: KpiUnit, valueType: FilterFieldType): number | null =>
+  parseNumericValue(resolveKpiUnit(unit, valueType) === 'bytes' ? 'bytes' : 'number', input);
+
+/**
+ * Evaluates a KPI value against its thresholds
+ * A value exactly at a threshold counts as crossing it.
+ * @param {number} value - The value
+ * @param {KpiThresholds} thresholds - The thresholds
+ * @param {KpiUnit} unit - The configured unit
+ * @param {FilterFieldType} valueType - Type of the metric's values
+ * @returns {KpiStatus} The status
+ */
+export const getKpiStatus = (
+  value: number,
+  thresholds: KpiThresholds,
+  unit: KpiUnit,
+  valueType: FilterFieldType
+): KpiStatus => {
+  const crosses = (input: string) => {
+    const threshold = parseThreshold(input, unit, valueType);
+    if (threshold === null) return false;
+    return thresholds.direction === 'below' ? value <= threshold : value >= threshold;
+  };
+  if (crosses(thresholds.critical)) return 'critical';
+  if (crosses(thresholds.warning)) return 'warning';
+  return 'ok';
+};
@@ -0,0 +1,414 @@
+/**
+ * Markdown Parser
+ *
+ * Parses the Markdown subset used for dashboard notes into a small syntax
+ * tree, which `MarkdownView` renders as React elements. Nothing is ever
+ * inserted as HTML: raw HTML in the source stays literal text, and link
+ * targets are restricted to safe protocols, so rendering user content is safe.
+ *
+ * Supported syntax:
+ * - Headings (`#` to `######`), paragraphs, horizontal rules and blockquotes
+ * - Bulleted and numbered lists, nested by indentation
+ * - Fenced code blocks (``` or ~~~) with an optional language
+ * - Tables (GitHub style, with `:---:` alignment)
+ * - Inline: **strong**, *emphasis*, ~~strikethrough~~, `code`, [links](url),
+ *   <https://autolinks> and bare http(s) URLs, backslash escapes and hard
+ *   line breaks (two trailing spaces or a trailing backslash)
+ */
+
+/**
+ * Inline content of a block
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+/**
+ * Column alignment of a table
+ */
+export type MarkdownAlign = 'left' | 'center' | 'right' | null;
+
+/**
+ * Block-level content of a document
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'table'; align: MarkdownAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const BLANK = /^\s*$/;
+
+/**
+ * Protocols links may use; anything else is rendered as plain text
+ */
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Returns a link target if it is safe to render, or null
+ * Relative links and anchors are allowed; `javascript:`, `data:` and other
+ * schemes are not, including attempts hidden with whitespace or control characters.
+ * @param {string} href - The link target from the source
+ * @returns {string | null} The trimmed target, or null if it is unsafe
+ */
+export const sanitizeHref = (href: string): string | null => {
+  const trimmed = href.trim();
+  // eslint-disable-next-line no-control-regex
+  const normalized = trimmed.replace(/[\u0000-\u0020\u007f]/g, '').toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(normalized);
+  if (scheme && !SAFE_PROTOCOLS.includes(`${scheme[1]}:`)) {
+    return null;
+  }
+  return trimmed;
+};
+
+/**
+ * Whether a line starts a block other than a paragraph (ends a paragraph)
+ */
+const startsBlock = (line: string) =>
+  HEADING.test(line) || RULE.test(line) || FENCE.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line);
+
+/**
+ * Splits a table row into its cells
+ */
+const splitRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  for (let index = 0; index < row.length; index++) {
+    if (row[index] === '\\' && row[index + 1] === '|') {
+      cell += '|';
+      index++;
+    } else if (row[index] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[index];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Reads the alignment of each column from a table delimiter row
+ */
+const parseAlign = (line: string): MarkdownAlign[] =>
+  splitRow(line).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return null;
+  });
+
+/**
+ * Parses block-level content
+ * @param {string[]} lines - Source lines
+ * @returns {MarkdownBlock[]} The blocks
+ */
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (BLANK.test(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(marker)) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++; // Closing fence (or end of document)
+      blocks.push({ type: 'code', language: fence[2], text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && !BLANK.test(lines[index])) {
+        const match = BLOCKQUOTE.exec(lines[index]);
+        quoted.push(match ? match[1] : lines[index]);
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const indent = listItem[1].length;
+      const ordered = /\d/.test(listItem[2]);
+      const items: MarkdownBlock[][] = [];
+      while (index < lines.length) {
+        // Blank lines between items do not end the list
+        const nextItem = BLANK.test(lines[index]) ? LIST_ITEM.exec(lines[index + 1] ?? '') : null;
+        if (nextItem && nextItem[1].length === indent) {
+          index++;
+        }
+        const item = LIST_ITEM.exec(lines[index]);
+        if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) break;
+        const contentIndent = lines[index].length - item[3].length;
+        const itemLines = [item[3]];
+        index++;
+        while (index < lines.length) {
+          const next = lines[index];
+          const leading = next.length - next.trimStart().length;
+          if (BLANK.test(next)) {
+            // A blank line continues the item only if indented content follows
+            const following = lines[index + 1];
+            if (following !== undefined && !BLANK.test(following) && following.length - following.trimStart().length > indent) {
+              itemLines.push('');
+              index++;
+              continue;
+            }
+            break;
+          }
+          if (leading > indent) {
+            itemLines.push(next.slice(Math.min(leading, contentIndent)));
+          } else if (!startsBlock(next)) {
+            // Lazy continuation of the item's paragraph
+            itemLines.push(next.trim());
+          } else {
+            break;
+          }
+          index++;
+        }
+        items.push(parseBlocks(itemLines));
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+      continue;
+    }
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1])) {
+      const header = splitRow(line);
+      const align = parseAlign(lines[index + 1]);
+      const rows: MarkdownInline[][][] = [];
+      index += 2;
+      while (index < lines.length && !BLANK.test(lines[index]) && lines[index].includes('|')) {
+        const cells = splitRow(lines[index]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        index++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && !BLANK.test(lines[index]) && (paragraph.length === 0 || !startsBlock(lines[index]))) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]]/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s>]+)>/;
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>';
+
+/**
+ * Finds the closing delimiter of an emphasis-like span
+ * Underscores only open and close at word boundaries, so snake_case stays intact.
+ */
+const findClosing = (text: string, from: number, delimiter: string): number => {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const wordBoundary = delimiter[0] !== '_' || after === undefined || !/\w/.test(after);
+    // A single delimiter must not be half of a double one
+    const single = delimiter.length > 1 || (after !== delimiter && before !== delimiter);
+    if (before !== ' ' && before !== '\\' && wordBoundary && single && index > from) {
+      return index;
+    }
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+};
+
+/**
+ * Parses inline content
+ * @param {string} text - Source text of one block
+ * @returns {MarkdownInline[]} The inline nodes
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    // Hard line breaks: two trailing spaces or a backslash before the newline
+    if (char === '\n') {
+      if (buffer.endsWith('  ') || buffer.endsWith('\\')) {
+        buffer = buffer.replace(/( {2,}|\\)$/, '');
+        flush();
+        nodes.push({ type: 'break' });
+      } else {
+        buffer = buffer.trimEnd() + ' ';
+      }
+      index++;
+      continue;
+    }
+
+    if (char === '\\' && index + 1 < text.length && ESCAPABLE.includes(text[index + 1])) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = /^`+/.exec(rest)![0];
+      const end = text.indexOf(ticks, index + ticks.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(index + ticks.length, end).trim() });
+        index = end + ticks.length;
+        continue;
+      }
+      buffer += ticks;
+      index += ticks.length;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = parseLink(text, index);
+      if (link) {
+        flush();
+        const href = sanitizeHref(link.href);
+        if (href === null) {
+          nodes.push(...link.children);
+        } else {
+          nodes.push({ type: 'link', href, children: link.children });
+        }
+        index = link.end;
+        continue;
+      }
+    }
+
+    const autolink = AUTOLINK.exec(rest);
+    if (autolink) {
+      flush();
+      nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/, '') }] });
+      index += autolink[0].length;
+      continue;
+    }
+
+    const bareUrl = (index === 0 || /[\s(]/.test(text[index - 1])) ? BARE_URL.exec(rest) : null;
+    if (bareUrl) {
+      flush();
+      nodes.push({ type: 'link', href: bareUrl[0], children: [{ type: 'text', text: bareUrl[0] }] });
+      index += bareUrl[0].length;
+      continue;
+    }
+
+    const delimiter = ['**', '__', '~~', '*', '_'].find(candidate => rest.startsWith(candidate));
+    const opensAtBoundary = delimiter?.[0] !== '_' || index === 0 || !/\w/.test(text[index - 1]);
+    if (delimiter && opensAtBoundary && text[index + delimiter.length] !== ' ') {
+      const end = findClosing(text, index + delimiter.length, delimiter);
+      if (end !== -1) {
+        flush();
+        const type = delimiter === '~~' ? 'strikethrough' : delimiter.length === 2 ? 'strong' : 'emphasis';
+        nodes.push({ type, children: parseInline(text.slice(index + delimiter.length, end)) });
+        index = end + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Parses a `[text](href)` link starting at an opening bracket
+ * @returns The link parts and the index after it, or null if there is no link here
+ */
+const parseLink = (text: string, start: number): { children: MarkdownInline[]; href: string; end: number } | null => {
+  let depth = 0;
+  let close = -1;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === '[') {
+      depth++;
+    } else if (text[index] === ']') {
+      depth--;
+      if (depth === 0) {
+        close = index;
+        break;
+      }
+    }
+  }
+  if (close === -1 || text[close + 1] !== '(') {
+    return null;
+  }
+  const target = /^\(\s*<?([^\s)>]*)>?(?:\s+"[^"]*")?\s*\)/.exec(text.slice(close + 1));
+  if (!target) {
+    return null;
+  }
+  return {
+    children: parseInline(text.slice(start + 1, close)),
+    href: target[1],
+    end: close + 1 + target[0].length,
+  };
+};
+
+/**
+ * Parses a Markdown document
+ * @param {string} source - The Markdown source
+ * @returns {MarkdownBlock[]} The document's blocks
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] =>
+  parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
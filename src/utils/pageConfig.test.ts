@@ -0,0 +1,131 @@
+import {
+  migratePageConfig,
+  PAGE_CONFIG_VERSION,
+  PageConfigError,
+  parsePageConfigYaml,
+  readPageConfig,
+  toPageConfig,
+  WidgetTypeLookup,
+} from './pageConfig';
+
+const lookupType: WidgetTypeLookup = (type) => {
+  if (type === 'text') {
+    return { configSchema: [{ key: 'text', label: 'Text', type: 'multiline' }] };
+  }
+  if (type === 'gauge') {
+    return {
+      configSchema: [
+        { key: 'max', label: 'Maximum', type: 'number' },
+        { key: 'unit', label: 'Unit', type: 'select', options: [{ value: 'bytes', label: 'Bytes' }] },
+      ],
+    };
+  }
+  return undefined;
+};
+
+const widget = (id: string, type = 'text', config: Record<string, unknown> = {}) => ({
+  id,
+  title: id,
+  type,
+  config,
+  x: 0,
+  y: 0,
+  w: 6,
+  h: 4,
+});
+
+const issuesOf = (raw: unknown) => {
+  try {
+    readPageConfig(raw, lookupType);
+  } catch (error) {
+    return (error as PageConfigError).issues;
+  }
+  return [];
+};
+
+describe('page configuration format', () => {
+  test('reads the current version', () => {
+    const config = toPageConfig({
+      title: 'Costs',
+      widgets: [widget('a'), widget('b', 'gauge', { max: 10, unit: 'bytes' })],
+      layout: { lg: [{ i: 'a', x: 0, y: 0, w: 6, h: 4 }], sm: [{ i: 'b', x: 0, y: 4, w: 6, h: 4 }] },
+    });
+    expect(config.apiVersion).toBe(PAGE_CONFIG_VERSION);
+    expect(readPageConfig(config, lookupType)).toEqual({
+      title: config.title,
+      widgets: config.widgets,
+      layout: config.layout,
+    });
+  });
+
+  test("keeps a page's own theme and rejects unknown themes", () => {
+    const content = { title: 'Costs', widgets: [widget('a')], layout: { lg: [{ i: 'a', x: 0, y: 0, w: 6, h: 4 }] } };
+    const config = toPageConfig({ ...content, theme: 'ocean' });
+    expect(config.theme).toBe('ocean');
+    expect(readPageConfig(JSON.parse(JSON.stringify(config)), lookupType)).toEqual({ ...content, theme: 'ocean' });
+    expect(toPageConfig(content)).not.toHaveProperty('theme');
+
+    expect(issuesOf({ ...config, theme: 'neon' })).toEqual([
+      { path: 'theme', message: expect.stringContaining('Unknown theme') },
+    ]);
+  });
+
+  test('migrates unversioned configurations with a single layout', () => {
+    const legacy = {
+      title: 'Old page',
+      widgets: [{ id: 'a', title: 'Notes', type: 'text' }],
+      layout: [{ i: 'a', x: 2, y: 1, w: 4, h: 3 }],
+    };
+    expect(migratePageConfig(legacy)).toMatchObject({ apiVersion: PAGE_CONFIG_VERSION });
+    expect(readPageConfig(legacy, lookupType)).toEqual({
+      title: 'Old page',
+      widgets: [{ id: 'a', title: 'Notes', type: 'text', config: {}, x: 2, y: 1, w: 4, h: 3 }],
+      layout: { lg: [{ i: 'a', x: 2, y: 1, w: 4, h: 3 }] },
+    });
+  });
+
+  test('rejects unknown versions', () => {
+    expect(issuesOf({ apiVersion: 'dashboard/v9', title: 'x', widgets: [], layout: {} })).toEqual([
+      { path: 'apiVersion', message: expect.stringContaining('Unknown version "dashboard/v9"') },
+    ]);
+    expect(issuesOf('just text')).toHaveLength(1);
+  });
+
+  test('reports every problem with the path of the field at fault', () => {
+    const issues = issuesOf({
+      apiVersion: PAGE_CONFIG_VERSION,
+      title: '',
+      widgets: [
+        widget('a'),
+        widget('a', 'clock'),
+        widget('c', 'gauge', { max: 'ten', unit: 'miles' }),
+        { ...widget('d'), config: 'none', x: 'left' },
+      ],
+      layout: {
+        lg: [{ i: 'a', x: 0, y: 0, w: 6, h: 4 }, { i: 'a', x: 6, y: 0, w: 6, h: 4 }, { i: 'zz', x: -1, y: 0, w: 0, h: 4 }],
+        huge: [],
+      },
+    });
+    expect(issues.map(issue => issue.path)).toEqual([
+      'title',
+      'widgets[1].id',
+      'widgets[1].type',
+      'widgets[2].config.max',
+      'widgets[2].config.unit',
+      'widgets[3].x',
+      'widgets[3].config',
+      'layout.lg[1].i',
+      'layout.lg[2].i',
+      'layout.lg[2].x',
+      'layout.lg[2].w',
+      'layout.huge',
+    ]);
+    expect(issues[2].message).toBe('Unknown widget type "clock"');
+    expect(issues[7].message).toBe('Widget "a" is placed twice');
+  });
+
+  test('reports YAML syntax errors', () => {
+    expect(parsePageConfigYaml('title: Costs')).toEqual({ title: 'Costs' });
+    expect(() => parsePageConfigYaml('title: [unclosed')).toThrow(PageConfigError);
+  });
+});
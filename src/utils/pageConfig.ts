@@ -0,0 +1,313 @@
+/**
+ * Page Configuration Format
+ *
+ * The format custom pages are shared and imported in (as YAML or in share
+ * links). A configuration names its format version in `apiVersion`; older
+ * versions are migrated step by step to the current one, and the result is
+ * validated before a page is created from it. Validation collects every
+ * problem with the path of the field at fault (e.g. `widgets[2].type`), so a
+ * broken file can be fixed in one go.
+ *
+ * Versions:
+ * - dashboard/v1: configurations shared before the format was versioned (no
+ *   `apiVersion`). The layout may be a single list from before breakpoints,
+ *   and widgets may lack a config or a position.
+ * - dashboard/v2: the current format. Layouts per breakpoint, and every widget
+ *   has a config and a position. A page may name its own theme.
+ *
+ * Technical Concepts:
+ * 1. Versioned documents with a chain of single-step migrations
+ * 2. Structural validation with field-level error paths
+ * 3. Widget configs checked against the settings their type declares
+ */
+
+import { parse } from 'yaml';
+import { isThemeMode, THEME_LABELS } from '../theme/ThemeContext';
+import { WidgetDefinition } from '../widgets/types';
+import { PageContent } from './pageVersions';
+import { BASE_BREAKPOINT, BREAKPOINT_ORDER, toResponsiveLayouts } from './responsiveLayout';
+
+/**
+ * Format version written by this app
+ */
+export const PAGE_CONFIG_VERSION = 'dashboard/v2';
+
+/**
+ * Format version of configurations without `apiVersion`
+ */
+export const LEGACY_PAGE_CONFIG_VERSION = 'dashboard/v1';
+
+/**
+ * A page configuration as shared: the page content and its format version
+ */
+export type PageConfig = PageContent & {
+  apiVersion: string;
+};
+
+/**
+ * One problem found in a page configuration
+ * @property {string} path - The field at fault, e.g. `widgets[2].type` ('' for the whole document)
+ * @property {string} message - What is wrong with it
+ */
+export interface PageConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised for page configurations that cannot be imported
+ * @property {PageConfigIssue[]} issues - Every problem found
+ */
+export class PageConfigError extends Error {
+  issues: PageConfigIssue[];
+
+  constructor(issues: PageConfigIssue[]) {
+    super(issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('\n'));
+    this.name = 'PageConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Looks up the widget types a configuration may use, e.g. `getWidgetDefinition`
+ */
+export type WidgetTypeLookup = (type: string) => Pick<WidgetDefinition, 'configSchema'> | undefined;
+
+type ConfigObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is ConfigObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Migrates a dashboard/v1 configuration to dashboard/v2
+ * Single layouts become the layout of the widest breakpoint; widgets without
+ * a config get an empty one, and widgets without a position take theirs from
+ * the layout.
+ */
+const migrateV1 = (config: ConfigObject): ConfigObject => {
+  const layout = Array.isArray(config.layout) ? toResponsiveLayouts(config.layout) : config.layout;
+  const baseLayout = isObject(layout) && Array.isArray(layout[BASE_BREAKPOINT]) ? layout[BASE_BREAKPOINT] as unknown[] : [];
+  const widgets = Array.isArray(config.widgets)
+    ? config.widgets.map(widget => {
+      if (!isObject(widget)) return widget;
+      const item = baseLayout.find(candidate => isObject(candidate) && candidate.i === widget.id);
+      const position = isObject(item) ? { x: item.x, y: item.y, w: item.w, h: item.h } : { x: 0, y: 0, w: 6, h: 4 };
+      return {
+        ...position,
+        ...widget,
+        config: widget.config ?? {},
+      };
+    })
+    : config.widgets;
+  return { ...config, apiVersion: 'dashboard/v2', layout, widgets };
+};
+
+/**
+ * Single-step migrations, keyed by the version they migrate from
+ */
+const MIGRATIONS: Record<string, (config: ConfigObject) => ConfigObject> = {
+  'dashboard/v1': migrateV1,
+};
+
+/**
+ * Brings a configuration of any known version to the current version
+ * @param {unknown} raw - The configuration as read, e.g. parsed YAML
+ * @returns {ConfigObject} The configuration in the current version (not yet validated)
+ * @throws {PageConfigError} If the document is not an object or its version is unknown
+ */
+export const migratePageConfig = (raw: unknown): ConfigObject => {
+  if (!isObject(raw)) {
+    throw new PageConfigError([{ path: '', message: 'Expected a page configuration with title, widgets and layout' }]);
+  }
+  let config: ConfigObject = { ...raw, apiVersion: raw.apiVersion ?? LEGACY_PAGE_CONFIG_VERSION };
+  while (config.apiVersion !== PAGE_CONFIG_VERSION) {
+    const migrate = MIGRATIONS[String(config.apiVersion)];
+    if (!migrate) {
+      throw new PageConfigError([{
+        path: 'apiVersion',
+        message: `Unknown version "${config.apiVersion}"; supported versions are ${LEGACY_PAGE_CONFIG_VERSION} to ${PAGE_CONFIG_VERSION}`,
+      }]);
+    }
+    config = migrate(config);
+  }
+  return config;
+};
+
+/**
+ * Checks a widget's config against the settings its type declares
+ */
+const validateWidgetConfig = (
+  config: ConfigObject,
+  definition: Pick<WidgetDefinition, 'configSchema'>,
+  path: string,
+  issues: PageConfigIssue[]
+) => {
+  definition.configSchema?.forEach(field => {
+    const value = config[field.key];
+    if (value === undefined) return;
+    const fieldPath = `${path}.${field.key}`;
+    switch (field.type) {
+      case 'number':
+        if (typeof value !== 'number') issues.push({ path: fieldPath, message: 'Expected a number' });
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') issues.push({ path: fieldPath, message: 'Expected true or false' });
+        break;
+      case 'select':
+        if (!field.options?.some(option => option.value === value)) {
+          const choices = field.options?.map(option => option.value).join(', ');
+          issues.push({ path: fieldPath, message: `Expected one of: ${choices}` });
+        }
+        break;
+      default:
+        if (typeof value !== 'string') issues.push({ path: fieldPath, message: 'Expected text' });
+    }
+  });
+};
+
+/**
+ * Validates a configuration in the current version
+ * @param {ConfigObject} config - The migrated configuration
+ * @param {WidgetTypeLookup} lookupType - Looks up widget types
+ * @returns {PageConfigIssue[]} Every problem found (empty if the configuration is valid)
+ */
+export const validatePageConfig = (config: ConfigObject, lookupType: WidgetTypeLookup): PageConfigIssue[] => {
+  const issues: PageConfigIssue[] = [];
+
+  if (typeof config.title !== 'string' || !config.title.trim()) {
+    issues.push({ path: 'title', message: 'Expected a non-empty page title' });
+  }
+
+  if (config.theme !== undefined && !isThemeMode(config.theme)) {
+    issues.push({ path: 'theme', message: `Unknown theme; expected one of ${Object.keys(THEME_LABELS).join(', ')}` });
+  }
+
+  const widgetIds = new Set<string>();
+  if (!Array.isArray(config.widgets)) {
+    issues.push({ path: 'widgets', message: 'Expected a list of widgets' });
+  } else {
+    config.widgets.forEach((widget: unknown, index) => {
+      const path = `widgets[${index}]`;
+      if (!isObject(widget)) {
+        issues.push({ path, message: 'Expected a widget with id, title, type and config' });
+        return;
+      }
+      if (typeof widget.id !== 'string' || !widget.id) {
+        issues.push({ path: `${path}.id`, message: 'Expected a widget id' });
+      } else if (widgetIds.has(widget.id)) {
+        issues.push({ path: `${path}.id`, message: `Duplicate widget id "${widget.id}"` });
+      } else {
+        widgetIds.add(widget.id);
+      }
+      if (typeof widget.title !== 'string') {
+        issues.push({ path: `${path}.title`, message: 'Expected a widget title' });
+      }
+      if (widget.isHeart !== undefined && typeof widget.isHeart !== 'boolean') {
+        issues.push({ path: `${path}.isHeart`, message: 'Expected true or false' });
+      }
+      (['x', 'y', 'w', 'h'] as const).forEach(key => {
+        if (typeof widget[key] !== 'number') {
+          issues.push({ path: `${path}.${key}`, message: 'Expected a number' });
+        }
+      });
+      const definition = typeof widget.type === 'string' ? lookupType(widget.type) : undefined;
+      if (typeof widget.type !== 'string') {
+        issues.push({ path: `${path}.type`, message: 'Expected a widget type' });
+      } else if (!definition) {
+        issues.push({ path: `${path}.type`, message: `Unknown widget type "${widget.type}"` });
+      }
+      if (!isObject(widget.config)) {
+        issues.push({ path: `${path}.config`, message: 'Expected the widget settings as an object' });
+      } else if (definition) {
+        validateWidgetConfig(widget.config, definition, `${path}.config`, issues);
+      }
+    });
+  }
+
+  if (!isObject(config.layout)) {
+    issues.push({ path: 'layout', message: `Expected layouts per breakpoint (${BREAKPOINT_ORDER.join(', ')})` });
+  } else {
+    Object.entries(config.layout).forEach(([breakpoint, layout]) => {
+      const path = `layout.${breakpoint}`;
+      if (!(BREAKPOINT_ORDER as string[]).includes(breakpoint)) {
+        issues.push({ path, message: `Unknown breakpoint; expected one of ${BREAKPOINT_ORDER.join(', ')}` });
+        return;
+      }
+      if (!Array.isArray(layout)) {
+        issues.push({ path, message: 'Expected a list of layout items' });
+        return;
+      }
+      const placed = new Set<string>();
+      layout.forEach((item: unknown, index) => {
+        const itemPath = `${path}[${index}]`;
+        if (!isObject(item)) {
+          issues.push({ path: itemPath, message: 'Expected a layout item with i, x, y, w and h' });
+          return;
+        }
+        if (typeof item.i !== 'string' || !widgetIds.has(item.i)) {
+          issues.push({ path: `${itemPath}.i`, message: `Refers to no widget${typeof item.i === 'string' ? ` ("${item.i}")` : ''}` });
+        } else if (placed.has(item.i)) {
+          issues.push({ path: `${itemPath}.i`, message: `Widget "${item.i}" is placed twice` });
+        } else {
+          placed.add(item.i);
+        }
+        (['x', 'y'] as const).forEach(key => {
+          if (typeof item[key] !== 'number' || (item[key] as number) < 0) {
+            issues.push({ path: `${itemPath}.${key}`, message: 'Expected a number of 0 or more' });
+          }
+        });
+        (['w', 'h'] as const).forEach(key => {
+          if (typeof item[key] !== 'number' || (item[key] as number) < 1) {
+            issues.push({ path: `${itemPath}.${key}`, message: 'Expected a number of 1 or more' });
+          }
+        });
+      });
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Reads a page configuration of any known version
+ * @param {unknown} raw - The configuration as read, e.g. parsed YAML
+ * @param {WidgetTypeLookup} lookupType - Looks up widget types
+ * @returns {PageContent} The page's title, widgets, layout and theme
+ * @throws {PageConfigError} If the configuration is invalid
+ */
+export const readPageConfig = (raw: unknown, lookupType: WidgetTypeLookup): PageContent => {
+  const config = migratePageConfig(raw);
+  const issues = validatePageConfig(config, lookupType);
+  if (issues.length > 0) {
+    throw new PageConfigError(issues);
+  }
+  const { title, widgets, layout, theme } = config as PageConfig;
+  return theme ? { title, widgets, layout, theme } : { title, widgets, layout };
+};
+
+/**
+ * Parses the YAML text of a page configuration
+ * @param {string} text - The YAML text
+ * @returns {unknown} The parsed document
+ * @throws {PageConfigError} If the text is not valid YAML
+ */
+export const parsePageConfigYaml = (text: string): unknown => {
+  try {
+    return parse(text);
+  } catch (error) {
+    throw new PageConfigError([{ path: '', message: error instanceof Error ? error.message : 'Invalid YAML' }]);
+  }
+};
+
+/**
+ * Adds the current format version to page content for sharing
+ * @param {PageContent} content - The page's title, widgets, layout and theme
+ * @returns {PageConfig} The configuration
+ */
+export const toPageConfig = ({ title, widgets, layout, theme }: PageContent): PageConfig => ({
+  apiVersion: PAGE_CONFIG_VERSION,
+  title,
+  widgets,
+  layout,
+  ...(theme ? { theme } : {}),
+});
@@ -0,0 +1,102 @@
+import {
+  applyPageChanges,
+  createSyncState,
+  mergeRemotePages,
+  PageSyncMessage,
+  PageSyncState,
+  recordLocalChanges,
+} from './pageSync';
+
+type TestPage = { id: string; title: string };
+
+const page = (id: string, title = id): TestPage => ({ id, title });
+
+/**
+ * A tab's sync state and the pages it shows
+ */
+const createTab = (id: string, pages: TestPage[]) => {
+  let state: PageSyncState<TestPage> = createSyncState(pages);
+  const tab = {
+    edit: (next: TestPage[]): PageSyncMessage<TestPage> => {
+      state = recordLocalChanges(state, next, id);
+      return { pages: state.pages, revisions: state.revisions };
+    },
+    receive: (message: PageSyncMessage<TestPage>) => {
+      const outcome = mergeRemotePages(state, message, id);
+      state = outcome.state;
+      return outcome;
+    },
+    pages: () => state.pages,
+    message: (): PageSyncMessage<TestPage> => ({ pages: state.pages, revisions: state.revisions }),
+  };
+  return tab;
+};
+
+describe('page sync between tabs', () => {
+  test('takes edits made in the other tab', () => {
+    const a = createTab('a', [page('p1'), page('p2')]);
+    const b = createTab('b', [page('p1'), page('p2')]);
+
+    const outcome = b.receive(a.edit([page('p1', 'Costs'), page('p2'), page('p3')]));
+    expect(b.pages()).toEqual([page('p1', 'Costs'), page('p2'), page('p3')]);
+    expect(outcome).toMatchObject({ replaced: [], reply: false });
+    expect(outcome.changes).toEqual({ p1: page('p1', 'Costs'), p3: page('p3') });
+
+    a.receive(b.edit([page('p1', 'Costs'), page('p3')]));
+    expect(a.pages()).toEqual([page('p1', 'Costs'), page('p3')]);
+  });
+
+  test('keeps edits to different pages made at the same time', () => {
+    const a = createTab('a', [page('p1'), page('p2')]);
+    const b = createTab('b', [page('p1'), page('p2')]);
+    const fromA = a.edit([page('p1', 'From A'), page('p2')]);
+    const fromB = b.edit([page('p1'), page('p2', 'From B')]);
+
+    expect(a.receive(fromB).replaced).toEqual([]);
+    expect(b.receive(fromA).replaced).toEqual([]);
+    expect(a.pages()).toEqual([page('p1', 'From A'), page('p2', 'From B')]);
+    expect(b.pages()).toEqual(a.pages());
+  });
+
+  test('picks the same winner in both tabs when both edited a page', () => {
+    const a = createTab('a', [page('p1')]);
+    const b = createTab('b', [page('p1')]);
+    const fromA = a.edit([page('p1', 'From A')]);
+    const fromB = b.edit([page('p1', 'From B')]);
+
+    const inA = a.receive(fromB);
+    const inB = b.receive(fromA);
+    expect(inA.replaced).toEqual([page('p1', 'From A')]);
+    expect(inA.changes).toEqual({});
+    expect(inB).toMatchObject({ replaced: [], reply: true });
+    expect(a.pages()).toEqual([page('p1', 'From B')]);
+    expect(b.pages()).toEqual([page('p1', 'From B')]);
+
+    // Editing again after the conflict is a newer edit, which wins everywhere
+    b.receive(a.edit([page('p1', 'From A again')]));
+    expect(b.pages()).toEqual([page('p1', 'From A again')]);
+  });
+
+  test('brings a newly opened tab up to date', () => {
+    const a = createTab('a', [page('p1')]);
+    a.edit([page('p1', 'Renamed')]);
+    const b = createTab('b', [page('p1')]);
+
+    const answer = a.receive(b.message());
+    expect(answer.reply).toBe(true);
+    b.receive(a.message());
+    expect(b.pages()).toEqual([page('p1', 'Renamed')]);
+
+    // An edit in the new tab is based on what it received, so it wins without a conflict
+    const outcome = a.receive(b.edit([page('p1', 'From B')]));
+    expect(outcome.replaced).toEqual([]);
+    expect(a.pages()).toEqual([page('p1', 'From B')]);
+  });
+
+  test('applies changes to other lists of pages', () => {
+    const pages = [page('p1'), page('p2')];
+    expect(applyPageChanges(pages, {})).toBe(pages);
+    expect(applyPageChanges(pages, { p1: null, p2: page('p2', 'Two'), p3: page('p3') }))
+      .toEqual([page('p2', 'Two'), page('p3')]);
+  });
+});
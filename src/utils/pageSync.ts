@@ -0,0 +1,202 @@
+/**
+ * Page Sync Between Tabs
+ *
+ * Keeps the custom pages of several browser tabs in step. Each tab sends its
+ * pages to the others after every change, together with a revision per page.
+ * A receiving tab takes every page whose revision is newer than its own and
+ * keeps the rest, so edits to different pages in different tabs all survive.
+ * When both tabs changed the same page, the higher revision wins in both tabs
+ * alike; the tab whose edit lost is told, so it can undo.
+ *
+ * Technical Concepts:
+ * 1. Lamport clock: a tab's next revision is one above every revision it has seen
+ * 2. Deterministic tie-break on the tab ID, so all tabs pick the same winner
+ * 3. Tombstones: deleted pages keep their revision, so a deletion wins over older versions
+ */
+
+/**
+ * Revision of a page
+ * @property {number} rev - Lamport revision of the page's latest change
+ * @property {string} tab - ID of the tab that made the change
+ * @property {number} parent - Revision the change was made on
+ * @property {boolean} [deleted] - Whether the change deleted the page
+ */
+export interface SyncRevision {
+  rev: number;
+  tab: string;
+  parent: number;
+  deleted?: boolean;
+}
+
+/**
+ * What a tab sends to the others: its pages and their revisions by page ID
+ * Pages without a revision have not changed since they were loaded.
+ */
+export interface PageSyncMessage<P> {
+  pages: P[];
+  revisions: Record<string, SyncRevision>;
+}
+
+/**
+ * A tab's sync state: the pages as last sent or received, and the clock
+ */
+export type PageSyncState<P> = PageSyncMessage<P> & {
+  clock: number;
+};
+
+/**
+ * Outcome of merging another tab's pages
+ * @property {PageSyncState} state - The sync state afterwards; its pages are the merged pages
+ * @property {Object} changes - Pages taken from the other tab (null when deleted there), by ID,
+ *   except those replacing a local edit
+ * @property {Array} replaced - This tab's edited versions of pages the other tab's edits won over
+ * @property {boolean} reply - Whether the other tab is missing newer revisions this tab has
+ */
+export interface PageMergeOutcome<P> {
+  state: PageSyncState<P>;
+  changes: Record<string, P | null>;
+  replaced: P[];
+  reply: boolean;
+}
+
+type Page = { id: string };
+
+const NO_REVISION: SyncRevision = { rev: 0, tab: '', parent: 0 };
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Creates the sync state of freshly loaded pages
+ * @param {Array} pages - The loaded pages
+ * @returns {PageSyncState} The state
+ */
+export const createSyncState = <P extends Page>(pages: P[]): PageSyncState<P> => ({ pages, revisions: {}, clock: 0 });
+
+/**
+ * Checks that a message from another tab has the expected shape
+ * @param {unknown} message - The message
+ * @returns {boolean} Whether it is a PageSyncMessage
+ */
+export const isPageSyncMessage = (message: unknown): message is PageSyncMessage<Page> =>
+  typeof message === 'object' && message !== null
+  && Array.isArray((message as PageSyncMessage<Page>).pages)
+  && typeof (message as PageSyncMessage<Page>).revisions === 'object';
+
+/**
+ * Gives the pages changed in this tab a new revision
+ * @param {PageSyncState} state - The sync state
+ * @param {Array} pages - The tab's current pages
+ * @param {string} tabId - This tab's ID
+ * @returns {PageSyncState} The new state, or the same state if no page changed
+ */
+export const recordLocalChanges = <P extends Page>(
+  state: PageSyncState<P>,
+  pages: P[],
+  tabId: string
+): PageSyncState<P> => {
+  const ids = new Set([...state.pages, ...pages].map(page => page.id));
+  const changed = Array.from(ids).filter(id =>
+    !same(state.pages.find(page => page.id === id), pages.find(page => page.id === id)));
+  if (changed.length === 0) {
+    return state.pages === pages ? state : { ...state, pages };
+  }
+  const rev = state.clock + 1;
+  const revisions = { ...state.revisions };
+  changed.forEach(id => {
+    const deleted = !pages.some(page => page.id === id);
+    revisions[id] = { rev, tab: tabId, parent: revisions[id]?.rev ?? 0, ...(deleted ? { deleted } : {}) };
+  });
+  return { pages, revisions, clock: rev };
+};
+
+/**
+ * Compares two revisions: positive if a is newer, negative if b is, 0 if they are the same
+ */
+const compareRevisions = (a: SyncRevision, b: SyncRevision) =>
+  a.rev - b.rev || (a.tab > b.tab ? 1 : a.tab < b.tab ? -1 : 0);
+
+/**
+ * Merges another tab's pages into this tab's
+ * Pages keep this tab's order; pages new from the other tab are added at the end.
+ * @param {PageSyncState} state - This tab's sync state, with its current pages
+ * @param {PageSyncMessage} message - The other tab's pages
+ * @param {string} tabId - This tab's ID
+ * @returns {PageMergeOutcome} The merged state and what happened
+ */
+export const mergeRemotePages = <P extends Page>(
+  state: PageSyncState<P>,
+  message: PageSyncMessage<P>,
+  tabId: string
+): PageMergeOutcome<P> => {
+  const revisions = { ...state.revisions };
+  const changes: Record<string, P | null> = {};
+  const replaced: P[] = [];
+  let reply = false;
+  let clock = state.clock;
+
+  const ids = new Set([
+    ...state.pages.map(page => page.id),
+    ...Object.keys(state.revisions),
+    ...message.pages.map(page => page.id),
+    ...Object.keys(message.revisions),
+  ]);
+  const taken = new Map<string, P | null>();
+
+  ids.forEach(id => {
+    const local = state.revisions[id] ?? NO_REVISION;
+    const remote = message.revisions[id] ?? NO_REVISION;
+    clock = Math.max(clock, remote.rev);
+    const order = compareRevisions(remote, local);
+    if (order < 0) {
+      reply = true;
+      return;
+    }
+    if (order === 0) return;
+
+    const localPage = state.pages.find(page => page.id === id);
+    const remotePage = message.pages.find(page => page.id === id) ?? null;
+    revisions[id] = remote;
+    taken.set(id, remotePage);
+    // The other tab's change was not made on this tab's own latest edit: both edited the page
+    if (local.tab === tabId && remote.parent !== local.rev && localPage && !same(localPage, remotePage)) {
+      replaced.push(localPage);
+    } else {
+      changes[id] = remotePage;
+    }
+  });
+
+  if (taken.size === 0) {
+    return { state: clock === state.clock ? state : { ...state, clock }, changes, replaced, reply };
+  }
+  const pages = state.pages
+    .map(page => (taken.has(page.id) ? taken.get(page.id) : page))
+    .filter((page): page is P => !!page);
+  taken.forEach(page => {
+    if (page && !state.pages.some(existing => existing.id === page.id)) {
+      pages.push(page);
+    }
+  });
+  return { state: { pages, revisions, clock }, changes, replaced, reply };
+};
+
+/**
+ * Applies pages taken from another tab to a list of pages
+ * Used on every state in the undo history, so undoing local edits keeps them.
+ * @param {Array} pages - The pages
+ * @param {Object} changes - Changed pages by ID, null when deleted
+ * @returns {Array} The pages with the changes
+ */
+export const applyPageChanges = <P extends Page>(pages: P[], changes: Record<string, P | null>): P[] => {
+  const ids = Object.keys(changes);
+  if (ids.length === 0) return pages;
+  const updated = pages
+    .map(page => (page.id in changes ? changes[page.id] : page))
+    .filter((page): page is P => !!page);
+  ids.forEach(id => {
+    const page = changes[id];
+    if (page && !pages.some(existing => existing.id === id)) {
+      updated.push(page);
+    }
+  });
+  return updated;
+};
@@ -0,0 +1,33 @@
+import { BUILTIN_TEMPLATES } from '../templates/builtinTemplates';
+import { createTemplate, readTemplates } from './pageTemplates';
+import { PageContent } from './pageVersions';
+
+const page: PageContent = {
+  title: 'Costs',
+  widgets: [{ id: 'a', title: 'Notes', type: 'text', config: { text: 'hi' }, x: 0, y: 0, w: 6, h: 4 }],
+  layout: { lg: [{ i: 'a', x: 0, y: 0, w: 6, h: 4 }] },
+};
+
+describe('page templates', () => {
+  test('copies the page into a saved template', () => {
+    const template = createTemplate(page, 'Cost review', 'Monthly review');
+    expect(template).toMatchObject({ name: 'Cost review', description: 'Monthly review', builtin: false });
+    expect(template.content).toEqual({ ...page, title: 'Cost review' });
+
+    page.widgets[0].config.text = 'changed';
+    expect(template.content.widgets[0].config).toEqual({ text: 'hi' });
+  });
+
+  test('reads saved templates', () => {
+    const template = createTemplate(page, 'Cost review', '');
+    expect(readTemplates(JSON.parse(JSON.stringify([template])))).toEqual([template]);
+    expect(readTemplates({ not: 'a list' })).toEqual([]);
+  });
+
+  test('built-in templates lay out every widget', () => {
+    BUILTIN_TEMPLATES.forEach(({ content }) => {
+      expect(content.layout.lg?.map(item => item.i)).toEqual(content.widgets.map(widget => widget.id));
+      expect(new Set(content.widgets.map(widget => widget.id)).size).toBe(content.widgets.length);
+    });
+  });
+});
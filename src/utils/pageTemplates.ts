@@ -0,0 +1,50 @@
+/**
+ * Page Templates
+ *
+ * Starting points for new custom pages: a set of widgets, their settings and
+ * their layout. Built-in templates ship with the app (see
+ * `src/templates/builtinTemplates.ts`); any page can also be saved as a
+ * template, kept in the app's storage (see hooks/usePageTemplates).
+ */
+
+import { PageContent, toPageContent } from './pageVersions';
+
+/**
+ * PageTemplate Interface
+ * @property {string} id - Unique identifier of the template
+ * @property {string} name - Name shown in the gallery, also the suggested page title
+ * @property {string} description - What pages created from the template show
+ * @property {boolean} builtin - Whether the template ships with the app (and cannot be deleted)
+ * @property {PageContent} content - The widgets and layout new pages start with
+ */
+export interface PageTemplate {
+  id: string;
+  name: string;
+  description: string;
+  builtin: boolean;
+  content: PageContent;
+}
+
+/**
+ * Creates a template from a page
+ * The template keeps a copy of the page's widgets, layout and theme, so later edits
+ * to the page don't change it.
+ * @param {PageContent} page - The page's title, widgets and layout
+ * @param {string} name - The template's name
+ * @param {string} description - The template's description
+ * @returns {PageTemplate} The new template
+ */
+export const createTemplate = (page: PageContent, name: string, description: string): PageTemplate => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  description,
+  builtin: false,
+  content: toPageContent({ ...page, title: name }),
+});
+
+/**
+ * Reads the templates saved from pages
+ * @param {unknown} saved - What was saved
+ * @returns {PageTemplate[]} The templates, oldest first (empty if unreadable)
+ */
+export const readTemplates = (saved: unknown): PageTemplate[] => (Array.isArray(saved) ? saved : []);
@@ -0,0 +1,119 @@
+import {
+  addVersion,
+  AUTO_VERSION_INTERVAL_MS,
+  describeDiff,
+  diffPages,
+  getAutomaticVersionName,
+  loadVersions,
+  MAX_AUTOMATIC_VERSIONS,
+  PageContent,
+  PageVersion,
+  removeOrphanedVersions,
+  saveVersions,
+} from './pageVersions';
+
+const widget = (id: string, title: string, config: Record<string, unknown> = {}) => ({
+  id,
+  title,
+  type: 'text',
+  config,
+  x: 0,
+  y: 0,
+  w: 6,
+  h: 4,
+});
+
+const before: PageContent = {
+  title: 'Costs',
+  widgets: [widget('a', 'Notes', { text: 'hi' }), widget('b', 'Buckets')],
+  layout: { lg: [{ i: 'a', x: 0, y: 0, w: 6, h: 4 }, { i: 'b', x: 6, y: 0, w: 6, h: 4 }] },
+};
+
+const version = (id: string, createdAt: number, automatic: boolean, content = before): PageVersion => ({
+  id,
+  name: id,
+  createdAt,
+  automatic,
+  content,
+});
+
+describe('page versions', () => {
+  test('compares widgets and layouts', () => {
+    const after: PageContent = {
+      title: 'Cloud costs',
+      widgets: [widget('a', 'Runbook', { text: 'hello' }), widget('c', 'Chart')],
+      layout: { lg: [{ i: 'a', x: 0, y: 2, w: 8, h: 4 }, { i: 'c', x: 8, y: 0, w: 6, h: 4 }] },
+    };
+    const diff = diffPages(before, after);
+    expect(diff.title).toEqual({ from: 'Costs', to: 'Cloud costs' });
+    expect(diff.added.map(item => item.id)).toEqual(['c']);
+    expect(diff.removed.map(item => item.id)).toEqual(['b']);
+    expect(diff.changed).toEqual([
+      { widget: after.widgets[0], changes: ['Renamed from "Notes"', 'Settings changed', 'Moved (lg)', 'Resized (lg)'] },
+    ]);
+    expect(describeDiff(diff)).toBe('Renamed to "Cloud costs", Added "Chart", Removed "Buckets", Changed "Runbook"');
+    expect(describeDiff(diffPages(before, before))).toBe('No changes');
+  });
+
+  test('saves automatic versions on significant changes or after an hour', () => {
+    const now = 10 * AUTO_VERSION_INTERVAL_MS;
+    const latest = version('v1', now - 1000, true);
+    expect(getAutomaticVersionName(undefined, before, now)).toBe('First version');
+    expect(getAutomaticVersionName(latest, before, now)).toBeNull();
+
+    const moved = { ...before, layout: { lg: [{ i: 'a', x: 2, y: 0, w: 6, h: 4 }] } };
+    expect(getAutomaticVersionName(latest, moved, now)).toBeNull();
+    expect(getAutomaticVersionName({ ...latest, createdAt: now - AUTO_VERSION_INTERVAL_MS }, moved, now))
+      .toBe('Changed "Notes"');
+
+    const added = { ...before, widgets: [...before.widgets, widget('c', 'Chart')] };
+    expect(getAutomaticVersionName(latest, added, now)).toBe('Added "Chart"');
+  });
+
+  test('keeps saved versions and a limited number of automatic ones', () => {
+    let versions = addVersion([], version('saved', 0, false));
+    for (let index = 1; index <= MAX_AUTOMATIC_VERSIONS + 2; index++) {
+      versions = addVersion(versions, version(`auto-${index}`, index, true));
+    }
+    expect(versions).toHaveLength(MAX_AUTOMATIC_VERSIONS + 1);
+    expect(versions[0].id).toBe('saved');
+    expect(versions[1].id).toBe('auto-3');
+  });
+
+  test('stores versions in localStorage', () => {
+    saveVersions('page-1', [version('v1', 1, false)]);
+    expect(loadVersions('page-1')).toEqual([version('v1', 1, false)]);
+    localStorage.setItem('pageVersions-broken', '{not json');
+    expect(loadVersions('broken')).toEqual([]);
+    expect(loadVersions('missing')).toEqual([]);
+  });
+
+  test('drops the oldest versions when storage is full', () => {
+    const versions = [version('saved', 1, false), version('auto-1', 2, true), version('auto-2', 3, true)];
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation((_key, value) => {
+      if (value.length > JSON.stringify(versions.slice(0, 2)).length) {
+        throw new DOMException('The quota has been exceeded', 'QuotaExceededError');
+      }
+    });
+    try {
+      expect(saveVersions('page-2', versions)).toEqual([version('saved', 1, false), version('auto-2', 3, true)]);
+      setItem.mockImplementation(() => {
+        throw new DOMException('The quota has been exceeded', 'QuotaExceededError');
+      });
+      expect(saveVersions('page-2', versions)).toEqual([]);
+    } finally {
+      setItem.mockRestore();
+    }
+  });
+
+  test('deletes the versions of pages that no longer exist', () => {
+    saveVersions('kept', [version('v1', 1, false)]);
+    saveVersions('deleted', [version('v2', 2, false)]);
+    localStorage.setItem('layout-ec2', '{}');
+
+    removeOrphanedVersions(new Set(['kept']));
+    expect(loadVersions('kept')).toEqual([version('v1', 1, false)]);
+    expect(localStorage.getItem('pageVersions-deleted')).toBeNull();
+    expect(localStorage.getItem('layout-ec2')).toBe('{}');
+  });
+});
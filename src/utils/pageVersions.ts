@@ -0,0 +1,297 @@
+/**
+ * Page Versions
+ *
+ * Named, timestamped snapshots of a custom page's title, widgets and layout,
+ * kept in localStorage per page. Versions are saved by hand or automatically
+ * when a page changes significantly (widgets added or removed, the page
+ * renamed) or when it changes after an hour without a version. Two versions
+ * can be compared widget by widget.
+ *
+ * Versions stay in this browser's localStorage whatever storage backend is
+ * configured (see utils/storageKeys).
+ */
+
+import { ThemeMode } from '../theme/ThemeContext';
+import { Widget } from '../types/dashboard';
+import { BREAKPOINT_ORDER, Breakpoint, ResponsiveLayouts } from './responsiveLayout';
+
+/**
+ * What a version records of a page
+ * @property {string} title - Page title
+ * @property {Widget[]} widgets - Widgets, with their configs
+ * @property {ResponsiveLayouts} layout - Widget positions per breakpoint
+ * @property {ThemeMode} [theme] - Theme shown while the page is open, if the page has its own
+ */
+export type PageContent = {
+  title: string;
+  widgets: Widget[];
+  layout: ResponsiveLayouts;
+  theme?: ThemeMode;
+};
+
+/**
+ * PageVersion Interface
+ * @property {string} id - Unique identifier of the version
+ * @property {string} name - Name given when saving, or a summary of the change for automatic versions
+ * @property {number} createdAt - Time the version was saved (ms)
+ * @property {boolean} automatic - Whether the version was saved automatically
+ * @property {PageContent} content - The page as it was
+ */
+export interface PageVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  automatic: boolean;
+  content: PageContent;
+}
+
+/**
+ * Changes of one widget between two versions
+ * @property {Widget} widget - The widget in the newer version
+ * @property {string[]} changes - Descriptions, e.g. 'Renamed from "Costs"' or 'Moved (lg)'
+ */
+export interface WidgetChange {
+  widget: Widget;
+  changes: string[];
+}
+
+/**
+ * Differences between two versions of a page
+ * @property {Object | null} title - The old and new title, if the page was renamed
+ * @property {Widget[]} added - Widgets only in the newer version
+ * @property {Widget[]} removed - Widgets only in the older version
+ * @property {WidgetChange[]} changed - Widgets in both versions that differ
+ */
+export interface PageDiff {
+  title: { from: string; to: string } | null;
+  added: Widget[];
+  removed: Widget[];
+  changed: WidgetChange[];
+}
+
+/**
+ * Number of automatic versions kept per page; saved versions are kept until deleted
+ */
+export const MAX_AUTOMATIC_VERSIONS = 30;
+
+/**
+ * Time (ms) after which any change to a page is saved as an automatic version
+ */
+export const AUTO_VERSION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Copies page content the way it is stored, so stored and live content compare equal
+ * @param {PageContent} content - The content
+ * @returns {PageContent} A deep copy, as it reads back from storage
+ */
+export const toPageContent = ({ title, widgets, layout, theme }: PageContent): PageContent =>
+  JSON.parse(JSON.stringify({ title, widgets, layout, theme }));
+
+/**
+ * Lists the breakpoints at which a widget's position or size differs
+ */
+const changedBreakpoints = (
+  before: ResponsiveLayouts,
+  after: ResponsiveLayouts,
+  widgetId: string,
+  properties: Array<'x' | 'y' | 'w' | 'h'>
+): Breakpoint[] =>
+  BREAKPOINT_ORDER.filter(breakpoint => {
+    const from = before[breakpoint]?.find(item => item.i === widgetId);
+    const to = after[breakpoint]?.find(item => item.i === widgetId);
+    return from && to && properties.some(property => from[property] !== to[property]);
+  });
+
+/**
+ * Compares two versions of a page
+ * @param {PageContent} before - The older version
+ * @param {PageContent} after - The newer version
+ * @returns {PageDiff} The differences
+ */
+export const diffPages = (before: PageContent, after: PageContent): PageDiff => {
+  const added = after.widgets.filter(widget => !before.widgets.some(old => old.id === widget.id));
+  const removed = before.widgets.filter(widget => !after.widgets.some(current => current.id === widget.id));
+
+  const changed: WidgetChange[] = [];
+  after.widgets.forEach(widget => {
+    const old = before.widgets.find(candidate => candidate.id === widget.id);
+    if (!old) return;
+    const changes: string[] = [];
+    if (old.title !== widget.title) {
+      changes.push(`Renamed from "${old.title}"`);
+    }
+    if (JSON.stringify(old.config ?? {}) !== JSON.stringify(widget.config ?? {})) {
+      changes.push('Settings changed');
+    }
+    if (Boolean(old.isHeart) !== Boolean(widget.isHeart)) {
+      changes.push('Shape changed');
+    }
+    const moved = changedBreakpoints(before.layout, after.layout, widget.id, ['x', 'y']);
+    if (moved.length > 0) {
+      changes.push(`Moved (${moved.join(', ')})`);
+    }
+    const resized = changedBreakpoints(before.layout, after.layout, widget.id, ['w', 'h']);
+    if (resized.length > 0) {
+      changes.push(`Resized (${resized.join(', ')})`);
+    }
+    if (changes.length > 0) {
+      changed.push({ widget, changes });
+    }
+  });
+
+  return {
+    title: before.title !== after.title ? { from: before.title, to: after.title } : null,
+    added,
+    removed,
+    changed,
+  };
+};
+
+/**
+ * Whether two versions are the same
+ * @param {PageDiff} diff - Their differences
+ * @returns {boolean} True if nothing differs
+ */
+export const isDiffEmpty = (diff: PageDiff): boolean =>
+  !diff.title && diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+
+/**
+ * Summarizes differences in a few words, e.g. 'Added "Costs", 2 widgets changed'
+ * @param {PageDiff} diff - The differences
+ * @returns {string} The summary ('No changes' if there are none)
+ */
+export const describeDiff = (diff: PageDiff): string => {
+  const describe = (widgets: Widget[], verb: string) =>
+    widgets.length === 1 ? `${verb} "${widgets[0].title}"` : `${verb} ${widgets.length} widgets`;
+  const parts: string[] = [];
+  if (diff.title) parts.push(`Renamed to "${diff.title.to}"`);
+  if (diff.added.length > 0) parts.push(describe(diff.added, 'Added'));
+  if (diff.removed.length > 0) parts.push(describe(diff.removed, 'Removed'));
+  if (diff.changed.length > 0) {
+    parts.push(diff.changed.length === 1 ? `Changed "${diff.changed[0].widget.title}"` : `${diff.changed.length} widgets changed`);
+  }
+  return parts.join(', ') || 'No changes';
+};
+
+/**
+ * Decides whether a page's current content is saved as an automatic version
+ * A page without versions always is; after that, a version is saved when
+ * widgets were added or removed or the page was renamed, or when anything
+ * changed and the latest version is older than AUTO_VERSION_INTERVAL_MS.
+ * @param {PageVersion | undefined} latest - The page's latest version
+ * @param {PageContent} content - The current content
+ * @param {number} now - Current time (ms)
+ * @returns {string | null} The automatic version's name, or null if no version is due
+ */
+export const getAutomaticVersionName = (
+  latest: PageVersion | undefined,
+  content: PageContent,
+  now: number
+): string | null => {
+  if (!latest) {
+    return 'First version';
+  }
+  const diff = diffPages(latest.content, content);
+  if (isDiffEmpty(diff)) {
+    return null;
+  }
+  const significant = diff.title !== null || diff.added.length > 0 || diff.removed.length > 0;
+  return significant || now - latest.createdAt >= AUTO_VERSION_INTERVAL_MS ? describeDiff(diff) : null;
+};
+
+/**
+ * Adds a version, dropping the oldest automatic versions beyond MAX_AUTOMATIC_VERSIONS
+ * @param {PageVersion[]} versions - Versions, oldest first
+ * @param {PageVersion} version - The new version
+ * @returns {PageVersion[]} The new versions, oldest first
+ */
+export const addVersion = (versions: PageVersion[], version: PageVersion): PageVersion[] => {
+  const next = [...versions, version];
+  const automatic = next.filter(candidate => candidate.automatic);
+  const dropped = new Set(automatic.slice(0, Math.max(0, automatic.length - MAX_AUTOMATIC_VERSIONS)));
+  return next.filter(candidate => !dropped.has(candidate));
+};
+
+/**
+ * localStorage key of a page's versions
+ */
+const storageKey = (pageId: string) => `pageVersions-${pageId}`;
+
+/**
+ * Prefix of the localStorage keys of all page versions
+ */
+export const VERSIONS_KEY_PREFIX = storageKey('');
+
+/**
+ * Reads a page's versions from localStorage
+ * @param {string} pageId - The page
+ * @returns {PageVersion[]} The versions, oldest first (empty if none or unreadable)
+ */
+export const loadVersions = (pageId: string): PageVersion[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(pageId));
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Writes a page's versions to localStorage
+ * Automatic versions are full copies of the page, so storage can fill up.
+ * When it does, the oldest automatic versions are dropped first, then the
+ * oldest saved ones, until the rest fit.
+ * @param {string} pageId - The page
+ * @param {PageVersion[]} versions - The versions, oldest first
+ * @returns {PageVersion[]} The versions kept, oldest first
+ */
+export const saveVersions = (pageId: string, versions: PageVersion[]): PageVersion[] => {
+  const dropOrder = [
+    ...versions.filter(version => version.automatic),
+    ...versions.filter(version => !version.automatic),
+  ];
+  for (let dropped = 0; dropped < versions.length; dropped += 1) {
+    const droppedVersions = new Set(dropOrder.slice(0, dropped));
+    const kept = versions.filter(version => !droppedVersions.has(version));
+    try {
+      localStorage.setItem(storageKey(pageId), JSON.stringify(kept));
+      return kept;
+    } catch {
+      // Storage is full (or unavailable): try again with one version fewer
+    }
+  }
+  removeVersions(pageId);
+  return [];
+};
+
+/**
+ * Deletes a page's versions from localStorage
+ * @param {string} pageId - The page
+ */
+export const removeVersions = (pageId: string) => {
+  try {
+    localStorage.removeItem(storageKey(pageId));
+  } catch {
+    // Without localStorage there is nothing to delete
+  }
+};
+
+/**
+ * Deletes the versions of pages that no longer exist
+ * @param {Set<string>} pageIds - The pages whose versions are kept
+ */
+export const removeOrphanedVersions = (pageIds: Set<string>) => {
+  try {
+    const orphaned: string[] = [];
+    for (let index = 0; index < localStorage.length; index++) {
+      const key = localStorage.key(index);
+      if (key?.startsWith(VERSIONS_KEY_PREFIX) && !pageIds.has(key.slice(VERSIONS_KEY_PREFIX.length))) {
+        orphaned.push(key);
+      }
+    }
+    orphaned.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // Without localStorage there is nothing to delete
+  }
+};
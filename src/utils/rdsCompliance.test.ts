@@ -0,0 +1,33 @@
+import { RDSCluster } from '../types/inventory';
+import { describeRdsCompliance, getRdsComplianceIssues, MIN_BACKUP_RETENTION_DAYS } from './rdsCompliance';
+
+const cluster = (StorageEncrypted: boolean, BackupRetentionPeriod: number): RDSCluster => ({
+  type: 'DBClusters',
+  id: 'test',
+  attributes: {
+    DBClusterIdentifier: 'test-cluster',
+    Engine: 'aurora-postgresql',
+    EngineVersion: '15.4',
+    DBClusterInstanceClass: 'db.r6g.large',
+    MultiAZ: true,
+    StorageEncrypted,
+    BackupRetentionPeriod,
+    DeletionProtection: true,
+    Region: 'us-east-1',
+  },
+  relationships: {
+    Account: { data: { id: '123456789012', type: 'Accounts', name: 'Production' } },
+  },
+});
+
+describe('getRdsComplianceIssues', () => {
+  test('passes encrypted clusters at the minimum retention', () => {
+    expect(getRdsComplianceIssues(cluster(true, MIN_BACKUP_RETENTION_DAYS))).toEqual([]);
+    expect(describeRdsCompliance(cluster(true, 35))).toBe('Compliant');
+  });
+
+  test('flags missing encryption and short retention', () => {
+    expect(getRdsComplianceIssues(cluster(false, 1))).toEqual(['unencrypted', 'shortRetention']);
+    expect(describeRdsCompliance(cluster(true, MIN_BACKUP_RETENTION_DAYS - 1))).toBe('Short retention');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * RDS Compliance Checks
+ *
+ * Rules used by the database compliance review to flag RDS clusters that do
+ * not meet the baseline data-protection policy:
+ * - storage must be encrypted at rest
+ * - automated backups must be kept for at least MIN_BACKUP_RETENTION_DAYS
+ */
+
+import { RDSCluster } from '../types/inventory';
+
+/**
+ * Shortest acceptable automated backup retention, in days
+ */
+export const MIN_BACKUP_RETENTION_DAYS = 7;
+
+/**
+ * Identifier of a compliance rule a cluster can fail
+ */
+export type RdsComplianceIssue = 'unencrypted' | 'shortRetention';
+
+/**
+ * Short human-readable labels for each issue
+ */
+export const RDS_COMPLIANCE_LABELS: Record<RdsComplianceIssue, string> = {
+  unencrypted: 'Unencrypted',
+  shortRetention: 'Short retention',
+};
+
+/**
+ * Lists the compliance rules a cluster fails
+ * @param {RDSCluster} cluster - The cluster to check
+ * @returns {RdsComplianceIssue[]} Failed rules; empty when the cluster is compliant
+ */
+export const getRdsComplianceIssues = (cluster: RDSCluster): RdsComplianceIssue[] => {
+  const issues: RdsComplianceIssue[] = [];
+  if (!cluster.attributes.StorageEncrypted) {
+    issues.push('unencrypted');
+  }
+  if (cluster.attributes.BackupRetentionPeriod < MIN_BACKUP_RETENTION_DAYS) {
+    issues.push('shortRetention');
+  }
+  return issues;
+};
+
+/**
+ * Summarizes a cluster's compliance as text, for display and filtering
+ * @param {RDSCluster} cluster - The cluster to check
+ * @returns {string} "Compliant" or the comma-separated issue labels
+ */
+export const describeRdsCompliance = (cluster: RDSCluster): string => {
+  const issues = getRdsComplianceIssues(cluster);
+  return issues.length === 0
+    ? 'Compliant'
+    : issues.map(issue => RDS_COMPLIANCE_LABELS[issue]).join(', ');
+};
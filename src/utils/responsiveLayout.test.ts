@@ -0,0 +1,51 @@
+import {
+  addLayoutItem,
+  completeLayouts,
+  getBreakpointLayout,
+  removeLayoutItem,
+  scaleLayoutItem,
+  toResponsiveLayouts,
+} from './responsiveLayout';
+
+const table = { i: 'table', x: 0, y: 0, w: 20, h: 6 };
+const chart = { i: 'chart', x: 10, y: 6, w: 10, h: 4 };
+
+describe('responsive layouts', () => {
+  test('reads single layouts from before breakpoints as the widest layout', () => {
+    expect(toResponsiveLayouts([table])).toEqual({ lg: [table] });
+    expect(toResponsiveLayouts({ lg: [table], md: [chart], huge: [chart] })).toEqual({ lg: [table], md: [chart] });
+    expect(toResponsiveLayouts(null)).toEqual({});
+    expect(toResponsiveLayouts('broken')).toEqual({});
+  });
+
+  test('scales items to narrower grids', () => {
+    expect(scaleLayoutItem(chart, 20, 12)).toEqual({ ...chart, x: 6, w: 6 });
+    expect(scaleLayoutItem(chart, 20, 2)).toEqual({ ...chart, x: 1, w: 1 });
+    expect(scaleLayoutItem({ ...chart, x: 19, w: 1 }, 20, 6)).toEqual({ ...chart, x: 5, w: 1 });
+    expect(scaleLayoutItem(table, 20, 20)).toBe(table);
+  });
+
+  test('derives missing breakpoints from the nearest wider one', () => {
+    const layouts = { lg: [table, chart], md: [{ ...chart, x: 0, w: 12 }] };
+    expect(getBreakpointLayout(layouts, 'md', [])).toEqual([{ ...chart, x: 0, w: 12 }]);
+    expect(getBreakpointLayout(layouts, 'sm', [])).toEqual([{ ...chart, x: 0, w: 6 }]);
+    expect(getBreakpointLayout({}, 'lg', [table])).toEqual([table]);
+  });
+
+  test('places items missing from saved layouts by the default layout', () => {
+    const complete = completeLayouts({ lg: [table] }, [table, chart]);
+    expect(complete.lg).toEqual([table, chart]);
+    expect(complete.md).toEqual([{ ...table, w: 12 }, { ...chart, x: 6, w: 6 }]);
+    expect(Object.keys(complete)).toEqual(['lg', 'md', 'sm', 'xs']);
+  });
+
+  test('adds and removes items in every saved layout', () => {
+    const added = addLayoutItem({ lg: [table], sm: [{ ...table, w: 6 }] }, chart);
+    expect(added).toEqual({
+      lg: [table, { ...chart, y: Infinity }],
+      sm: [{ ...table, w: 6 }, { ...chart, x: 3, w: 3, y: Infinity }],
+    });
+    expect(addLayoutItem({}, chart)).toEqual({ lg: [{ ...chart, y: Infinity }] });
+    expect(removeLayoutItem(added, 'chart')).toEqual({ lg: [table], sm: [{ ...table, w: 6 }] });
+  });
+});
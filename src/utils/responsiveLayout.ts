@@ -0,0 +1,177 @@
+/**
+ * Responsive Grid Layouts
+ *
+ * Dashboard grids keep one layout per breakpoint, so a page can be arranged
+ * differently on a laptop than on a wall monitor. Layouts saved before
+ * breakpoints existed were a single 20-column layout; they become the
+ * widest breakpoint's layout, and the narrower ones are derived from it by
+ * scaling positions and widths to the narrower column count.
+ */
+
+import { Layout } from 'react-grid-layout';
+
+/**
+ * Grid breakpoints, widest first
+ */
+export type Breakpoint = 'lg' | 'md' | 'sm' | 'xs';
+
+/**
+ * One layout per breakpoint; breakpoints without a saved layout are derived
+ */
+export type ResponsiveLayouts = Partial<Record<Breakpoint, Layout[]>>;
+
+/**
+ * Breakpoints in order, widest first
+ */
+export const BREAKPOINT_ORDER: Breakpoint[] = ['lg', 'md', 'sm', 'xs'];
+
+/**
+ * Minimum container width (px) of each breakpoint
+ */
+export const BREAKPOINTS: Record<Breakpoint, number> = { lg: 1400, md: 1000, sm: 600, xs: 0 };
+
+/**
+ * Number of grid columns at each breakpoint
+ * The widest breakpoint keeps the 20 columns grids had before breakpoints.
+ */
+export const GRID_COLS: Record<Breakpoint, number> = { lg: 20, md: 12, sm: 6, xs: 2 };
+
+/**
+ * Breakpoint that default layouts and layouts from before breakpoints are written for
+ */
+export const BASE_BREAKPOINT: Breakpoint = 'lg';
+
+/**
+ * Height of a grid row (px)
+ */
+export const GRID_ROW_HEIGHT = 100;
+
+/**
+ * Prefix of the localStorage keys of the built-in pages' layouts, followed by the page ID
+ */
+export const LAYOUT_KEY_PREFIX = 'layout-';
+
+/**
+ * Reads saved layouts, migrating a single layout from before breakpoints
+ * @param {unknown} saved - A saved layout array or per-breakpoint layouts
+ * @returns {ResponsiveLayouts} The layouts per breakpoint (empty if unreadable)
+ */
+export const toResponsiveLayouts = (saved: unknown): ResponsiveLayouts => {
+  if (Array.isArray(saved)) {
+    return { [BASE_BREAKPOINT]: saved };
+  }
+  if (!saved || typeof saved !== 'object') {
+    return {};
+  }
+  const layouts: ResponsiveLayouts = {};
+  BREAKPOINT_ORDER.forEach(breakpoint => {
+    const layout = (saved as Record<string, unknown>)[breakpoint];
+    if (Array.isArray(layout)) {
+      layouts[breakpoint] = layout;
+    }
+  });
+  return layouts;
+};
+
+/**
+ * Scales a layout item to another column count
+ * Items keep their relative position and width, and stay within the grid.
+ * @param {Layout} item - The item
+ * @param {number} fromCols - Column count the item was laid out for
+ * @param {number} toCols - Column count to lay it out for
+ * @returns {Layout} The scaled item
+ */
+export const scaleLayoutItem = (item: Layout, fromCols: number, toCols: number): Layout => {
+  if (fromCols === toCols) {
+    return item;
+  }
+  const w = Math.min(toCols, Math.max(1, Math.round((item.w * toCols) / fromCols)));
+  const x = Math.min(toCols - w, Math.floor((item.x * toCols) / fromCols));
+  return { ...item, x, w };
+};
+
+/**
+ * Returns the layout of a breakpoint
+ * A breakpoint without a saved layout is derived from the nearest wider one,
+ * and items missing from the layout (e.g. widgets added since it was saved)
+ * are placed like in the default layout.
+ * @param {ResponsiveLayouts} layouts - The saved layouts
+ * @param {Breakpoint} breakpoint - The breakpoint
+ * @param {Layout[]} defaultLayout - Positions of all items at BASE_BREAKPOINT
+ * @returns {Layout[]} The breakpoint's layout
+ */
+export const getBreakpointLayout = (
+  layouts: ResponsiveLayouts,
+  breakpoint: Breakpoint,
+  defaultLayout: Layout[]
+): Layout[] => {
+  const cols = GRID_COLS[breakpoint];
+  const wider = BREAKPOINT_ORDER.slice(0, BREAKPOINT_ORDER.indexOf(breakpoint) + 1).reverse();
+  const source = wider.find(candidate => layouts[candidate]);
+
+  const saved = source
+    ? layouts[source]!.map(item => scaleLayoutItem(item, GRID_COLS[source], cols))
+    : [];
+  const missing = defaultLayout
+    .filter(item => !saved.some(existing => existing.i === item.i))
+    .map(item => scaleLayoutItem(item, GRID_COLS[BASE_BREAKPOINT], cols));
+  return [...saved, ...missing];
+};
+
+/**
+ * Returns the layouts of all breakpoints, deriving those not saved
+ * @param {ResponsiveLayouts} layouts - The saved layouts
+ * @param {Layout[]} defaultLayout - Positions of all items at BASE_BREAKPOINT
+ * @returns {Record<Breakpoint, Layout[]>} A layout per breakpoint
+ */
+export const completeLayouts = (
+  layouts: ResponsiveLayouts,
+  defaultLayout: Layout[]
+): Record<Breakpoint, Layout[]> => {
+  const complete = {} as Record<Breakpoint, Layout[]>;
+  BREAKPOINT_ORDER.forEach(breakpoint => {
+    complete[breakpoint] = getBreakpointLayout(layouts, breakpoint, defaultLayout);
+  });
+  return complete;
+};
+
+/**
+ * Applies a change to every saved layout
+ * @param {ResponsiveLayouts} layouts - The saved layouts
+ * @param {Function} update - Returns the new layout for a breakpoint's layout and column count
+ * @returns {ResponsiveLayouts} The updated layouts
+ */
+export const mapLayouts = (
+  layouts: ResponsiveLayouts,
+  update: (layout: Layout[], cols: number) => Layout[]
+): ResponsiveLayouts => {
+  const next: ResponsiveLayouts = {};
+  BREAKPOINT_ORDER.forEach(breakpoint => {
+    const layout = layouts[breakpoint];
+    if (layout) {
+      next[breakpoint] = update(layout, GRID_COLS[breakpoint]);
+    }
+  });
+  return next;
+};
+
+/**
+ * Adds an item to every saved layout, at the bottom of the grid
+ * @param {ResponsiveLayouts} layouts - The saved layouts
+ * @param {Layout} item - The item, positioned for BASE_BREAKPOINT
+ * @returns {ResponsiveLayouts} The updated layouts
+ */
+export const addLayoutItem = (layouts: ResponsiveLayouts, item: Layout): ResponsiveLayouts =>
+  mapLayouts(
+    layouts[BASE_BREAKPOINT] ? layouts : { ...layouts, [BASE_BREAKPOINT]: [] },
+    (layout, cols) => [...layout, { ...scaleLayoutItem(item, GRID_COLS[BASE_BREAKPOINT], cols), y: Infinity }]
+  );
+
+/**
+ * Removes an item from every saved layout
+ * @param {ResponsiveLayouts} layouts - The saved layouts
+ * @param {string} id - The item's id
+ * @returns {ResponsiveLayouts} The updated layouts
+ */
+export const removeLayoutItem = (layouts: ResponsiveLayouts, id: string): ResponsiveLayouts =>
+  mapLayouts(layouts, layout => layout.filter(item => item.i !== id));
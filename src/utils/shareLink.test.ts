@@ -0,0 +1,33 @@
+import { createShareLink, decodeSharedPage, encodeSharedPage, SHARED_PAGE_PATH } from './shareLink';
+import { PageContent } from './pageVersions';
+
+const page: PageContent = {
+  title: 'Buckets & costs',
+  widgets: [
+    { id: 'a', title: 'Notes', type: 'text', config: { text: '# Hello?\n\n- one #1' }, x: 0, y: 0, w: 6, h: 4 },
+    { id: 'b', title: 'Large', type: 'kpi', config: { filter: 'size > "1 TB"' }, x: 6, y: 0, w: 4, h: 3 },
+  ],
+  layout: { lg: [{ i: 'a', x: 0, y: 0, w: 6, h: 4 }, { i: 'b', x: 6, y: 0, w: 4, h: 3 }] },
+};
+
+describe('share links', () => {
+  test('round-trips a page through a URL-safe fragment', () => {
+    const encoded = encodeSharedPage(page);
+    expect(encoded).toMatch(/^[A-Za-z0-9+\-$]*$/);
+    expect(decodeSharedPage(encoded)).toEqual(page);
+    expect(decodeSharedPage(`#${encoded}`)).toEqual(page);
+  });
+
+  test('builds links to the preview route', () => {
+    const link = createShareLink(page, 'https://dashboard.example.com');
+    expect(link.startsWith(`https://dashboard.example.com${SHARED_PAGE_PATH}#`)).toBe(true);
+    expect(decodeSharedPage(new URL(link).hash)).toEqual(page);
+  });
+
+  test('rejects damaged or incomplete links', () => {
+    const encoded = encodeSharedPage(page);
+    expect(() => decodeSharedPage('')).toThrow('damaged or incomplete');
+    expect(() => decodeSharedPage(encoded.slice(0, encoded.length / 2))).toThrow('damaged or incomplete');
+    expect(() => decodeSharedPage(encodeSharedPage('x' as unknown as PageContent))).toThrow('damaged or incomplete');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Share Links
+ *
+ * Encodes a custom page's configuration (format version, title, widgets with
+ * their settings and filters, layout) into the fragment of a URL, so a page
+ * can be shared as a link instead of as YAML. The JSON is compressed with
+ * lz-string into URL-safe characters. The fragment is never sent to a server.
+ */
+
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+import { PageContent } from './pageVersions';
+
+/**
+ * Route that previews shared pages
+ */
+export const SHARED_PAGE_PATH = '/shared';
+
+/**
+ * Encodes a page configuration for a URL fragment
+ * @param {PageContent} content - The page's title, widgets and layout
+ * @returns {string} URL-safe compressed text
+ */
+export const encodeSharedPage = (content: PageContent): string =>
+  compressToEncodedURIComponent(JSON.stringify(content));
+
+/**
+ * Decodes a page configuration from a URL fragment
+ * The configuration still needs to be read with `readPageConfig` (utils/pageConfig).
+ * @param {string} fragment - The fragment, with or without the leading '#'
+ * @returns {unknown} The page configuration
+ * @throws {Error} If the fragment does not decode to a configuration
+ */
+export const decodeSharedPage = (fragment: string): unknown => {
+  const json = decompressFromEncodedURIComponent(fragment.replace(/^#/, ''));
+  try {
+    const config = json ? JSON.parse(json) : null;
+    if (config && typeof config === 'object') {
+      return config;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('The link is damaged or incomplete');
+};
+
+/**
+ * Builds the link that previews a page
+ * @param {PageContent} content - The page's title, widgets and layout
+ * @param {string} origin - The app's origin, e.g. `window.location.origin`
+ * @returns {string} The link
+ */
+export const createShareLink = (content: PageContent, origin: string): string =>
+  `${origin}${SHARED_PAGE_PATH}#${encodeSharedPage(content)}`;
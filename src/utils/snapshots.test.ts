@@ -0,0 +1,55 @@
+import { addSnapshot, getPreviousSnapshot, loadSnapshots, MAX_SNAPSHOTS, saveSnapshots } from './snapshots';
+
+const DAY = 24 * 60 * 60 * 1000;
+const monday = Date.UTC(2024, 2, 4, 9);
+
+describe('snapshots', () => {
+  test('keeps one snapshot per day', () => {
+    let history = addSnapshot([], { count: 1 }, monday);
+    history = addSnapshot(history, { count: 2 }, monday + 60 * 60 * 1000);
+    expect(history).toEqual([{ takenAt: monday + 60 * 60 * 1000, values: { count: 2 } }]);
+
+    history = addSnapshot(history, { count: 3 }, monday + DAY);
+    expect(history.map(snapshot => snapshot.values.count)).toEqual([2, 3]);
+  });
+
+  test('trims the history to the most recent days', () => {
+    let history = addSnapshot([], { count: 0 }, monday);
+    for (let day = 1; day <= MAX_SNAPSHOTS; day++) {
+      history = addSnapshot(history, { count: day }, monday + day * DAY);
+    }
+    expect(history).toHaveLength(MAX_SNAPSHOTS);
+    expect(history[0].values.count).toBe(1);
+  });
+
+  test('compares against the latest snapshot from an earlier day', () => {
+    const history = [
+      { takenAt: monday - 2 * DAY, values: { count: 1 } },
+      { takenAt: monday - DAY, values: { count: 2 } },
+      { takenAt: monday, values: { count: 3 } },
+    ];
+    expect(getPreviousSnapshot(history, monday + 1000)?.values.count).toBe(2);
+    expect(getPreviousSnapshot(history.slice(2), monday)).toBeUndefined();
+  });
+
+  test('stores histories in localStorage', () => {
+    saveSnapshots('test', [{ takenAt: monday, values: { count: 1 } }]);
+    expect(loadSnapshots('test')).toEqual([{ takenAt: monday, values: { count: 1 } }]);
+    localStorage.setItem('snapshots-broken', '{not json');
+    expect(loadSnapshots('broken')).toEqual([]);
+    expect(loadSnapshots('missing')).toEqual([]);
+  });
+
+  test('reports histories it could not store', () => {
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded', 'QuotaExceededError');
+    });
+    try {
+      expect(saveSnapshots('full', [{ takenAt: monday, values: { count: 1 } }])).toBe(false);
+    } finally {
+      setItem.mockRestore();
+    }
+    expect(loadSnapshots('full')).toEqual([]);
+    expect(saveSnapshots('full', [{ takenAt: monday, values: { count: 1 } }])).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Metric Snapshots
+ *
+ * A history of named numbers (e.g. bucket count, total size) recorded over
+ * time, used for trend arrows and sparklines. At most one snapshot is kept
+ * per calendar day (UTC): recording again on the same day replaces that
+ * day's snapshot, so the history reads as one value per day. Histories stay
+ * in this browser's localStorage whatever storage backend is configured (see
+ * utils/storageKeys).
+ */
+
+/**
+ * Named metric values, e.g. { 's3.count': 42 }
+ */
+export type SnapshotValues = Record<string, number>;
+
+/**
+ * Snapshot Interface
+ * @property {number} takenAt - Time the snapshot was recorded (ms)
+ * @property {SnapshotValues} values - The recorded values
+ */
+export interface Snapshot {
+  takenAt: number;
+  values: SnapshotValues;
+}
+
+/**
+ * Number of daily snapshots kept per history
+ */
+export const MAX_SNAPSHOTS = 90;
+
+/**
+ * Calendar day (UTC) of a time, e.g. "2024-03-01"
+ */
+const dayOf = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Records values in a history
+ * @param {Snapshot[]} history - Snapshots, oldest first
+ * @param {SnapshotValues} values - The current values
+ * @param {number} now - Current time (ms)
+ * @returns {Snapshot[]} The new history, replacing a snapshot from the same day
+ */
+export const addSnapshot = (history: Snapshot[], values: SnapshotValues, now: number): Snapshot[] => {
+  const last = history[history.length - 1];
+  const earlier = last && dayOf(last.takenAt) === dayOf(now) ? history.slice(0, -1) : history;
+  return [...earlier, { takenAt: now, values }].slice(-MAX_SNAPSHOTS);
+};
+
+/**
+ * Finds the snapshot trends are measured against: the latest one from an earlier day
+ * @param {Snapshot[]} history - Snapshots, oldest first
+ * @param {number} now - Current time (ms)
+ * @returns {Snapshot | undefined} The previous snapshot, if there is one
+ */
+export const getPreviousSnapshot = (history: Snapshot[], now: number): Snapshot | undefined => {
+  const today = dayOf(now);
+  return [...history].reverse().find(snapshot => dayOf(snapshot.takenAt) < today);
+};
+
+/**
+ * localStorage key of a snapshot history
+ */
+const storageKey = (key: string) => `snapshots-${key}`;
+
+/**
+ * Reads a snapshot history from localStorage
+ * @param {string} key - History identifier
+ * @returns {Snapshot[]} The snapshots, oldest first (empty if none or unreadable)
+ */
+export const loadSnapshots = (key: string): Snapshot[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(key));
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Writes a snapshot history to localStorage
+ * @param {string} key - History identifier
+ * @param {Snapshot[]} history - The snapshots, oldest first
+ * @returns {boolean} Whether the history was written; false when storage is full or unavailable
+ */
+export const saveSnapshots = (key: string, history: Snapshot[]): boolean => {
+  try {
+    localStorage.setItem(storageKey(key), JSON.stringify(history));
+    return true;
+  } catch {
+    return false;
+  }
+};
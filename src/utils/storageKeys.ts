@@ -0,0 +1,67 @@
+/**
+ * Storage Keys
+ *
+ * The keys the dashboard keeps its state under through the app's storage
+ * adapter (see StorageContext), so they follow the configured backend.
+ *
+ * Page versions, snapshot histories and the theme are not among them: they
+ * stay in the browser's localStorage on purpose. Versions and snapshots are
+ * frequent, bulky automatic records of what this browser saw, and the theme
+ * is a choice per device.
+ */
+
+import { LAYOUT_KEY_PREFIX } from './responsiveLayout';
+
+/**
+ * Storage key of the custom pages
+ */
+export const PAGES_KEY = 'customPages';
+
+/**
+ * Storage key of the templates saved from pages
+ */
+export const TEMPLATES_KEY = 'pageTemplates';
+
+/**
+ * Storage keys of filters saved in inventory tables, e.g. `ec2-instances-filters-ec2-page-default`
+ */
+const FILTER_KEY_PATTERN = /^[a-z0-9-]+-filters-[\w-]+$/;
+
+/**
+ * The only S3 bucket filter still kept under its own key: the S3 page's table.
+ * S3 bucket widgets keep their filter in the widget config.
+ */
+const S3_PAGE_FILTER_KEY = 's3-buckets-filters-s3-page-default';
+
+/**
+ * Whether a key holds a filter S3 bucket widgets kept before their filter moved
+ * into the widget config. The widget migrates it from localStorage and removes it.
+ * @param {string} key - The key
+ * @returns {boolean} True for stale S3 widget filter keys
+ */
+export const isLegacyFilterKey = (key: string): boolean =>
+  key.startsWith('s3-buckets-filters-') && key !== S3_PAGE_FILTER_KEY;
+
+/**
+ * Whether a key holds the filter of an inventory table
+ * @param {string} key - The key
+ * @returns {boolean} True for filter keys, except stale S3 widget filters
+ */
+export const isFilterKey = (key: string): boolean =>
+  FILTER_KEY_PATTERN.test(key) && !isLegacyFilterKey(key);
+
+/**
+ * Whether a key holds the layouts of a built-in page or the filter of an inventory table
+ * @param {string} key - The key
+ * @returns {boolean} True for layout and filter keys
+ */
+export const isSettingKey = (key: string): boolean =>
+  key.startsWith(LAYOUT_KEY_PREFIX) || isFilterKey(key);
+
+/**
+ * Whether a key holds state kept through the storage adapter
+ * @param {string} key - The key
+ * @returns {boolean} True for the pages, the saved templates, layouts and table filters
+ */
+export const isStoredStateKey = (key: string): boolean =>
+  key === PAGES_KEY || key === TEMPLATES_KEY || isSettingKey(key);
@@ -0,0 +1,30 @@
+import { ColorScheme, readThemePreference, resolveTheme, ThemePreference } from './themePreference';
+
+type TestTheme = 'paper' | 'sand' | 'night' | 'ink';
+
+const schemes: Record<TestTheme, ColorScheme> = { paper: 'light', sand: 'light', night: 'dark', ink: 'dark' };
+const defaults: ThemePreference<TestTheme> = { mode: 'paper', light: 'paper', dark: 'night' };
+
+describe('theme preference', () => {
+  test('reads a saved preference, keeping the defaults for invalid fields', () => {
+    expect(readThemePreference({ mode: 'auto', light: 'sand', dark: 'ink' }, schemes, defaults))
+      .toEqual({ mode: 'auto', light: 'sand', dark: 'ink' });
+    expect(readThemePreference({ mode: 'neon', light: 'night', dark: 'ink' }, schemes, defaults))
+      .toEqual({ mode: 'paper', light: 'paper', dark: 'ink' });
+    expect(readThemePreference('ink', schemes, defaults)).toEqual({ ...defaults, mode: 'ink' });
+    expect(readThemePreference(null, schemes, defaults)).toBe(defaults);
+    expect(readThemePreference(['night'], schemes, defaults)).toEqual(defaults);
+  });
+
+  test('follows the OS setting in Auto mode', () => {
+    const auto: ThemePreference<TestTheme> = { mode: 'auto', light: 'sand', dark: 'ink' };
+    expect(resolveTheme(auto, false)).toBe('sand');
+    expect(resolveTheme(auto, true)).toBe('ink');
+    expect(resolveTheme({ ...auto, mode: 'paper' }, true)).toBe('paper');
+  });
+
+  test("shows a page's own theme over the chosen one", () => {
+    expect(resolveTheme({ mode: 'auto', light: 'sand', dark: 'ink' }, true, 'paper')).toBe('paper');
+    expect(resolveTheme(defaults, false, null)).toBe('paper');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Theme Preference
+ *
+ * The theme chosen in the header, as kept in localStorage: either one theme,
+ * or "Auto", which follows the operating system's light or dark setting
+ * (`prefers-color-scheme`) and shows a chosen light or dark theme accordingly.
+ *
+ * Technical Concepts:
+ * 1. Validation of saved state, falling back per field to the defaults
+ * 2. Resolution of the shown theme from the preference, the OS setting and a page's own theme
+ */
+
+/**
+ * localStorage key of the theme preference
+ */
+export const THEME_PREFERENCE_KEY = 'theme';
+
+/**
+ * Whether a theme is light or dark (its palette mode)
+ */
+export type ColorScheme = 'light' | 'dark';
+
+/**
+ * The chosen theme
+ * @property {string} mode - A theme name, or 'auto' to follow the OS setting
+ * @property {string} light - Theme shown in Auto mode while the OS is set to light
+ * @property {string} dark - Theme shown in Auto mode while the OS is set to dark
+ */
+export interface ThemePreference<T extends string = string> {
+  mode: T | 'auto';
+  light: T;
+  dark: T;
+}
+
+/**
+ * Reads a saved theme preference
+ * A bare theme name is taken as that theme. Fields that are missing, name an
+ * unknown theme, or name a theme of the wrong scheme for Auto keep their default.
+ * @param {unknown} saved - What was saved
+ * @param {Object} schemes - The scheme of every known theme, by name
+ * @param {ThemePreference} defaults - The preference when nothing valid was saved
+ * @returns {ThemePreference} The preference
+ */
+export const readThemePreference = <T extends string>(
+  saved: unknown,
+  schemes: Record<T, ColorScheme>,
+  defaults: ThemePreference<T>
+): ThemePreference<T> => {
+  const isTheme = (value: unknown, scheme?: ColorScheme): value is T =>
+    typeof value === 'string'
+    && Object.prototype.hasOwnProperty.call(schemes, value)
+    && (!scheme || schemes[value as T] === scheme);
+
+  if (isTheme(saved)) {
+    return { ...defaults, mode: saved };
+  }
+  if (typeof saved !== 'object' || saved === null) {
+    return defaults;
+  }
+  const { mode, light, dark } = saved as Partial<Record<keyof ThemePreference, unknown>>;
+  return {
+    mode: mode === 'auto' || isTheme(mode) ? mode : defaults.mode,
+    light: isTheme(light, 'light') ? light : defaults.light,
+    dark: isTheme(dark, 'dark') ? dark : defaults.dark,
+  };
+};
+
+/**
+ * Picks the theme to show
+ * @param {ThemePreference} preference - The chosen theme
+ * @param {boolean} prefersDark - Whether the OS is set to dark
+ * @param {string | null} [pageTheme] - The open page's own theme, which wins when set
+ * @returns {string} The theme's name
+ */
+export const resolveTheme = <T extends string>(
+  preference: ThemePreference<T>,
+  prefersDark: boolean,
+  pageTheme: T | null = null
+): T => {
+  if (pageTheme) return pageTheme;
+  if (preference.mode !== 'auto') return preference.mode;
+  return prefersDark ? preference.dark : preference.light;
+};
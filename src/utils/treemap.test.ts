@@ -0,0 +1,34 @@
+import { layoutTreemap } from './treemap';
+
+const values = [6, 6, 4, 3, 2, 2, 1];
+
+describe('layoutTreemap', () => {
+  test('gives each item an area proportional to its value', () => {
+    const rects = layoutTreemap(values, value => value, 6, 4);
+    expect(rects.map(rect => rect.item)).toEqual(values);
+    rects.forEach(rect => {
+      expect(rect.width * rect.height).toBeCloseTo(rect.item);
+    });
+  });
+
+  test('keeps rectangles inside the bounds without overlapping', () => {
+    const rects = layoutTreemap(values, value => value, 6, 4);
+    rects.forEach((rect, index) => {
+      expect(rect.x).toBeGreaterThanOrEqual(0);
+      expect(rect.y).toBeGreaterThanOrEqual(0);
+      expect(rect.x + rect.width).toBeLessThanOrEqual(6 + 1e-9);
+      expect(rect.y + rect.height).toBeLessThanOrEqual(4 + 1e-9);
+      rects.slice(index + 1).forEach(other => {
+        const overlapX = Math.min(rect.x + rect.width, other.x + other.width) - Math.max(rect.x, other.x);
+        const overlapY = Math.min(rect.y + rect.height, other.y + other.height) - Math.max(rect.y, other.y);
+        expect(overlapX <= 1e-9 || overlapY <= 1e-9).toBe(true);
+      });
+    });
+  });
+
+  test('leaves out empty items and handles empty input', () => {
+    expect(layoutTreemap([5, 0, -1], value => value, 10, 10).map(rect => rect.item)).toEqual([5]);
+    expect(layoutTreemap([], (value: number) => value, 10, 10)).toEqual([]);
+    expect(layoutTreemap([0], value => value, 10, 10)).toEqual([]);
+  });
+});
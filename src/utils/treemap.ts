@@ -0,0 +1,118 @@
+/**
+ * Treemap Layout
+ *
+ * Computes a squarified treemap (Bruls, Huizing and van Wijk): items are laid
+ * out largest first in rows along the shorter side of the remaining space,
+ * and a row is closed as soon as adding the next item would make its
+ * rectangles less square. Rectangle areas are proportional to item values.
+ */
+
+/**
+ * A laid-out treemap item
+ * @property {T} item - The item
+ * @property {number} x - Left edge
+ * @property {number} y - Top edge
+ * @property {number} width - Width
+ * @property {number} height - Height
+ */
+export interface TreemapRect<T> {
+  item: T;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Space {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Sized<T> {
+  item: T;
+  area: number;
+}
+
+/**
+ * Worst aspect ratio of a row of areas laid along a side of the given length
+ */
+const worstRatio = (areas: number[], side: number): number => {
+  const total = areas.reduce((sum, area) => sum + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (total * total), (total * total) / (side * side * min));
+};
+
+/**
+ * Places a row along the shorter side of the space and returns the space left over
+ */
+const placeRow = <T>(row: Sized<T>[], space: Space, rects: TreemapRect<T>[]): Space => {
+  const total = row.reduce((sum, entry) => sum + entry.area, 0);
+  if (space.width >= space.height) {
+    // Column on the left
+    const width = total / space.height;
+    let y = space.y;
+    row.forEach(entry => {
+      const height = entry.area / width;
+      rects.push({ item: entry.item, x: space.x, y, width, height });
+      y += height;
+    });
+    return { x: space.x + width, y: space.y, width: space.width - width, height: space.height };
+  }
+  // Row along the top
+  const height = total / space.width;
+  let x = space.x;
+  row.forEach(entry => {
+    const width = entry.area / height;
+    rects.push({ item: entry.item, x, y: space.y, width, height });
+    x += width;
+  });
+  return { x: space.x, y: space.y + height, width: space.width, height: space.height - height };
+};
+
+/**
+ * Lays out items as a squarified treemap
+ * Items with a value of zero or less are left out.
+ * @param {T[]} items - The items
+ * @param {Function} getValue - Returns an item's value
+ * @param {number} width - Width of the treemap
+ * @param {number} height - Height of the treemap
+ * @returns {TreemapRect<T>[]} One rectangle per item, largest first
+ */
+export const layoutTreemap = <T>(
+  items: T[],
+  getValue: (item: T) => number,
+  width: number,
+  height: number
+): TreemapRect<T>[] => {
+  const positive = items.filter(item => getValue(item) > 0);
+  const total = positive.reduce((sum, item) => sum + getValue(item), 0);
+  if (total === 0 || width <= 0 || height <= 0) {
+    return [];
+  }
+
+  const scale = (width * height) / total;
+  const remaining: Sized<T>[] = positive
+    .map(item => ({ item, area: getValue(item) * scale }))
+    .sort((a, b) => b.area - a.area);
+
+  const rects: TreemapRect<T>[] = [];
+  let space: Space = { x: 0, y: 0, width, height };
+  let row: Sized<T>[] = [];
+  while (remaining.length > 0) {
+    const side = Math.min(space.width, space.height);
+    const next = remaining[0];
+    const areas = row.map(entry => entry.area);
+    if (row.length === 0 || worstRatio([...areas, next.area], side) <= worstRatio(areas, side)) {
+      row.push(next);
+      remaining.shift();
+    } else {
+      space = placeRow(row, space, rects);
+      row = [];
+    }
+  }
+  placeRow(row, space, rects);
+  return rects;
+};
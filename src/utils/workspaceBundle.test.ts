@@ -0,0 +1,140 @@
+import { createLocalStorageAdapter } from '../data/storage/LocalStorageAdapter';
+import { PageConfigError, WidgetTypeLookup } from './pageConfig';
+import { createTemplate } from './pageTemplates';
+import {
+  collectStoredSettings,
+  createWorkspaceBundle,
+  mergePages,
+  mergeTemplates,
+  readWorkspaceBundle,
+  restoreStoredSettings,
+  WORKSPACE_BUNDLE_VERSION,
+  WorkspacePage,
+} from './workspaceBundle';
+
+const lookupType: WidgetTypeLookup = (type) =>
+  type === 'text' ? { configSchema: [{ key: 'text', label: 'Text', type: 'multiline' }] } : undefined;
+
+const page = (id: string, title: string): WorkspacePage => ({
+  id,
+  title,
+  widgets: [{ id: 'a', title: 'Notes', type: 'text', config: { text: title }, x: 0, y: 0, w: 6, h: 4 }],
+  layout: { lg: [{ i: 'a', x: 0, y: 0, w: 6, h: 4 }] },
+});
+
+const issuesOf = (raw: unknown) => {
+  try {
+    readWorkspaceBundle(raw, lookupType);
+  } catch (error) {
+    return (error as PageConfigError).issues;
+  }
+  return [];
+};
+
+describe('workspace bundles', () => {
+  beforeEach(() => localStorage.clear());
+
+  test('reads back what was exported', () => {
+    const template = createTemplate({ ...page('t', 'Template'), theme: 'forest' }, 'Review', 'Monthly');
+    const workspace = {
+      pages: [page('p1', 'Costs'), { ...page('p2', 'Storage'), theme: 'ocean' as const }],
+      templates: [template],
+      theme: 'dark',
+      layouts: { 's3-page': { lg: [{ i: 'buckets', x: 0, y: 0, w: 12, h: 8 }] } },
+      filters: { 's3-buckets-filters-s3-page-default': [] },
+    };
+    const bundle = createWorkspaceBundle(workspace, new Date('2026-01-02T03:04:05Z'));
+    expect(bundle).toMatchObject({ apiVersion: WORKSPACE_BUNDLE_VERSION, exportedAt: '2026-01-02T03:04:05.000Z' });
+    expect(readWorkspaceBundle(JSON.parse(JSON.stringify(bundle)), lookupType)).toEqual(workspace);
+  });
+
+  test('reports problems with their path in the bundle', () => {
+    const untitled: Record<string, unknown> = page('p2', 'x');
+    delete untitled.title;
+    expect(issuesOf({
+      apiVersion: WORKSPACE_BUNDLE_VERSION,
+      pages: [page('p1', 'Costs'), page('p1', 'Again'), untitled, { ...page('', 'No id'), id: undefined }],
+      templates: [{ id: 't', name: 'Broken', content: { ...page('t', 'T'), title: 7 } }],
+      filters: { 'not a filter key': [] },
+    }).map(issue => issue.path)).toEqual([
+      'pages[1].id',
+      'pages[2].title',
+      'pages[3].id',
+      'templates[0].content.title',
+      'filters.not a filter key',
+    ]);
+  });
+
+  test('rejects files that are not workspace bundles', () => {
+    expect(issuesOf({ title: 'A page', widgets: [], layout: {} })[0].path).toBe('apiVersion');
+    expect(issuesOf({ apiVersion: 'workspace/v9' })[0].message).toContain('Unknown version');
+    expect(issuesOf(['pages'])).toHaveLength(1);
+  });
+
+  test('merges pages, keeping both when an id holds different pages', () => {
+    const current = [page('p1', 'Costs'), page('p2', 'Storage')];
+    const result = mergePages(current, [page('p1', 'Costs'), page('p2', 'Other'), page('p3', 'New')], 'merge');
+    expect(result).toMatchObject({ added: 2, skipped: 1 });
+    expect(result.pages.map(item => item.title)).toEqual(['Costs', 'Storage', 'Other', 'New']);
+    expect(new Set(result.pages.map(item => item.id)).size).toBe(4);
+
+    expect(mergePages(current, [{ ...page('p1', 'Costs'), theme: 'dark' }], 'merge')).toMatchObject({ added: 1, skipped: 0 });
+    expect(mergePages(current, [{ ...page('p3', 'New'), theme: 'dark' }], 'replace').pages)
+      .toEqual([{ ...page('p3', 'New'), theme: 'dark' }]);
+  });
+
+  test('merges templates by id', () => {
+    const kept = { ...createTemplate(page('a', 'A'), 'Kept', ''), id: 'x' };
+    const clash = { ...createTemplate(page('b', 'B'), 'Clash', ''), id: 'x' };
+    const added = { ...createTemplate(page('c', 'C'), 'Added', ''), id: 'y' };
+    expect(mergeTemplates([kept], [clash, added], 'merge')).toEqual([kept, added]);
+    expect(mergeTemplates([kept], [added], 'replace')).toEqual([added]);
+  });
+
+  test('collects and restores layouts and table filters', async () => {
+    const adapter = createLocalStorageAdapter();
+    const updated: string[] = [];
+    const storage = {
+      keys: adapter.keys,
+      load: adapter.load,
+      update: (key: string, value: unknown | null) => {
+        updated.push(key);
+        return value === null ? adapter.remove(key) : adapter.save(key, value);
+      },
+    };
+    const layouts = { lg: [{ i: 'buckets', x: 0, y: 0, w: 12, h: 8 }] };
+    localStorage.setItem('layout-s3-page', JSON.stringify(layouts));
+    localStorage.setItem('s3-buckets-filters-s3-page-default', '[]');
+    localStorage.setItem('customPages', '[]');
+    expect(await collectStoredSettings(storage)).toEqual({
+      layouts: { 's3-page': layouts },
+      filters: { 's3-buckets-filters-s3-page-default': [] },
+    });
+
+    const imported = { lg: [{ i: 'buckets', x: 0, y: 0, w: 6, h: 4 }] };
+    await restoreStoredSettings(storage, { layouts: { 's3-page': imported, 'ec2-page': imported }, filters: {} }, 'merge');
+    const merged = await collectStoredSettings(storage);
+    expect(merged.layouts).toEqual({ 's3-page': layouts, 'ec2-page': imported });
+    expect(merged.filters).toHaveProperty(['s3-buckets-filters-s3-page-default']);
+    expect(updated).toEqual(['layout-ec2-page']);
+
+    await restoreStoredSettings(storage, { layouts: { 's3-page': imported }, filters: {} }, 'replace');
+    expect(await collectStoredSettings(storage)).toEqual({ layouts: { 's3-page': imported }, filters: {} });
+    expect(updated.slice(1).sort()).toEqual(['layout-ec2-page', 'layout-s3-page', 's3-buckets-filters-s3-page-default']);
+    expect(localStorage.getItem('customPages')).toBe('[]');
+  });
+
+  test('leaves out filters S3 bucket widgets kept before they moved into the widget config', async () => {
+    localStorage.setItem('s3-buckets-filters-s3-page-default', '[]');
+    localStorage.setItem('s3-buckets-filters-w1', '[]');
+    localStorage.setItem('ec2-instances-filters-w1', '[]');
+    expect(await collectStoredSettings(createLocalStorageAdapter())).toEqual({
+      layouts: {},
+      filters: { 's3-buckets-filters-s3-page-default': [], 'ec2-instances-filters-w1': [] },
+    });
+
+    // Bundles exported before still list them
+    const bundle = { apiVersion: WORKSPACE_BUNDLE_VERSION, pages: [], filters: { 's3-buckets-filters-w1': [] } };
+    expect(readWorkspaceBundle(bundle, lookupType).filters).toEqual({});
+  });
+});
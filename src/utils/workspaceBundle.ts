@@ -0,0 +1,334 @@
+/**
+ * Workspace Bundles
+ *
+ * A backup of everything a user set up in the dashboard, in one file: the
+ * custom pages (in the page configuration format, see utils/pageConfig), the
+ * templates saved from pages, the theme, the layouts of the built-in pages
+ * and the filters saved in inventory tables. A bundle can be imported into
+ * another browser, either merged with what is there or replacing it.
+ *
+ * Technical Concepts:
+ * 1. Versioned bundle format reusing the page configuration validation
+ * 2. Merging by ID, keeping both sides when the same ID holds different pages
+ * 3. Stored keys collected and restored by pattern, through the app's storage (StorageContext)
+ */
+
+import { FilterElement } from './filterExpression';
+import { PageConfig, PageConfigError, PageConfigIssue, readPageConfig, toPageConfig, WidgetTypeLookup } from './pageConfig';
+import { PageTemplate } from './pageTemplates';
+import { PageContent } from './pageVersions';
+import { LAYOUT_KEY_PREFIX, ResponsiveLayouts, toResponsiveLayouts } from './responsiveLayout';
+import { isFilterKey, isLegacyFilterKey, isSettingKey } from './storageKeys';
+
+/**
+ * Format version written by this app
+ */
+export const WORKSPACE_BUNDLE_VERSION = 'workspace/v1';
+
+/**
+ * How an imported bundle combines with the current workspace
+ * - merge: keeps everything, adding what the bundle has in addition
+ * - replace: discards the current workspace first
+ */
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+/**
+ * A custom page with its ID, as kept in the workspace
+ */
+export type WorkspacePage = PageContent & {
+  id: string;
+};
+
+/**
+ * Settings kept in storage outside the custom pages
+ * @property {Object} layouts - Layouts of the built-in pages, by page ID
+ * @property {Object} filters - Filters saved in inventory tables, by storage key
+ */
+export type StoredSettings = {
+  layouts: Record<string, ResponsiveLayouts>;
+  filters: Record<string, FilterElement[]>;
+};
+
+/**
+ * A workspace bundle as written to a file
+ * @property {string} apiVersion - Bundle format version
+ * @property {string} exportedAt - Time of the export (ISO 8601)
+ * @property {string} theme - The chosen theme, or 'auto' when it follows the OS light/dark setting
+ * @property {Array} pages - The custom pages, with their IDs
+ * @property {PageTemplate[]} templates - Templates saved from pages
+ */
+export type WorkspaceBundle = StoredSettings & {
+  apiVersion: string;
+  exportedAt: string;
+  theme: string;
+  pages: Array<PageConfig & { id: string }>;
+  templates: PageTemplate[];
+};
+
+/**
+ * What a bundle contains, read and validated
+ */
+export type WorkspaceContents = StoredSettings & {
+  theme: string | null;
+  pages: WorkspacePage[];
+  templates: PageTemplate[];
+};
+
+/**
+ * Outcome of merging pages into the workspace
+ * @property {WorkspacePage[]} pages - The workspace's pages afterwards
+ * @property {number} added - Pages added from the bundle
+ * @property {number} skipped - Bundle pages already in the workspace, unchanged
+ */
+export interface PageMergeResult {
+  pages: WorkspacePage[];
+  added: number;
+  skipped: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The storage operations settings are read and written with (StorageContext provides them)
+ * @property {Function} keys - Lists the saved keys
+ * @property {Function} load - Reads a key; null if it was never saved
+ * @property {Function} update - Saves a key, or removes it for null, and tells whoever shows it
+ */
+export interface SettingsStorage {
+  keys: () => Promise<string[]>;
+  load: (key: string) => Promise<unknown | null>;
+  update: (key: string, value: unknown | null) => Promise<void>;
+}
+
+/**
+ * Reads the layouts and table filters saved in storage
+ * @param {SettingsStorage} storage - The app's storage
+ * @returns {Promise<StoredSettings>} The settings
+ */
+export const collectStoredSettings = async (storage: Pick<SettingsStorage, 'keys' | 'load'>): Promise<StoredSettings> => {
+  const settings: StoredSettings = { layouts: {}, filters: {} };
+  const keys = (await storage.keys()).filter(isSettingKey);
+  await Promise.all(keys.map(async key => {
+    let value: unknown;
+    try {
+      value = await storage.load(key);
+    } catch {
+      // Unreadable entries are left out of the bundle
+      return;
+    }
+    if (value === null) return;
+    if (key.startsWith(LAYOUT_KEY_PREFIX)) {
+      settings.layouts[key.slice(LAYOUT_KEY_PREFIX.length)] = toResponsiveLayouts(value);
+    } else if (Array.isArray(value)) {
+      settings.filters[key] = value;
+    }
+  }));
+  return settings;
+};
+
+/**
+ * Writes imported layouts and table filters to storage
+ * Pages showing them, in this tab or others, switch to them right away.
+ * @param {SettingsStorage} storage - The app's storage
+ * @param {StoredSettings} settings - The imported settings
+ * @param {WorkspaceImportMode} mode - 'replace' removes the current settings first;
+ *   'merge' only adds settings that are not set yet
+ */
+export const restoreStoredSettings = async (
+  storage: Pick<SettingsStorage, 'keys' | 'update'>,
+  settings: StoredSettings,
+  mode: WorkspaceImportMode
+): Promise<void> => {
+  const existing = (await storage.keys()).filter(isSettingKey);
+  const entries = new Map<string, unknown>([
+    ...Object.entries(settings.layouts).map(([pageId, layouts]): [string, unknown] => [`${LAYOUT_KEY_PREFIX}${pageId}`, layouts]),
+    ...Object.entries(settings.filters),
+  ]);
+  if (mode === 'replace') {
+    await Promise.all(existing.filter(key => !entries.has(key)).map(key => storage.update(key, null)));
+  }
+  await Promise.all(Array.from(entries)
+    .filter(([key]) => mode === 'replace' || !existing.includes(key))
+    .map(([key, value]) => storage.update(key, value)));
+};
+
+/**
+ * Builds a bundle of the workspace
+ * @param {Object} workspace - The pages, saved templates, theme and stored settings
+ * @param {Date} now - Time of the export
+ * @returns {WorkspaceBundle} The bundle
+ */
+export const createWorkspaceBundle = (
+  workspace: StoredSettings & { pages: WorkspacePage[]; templates: PageTemplate[]; theme: string },
+  now: Date
+): WorkspaceBundle => ({
+  apiVersion: WORKSPACE_BUNDLE_VERSION,
+  exportedAt: now.toISOString(),
+  theme: workspace.theme,
+  pages: workspace.pages.map(page => ({ id: page.id, ...toPageConfig(page) })),
+  templates: workspace.templates,
+  layouts: workspace.layouts,
+  filters: workspace.filters,
+});
+
+/**
+ * Reads a page configuration inside the bundle, reporting problems under the given path
+ */
+const readNestedPage = (
+  raw: unknown,
+  path: string,
+  lookupType: WidgetTypeLookup,
+  issues: PageConfigIssue[]
+): PageContent | null => {
+  try {
+    return readPageConfig(raw, lookupType);
+  } catch (error) {
+    const nested = error instanceof PageConfigError ? error.issues : [{ path: '', message: String(error) }];
+    nested.forEach(issue => issues.push({ path: issue.path ? `${path}.${issue.path}` : path, message: issue.message }));
+    return null;
+  }
+};
+
+/**
+ * Reads and validates a workspace bundle
+ * @param {unknown} raw - The bundle as read, e.g. parsed YAML or JSON
+ * @param {WidgetTypeLookup} lookupType - Looks up widget types
+ * @returns {WorkspaceContents} The bundle's contents
+ * @throws {PageConfigError} If the bundle is invalid, with every problem found
+ */
+export const readWorkspaceBundle = (raw: unknown, lookupType: WidgetTypeLookup): WorkspaceContents => {
+  if (!isObject(raw)) {
+    throw new PageConfigError([{ path: '', message: 'Expected a workspace bundle' }]);
+  }
+  if (raw.apiVersion !== WORKSPACE_BUNDLE_VERSION) {
+    throw new PageConfigError([{
+      path: 'apiVersion',
+      message: raw.apiVersion === undefined
+        ? `Not a workspace bundle; page configurations are imported with "Add New Page"`
+        : `Unknown version "${raw.apiVersion}"; supported version is ${WORKSPACE_BUNDLE_VERSION}`,
+    }]);
+  }
+
+  const issues: PageConfigIssue[] = [];
+  const contents: WorkspaceContents = { theme: null, pages: [], templates: [], layouts: {}, filters: {} };
+
+  if (raw.theme !== undefined) {
+    if (typeof raw.theme === 'string') {
+      contents.theme = raw.theme;
+    } else {
+      issues.push({ path: 'theme', message: 'Expected a theme name' });
+    }
+  }
+
+  if (!Array.isArray(raw.pages)) {
+    issues.push({ path: 'pages', message: 'Expected a list of pages' });
+  } else {
+    raw.pages.forEach((page: unknown, index) => {
+      const path = `pages[${index}]`;
+      const content = readNestedPage(page, path, lookupType, issues);
+      if (!isObject(page) || typeof page.id !== 'string' || !page.id) {
+        issues.push({ path: `${path}.id`, message: 'Expected a page id' });
+      } else if (contents.pages.some(other => other.id === page.id)) {
+        issues.push({ path: `${path}.id`, message: `Duplicate page id "${page.id}"` });
+      } else if (content) {
+        contents.pages.push({ id: page.id, ...content });
+      }
+    });
+  }
+
+  if (raw.templates !== undefined && !Array.isArray(raw.templates)) {
+    issues.push({ path: 'templates', message: 'Expected a list of templates' });
+  } else {
+    (raw.templates as unknown[] | undefined)?.forEach((template, index) => {
+      const path = `templates[${index}]`;
+      if (!isObject(template) || typeof template.id !== 'string' || typeof template.name !== 'string') {
+        issues.push({ path, message: 'Expected a template with id, name and content' });
+        return;
+      }
+      const content = readNestedPage(template.content, `${path}.content`, lookupType, issues);
+      if (content) {
+        contents.templates.push({
+          id: template.id,
+          name: template.name,
+          description: typeof template.description === 'string' ? template.description : '',
+          builtin: false,
+          content,
+        });
+      }
+    });
+  }
+
+  (['layouts', 'filters'] as const).forEach(key => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if (!isObject(value)) {
+      issues.push({ path: key, message: 'Expected entries by name' });
+      return;
+    }
+    Object.entries(value).forEach(([name, entry]) => {
+      if (key === 'layouts' && isObject(entry)) {
+        contents.layouts[name] = toResponsiveLayouts(entry);
+      } else if (key === 'filters' && Array.isArray(entry) && isFilterKey(name)) {
+        contents.filters[name] = entry;
+      } else if (key === 'filters' && isLegacyFilterKey(name)) {
+        // Stale S3 widget filters listed by older exports; the widgets carry their own
+      } else {
+        issues.push({ path: `${key}.${name}`, message: key === 'layouts' ? 'Expected layouts per breakpoint' : 'Expected a saved table filter' });
+      }
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new PageConfigError(issues);
+  }
+  return contents;
+};
+
+/**
+ * Combines the workspace's pages with imported ones
+ * When merging, pages already in the workspace unchanged are skipped, and a
+ * page whose ID is taken by a different page is added under a new ID.
+ * @param {WorkspacePage[]} current - The workspace's pages
+ * @param {WorkspacePage[]} imported - The bundle's pages
+ * @param {WorkspaceImportMode} mode - Merge or replace
+ * @returns {PageMergeResult} The pages afterwards and what happened to the bundle's pages
+ */
+export const mergePages = (
+  current: WorkspacePage[],
+  imported: WorkspacePage[],
+  mode: WorkspaceImportMode
+): PageMergeResult => {
+  if (mode === 'replace') {
+    return { pages: imported, added: imported.length, skipped: 0 };
+  }
+  const pages = [...current];
+  let skipped = 0;
+  imported.forEach(page => {
+    const existing = current.find(candidate => candidate.id === page.id);
+    if (!existing) {
+      pages.push(page);
+    } else if (JSON.stringify(toPageConfig(existing)) === JSON.stringify(toPageConfig(page))) {
+      skipped += 1;
+    } else {
+      pages.push({ ...page, id: Math.random().toString(36).substr(2, 9) });
+    }
+  });
+  return { pages, added: imported.length - skipped, skipped };
+};
+
+/**
+ * Combines the saved templates with imported ones
+ * @param {PageTemplate[]} current - The saved templates
+ * @param {PageTemplate[]} imported - The bundle's templates
+ * @param {WorkspaceImportMode} mode - Merge (templates with a known ID are skipped) or replace
+ * @returns {PageTemplate[]} The saved templates afterwards
+ */
+export const mergeTemplates = (
+  current: PageTemplate[],
+  imported: PageTemplate[],
+  mode: WorkspaceImportMode
+): PageTemplate[] =>
+  mode === 'replace'
+    ? imported
+    : [...current, ...imported.filter(template => !current.some(existing => existing.id === template.id))];
@@ -0,0 +1,145 @@
+/**
+ * Data Binding Editor Component
+ *
+ * Settings editor for chart widgets bound to inventory data: picks the
+ * resource type, the field to group by, the metric and an optional filter query.
+ * Charts whose config has a `splitBy` value also get a field to split groups into series.
+ * Widgets showing a single total (e.g. KPIs) use it without the grouping fields.
+ */
+
+import React from 'react';
+import { MenuItem, Stack, TextField } from '@mui/material';
+import { DataBinding } from '../types/dashboard';
+import { FilterField, validateFilterElements } from '../utils/filterExpression';
+import { FilterQueryError, parseFilterQuery } from '../utils/filterQuery';
+import { getGroupByFields, getMetricOptions, COUNT_METRIC } from '../utils/aggregate';
+import { DATA_SOURCES, getDataSource } from './dataSources';
+import { WidgetSettingsEditorProps } from './types';
+
+/**
+ * Returns the error of a filter query, or null if it is valid
+ * @param {string} query - The filter query
+ * @param {FilterField[]} fields - Fields the query may reference
+ */
+const getQueryError = (query: string, fields: FilterField<unknown>[]): string | null => {
+  try {
+    return validateFilterElements(parseFilterQuery(query, fields))?.message ?? null;
+  } catch (error) {
+    if (error instanceof FilterQueryError) {
+      return error.message;
+    }
+    throw error;
+  }
+};
+
+/**
+ * DataBindingEditorProps Interface
+ * @property {boolean} [grouping=true] - Whether to show the Group By (and Split By) fields
+ */
+interface DataBindingEditorProps<C extends DataBinding> extends WidgetSettingsEditorProps<C> {
+  grouping?: boolean;
+}
+
+/**
+ * DataBindingEditor Component
+ *
+ * @component
+ * @param {DataBindingEditorProps<C>} props - Component props
+ */
+const DataBindingEditor = <C extends DataBinding>({ config, onChange, grouping = true }: DataBindingEditorProps<C>) => {
+  const source = getDataSource(config.resource) ?? DATA_SOURCES[0];
+  const groupByFields = getGroupByFields(source.fields);
+  const metrics = getMetricOptions(source.fields);
+  const queryError = getQueryError(config.filter, source.fields);
+
+  /**
+   * Switches the resource type, keeping the group-by field when the new type has it
+   * The filter is cleared since its fields usually differ between resource types.
+   * @param {string} resource - The new data source id
+   */
+  const handleResourceChange = (resource: string) => {
+    const next = getDataSource(resource) ?? DATA_SOURCES[0];
+    const nextGroupBy = getGroupByFields(next.fields);
+    onChange({
+      ...config,
+      resource,
+      groupBy: !grouping || nextGroupBy.some(field => field.field === config.groupBy) ? config.groupBy : nextGroupBy[0].field,
+      metric: COUNT_METRIC,
+      filter: '',
+      ...(config.splitBy !== undefined && {
+        splitBy: nextGroupBy.some(field => field.field === config.splitBy) ? config.splitBy : '',
+      }),
+    });
+  };
+
+  return (
+    <Stack spacing={2} sx={{ pt: 1 }}>
+      <TextField
+        select
+        fullWidth
+        label="Resource Type"
+        value={source.resource}
+        onChange={(e) => handleResourceChange(e.target.value)}
+      >
+        {DATA_SOURCES.map(option => (
+          <MenuItem key={option.resource} value={option.resource}>{option.label}</MenuItem>
+        ))}
+      </TextField>
+      {grouping && (
+        <TextField
+          select
+          fullWidth
+          label="Group By"
+          value={groupByFields.some(field => field.field === config.groupBy) ? config.groupBy : ''}
+          onChange={(e) => onChange({
+            ...config,
+            groupBy: e.target.value,
+            // A group cannot be split by its own field
+            ...(config.splitBy === e.target.value && { splitBy: '' }),
+          })}
+        >
+          {groupByFields.map(field => (
+            <MenuItem key={field.field} value={field.field}>{field.label}</MenuItem>
+          ))}
+        </TextField>
+      )}
+      {grouping && config.splitBy !== undefined && (
+        <TextField
+          select
+          fullWidth
+          label="Split By"
+          value={groupByFields.some(field => field.field === config.splitBy) ? config.splitBy : ''}
+          helperText="Optional. Each value becomes a separate series."
+          onChange={(e) => onChange({ ...config, splitBy: e.target.value })}
+        >
+          <MenuItem value="">None</MenuItem>
+          {groupByFields.filter(field => field.field !== config.groupBy).map(field => (
+            <MenuItem key={field.field} value={field.field}>{field.label}</MenuItem>
+          ))}
+        </TextField>
+      )}
+      <TextField
+        select
+        fullWidth
+        label="Metric"
+        value={metrics.some(metric => metric.id === config.metric) ? config.metric : ''}
+        onChange={(e) => onChange({ ...config, metric: e.target.value })}
+      >
+        {metrics.map(metric => (
+          <MenuItem key={metric.id} value={metric.id}>{metric.label}</MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        fullWidth
+        label="Filter"
+        value={config.filter}
+        placeholder="e.g. region = us-east-1 AND size > 1 TB"
+        error={Boolean(queryError)}
+        helperText={queryError ?? 'Optional. Uses the same query syntax as the inventory tables.'}
+        onChange={(e) => onChange({ ...config, filter: e.target.value })}
+      />
+    </Stack>
+  );
+};
+
+export default DataBindingEditor;
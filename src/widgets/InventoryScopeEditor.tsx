@@ -0,0 +1,61 @@
+/**
+ * Inventory Scope Editor Component
+ *
+ * Settings editor for the inventory summary widget: restricts the card to an
+ * account and/or region, choosing from those present in the loaded inventory.
+ */
+
+import React from 'react';
+import { MenuItem, Stack, TextField } from '@mui/material';
+import { InventorySummaryWidgetConfig } from '../types/dashboard';
+import { useInventory } from '../context/InventoryContext';
+import { getInventoryScopes } from '../utils/inventorySummary';
+import { WidgetSettingsEditorProps } from './types';
+
+/**
+ * InventoryScopeEditor Component
+ *
+ * @component
+ * @param {WidgetSettingsEditorProps<InventorySummaryWidgetConfig>} props - Component props
+ */
+const InventoryScopeEditor: React.FC<WidgetSettingsEditorProps<InventorySummaryWidgetConfig>> = ({ config, onChange }) => {
+  const { data: s3Buckets } = useInventory('s3Buckets');
+  const { data: ec2Instances } = useInventory('ec2Instances');
+  const { data: rdsClusters } = useInventory('rdsClusters');
+  const { accounts, regions } = getInventoryScopes({ s3Buckets, ec2Instances, rdsClusters });
+
+  // Keep a saved scope selectable even if nothing in the current inventory matches it
+  const withCurrent = (options: string[], current: string) =>
+    current && !options.includes(current) ? [...options, current] : options;
+
+  return (
+    <Stack spacing={2} sx={{ pt: 1 }}>
+      <TextField
+        select
+        fullWidth
+        label="Account"
+        value={config.account}
+        onChange={(e) => onChange({ ...config, account: e.target.value })}
+      >
+        <MenuItem value="">All accounts</MenuItem>
+        {withCurrent(accounts, config.account).map(account => (
+          <MenuItem key={account} value={account}>{account}</MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        fullWidth
+        label="Region"
+        value={config.region}
+        onChange={(e) => onChange({ ...config, region: e.target.value })}
+      >
+        <MenuItem value="">All regions</MenuItem>
+        {withCurrent(regions, config.region).map(region => (
+          <MenuItem key={region} value={region}>{region}</MenuItem>
+        ))}
+      </TextField>
+    </Stack>
+  );
+};
+
+export default InventoryScopeEditor;
@@ -0,0 +1,91 @@
+/**
+ * KPI Settings Editor Component
+ *
+ * Settings editor for the KPI widget: the data binding of the number (without
+ * grouping), its formatting and the warning and critical thresholds.
+ */
+
+import React from 'react';
+import { Divider, MenuItem, Stack, TextField } from '@mui/material';
+import { KpiWidgetConfig } from '../types/dashboard';
+import { getMetricOptions } from '../utils/aggregate';
+import { parseThreshold, resolveKpiUnit } from '../utils/kpi';
+import DataBindingEditor from './DataBindingEditor';
+import { DATA_SOURCES, getDataSource } from './dataSources';
+import { WidgetSettingsEditorProps } from './types';
+
+/**
+ * KpiSettingsEditor Component
+ *
+ * @component
+ * @param {WidgetSettingsEditorProps<KpiWidgetConfig>} props - Component props
+ */
+const KpiSettingsEditor: React.FC<WidgetSettingsEditorProps<KpiWidgetConfig>> = ({ config, onChange }) => {
+  const source = getDataSource(config.resource) ?? DATA_SOURCES[0];
+  const valueType = getMetricOptions(source.fields).find(option => option.id === config.metric)?.valueType ?? 'number';
+  const example = resolveKpiUnit(config.unit, valueType) === 'bytes' ? 'e.g. 50 TB' : 'e.g. 100';
+
+  // Thresholds are kept as typed; invalid ones are flagged and ignored by the widget
+  const thresholdError = (value: string) =>
+    value.trim() !== '' && parseThreshold(value, config.unit, valueType) === null;
+
+  return (
+    <Stack spacing={2}>
+      <DataBindingEditor config={config} onChange={onChange} grouping={false} />
+      <Divider />
+      <Stack direction="row" spacing={2}>
+        <TextField
+          select
+          fullWidth
+          label="Format"
+          value={config.unit}
+          onChange={(e) => onChange({ ...config, unit: e.target.value as KpiWidgetConfig['unit'] })}
+        >
+          <MenuItem value="auto">Automatic</MenuItem>
+          <MenuItem value="bytes">Bytes (1.5 TB)</MenuItem>
+          <MenuItem value="number">Number (12,345)</MenuItem>
+          <MenuItem value="compact">Compact (12K)</MenuItem>
+        </TextField>
+        <TextField
+          fullWidth
+          label="Suffix"
+          value={config.suffix}
+          placeholder="e.g. buckets"
+          onChange={(e) => onChange({ ...config, suffix: e.target.value })}
+        />
+      </Stack>
+      <TextField
+        select
+        fullWidth
+        label="Alert When"
+        value={config.direction}
+        onChange={(e) => onChange({ ...config, direction: e.target.value as KpiWidgetConfig['direction'] })}
+      >
+        <MenuItem value="above">Value is at or above a threshold</MenuItem>
+        <MenuItem value="below">Value is at or below a threshold</MenuItem>
+      </TextField>
+      <Stack direction="row" spacing={2}>
+        <TextField
+          fullWidth
+          label="Warning Threshold"
+          value={config.warning}
+          placeholder={example}
+          error={thresholdError(config.warning)}
+          helperText={thresholdError(config.warning) ? 'Not a valid value' : 'Optional'}
+          onChange={(e) => onChange({ ...config, warning: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="Critical Threshold"
+          value={config.critical}
+          placeholder={example}
+          error={thresholdError(config.critical)}
+          helperText={thresholdError(config.critical) ? 'Not a valid value' : 'Optional'}
+          onChange={(e) => onChange({ ...config, critical: e.target.value })}
+        />
+      </Stack>
+    </Stack>
+  );
+};
+
+export default KpiSettingsEditor;
@@ -0,0 +1,93 @@
+/**
+ * Schema Settings Editor Component
+ *
+ * The default settings editor for widget types that declare a config schema
+ * but no custom SettingsEditor. Renders one input per schema field.
+ */
+
+import React from 'react';
+import { FormControlLabel, MenuItem, Stack, Switch, TextField } from '@mui/material';
+import { WidgetConfig } from '../types/dashboard';
+import { WidgetConfigField, WidgetSettingsEditorProps } from './types';
+
+interface SchemaSettingsEditorProps extends WidgetSettingsEditorProps {
+  schema: WidgetConfigField[];
+}
+
+/**
+ * SchemaSettingsEditor Component
+ *
+ * @component
+ * @param {SchemaSettingsEditorProps} props - Component props
+ */
+const SchemaSettingsEditor: React.FC<SchemaSettingsEditorProps> = ({ schema, config, onChange }) => {
+  /**
+   * Updates a single config value
+   * @param {string} key - The config property
+   * @param {unknown} value - The new value
+   */
+  const setValue = (key: string, value: unknown) => {
+    onChange({ ...config, [key]: value } as WidgetConfig);
+  };
+
+  return (
+    <Stack spacing={2} sx={{ pt: 1 }}>
+      {schema.map((field) => {
+        const value = config[field.key];
+        switch (field.type) {
+          case 'boolean':
+            return (
+              <FormControlLabel
+                key={field.key}
+                control={<Switch checked={Boolean(value)} onChange={(e) => setValue(field.key, e.target.checked)} />}
+                label={field.label}
+              />
+            );
+          case 'select':
+            return (
+              <TextField
+                key={field.key}
+                select
+                fullWidth
+                label={field.label}
+                value={value ?? ''}
+                helperText={field.helperText}
+                onChange={(e) => setValue(field.key, e.target.value)}
+              >
+                {(field.options ?? []).map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+            );
+          case 'number':
+            return (
+              <TextField
+                key={field.key}
+                type="number"
+                fullWidth
+                label={field.label}
+                value={value ?? ''}
+                helperText={field.helperText}
+                onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+              />
+            );
+          default:
+            return (
+              <TextField
+                key={field.key}
+                fullWidth
+                multiline={field.type === 'multiline'}
+                minRows={field.type === 'multiline' ? 4 : undefined}
+                label={field.label}
+                value={value ?? ''}
+                helperText={field.helperText}
+                onChange={(e) => setValue(field.key, e.target.value)}
+              />
+            );
+        }
+      })}
+    </Stack>
+  );
+};
+
+export default SchemaSettingsEditor;
@@ -0,0 +1,55 @@
+/**
+ * Widget Settings Dialog Component
+ *
+ * Edits a widget's config with its type's SettingsEditor, or with the generic
+ * schema-driven editor when the type only declares a config schema. Changes
+ * are kept in a draft until saved.
+ */
+
+import React, { useState } from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle } from '@mui/material';
+import { Widget, WidgetConfig } from '../types/dashboard';
+import { getWidgetConfig, getWidgetDefinition } from './registry';
+import SchemaSettingsEditor from './SchemaSettingsEditor';
+
+interface WidgetSettingsDialogProps {
+  widget: Widget;
+  onClose: () => void;
+  onSave: (config: WidgetConfig) => void;
+}
+
+/**
+ * WidgetSettingsDialog Component
+ *
+ * Rendered only while a widget is being edited; the draft is taken from the
+ * widget when the dialog mounts.
+ *
+ * @component
+ * @param {WidgetSettingsDialogProps} props - Component props
+ * @param {Widget} props.widget - Widget to edit
+ * @param {Function} props.onClose - Closes the dialog without saving
+ * @param {Function} props.onSave - Saves the edited config
+ */
+const WidgetSettingsDialog: React.FC<WidgetSettingsDialogProps> = ({ widget, onClose, onSave }) => {
+  const [draft, setDraft] = useState<WidgetConfig>(() => getWidgetConfig(widget));
+  const definition = getWidgetDefinition(widget.type);
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{widget.title} Settings</DialogTitle>
+      <DialogContent>
+        {definition?.SettingsEditor ? (
+          <definition.SettingsEditor config={draft} onChange={setDraft} />
+        ) : (
+          <SchemaSettingsEditor schema={definition?.configSchema ?? []} config={draft} onChange={setDraft} />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={() => onSave(draft)} variant="contained">Save</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WidgetSettingsDialog;
@@ -0,0 +1,200 @@
+/**
+ * Built-in Widget Types
+ *
+ * Registers the widget types that ship with the dashboard. Additional widget
+ * types register themselves the same way from their own modules, which are
+ * then imported from `src/widgets/index.ts`.
+ */
+
+import React from 'react';
+import { Box } from '@mui/material';
+import {
+  TextFields as TextIcon,
+  Inventory2 as InventoryIcon,
+  PieChart as PieChartIcon,
+  BarChart as BarChartIcon,
+  AlignHorizontalLeft as HorizontalBarChartIcon,
+  ShowChart as LineChartIcon,
+  StackedLineChart as StackedAreaChartIcon,
+  ViewQuilt as TreemapIcon,
+  Speed as KpiIcon,
+  Storage as StorageIcon,
+} from '@mui/icons-material';
+import { loadLegacyState, registerWidget } from './registry';
+import {
+  InventorySummaryWidgetConfig,
+  KpiWidgetConfig,
+  PieChartWidgetConfig,
+  S3BucketsWidgetConfig,
+  SeriesChartWidgetConfig,
+  TextWidgetConfig,
+} from '../types/dashboard';
+import TextWidget from '../components/Widget/TextWidget';
+import InventorySummaryWidget from '../components/Widget/InventorySummaryWidget';
+import PieChartWidget from '../components/Widget/PieChartWidget';
+import SeriesChartWidget, { SeriesChartVariant } from '../components/Widget/SeriesChartWidget';
+import TreemapWidget from '../components/Widget/TreemapWidget';
+import KpiWidget from '../components/Widget/KpiWidget';
+import S3BucketsTable from '../components/Tables/S3BucketsTable';
+import DataBindingEditor from './DataBindingEditor';
+import InventoryScopeEditor from './InventoryScopeEditor';
+import KpiSettingsEditor from './KpiSettingsEditor';
+
+registerWidget<TextWidgetConfig>({
+  type: 'text',
+  displayName: 'Text Widget',
+  icon: TextIcon,
+  defaultSize: { w: 6, h: 4 },
+  configSchema: [
+    { key: 'text', label: 'Text', type: 'multiline', helperText: 'Markdown: headings, lists, links, tables and code blocks' },
+  ],
+  defaultConfig: { text: '' },
+  component: ({ config, onConfigChange }) => (
+    <TextWidget text={config.text} onTextChange={(text) => onConfigChange({ ...config, text })} />
+  ),
+});
+
+registerWidget<InventorySummaryWidgetConfig>({
+  type: 'inventory',
+  displayName: 'Inventory Summary',
+  icon: InventoryIcon,
+  defaultSize: { w: 12, h: 3 },
+  defaultConfig: { account: '', region: '' },
+  component: ({ config }) => <InventorySummaryWidget config={config} />,
+  SettingsEditor: InventoryScopeEditor,
+});
+
+registerWidget<PieChartWidgetConfig>({
+  type: 'pie-chart',
+  displayName: 'Pie Chart',
+  icon: PieChartIcon,
+  defaultSize: { w: 6, h: 4 },
+  defaultConfig: { resource: 's3Buckets', groupBy: 'region', metric: 'count', filter: '' },
+  component: ({ widget, config }) => <PieChartWidget widgetId={widget.id} binding={config} />,
+  SettingsEditor: DataBindingEditor,
+});
+
+/**
+ * Bar, line and area charts share one component and the pie chart's data
+ * binding, plus an optional field that splits each group into series
+ */
+const seriesCharts: Array<{
+  type: string;
+  displayName: string;
+  icon: React.ElementType;
+  variant: SeriesChartVariant;
+  defaultConfig: SeriesChartWidgetConfig;
+}> = [
+  {
+    type: 'bar-chart',
+    displayName: 'Bar Chart',
+    icon: BarChartIcon,
+    variant: 'bar',
+    // Storage by account
+    defaultConfig: { resource: 's3Buckets', groupBy: 'account', metric: 'sum:size', filter: '', splitBy: '' },
+  },
+  {
+    type: 'horizontal-bar-chart',
+    displayName: 'Horizontal Bar Chart',
+    icon: HorizontalBarChartIcon,
+    variant: 'horizontalBar',
+    defaultConfig: { resource: 's3Buckets', groupBy: 'region', metric: 'sum:size', filter: '', splitBy: '' },
+  },
+  {
+    type: 'line-chart',
+    displayName: 'Line Chart',
+    icon: LineChartIcon,
+    variant: 'line',
+    defaultConfig: { resource: 's3Buckets', groupBy: 'region', metric: 'sum:weeklyGrowth', filter: '', splitBy: '' },
+  },
+  {
+    type: 'stacked-area-chart',
+    displayName: 'Stacked Area Chart',
+    icon: StackedAreaChartIcon,
+    variant: 'stackedArea',
+    defaultConfig: {
+      resource: 's3Buckets',
+      groupBy: 'region',
+      metric: 'sum:size',
+      filter: '',
+      splitBy: 'storageClass',
+    },
+  },
+];
+
+seriesCharts.forEach(({ variant, ...chart }) => {
+  registerWidget<SeriesChartWidgetConfig>({
+    ...chart,
+    defaultSize: { w: 8, h: 4 },
+    component: ({ widget, config }) => <SeriesChartWidget widgetId={widget.id} binding={config} variant={variant} />,
+    SettingsEditor: DataBindingEditor,
+  });
+});
+
+registerWidget<PieChartWidgetConfig>({
+  type: 'treemap',
+  displayName: 'Treemap',
+  icon: TreemapIcon,
+  defaultSize: { w: 8, h: 5 },
+  // Size per bucket
+  defaultConfig: { resource: 's3Buckets', groupBy: 'name', metric: 'sum:size', filter: '' },
+  component: ({ widget, config }) => <TreemapWidget widgetId={widget.id} binding={config} />,
+  SettingsEditor: DataBindingEditor,
+});
+
+registerWidget<KpiWidgetConfig>({
+  type: 'kpi',
+  displayName: 'KPI',
+  icon: KpiIcon,
+  defaultSize: { w: 4, h: 3 },
+  // Total S3 storage
+  defaultConfig: {
+    resource: 's3Buckets',
+    groupBy: '',
+    metric: 'sum:size',
+    filter: '',
+    unit: 'auto',
+    suffix: '',
+    warning: '',
+    critical: '',
+    direction: 'above',
+  },
+  component: ({ widget, config }) => <KpiWidget widgetId={widget.id} config={config} />,
+  SettingsEditor: KpiSettingsEditor,
+});
+
+/**
+ * Before filters moved into the widget config, S3 bucket tables kept them in
+ * localStorage under a per-widget key, and shared pages carried them in a
+ * top-level `filters` field. Both are still read so older pages keep their filters.
+ */
+const legacyS3FiltersKey = (widgetId: string) => `s3-buckets-filters-${widgetId}`;
+
+registerWidget<S3BucketsWidgetConfig>({
+  type: 's3-buckets',
+  displayName: 'S3 Buckets',
+  icon: StorageIcon,
+  defaultSize: { w: 12, h: 6 },
+  defaultConfig: { filters: [] },
+  component: ({ widget, config, onConfigChange }) => (
+    <Box sx={{ width: '100%', height: '100%', p: 2 }}>
+      <S3BucketsTable
+        widgetId={widget.id}
+        filters={config.filters}
+        onFiltersChange={(filters) => onConfigChange({ ...config, filters })}
+      />
+    </Box>
+  ),
+  deserialize: (exported, config) => (
+    Array.isArray(exported.filters) && config.filters.length === 0
+      ? { ...config, filters: exported.filters }
+      : config
+  ),
+  migrateLegacyState: (widget) => {
+    const saved = loadLegacyState(legacyS3FiltersKey(widget.id));
+    return Array.isArray(saved) && !widget.config?.filters ? { ...widget.config, filters: saved } : undefined;
+  },
+  removeLegacyState: (widgetId) => {
+    localStorage.removeItem(legacyS3FiltersKey(widgetId));
+  },
+});
@@ -0,0 +1,56 @@
+/**
+ * Chart Data Sources
+ *
+ * The inventory resource types chart widgets can be bound to. Each source
+ * reuses the filter field definitions of its inventory table, so the fields a
+ * table can filter on are the fields a chart can group by and total.
+ */
+
+import { InventoryResourceType } from '../types/inventory';
+import { FilterField } from '../utils/filterExpression';
+import { s3FilterFields } from '../components/Tables/S3BucketsTable';
+import { ec2FilterFields } from '../components/Tables/EC2InstancesTable';
+import { rdsFilterFields } from '../components/Tables/RDSClustersTable';
+import { clusterFilterFields } from '../components/Tables/ECSInventory';
+
+/**
+ * DataSource Interface
+ * @property {InventoryResourceType} resource - Inventory resource type the rows are loaded from
+ * @property {string} label - Name shown in the data binding editor
+ * @property {FilterField[]} fields - Fields available for grouping, totals and filters
+ */
+export interface DataSource<T = unknown> {
+  resource: InventoryResourceType;
+  label: string;
+  fields: FilterField<T>[];
+}
+
+/**
+ * Erases a data source's record type, so sources of all resource types fit one list
+ * Rows are loaded by the source's resource type, so its fields can read them
+ * as that type's records.
+ * @param {DataSource<T>} source - The data source
+ * @returns {DataSource} The same data source, reading rows of any type
+ */
+const defineDataSource = <T>(source: DataSource<T>): DataSource => ({
+  ...source,
+  fields: source.fields.map(field => ({ ...field, getValue: (row: unknown) => field.getValue(row as T) })),
+});
+
+/**
+ * Available data sources, in the order the editor lists them
+ */
+export const DATA_SOURCES: DataSource[] = [
+  defineDataSource({ resource: 's3Buckets', label: 'S3 Buckets', fields: s3FilterFields }),
+  defineDataSource({ resource: 'ec2Instances', label: 'EC2 Instances', fields: ec2FilterFields }),
+  defineDataSource({ resource: 'rdsClusters', label: 'RDS Clusters', fields: rdsFilterFields }),
+  defineDataSource({ resource: 'ecsClusters', label: 'ECS Clusters', fields: clusterFilterFields }),
+];
+
+/**
+ * Looks up a data source
+ * @param {string} resource - Data source id
+ * @returns {DataSource | undefined} The data source, or undefined if the id is unknown
+ */
+export const getDataSource = (resource: string): DataSource | undefined =>
+  DATA_SOURCES.find(source => source.resource === resource);
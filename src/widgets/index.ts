@@ -0,0 +1,25 @@
+/**
+ * Widget Registry Entry Point
+ *
+ * Importing this module registers every available widget type. To add a
+ * widget type, create a module that calls `registerWidget` and import it below.
+ */
+
+import './builtinWidgets';
+
+export {
+  registerWidget,
+  getWidgetDefinition,
+  getWidgetDefinitions,
+  getWidgetConfig,
+  migrateWidget,
+  loadLegacyState,
+  hasWidgetSettings,
+} from './registry';
+export type {
+  WidgetDefinition,
+  WidgetProps,
+  WidgetSettingsEditorProps,
+  WidgetConfigField,
+  WidgetConfigFieldType,
+} from './types';
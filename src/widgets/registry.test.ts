@@ -0,0 +1,81 @@
+import {
+  getWidgetConfig,
+  getWidgetDefinition,
+  hasWidgetSettings,
+  loadLegacyState,
+  migrateWidget,
+  registerWidget,
+} from './registry';
+
+registerWidget<{ label: string; size: number }>({
+  type: 'test-widget',
+  displayName: 'Test Widget',
+  icon: () => null,
+  defaultSize: { w: 4, h: 3 },
+  configSchema: [{ key: 'label', label: 'Label', type: 'string' }],
+  defaultConfig: { label: 'Default', size: 1 },
+  component: () => null,
+});
+
+const widget = { id: 'w1', title: 'Test', type: 'test-widget', config: {}, x: 0, y: 0, w: 4, h: 3 };
+
+describe('widget registry', () => {
+  test('looks up registered types', () => {
+    expect(getWidgetDefinition('test-widget')?.displayName).toBe('Test Widget');
+    expect(getWidgetDefinition('missing')).toBeUndefined();
+    expect(hasWidgetSettings('test-widget')).toBe(true);
+    expect(hasWidgetSettings('missing')).toBe(false);
+  });
+
+  test('rejects duplicate types', () => {
+    expect(() => registerWidget({
+      type: 'test-widget',
+      displayName: 'Duplicate',
+      icon: () => null,
+      defaultSize: { w: 1, h: 1 },
+      component: () => null,
+    })).toThrow('Widget type "test-widget" is already registered');
+  });
+
+  test('migrates legacy state into the config', () => {
+    registerWidget<{ items: string[] }>({
+      type: 'legacy-widget',
+      displayName: 'Legacy Widget',
+      icon: () => null,
+      defaultSize: { w: 1, h: 1 },
+      component: () => null,
+      migrateLegacyState: (legacy) => (legacy.config?.items ? undefined : { items: ['restored'] }),
+    });
+    const stored = { ...widget, type: 'legacy-widget', config: undefined } as unknown as typeof widget;
+    expect(migrateWidget(stored).config).toEqual({ items: ['restored'] });
+    expect(migrateWidget({ ...widget, config: undefined } as unknown as typeof widget).config).toEqual({});
+  });
+
+  test('skips unreadable legacy state', () => {
+    registerWidget<{ filters: unknown[] }>({
+      type: 'legacy-filters-widget',
+      displayName: 'Legacy Filters Widget',
+      icon: () => null,
+      defaultSize: { w: 1, h: 1 },
+      component: () => null,
+      migrateLegacyState: (legacy) => {
+        const saved = loadLegacyState(`legacy-filters-${legacy.id}`);
+        return Array.isArray(saved) ? { filters: saved } : undefined;
+      },
+    });
+    localStorage.setItem('legacy-filters-w1', '[{"field":"name"');
+    localStorage.setItem('legacy-filters-w2', '[{"field":"name"}]');
+    const stored = { ...widget, type: 'legacy-filters-widget', config: undefined } as unknown as typeof widget;
+
+    expect(loadLegacyState('legacy-filters-w1')).toBeUndefined();
+    expect(loadLegacyState('legacy-filters-missing')).toBeUndefined();
+    expect(migrateWidget(stored).config).toEqual({});
+    expect(migrateWidget({ ...stored, id: 'w2' }).config).toEqual({ filters: [{ field: 'name' }] });
+    localStorage.clear();
+  });
+
+  test('merges widget config over the defaults', () => {
+    expect(getWidgetConfig(widget)).toEqual({ label: 'Default', size: 1 });
+    expect(getWidgetConfig({ ...widget, config: { label: 'Custom' } })).toEqual({ label: 'Custom', size: 1 });
+  });
+});
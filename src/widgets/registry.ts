@@ -0,0 +1,108 @@
+/**
+ * Widget Registry
+ *
+ * Holds the widget types available on custom pages. Each type registers itself
+ * once, at module load, with `registerWidget`; CustomPage and CustomPagesContext
+ * only ever look types up here.
+ */
+
+import React from 'react';
+import { Widget, WidgetConfig, WidgetType } from '../types/dashboard';
+import { WidgetDefinition } from './types';
+
+const definitions = new Map<WidgetType, WidgetDefinition>();
+
+/**
+ * Erases a widget type's config type, so definitions of all types fit one registry
+ * Configs are stored as plain records; the type's functions receive them as
+ * its own config type, which is the one place that is taken on trust.
+ * @param {WidgetDefinition<C>} definition - The widget type
+ * @returns {WidgetDefinition} The same widget type, taking any config
+ */
+const eraseConfigType = <C extends WidgetConfig>(definition: WidgetDefinition<C>): WidgetDefinition => {
+  const toConfig = (config: WidgetConfig) => config as C;
+  const toWidget = (widget: Widget) => widget as Widget<C>;
+  const { component: Component, SettingsEditor: Editor, serialize, deserialize, migrateLegacyState } = definition;
+  return {
+    ...definition,
+    component: ({ widget, config, onConfigChange }) =>
+      React.createElement(Component, { widget: toWidget(widget), config: toConfig(config), onConfigChange }),
+    SettingsEditor: Editor && (({ config, onChange }) =>
+      React.createElement(Editor, { config: toConfig(config), onChange })),
+    serialize: serialize && (widget => serialize(toWidget(widget))),
+    deserialize: deserialize && ((exported, config) => deserialize(exported, toConfig(config))),
+    migrateLegacyState: migrateLegacyState && (widget => migrateLegacyState(toWidget(widget))),
+  };
+};
+
+/**
+ * Registers a widget type
+ * @param {WidgetDefinition<C>} definition - The widget type
+ * @throws {Error} If a widget type with the same identifier is already registered
+ */
+export const registerWidget = <C extends WidgetConfig>(definition: WidgetDefinition<C>) => {
+  if (definitions.has(definition.type)) {
+    throw new Error(`Widget type "${definition.type}" is already registered`);
+  }
+  definitions.set(definition.type, eraseConfigType(definition));
+};
+
+/**
+ * Looks up a widget type
+ * @param {WidgetType} type - The widget type identifier
+ * @returns {WidgetDefinition | undefined} The definition, if the type is registered
+ */
+export const getWidgetDefinition = (type: WidgetType): WidgetDefinition | undefined => definitions.get(type);
+
+/**
+ * Lists all registered widget types in registration order
+ * @returns {WidgetDefinition[]} The definitions
+ */
+export const getWidgetDefinitions = (): WidgetDefinition[] => Array.from(definitions.values());
+
+/**
+ * Resolves a widget's effective config: its own values over the type's defaults
+ * @param {Widget} widget - The widget
+ * @returns {WidgetConfig} The config
+ */
+export const getWidgetConfig = (widget: Widget): WidgetConfig => ({
+  ...getWidgetDefinition(widget.type)?.defaultConfig,
+  ...widget.config,
+});
+
+/**
+ * Reads widget state a type kept in localStorage before it moved into the widget config
+ * For use in `migrateLegacyState`: corrupt state is skipped rather than
+ * thrown, so one bad key cannot stop the pages from loading.
+ * @param {string} key - localStorage key of the legacy state
+ * @returns {unknown} The parsed state, or undefined if there is none or it is unreadable
+ */
+export const loadLegacyState = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Brings a stored widget up to date: moves state its type used to keep outside
+ * the page model into its config, and gives widgets saved without a config one
+ * @param {Widget} widget - The widget as stored
+ * @returns {Widget} The widget with its config in place
+ */
+export const migrateWidget = (widget: Widget): Widget => {
+  const migrated = getWidgetDefinition(widget.type)?.migrateLegacyState?.(widget);
+  return { ...widget, config: migrated ?? widget.config ?? {} };
+};
+
+/**
+ * Checks whether a widget type has any settings to edit
+ * @param {WidgetType} type - The widget type identifier
+ * @returns {boolean} True if the type is registered with a settings editor or a config schema
+ */
+export const hasWidgetSettings = (type: WidgetType): boolean => {
+  const definition = getWidgetDefinition(type);
+  return Boolean(definition?.SettingsEditor || definition?.configSchema?.length);
+};
@@ -0,0 +1,88 @@
+/**
+ * Widget Registry Types
+ *
+ * Describes what a widget type provides when it registers itself: how it is
+ * listed in the Add Widget dialog, how it renders, which settings it has and
+ * how any state kept outside the page model travels through share/import.
+ */
+
+import React from 'react';
+import { Widget, WidgetConfig } from '../types/dashboard';
+
+/**
+ * Props passed to a widget's component
+ * @property {Widget} widget - The widget being rendered
+ * @property {C} config - The widget's config merged over the type's defaultConfig
+ * @property {Function} onConfigChange - Saves a new config for the widget
+ */
+export interface WidgetProps<C extends WidgetConfig = WidgetConfig> {
+  widget: Widget<C>;
+  config: C;
+  onConfigChange: (config: C) => void;
+}
+
+/**
+ * Props passed to a widget's settings editor
+ * @property {C} config - The config being edited
+ * @property {Function} onChange - Replaces the config being edited
+ */
+export interface WidgetSettingsEditorProps<C extends WidgetConfig = WidgetConfig> {
+  config: C;
+  onChange: (config: C) => void;
+}
+
+/**
+ * Input types supported by the generic, schema-driven settings editor
+ */
+export type WidgetConfigFieldType = 'string' | 'multiline' | 'number' | 'boolean' | 'select';
+
+/**
+ * WidgetConfigField Interface
+ *
+ * Describes one setting of a widget type.
+ * @property {string} key - Property name in the widget config
+ * @property {string} label - Label shown in the settings editor
+ * @property {WidgetConfigFieldType} type - Input type
+ * @property {Object[]} [options] - Choices for 'select' fields
+ * @property {string} [helperText] - Hint shown under the input
+ */
+export interface WidgetConfigField {
+  key: string;
+  label: string;
+  type: WidgetConfigFieldType;
+  options?: Array<{ value: string; label: string }>;
+  helperText?: string;
+}
+
+/**
+ * WidgetDefinition Interface
+ *
+ * Everything the dashboard needs to know about a widget type.
+ * @property {string} type - Unique type identifier, stored on each widget
+ * @property {string} displayName - Name shown in the Add Widget dialog
+ * @property {React.ElementType} icon - Icon shown next to the display name
+ * @property {Object} defaultSize - Initial width and height in grid units
+ * @property {WidgetConfigField[]} [configSchema] - Settings, edited with the generic editor
+ * @property {C} [defaultConfig] - Config given to new widgets
+ * @property {React.ComponentType} component - Renders the widget content
+ * @property {React.ComponentType} [SettingsEditor] - Custom editor replacing the generic one
+ * @property {Function} [serialize] - Returns extra fields to include when the page is shared
+ * @property {Function} [deserialize] - Builds the config of an imported widget from its exported fields
+ * @property {Function} [migrateLegacyState] - Returns the config for a widget saved before its state
+ *   moved into the page model, or undefined if there is nothing to migrate
+ * @property {Function} [removeLegacyState] - Deletes state kept outside the page model for a widget
+ */
+export interface WidgetDefinition<C extends WidgetConfig = WidgetConfig> {
+  type: string;
+  displayName: string;
+  icon: React.ElementType;
+  defaultSize: { w: number; h: number };
+  configSchema?: WidgetConfigField[];
+  defaultConfig?: C;
+  component: React.ComponentType<WidgetProps<C>>;
+  SettingsEditor?: React.ComponentType<WidgetSettingsEditorProps<C>>;
+  serialize?: (widget: Widget<C>) => Record<string, unknown>;
+  deserialize?: (exported: Record<string, unknown>, config: C) => C;
+  migrateLegacyState?: (widget: Widget<C>) => C | undefined;
+  removeLegacyState?: (widgetId: string) => void;
+}